@@ -1,21 +1,55 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { DynamoDBModule } from './dynamodb/dynamodb.module';
 import { AuthorsModule } from './authors/authors.module';
 import { CategoriesModule } from './categories/categories.module';
 import { BooksModule } from './books/books.module';
 import { AuthModule } from './auth/auth.module';
+import { HoldsModule } from './holds/holds.module';
+import { FinesModule } from './fines/fines.module';
+import { PoliciesModule } from './policies/policies.module';
+import { HistoryModule } from './history/history.module';
+import { ReviewsModule } from './reviews/reviews.module';
+import { SearchModule } from './search/search.module';
+import { CopiesModule } from './copies/copies.module';
+import { ImportsModule } from './imports/imports.module';
+import { ExportsModule } from './exports/exports.module';
+import { SeriesModule } from './series/series.module';
+import { TagsModule } from './tags/tags.module';
+import { WorksModule } from './works/works.module';
+import { BranchesModule } from './branches/branches.module';
+import { TransfersModule } from './transfers/transfers.module';
+import { UploadsModule } from './uploads/uploads.module';
+import { StorageModule } from './storage/storage.module';
 
 @Module({
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
     }),
+    ScheduleModule.forRoot(),
     DynamoDBModule,
     AuthorsModule,
     CategoriesModule,
     BooksModule,
     AuthModule,
+    HoldsModule,
+    FinesModule,
+    PoliciesModule,
+    HistoryModule,
+    ReviewsModule,
+    SearchModule,
+    CopiesModule,
+    ImportsModule,
+    ExportsModule,
+    SeriesModule,
+    TagsModule,
+    WorksModule,
+    BranchesModule,
+    TransfersModule,
+    UploadsModule,
+    StorageModule,
   ],
 })
 export class AppModule {}
@@ -23,10 +23,12 @@ import { UpdateAuthorDto } from './dto/update-author.dto';
 import { CognitoAuthGuard } from '../auth/cognito.guard';
 import { Author } from './interfaces/author.interface';
 import { Book } from 'src/books/interfaces/book.interface';
+import { HidePdfInterceptor } from 'src/books/interceptors/hide-pdf.interceptor';
 import { Roles, UserRole } from 'src/auth/decorators/roles.decorator';
 import { RolesGuard } from 'src/auth/roles.guard';
 
 @Controller('authors')
+@UseInterceptors(HidePdfInterceptor)
 export class AuthorsController {
   private readonly logger = new Logger(AuthorsController.name);
 
@@ -4,9 +4,11 @@ import { AuthorsController } from './authors.controller';
 import { DynamoDBModule } from 'src/dynamodb/dynamodb.module';
 import { AuthModule } from 'src/auth/auth.module';
 import { S3Module } from 'src/s3/s3.module';
+import { SearchModule } from 'src/search/search.module';
+import { ImagesModule } from 'src/images/images.module';
 
 @Module({
-  imports: [DynamoDBModule, AuthModule, S3Module],
+  imports: [DynamoDBModule, AuthModule, S3Module, SearchModule, ImagesModule],
   controllers: [AuthorsController],
   providers: [AuthorsService],
   exports: [AuthorsService],
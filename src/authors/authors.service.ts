@@ -1,6 +1,9 @@
 // src/authors/authors.service.ts
-import { Injectable, Logger } from '@nestjs/common';
-import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
 import { CreateAuthorDto } from './dto/create-author.dto';
 import { UpdateAuthorDto } from './dto/update-author.dto';
 import { Author } from './interfaces/author.interface';
@@ -12,6 +15,7 @@ import {
   UpdateCommand,
   DeleteCommand,
   QueryCommand,
+  BatchGetCommand,
 } from '@aws-sdk/lib-dynamodb';
 import {
   AuthorNotFoundException,
@@ -21,7 +25,13 @@ import {
   AuthorDeleteException,
 } from './exceptions/author.exceptions';
 import { S3Service } from '../s3/s3.service';
-import { Book, BookStatus } from 'src/books/interfaces/book.interface';
+import { SearchService } from '../search/search.service';
+import { ImagesService } from '../images/images.service';
+import {
+  Book,
+  BookStatus,
+  ContributorRole,
+} from 'src/books/interfaces/book.interface';
 @Injectable()
 export class AuthorsService {
   private readonly tableName = 'Authors';
@@ -30,6 +40,8 @@ export class AuthorsService {
   constructor(
     private readonly dynamoDBService: DynamoDBService,
     private readonly s3Service: S3Service,
+    private readonly searchService: SearchService,
+    private readonly imagesService: ImagesService,
   ) {}
 
   async create(
@@ -37,11 +49,6 @@ export class AuthorsService {
     profilePicture?: Express.Multer.File,
   ): Promise<Author> {
     try {
-      // Validate profile field to only accept images
-      if (profilePicture && !profilePicture.mimetype.startsWith('image/')) {
-        throw new Error('Profile must be an image file');
-      }
-
       const existingAuthorsResult = await this.findByName(
         createAuthorDto.name,
         1,
@@ -58,18 +65,19 @@ export class AuthorsService {
         throw new AuthorAlreadyExistsException(createAuthorDto.name);
       }
 
-      let profileUrl: string | undefined;
-      if (profilePicture) {
-        profileUrl = await this.s3Service.uploadFile(
-          profilePicture,
-          'authors/profiles',
-        );
-      }
+      // Decoding the picture is what checks it is really an image
+      const profilePictures = profilePicture
+        ? await this.imagesService.storeRenditions(
+            profilePicture.buffer,
+            'authors/profiles',
+          )
+        : undefined;
 
       const author: Author = {
         id: uuidv4(),
         ...createAuthorDto,
-        profile: profileUrl,
+        profile: profilePictures?.original,
+        profilePictures,
         booksCount: 0,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -82,6 +90,7 @@ export class AuthorsService {
       });
 
       await this.dynamoDBService.documentClient.send(command);
+      await this.searchService.indexAuthor(author);
       this.logger.log(`Created author with ID: ${author.id}`);
       return author;
     } catch (error) {
@@ -89,7 +98,10 @@ export class AuthorsService {
         `Failed to create author: ${error.message}`,
         error.stack,
       );
-      if (error instanceof AuthorAlreadyExistsException) {
+      if (
+        error instanceof AuthorAlreadyExistsException ||
+        error instanceof BadRequestException
+      ) {
         throw error;
       }
       throw new AuthorCreateException(error.message);
@@ -221,17 +233,54 @@ export class AuthorsService {
     }
   }
 
+  // Matches imported records to an existing author, creating a bare one
+  // that only has a name when none matches
+  async findOrCreateByName(name: string): Promise<Author> {
+    try {
+      const existing = await this.findByName(name, 1).catch((error) => {
+        if (error instanceof AuthorNotFoundException) {
+          return { authors: [] as Author[] };
+        }
+        throw error;
+      });
+      if (existing.authors.length > 0) {
+        return existing.authors[0];
+      }
+
+      const author: Author = {
+        id: uuidv4(),
+        name,
+        genres: [],
+        booksCount: 0,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: author,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+      await this.searchService.indexAuthor(author);
+      this.logger.log(`Created author ${author.id} for name "${name}"`);
+      return author;
+    } catch (error) {
+      this.logger.error(
+        `Failed to find or create author "${name}": ${error.message}`,
+        error.stack,
+      );
+      throw new AuthorCreateException(error.message);
+    }
+  }
+
   async update(
     id: string,
     updateAuthorDto: UpdateAuthorDto,
     profilePicture?: Express.Multer.File,
   ): Promise<{ message: string; author: Author }> {
     try {
-      // Validate profile field to only accept images
-      if (profilePicture && !profilePicture.mimetype.startsWith('image/')) {
-        throw new Error('Profile must be an image file');
-      }
-
       // Check if author exists
       const existingAuthorResponse = await this.findOne(id);
       const existingAuthor = existingAuthorResponse.author;
@@ -258,13 +307,12 @@ export class AuthorsService {
         }
       }
 
-      let profileUrl: string | undefined;
-      if (profilePicture) {
-        profileUrl = await this.s3Service.uploadFile(
-          profilePicture,
-          'authors/profiles',
-        );
-      }
+      const profilePictures = profilePicture
+        ? await this.imagesService.storeRenditions(
+            profilePicture.buffer,
+            'authors/profiles',
+          )
+        : undefined;
 
       const updateExpression: string[] = [];
       const expressionAttributeNames: Record<string, string> = {};
@@ -278,10 +326,15 @@ export class AuthorsService {
         }
       });
 
-      if (profileUrl) {
-        updateExpression.push('#profile = :profile');
+      if (profilePictures) {
+        updateExpression.push(
+          '#profile = :profile',
+          '#profilePictures = :profilePictures',
+        );
         expressionAttributeNames['#profile'] = 'profile';
-        expressionAttributeValues[':profile'] = profileUrl;
+        expressionAttributeNames['#profilePictures'] = 'profilePictures';
+        expressionAttributeValues[':profile'] = profilePictures.original;
+        expressionAttributeValues[':profilePictures'] = profilePictures;
       }
 
       updateExpression.push('#updatedAt = :updatedAt');
@@ -298,10 +351,15 @@ export class AuthorsService {
       });
 
       const response = await this.dynamoDBService.documentClient.send(command);
+      const author = response.Attributes as Author;
+      if (profilePictures) {
+        await this.removeProfilePicture(existingAuthor);
+      }
+      await this.searchService.indexAuthor(author);
       this.logger.log(`Updated author with ID: ${id}`);
       return {
         message: 'Author updated successfully',
-        author: response.Attributes as Author,
+        author,
       };
     } catch (error) {
       this.logger.error(
@@ -310,7 +368,8 @@ export class AuthorsService {
       );
       if (
         error instanceof AuthorNotFoundException ||
-        error instanceof AuthorAlreadyExistsException
+        error instanceof AuthorAlreadyExistsException ||
+        error instanceof BadRequestException
       ) {
         throw error;
       }
@@ -318,6 +377,57 @@ export class AuthorsService {
     }
   }
 
+  // Stores the renditions of a picture uploaded directly to S3 and removes
+  // the ones they replace
+  async attachProfile(id: string, image: Buffer): Promise<Author> {
+    try {
+      const { author: existingAuthor } = await this.findOne(id);
+      const profilePictures = await this.imagesService.storeRenditions(
+        image,
+        'authors/profiles',
+      );
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression:
+            'SET #profile = :profile, profilePictures = :profilePictures, updatedAt = :updatedAt',
+          ExpressionAttributeNames: { '#profile': 'profile' },
+          ExpressionAttributeValues: {
+            ':profile': profilePictures.original,
+            ':profilePictures': profilePictures,
+            ':updatedAt': new Date().toISOString(),
+          },
+          ConditionExpression: 'attribute_exists(id)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      await this.removeProfilePicture(existingAuthor);
+
+      const author = response.Attributes as Author;
+      await this.searchService.indexAuthor(author);
+      this.logger.log(`Attached profile picture to author with ID: ${id}`);
+      return author;
+    } catch (error) {
+      this.logger.error(
+        `Failed to attach profile picture to author ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (
+        error instanceof AuthorNotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new AuthorNotFoundException(id);
+      }
+      throw new AuthorUpdateException(error.message);
+    }
+  }
+
   async remove(id: string): Promise<{ message: string }> {
     try {
       const existingAuthorResponse = await this.findOne(id);
@@ -335,6 +445,8 @@ export class AuthorsService {
       });
 
       await this.dynamoDBService.documentClient.send(command);
+      await this.searchService.removeAuthor(id);
+      await this.removeProfilePicture(author);
       this.logger.log(`Deleted author with ID: ${id}`);
 
       return {
@@ -379,6 +491,24 @@ export class AuthorsService {
     }
   }
 
+  // Counter update to run inside a book transaction; a missing author or a
+  // count that would go negative cancels the whole transaction
+  booksCountTransactItem(id: string, delta: 1 | -1): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression: 'SET booksCount = booksCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND booksCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
   async incrementBooksCount(id: string): Promise<void> {
     try {
       const command = new UpdateCommand({
@@ -438,31 +568,47 @@ export class AuthorsService {
     }
   }
 
+  // Books the author contributed to are linked in BookContributors. Books
+  // catalogued before contributors have no link and are found as the
+  // primary author's instead
   async findBooksByAuthor(
     authorId: string,
   ): Promise<{ message: string; books: Book[] }> {
     try {
-      const result = await this.dynamoDBService.documentClient.send(
-        new QueryCommand({
+      const [linkedBookIds, primaryBooks] = await Promise.all([
+        this.queryAll<{ bookId: string }>({
+          TableName: 'BookContributors',
+          KeyConditionExpression: 'authorId = :authorId',
+          ExpressionAttributeValues: { ':authorId': authorId },
+        }).then((links) => links.map((link) => link.bookId)),
+        this.queryAll<Book>({
           TableName: 'Books',
           IndexName: 'AuthorIndex',
           KeyConditionExpression: 'authorId = :authorId',
-          ExpressionAttributeValues: {
-            ':authorId': authorId,
-          },
+          ExpressionAttributeValues: { ':authorId': authorId },
         }),
-      );
+      ]);
 
-      const books = result.Items as Book[];
+      const booksById = new Map(primaryBooks.map((book) => [book.id, book]));
+      const missingIds = linkedBookIds.filter((id) => !booksById.has(id));
+      for (const book of await this.batchGetBooks(missingIds)) {
+        booksById.set(book.id, book);
+      }
 
-      // Update status based on quantity
-      books.forEach((book) => {
-        if (book.quantity > 0) {
-          book.status = BookStatus.AVAILABLE;
-        } else {
-          book.status = BookStatus.UNAVAILABLE;
-        }
-      });
+      const books = [...booksById.values()].map((book) => ({
+        ...book,
+        // Update status based on quantity
+        status:
+          book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE,
+        hasPdf: Boolean(book.pdf),
+        roles: (
+          book.contributors ?? [
+            { authorId: book.authorId, role: ContributorRole.AUTHOR },
+          ]
+        )
+          .filter((contributor) => contributor.authorId === authorId)
+          .map((contributor) => contributor.role),
+      }));
 
       return {
         message: 'Books retrieved successfully',
@@ -476,4 +622,56 @@ export class AuthorsService {
       throw error;
     }
   }
+
+  private async queryAll<T>(params: {
+    TableName: string;
+    IndexName?: string;
+    KeyConditionExpression: string;
+    ExpressionAttributeValues: Record<string, any>;
+  }): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({ ...params, ExclusiveStartKey: exclusiveStartKey }),
+      );
+
+      items.push(...((response.Items || []) as T[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  private async batchGetBooks(ids: string[]): Promise<Book[]> {
+    const books: Book[] = [];
+
+    // BatchGetItem accepts at most 100 keys per request
+    for (let i = 0; i < ids.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        Books: { Keys: ids.slice(i, i + 100).map((id) => ({ id })) },
+      };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        books.push(...((response.Responses?.Books || []) as Book[]));
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return books;
+  }
+
+  // Pictures uploaded before renditions were generated are a single file
+  private async removeProfilePicture(author: Author): Promise<void> {
+    if (author.profilePictures) {
+      await this.imagesService.removeRenditions(author.profilePictures);
+    } else if (author.profile) {
+      await this.s3Service.deleteFile(author.profile);
+    }
+  }
 }
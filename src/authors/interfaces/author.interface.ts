@@ -1,10 +1,14 @@
+import { ImageRenditions } from '../../images/interfaces/image-renditions.interface';
+
 export interface Author {
   id: string;
   name: string;
-  biography: string;
-  birthDate: string;
-  nationality: string;
-  email: string;
+  // Authors created from imported catalogue records only carry a name until
+  // a librarian completes them
+  biography?: string;
+  birthDate?: string;
+  nationality?: string;
+  email?: string;
   socialMedia?: {
     facebook?: string;
     twitter?: string;
@@ -12,7 +16,9 @@ export interface Author {
   };
   genres: string[];
   booksCount: number;
+  // The original rendition; list views should use the thumbnail
   profile?: string;
+  profilePictures?: ImageRenditions;
   createdAt: string;
   updatedAt: string;
 }
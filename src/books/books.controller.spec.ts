@@ -49,7 +49,7 @@ describe('BooksController', () => {
   });
 
   it('should return all books', async () => {
-    const result = await controller.findAll(10);
+    const result = await controller.findAll({ limit: 10 });
     expect(result).toEqual({
       message: 'Books retrieved successfully',
       books: [],
@@ -15,20 +15,28 @@ import {
   Request,
   Query,
   InternalServerErrorException,
-  ParseIntPipe,
+  ParseFloatPipe,
+  HttpException,
 } from '@nestjs/common';
 import { FileFieldsInterceptor } from '@nestjs/platform-express';
 import { BooksService } from './books.service';
 import { CreateBookDto } from './dto/create-book.dto';
 import { UpdateBookDto } from './dto/update-book.dto';
-import { Book } from './interfaces/book.interface';
+import { Book, BookFacets } from './interfaces/book.interface';
+import { FindBooksQueryDto } from './dto/find-books-query.dto';
+import { SearchBooksQueryDto } from './dto/search-books-query.dto';
 import { CognitoAuthGuard } from 'src/auth/cognito.guard';
 import { BorrowBookDto } from './dto/borrow-book.dto';
+import { CheckoutCopyDto } from './dto/checkout-copy.dto';
+import { CheckinCopyDto } from './dto/checkin-copy.dto';
+import { ReturnBookDto } from './dto/return-book.dto';
 import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Roles, UserRole } from 'src/auth/decorators/roles.decorator';
 import { RolesGuard } from 'src/auth/roles.guard';
+import { HidePdfInterceptor } from './interceptors/hide-pdf.interceptor';
 
 @Controller('books')
+@UseInterceptors(HidePdfInterceptor)
 export class BooksController {
   constructor(private readonly booksService: BooksService) {}
 
@@ -86,20 +94,54 @@ export class BooksController {
       pdf?: Express.Multer.File[];
     },
   ): Promise<Book> {
-    return this.booksService.create(createBookDto, files);
+    // Files can be left out and uploaded afterwards through /uploads, which
+    // large PDFs have to be
+    return this.booksService.create(createBookDto, files ?? {});
   }
 
   @Get()
+  @ApiOperation({
+    summary: 'Filter, sort and page books, with facet counts for each filter',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns a page of matching books, the total and the facet counts',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
   async findAll(
-    @Query('limit') limit = 10,
-    @Query('lastEvaluatedKey') lastEvaluatedKey?: string,
-  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
-    return this.booksService.findAll(limit, lastEvaluatedKey);
+    @Query(new ValidationPipe({ transform: true })) query: FindBooksQueryDto,
+  ): Promise<{
+    message: string;
+    books: Book[];
+    total: number;
+    facets: BookFacets;
+    lastEvaluatedKey?: string;
+  }> {
+    return this.booksService.findAll(query);
   }
 
   @Get(':id')
   async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Book> {
-    return this.booksService.findOne(id);
+    return this.booksService.findOneWithSeries(id);
+  }
+
+  @Get(':id/read')
+  @UseGuards(CognitoAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Get an expiring link to read the book PDF' })
+  @ApiResponse({ status: 200, description: 'Link issued successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - The book is not on a current loan of the reader',
+  })
+  @ApiResponse({ status: 404, description: 'Book or PDF not found' })
+  async read(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ): Promise<{ url: string; expiresAt: string }> {
+    return this.booksService.getReadUrl(id, req.user.sub, req.user.groups);
   }
 
   @Get('category/:categoryId')
@@ -123,20 +165,47 @@ export class BooksController {
   }
 
   @Get('rating/:rating')
+  @ApiOperation({ summary: 'Get books rated at least the given score' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns matching books, best rated first',
+  })
+  @ApiResponse({ status: 400, description: 'Rating must be between 1 and 5' })
   async findByRating(
-    @Param('rating', ParseIntPipe) rating: number,
+    @Param('rating', ParseFloatPipe) rating: number,
   ): Promise<{ message: string; books: Book[] }> {
+    if (rating < 1 || rating > 5) {
+      throw new BadRequestException('Rating must be between 1 and 5');
+    }
     return this.booksService.findByRating(rating);
   }
 
   @Get('search/query')
+  @ApiOperation({
+    summary: 'Search books by title, description, ISBN or author',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns matching books ordered by relevance',
+  })
+  @ApiResponse({ status: 400, description: 'Invalid query, limit or offset' })
   async search(
-    @Query('query') query: string,
-  ): Promise<{ message: string; books: Book[] }> {
-    if (!query) {
-      throw new BadRequestException('Search query is required');
-    }
-    return this.booksService.search(query);
+    @Query(new ValidationPipe({ transform: true })) query: SearchBooksQueryDto,
+  ): Promise<{ message: string; books: Book[]; total: number }> {
+    return this.booksService.search(
+      query.query,
+      query.limit ?? 10,
+      query.offset ?? 0,
+    );
+  }
+
+  @Get('isbn/:isbn')
+  @ApiOperation({ summary: 'Get a book by its ISBN-10 or ISBN-13' })
+  @ApiResponse({ status: 200, description: 'Returns the book' })
+  @ApiResponse({ status: 400, description: 'Invalid ISBN' })
+  @ApiResponse({ status: 404, description: 'Book not found' })
+  async findByIsbn(@Param('isbn') isbn: string): Promise<Book> {
+    return this.booksService.findByIsbn(isbn);
   }
 
   @Get('title/:title')
@@ -187,7 +256,16 @@ export class BooksController {
   )
   async update(
     @Param('id', ParseUUIDPipe) id: string,
-    @Body() updateBookDto: UpdateBookDto,
+    // Transformed so a contributors list sent as a JSON form field arrives
+    // parsed
+    @Body(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      }),
+    )
+    updateBookDto: UpdateBookDto,
     @UploadedFiles()
     files: {
       cover?: Express.Multer.File[];
@@ -206,6 +284,10 @@ export class BooksController {
     description: 'Bad Request - Various validation errors',
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - The last copy was borrowed concurrently',
+  })
   async borrow(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() borrowBookDto: BorrowBookDto,
@@ -213,27 +295,83 @@ export class BooksController {
   ): Promise<Book> {
     try {
       const borrowerId = req.user.sub;
-      const result = await this.booksService.borrow(id, {
-        ...borrowBookDto,
-        borrowerId,
-      });
+      const result = await this.booksService.borrow(
+        id,
+        { ...borrowBookDto, borrowerId },
+        req.user.groups,
+      );
       return result;
     } catch (error) {
-      if (error instanceof BadRequestException) {
+      if (error instanceof HttpException) {
         throw error;
       }
       throw new InternalServerErrorException('Failed to borrow book');
     }
   }
 
+  @Post(':id/renew')
+  @UseGuards(CognitoAuthGuard)
+  @ApiOperation({ summary: 'Extend the loan of a borrowed book' })
+  @ApiResponse({ status: 201, description: 'Loan renewed successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 409,
+    description:
+      'Conflict - Renewal refused, the reason field names the rule that blocked it',
+  })
+  async renew(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ): Promise<Book> {
+    return this.booksService.renew(id, req.user.sub, req.user.groups);
+  }
+
   @Post(':id/return')
   @UseGuards(CognitoAuthGuard)
   async returnBook(
     @Param('id', ParseUUIDPipe) id: string,
+    @Body() returnBookDto: ReturnBookDto,
     @Request() req, // Add this to get the user context
   ): Promise<Book> {
     const userId = req.user.sub; // Get the user ID
-    return this.booksService.returnBook(id, userId); // Pass userId to service
+    return this.booksService.returnBook(id, userId, returnBookDto?.branchId); // Pass userId to service
+  }
+
+  @Post('checkout')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Lend a scanned copy to a reader at the desk' })
+  @ApiResponse({ status: 201, description: 'Copy checked out successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - The copy or the reader cannot borrow',
+  })
+  @ApiResponse({ status: 404, description: 'Copy not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - The copy was checked out concurrently',
+  })
+  async checkout(@Body() checkoutCopyDto: CheckoutCopyDto): Promise<Book> {
+    return this.booksService.checkout(checkoutCopyDto);
+  }
+
+  @Post('checkin')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Take back a scanned copy at the desk' })
+  @ApiResponse({ status: 201, description: 'Copy checked in successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - The copy is not checked out',
+  })
+  @ApiResponse({ status: 404, description: 'Copy not found' })
+  async checkin(@Body() checkinCopyDto: CheckinCopyDto): Promise<Book> {
+    return this.booksService.checkin(
+      checkinCopyDto.barcode,
+      checkinCopyDto.branchId,
+    );
   }
 
   @Delete(':id')
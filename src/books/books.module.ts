@@ -6,11 +6,41 @@ import { AuthModule } from '../auth/auth.module';
 import { S3Module } from 'src/s3/s3.module';
 import { AuthorsModule } from '../authors/authors.module';
 import { CategoriesModule } from '../categories/categories.module';
+import { LoansModule } from '../loans/loans.module';
+import { HoldsModule } from '../holds/holds.module';
+import { FinesModule } from '../fines/fines.module';
+import { PoliciesModule } from '../policies/policies.module';
+import { HistoryModule } from '../history/history.module';
+import { SearchModule } from '../search/search.module';
+import { CopiesModule } from '../copies/copies.module';
+import { SeriesModule } from '../series/series.module';
+import { TagsModule } from '../tags/tags.module';
+import { TransfersModule } from '../transfers/transfers.module';
+import { ImagesModule } from '../images/images.module';
+import { PdfsModule } from '../pdfs/pdfs.module';
 
 @Module({
-  imports: [DynamoDBModule, AuthModule, S3Module, AuthorsModule, CategoriesModule],
+  imports: [
+    DynamoDBModule,
+    AuthModule,
+    S3Module,
+    AuthorsModule,
+    CategoriesModule,
+    LoansModule,
+    HoldsModule,
+    FinesModule,
+    PoliciesModule,
+    HistoryModule,
+    SearchModule,
+    CopiesModule,
+    SeriesModule,
+    TagsModule,
+    TransfersModule,
+    ImagesModule,
+    PdfsModule,
+  ],
   controllers: [BooksController],
   providers: [BooksService],
   exports: [BooksService],
 })
-export class BooksModule {}
\ No newline at end of file
+export class BooksModule {}
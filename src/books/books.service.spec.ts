@@ -1,12 +1,76 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { BooksService } from './books.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { S3Service } from '../s3/s3.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AuthorsService } from '../authors/authors.service';
+import { LoansService } from '../loans/loans.service';
+import { HoldsService } from '../holds/holds.service';
+import { FinesService } from '../fines/fines.service';
+import { PoliciesService } from '../policies/policies.service';
+import { HistoryService } from '../history/history.service';
+import { SearchService, branchFacet } from '../search/search.service';
+import { CopiesService } from '../copies/copies.service';
+import { SeriesService } from '../series/series.service';
+import { TagsService } from '../tags/tags.service';
+import { TransfersService } from '../transfers/transfers.service';
+import { ImagesService } from '../images/images.service';
+import { PdfsService } from '../pdfs/pdfs.service';
+import { BookStatus, ContributorRole } from './interfaces/book.interface';
+import { CopyStatus } from '../copies/interfaces/copy.interface';
+
+const counterItem = (id: string, delta: number) => ({
+  Update: { Key: { id }, delta },
+});
 
 describe('BooksService', () => {
+  let module: TestingModule;
   let service: BooksService;
+  let send: jest.Mock;
+  let failedTransactionConditions: jest.Mock;
 
   beforeEach(async () => {
-    const module: TestingModule = await Test.createTestingModule({
-      providers: [BooksService],
+    send = jest.fn();
+    failedTransactionConditions = jest.fn().mockReturnValue([]);
+
+    module = await Test.createTestingModule({
+      providers: [
+        BooksService,
+        SeriesService,
+        TagsService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send }, failedTransactionConditions },
+        },
+        {
+          provide: AuthorsService,
+          useValue: { booksCountTransactItem: counterItem },
+        },
+        {
+          provide: CategoriesService,
+          useValue: { booksCountTransactItem: counterItem },
+        },
+        {
+          provide: SearchService,
+          useValue: {
+            indexBook: jest.fn(),
+            refreshBook: jest.fn(),
+            removeBook: jest.fn(),
+          },
+        },
+        ...[
+          S3Service,
+          LoansService,
+          HoldsService,
+          FinesService,
+          PoliciesService,
+          HistoryService,
+          CopiesService,
+          TransfersService,
+          ImagesService,
+          PdfsService,
+        ].map((provide) => ({ provide, useValue: {} })),
+      ],
     }).compile();
 
     service = module.get<BooksService>(BooksService);
@@ -15,4 +79,944 @@ describe('BooksService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findByIsbn', () => {
+    it('should look an ISBN-10 up by its ISBN-13 form', async () => {
+      send
+        .mockResolvedValueOnce({
+          Item: { isbn: '9780140449136', bookId: 'b1' },
+        })
+        .mockResolvedValueOnce({ Item: { id: 'b1', quantity: 1 } });
+
+      const book = await service.findByIsbn('0-14-044913-2');
+
+      expect(send.mock.calls[0][0].input.Key).toEqual({
+        isbn: '9780140449136',
+      });
+      expect(book.id).toBe('b1');
+    });
+
+    it('should reject a malformed ISBN', async () => {
+      await expect(service.findByIsbn('0-14-044913-9')).rejects.toThrow(
+        'not a valid ISBN',
+      );
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    const books = [
+      { id: 'b1', title: 'Dune', quantity: 2, pdf: 'books/pdfs/b1.pdf' },
+      { id: 'b2', title: 'Children of Dune', quantity: 0 },
+      { id: 'b3', title: 'Emma', quantity: 1 },
+    ];
+    let browse: jest.Mock;
+
+    beforeEach(() => {
+      browse = jest.fn().mockResolvedValue({
+        ids: ['b2', 'b1'],
+        total: 3,
+        facets: {
+          categoryId: { classics: 1, scifi: 2 },
+          authorId: { austen: 1, herbert: 3 },
+          status: { AVAILABLE: 2, UNAVAILABLE: 1 },
+          publishedYear: { 1810: 1, 1960: 1, 1970: 1 },
+          rating: { 1: 2, 2: 2, 3: 2, 4: 1 },
+          tags: {},
+        },
+      });
+      Object.assign(module.get(SearchService), { browse });
+      // The batch read answers in its own order
+      send.mockImplementation(async ({ input }) => ({
+        Responses: {
+          Books: books
+            .filter(({ id }) =>
+              input.RequestItems.Books.Keys.some((key) => key.id === id),
+            )
+            .map((book) => ({ ...book })),
+        },
+      }));
+    });
+
+    it('should hand every filter to the index under its facet', async () => {
+      await service.findAll({
+        categoryId: 'scifi',
+        authorId: 'herbert',
+        available: true,
+        yearFrom: 1960,
+        minRating: 3,
+        tag: 'desert',
+      });
+
+      expect(browse.mock.calls[0][0].filters).toEqual({
+        categoryId: { facet: 'categoryId', values: ['scifi'] },
+        authorId: { facet: 'authorId', values: ['herbert'] },
+        status: { facet: 'status', values: [BookStatus.AVAILABLE] },
+        publishedYear: {
+          value: 'publishedYear',
+          min: 1960,
+          max: undefined,
+        },
+        rating: { value: 'rating', min: 3 },
+        tags: { facet: 'tags', values: ['desert'] },
+      });
+    });
+
+    it('should match nothing for contradicting status filters', async () => {
+      await service.findAll({ status: BookStatus.AVAILABLE, available: false });
+
+      expect(browse.mock.calls[0][0].filters.status.values).toEqual([]);
+    });
+
+    it('should sort titles A to Z and everything else best first', async () => {
+      await service.findAll({ sortBy: 'title' });
+      await service.findAll({});
+
+      expect(browse.mock.calls.map(([options]) => options)).toEqual([
+        expect.objectContaining({ sortBy: 'title', sortOrder: 'asc' }),
+        expect.objectContaining({ sortBy: 'createdAt', sortOrder: 'desc' }),
+      ]);
+    });
+
+    it('should return the page in index order', async () => {
+      const result = await service.findAll({});
+
+      expect(
+        result.books.map(({ id, status, hasPdf }) => ({ id, status, hasPdf })),
+      ).toEqual([
+        { id: 'b2', status: BookStatus.UNAVAILABLE, hasPdf: false },
+        { id: 'b1', status: BookStatus.AVAILABLE, hasPdf: true },
+      ]);
+      expect(result.total).toBe(3);
+    });
+
+    it('should order facet values by count, years and ratings from the top', async () => {
+      const { facets } = await service.findAll({});
+
+      expect(facets.authorId).toEqual([
+        { value: 'herbert', count: 3 },
+        { value: 'austen', count: 1 },
+      ]);
+      expect(facets.publishedYear.map(({ value }) => value)).toEqual([
+        '1970',
+        '1960',
+        '1810',
+      ]);
+      expect(facets.rating.map(({ value }) => value)).toEqual([
+        '4',
+        '3',
+        '2',
+        '1',
+      ]);
+    });
+
+    it('should page with an opaque cursor', async () => {
+      const firstPage = await service.findAll({ limit: 2 });
+      expect(firstPage.lastEvaluatedKey).toBeDefined();
+
+      await service.findAll({
+        limit: 2,
+        lastEvaluatedKey: firstPage.lastEvaluatedKey,
+      });
+      expect(browse.mock.calls[1][0]).toMatchObject({ limit: 2, offset: 2 });
+
+      await expect(
+        service.findAll({ lastEvaluatedKey: 'not-a-cursor' }),
+      ).rejects.toThrow('Invalid lastEvaluatedKey');
+    });
+  });
+
+  describe('contributors', () => {
+    const book = {
+      id: 'b1',
+      title: 'The Odyssey',
+      isbn: '9780140449136',
+      authorId: 'homer',
+      categoryId: 'poetry',
+      publishedYear: 1997,
+      quantity: 0,
+      contributors: [
+        { authorId: 'homer', role: ContributorRole.AUTHOR },
+        { authorId: 'fagles', role: ContributorRole.TRANSLATOR },
+      ],
+    };
+
+    it('should credit every contributor and count each author once', async () => {
+      send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      const created = await service.create({
+        title: 'The Odyssey',
+        isbn: '9780140449136',
+        authorId: 'homer',
+        categoryId: 'poetry',
+        publishedYear: 1997,
+        contributors: [
+          { authorId: 'fagles', role: ContributorRole.TRANSLATOR },
+          { authorId: 'homer', role: ContributorRole.AUTHOR },
+          { authorId: 'fagles', role: ContributorRole.EDITOR },
+        ],
+      });
+
+      expect(created.contributors).toEqual([
+        { authorId: 'homer', role: ContributorRole.AUTHOR },
+        { authorId: 'fagles', role: ContributorRole.TRANSLATOR },
+        { authorId: 'fagles', role: ContributorRole.EDITOR },
+      ]);
+      const items = send.mock.calls[1][0].input.TransactItems;
+      expect(items.slice(3)).toEqual([
+        counterItem('homer', 1),
+        counterItem('fagles', 1),
+        {
+          Put: {
+            TableName: 'BookContributors',
+            Item: { authorId: 'homer', bookId: created.id },
+          },
+        },
+        {
+          Put: {
+            TableName: 'BookContributors',
+            Item: { authorId: 'fagles', bookId: created.id },
+          },
+        },
+      ]);
+    });
+
+    it('should refuse a book without an author', async () => {
+      await expect(
+        service.create({
+          title: 'The Odyssey',
+          isbn: '9780140449136',
+          authorId: undefined,
+          categoryId: 'poetry',
+          publishedYear: 1997,
+          contributors: [
+            { authorId: 'fagles', role: ContributorRole.TRANSLATOR },
+          ],
+        }),
+      ).rejects.toThrow('at least one contributor with the AUTHOR role');
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should swap the primary author and keep the other contributors', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: book });
+
+      await service.update('b1', { authorId: 'homer-2' }, {});
+
+      const [update, ...items] = send.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.ExpressionAttributeValues).toMatchObject({
+        ':authorId': 'homer-2',
+        ':contributors': [
+          { authorId: 'homer-2', role: ContributorRole.AUTHOR },
+          { authorId: 'fagles', role: ContributorRole.TRANSLATOR },
+        ],
+        ':currentContributors': book.contributors,
+      });
+      expect(update.Update.ConditionExpression).toBe(
+        'attribute_exists(id) AND authorId = :currentAuthorId AND contributors = :currentContributors',
+      );
+      expect(items).toEqual([
+        counterItem('homer-2', 1),
+        counterItem('homer', -1),
+        {
+          Put: {
+            TableName: 'BookContributors',
+            Item: { authorId: 'homer-2', bookId: 'b1' },
+          },
+        },
+        {
+          Delete: {
+            TableName: 'BookContributors',
+            Key: { authorId: 'homer', bookId: 'b1' },
+          },
+        },
+      ]);
+    });
+
+    it('should move the book between category counters', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { ...book, categoryId: 'epics' } });
+
+      await service.update('b1', { categoryId: 'epics' }, {});
+
+      const [update, ...items] = send.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.ExpressionAttributeValues).toMatchObject({
+        ':categoryId': 'epics',
+        ':currentCategoryId': 'poetry',
+      });
+      expect(update.Update.ConditionExpression).toBe(
+        'attribute_exists(id) AND categoryId = :currentCategoryId',
+      );
+      expect(items).toEqual([
+        counterItem('poetry', -1),
+        counterItem('epics', 1),
+      ]);
+    });
+
+    it('should leave the review aggregates to the reviews', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({ Attributes: book });
+
+      await service.update(
+        'b1',
+        { title: 'Odyssey', rating: 5, ratingSum: 50, reviewsCount: 10 } as any,
+        {},
+      );
+
+      const { UpdateExpression } = send.mock.calls[1][0].input;
+      expect(UpdateExpression).toContain('#title = :title');
+      expect(UpdateExpression).not.toMatch(/rating|reviewsCount/);
+    });
+
+    it('should only set files from uploads', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({ Attributes: book });
+
+      await service.update(
+        'b1',
+        {
+          title: 'Odyssey',
+          pdf: 'books/pdfs/elsewhere.pdf',
+          cover: 'https://example.com/cover.jpg',
+          status: 'AVAILABLE',
+        } as any,
+        {},
+      );
+
+      const { UpdateExpression } = send.mock.calls[1][0].input;
+      expect(UpdateExpression).not.toMatch(/pdf|cover|status/);
+    });
+
+    it('should refuse a category that does not exist', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockRejectedValueOnce(new Error());
+      failedTransactionConditions.mockReturnValue([2]);
+
+      await expect(
+        service.update('b1', { categoryId: 'missing' }, {}),
+      ).rejects.toThrow('Category with ID "missing" not found');
+    });
+
+    it('should change roles without moving any counter', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({ Attributes: book });
+
+      await service.update(
+        'b1',
+        {
+          contributors: [
+            { authorId: 'homer', role: ContributorRole.AUTHOR },
+            { authorId: 'fagles', role: ContributorRole.EDITOR },
+          ],
+        },
+        {},
+      );
+
+      expect(send).toHaveBeenCalledTimes(2);
+      expect(send.mock.calls[1][0].input.TransactItems).toBeUndefined();
+    });
+  });
+
+  describe('series', () => {
+    const book = {
+      id: 'b1',
+      title: 'Dune Messiah',
+      isbn: '9780441172696',
+      authorId: 'herbert',
+      categoryId: 'scifi',
+      publishedYear: 1969,
+      quantity: 1,
+      seriesId: 'dune',
+      seriesVolume: 2,
+    };
+    const createBookDto = {
+      title: 'Dune Messiah',
+      isbn: '9780441172696',
+      authorId: 'herbert',
+      categoryId: 'scifi',
+      publishedYear: 1969,
+      seriesId: 'dune',
+      seriesVolume: 2,
+    };
+
+    it('should claim the volume and count it on the series', async () => {
+      send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      const created = await service.create(createBookDto);
+
+      const items = send.mock.calls[1][0].input.TransactItems;
+      expect(items.slice(5)).toEqual([
+        {
+          Put: {
+            TableName: 'SeriesVolumes',
+            Item: { seriesId: 'dune', volume: 2, bookId: created.id },
+            ConditionExpression: 'attribute_not_exists(seriesId)',
+          },
+        },
+        expect.objectContaining({
+          Update: expect.objectContaining({
+            TableName: 'Series',
+            Key: { id: 'dune' },
+            ExpressionAttributeValues: { ':delta': 1 },
+          }),
+        }),
+      ]);
+    });
+
+    it('should refuse a volume another book holds', async () => {
+      send.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error());
+      failedTransactionConditions.mockReturnValue([5]);
+
+      await expect(service.create(createBookDto)).rejects.toThrow(
+        'Volume 2 of series "dune" is already taken',
+      );
+    });
+
+    it('should refuse a volume number without a series', async () => {
+      await expect(
+        service.create({ ...createBookDto, seriesId: undefined }),
+      ).rejects.toThrow('A volume number needs a seriesId');
+      expect(send).not.toHaveBeenCalled();
+    });
+
+    it('should renumber a book within its series', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { ...book, seriesVolume: 3 } });
+
+      await service.update('b1', { seriesVolume: 3 }, {});
+
+      const [update, ...items] = send.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toContain(
+        'seriesId = :seriesId, seriesVolume = :seriesVolume',
+      );
+      expect(update.Update.ConditionExpression).toBe(
+        'attribute_exists(id) AND seriesId = :currentSeriesId AND seriesVolume = :currentSeriesVolume',
+      );
+      expect(items.map((item) => Object.keys(item)[0])).toEqual([
+        'Put',
+        'Delete',
+      ]);
+    });
+
+    it('should take a book out of its series', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { ...book, seriesId: undefined } });
+
+      await service.update('b1', { seriesId: null }, {});
+
+      const [update, release, counter] =
+        send.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toMatch(
+        / REMOVE seriesId, seriesVolume$/,
+      );
+      expect(release.Delete.Key).toEqual({ seriesId: 'dune', volume: 2 });
+      expect(counter.Update.ExpressionAttributeValues).toEqual({
+        ':delta': -1,
+        ':zero': 0,
+      });
+    });
+
+    it('should show the neighbouring volumes on a single book', async () => {
+      send.mockImplementation(async (command) => {
+        const { TableName, ScanIndexForward } = command.input;
+        if (TableName === 'Books') {
+          return { Item: book };
+        }
+        if (TableName === 'Series') {
+          return { Item: { id: 'dune', name: 'Dune', volumesCount: 3 } };
+        }
+        return {
+          Items: [
+            ScanIndexForward
+              ? { volume: 3, bookId: 'b2' }
+              : { volume: 1, bookId: 'b0' },
+          ],
+        };
+      });
+
+      const found = await service.findOneWithSeries('b1');
+
+      expect(found.series).toEqual({
+        id: 'dune',
+        name: 'Dune',
+        volume: 2,
+        volumesCount: 3,
+        previous: { volume: 1, bookId: 'b0' },
+        next: { volume: 3, bookId: 'b2' },
+      });
+    });
+  });
+
+  describe('tags', () => {
+    const createBookDto = {
+      title: 'Maus',
+      isbn: '9780679406419',
+      authorId: 'spiegelman',
+      categoryId: 'comics',
+      publishedYear: 1986,
+      tags: ['holocaust', 'graphic-novels', 'holocaust'],
+    };
+
+    it('should link each tag once and count it', async () => {
+      send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      const created = await service.create(createBookDto);
+
+      expect(created.tags).toEqual(['holocaust', 'graphic-novels']);
+      const items = send.mock.calls[1][0].input.TransactItems.slice(5);
+      expect(items.map((item) => item.Update?.Key ?? item.Put.Item)).toEqual([
+        { slug: 'holocaust' },
+        { slug: 'graphic-novels' },
+        { slug: 'holocaust', bookId: created.id },
+        { slug: 'graphic-novels', bookId: created.id },
+      ]);
+    });
+
+    it('should name the tag that does not exist', async () => {
+      send.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error());
+      failedTransactionConditions.mockReturnValue([6]);
+
+      await expect(service.create(createBookDto)).rejects.toThrow(
+        'Tag "graphic-novels" not found',
+      );
+    });
+  });
+
+  describe('works', () => {
+    const book = {
+      id: 'b1',
+      title: 'Der Prozess',
+      isbn: '9783596294312',
+      authorId: 'kafka',
+      categoryId: 'fiction',
+      publishedYear: 1925,
+      quantity: 1,
+      seriesId: 'kafka-novels',
+      seriesVolume: 1,
+      workId: 'the-trial',
+    };
+
+    it('should count a new edition on its work', async () => {
+      send.mockResolvedValueOnce({}).mockResolvedValueOnce({});
+
+      const created = await service.create({
+        title: 'The Trial',
+        isbn: '9780805209990',
+        authorId: 'kafka',
+        categoryId: 'fiction',
+        publishedYear: 1998,
+        workId: 'the-trial',
+      });
+
+      const items = send.mock.calls[1][0].input.TransactItems.slice(5);
+      expect(items).toEqual([
+        expect.objectContaining({
+          Update: expect.objectContaining({
+            TableName: 'Works',
+            Key: { id: 'the-trial' },
+            ConditionExpression: 'attribute_exists(id)',
+          }),
+        }),
+        {
+          Put: {
+            TableName: 'WorkEditions',
+            Item: { workId: 'the-trial', bookId: created.id },
+          },
+        },
+      ]);
+    });
+
+    it('should name the work that does not exist', async () => {
+      send.mockResolvedValueOnce({}).mockRejectedValueOnce(new Error());
+      failedTransactionConditions.mockReturnValue([5]);
+
+      await expect(
+        service.create({
+          title: 'The Trial',
+          isbn: '9780805209990',
+          authorId: 'kafka',
+          categoryId: 'fiction',
+          publishedYear: 1998,
+          workId: 'missing',
+        }),
+      ).rejects.toThrow('Work with ID "missing" not found');
+    });
+
+    it('should detach a book from its work and its series at once', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { id: 'b1' } });
+
+      await service.update('b1', { seriesId: null, workId: null }, {});
+
+      const [update, ...items] = send.mock.calls[1][0].input.TransactItems;
+      expect(update.Update.UpdateExpression).toMatch(
+        / REMOVE seriesId, seriesVolume, workId$/,
+      );
+      expect(update.Update.ConditionExpression).toContain(
+        'workId = :currentWorkId',
+      );
+      expect(items.slice(2)).toEqual([
+        expect.objectContaining({
+          Update: expect.objectContaining({
+            TableName: 'Works',
+            Key: { id: 'the-trial' },
+            ExpressionAttributeValues: { ':delta': -1, ':zero': 0 },
+          }),
+        }),
+        {
+          Delete: {
+            TableName: 'WorkEditions',
+            Key: { workId: 'the-trial', bookId: 'b1' },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('branches', () => {
+    it('should count copies and availability at the branch', async () => {
+      const browse = jest.fn().mockResolvedValue({
+        ids: ['b1'],
+        total: 1,
+        facets: Object.fromEntries(
+          [
+            'categoryId',
+            'authorId',
+            'status',
+            'publishedYear',
+            'rating',
+            'tags',
+          ].map((name) => [name, {}]),
+        ),
+      });
+      const findByBook = jest.fn().mockResolvedValue({
+        copies: [
+          { bookId: 'b1', branchId: 'north', status: CopyStatus.ON_LOAN },
+          { bookId: 'b1', branchId: 'north', status: CopyStatus.ON_LOAN },
+        ],
+      });
+      Object.assign(module.get(SearchService), { browse });
+      Object.assign(module.get(CopiesService), { findByBook });
+      send.mockResolvedValueOnce({
+        Responses: {
+          Books: [{ id: 'b1', title: 'Kindred', quantity: 2, totalCopies: 3 }],
+        },
+      });
+
+      const { books } = await service.findAll({
+        branchId: 'north',
+        status: BookStatus.UNAVAILABLE,
+      });
+
+      expect(browse.mock.calls[0][0]).toMatchObject({
+        filters: {
+          branchId: {
+            facet: branchFacet('north'),
+            values: [BookStatus.AVAILABLE, BookStatus.UNAVAILABLE],
+          },
+          status: {
+            facet: branchFacet('north'),
+            values: [BookStatus.UNAVAILABLE],
+          },
+        },
+        facets: { status: branchFacet('north') },
+      });
+      expect(findByBook).toHaveBeenCalledWith('b1', 'north');
+      expect(books).toEqual([
+        expect.objectContaining({
+          id: 'b1',
+          quantity: 0,
+          totalCopies: 2,
+          status: BookStatus.UNAVAILABLE,
+        }),
+      ]);
+    });
+
+    it('should send a copy returned elsewhere back to its home branch', async () => {
+      const transfer = { id: 't-1' };
+      const createTransactItem = jest.fn().mockReturnValue({ Put: {} });
+      const releaseCopyTransactItem = jest.fn();
+      const checkinTransactItem = jest.fn().mockReturnValue({ Update: {} });
+      send
+        .mockResolvedValueOnce({ Item: { id: 'b1', quantity: 0 } })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: { id: 'b1', quantity: 0 } });
+      Object.assign(module.get(LoansService), {
+        findActiveLoan: jest
+          .fn()
+          .mockResolvedValue({ id: 'loan-1', barcode: 'LIB-0001' }),
+        closeTransactItem: jest.fn().mockReturnValue({ Update: {} }),
+      });
+      Object.assign(module.get(CopiesService), {
+        findOne: jest
+          .fn()
+          .mockResolvedValue({ barcode: 'LIB-0001', branchId: 'north' }),
+        checkinTransactItem,
+      });
+      Object.assign(module.get(TransfersService), {
+        buildReturnTransfer: jest.fn().mockResolvedValue(transfer),
+        createTransactItem,
+      });
+      Object.assign(module.get(HoldsService), { releaseCopyTransactItem });
+      Object.assign(module.get(HistoryService), {
+        buildEvent: jest.fn(),
+        eventTransactItem: jest.fn().mockReturnValue({ Put: {} }),
+      });
+      Object.assign(module.get(FinesService), {
+        settleTransactItem: jest.fn().mockResolvedValue(undefined),
+      });
+
+      await service.returnBook('b1', 'reader', 'south');
+
+      expect(createTransactItem).toHaveBeenCalledWith(transfer);
+      expect(releaseCopyTransactItem).not.toHaveBeenCalled();
+      expect(checkinTransactItem).toHaveBeenCalledWith(
+        'LIB-0001',
+        'loan-1',
+        't-1',
+      );
+    });
+  });
+
+  describe('getReadUrl', () => {
+    const pdf = 'https://bucket.s3.amazonaws.com/books/pdfs/b1.pdf';
+    let getPresignedUrl: jest.Mock;
+    let findActiveLoan: jest.Mock;
+
+    beforeEach(() => {
+      send.mockResolvedValue({ Item: { id: 'b1', quantity: 1, pdf } });
+      getPresignedUrl = jest.fn().mockResolvedValue('https://signed');
+      findActiveLoan = jest.fn();
+      Object.assign(module.get(S3Service), { getPresignedUrl });
+      Object.assign(module.get(LoansService), { findActiveLoan });
+    });
+
+    it('should sign a short link for a reader with a current loan', async () => {
+      findActiveLoan.mockResolvedValueOnce({
+        id: 'loan-1',
+        returnDate: new Date(Date.now() + 86400000).toISOString(),
+      });
+
+      const result = await service.getReadUrl('b1', 'reader', ['USER']);
+
+      expect(findActiveLoan).toHaveBeenCalledWith('b1', 'reader');
+      expect(getPresignedUrl).toHaveBeenCalledWith(pdf, 300);
+      expect(result.url).toBe('https://signed');
+    });
+
+    it('should not let the link outlive the loan', async () => {
+      findActiveLoan.mockResolvedValueOnce({
+        id: 'loan-1',
+        returnDate: new Date(Date.now() + 60500).toISOString(),
+      });
+
+      await service.getReadUrl('b1', 'reader');
+
+      expect(getPresignedUrl).toHaveBeenCalledWith(pdf, 60);
+    });
+
+    it('should refuse a reader without a current loan', async () => {
+      findActiveLoan.mockResolvedValueOnce(undefined);
+
+      await expect(service.getReadUrl('b1', 'reader')).rejects.toThrow(
+        'can only be read while on a current loan',
+      );
+      expect(getPresignedUrl).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a reader whose loan is overdue', async () => {
+      findActiveLoan.mockResolvedValueOnce({
+        id: 'loan-1',
+        returnDate: new Date(Date.now() - 1000).toISOString(),
+      });
+
+      await expect(service.getReadUrl('b1', 'reader')).rejects.toThrow(
+        'can only be read while on a current loan',
+      );
+    });
+
+    it('should let staff read without a loan', async () => {
+      await service.getReadUrl('b1', 'librarian', ['ADMIN']);
+
+      expect(findActiveLoan).not.toHaveBeenCalled();
+      expect(getPresignedUrl).toHaveBeenCalledWith(pdf, 300);
+    });
+  });
+
+  describe('attachPdf', () => {
+    const pdfUrl = 'https://bucket.s3.amazonaws.com/books/pdfs/new.pdf';
+    const pdf = Buffer.from('%PDF-1.7');
+    const pdfInfo = { pageCount: 12, title: 'A Book', fileSize: 8 };
+    const covers = {
+      thumbnail:
+        'https://bucket.s3.amazonaws.com/books/covers/c/thumbnail.webp',
+      medium: 'https://bucket.s3.amazonaws.com/books/covers/c/medium.webp',
+      original: 'https://bucket.s3.amazonaws.com/books/covers/c/original.jpg',
+    };
+    let renderFirstPage: jest.Mock;
+    let storeRenditions: jest.Mock;
+
+    beforeEach(() => {
+      renderFirstPage = jest.fn().mockResolvedValue(Buffer.from('png'));
+      storeRenditions = jest.fn().mockResolvedValue(covers);
+      Object.assign(module.get(PdfsService), {
+        inspect: jest.fn().mockResolvedValue(pdfInfo),
+        renderFirstPage,
+      });
+      Object.assign(module.get(ImagesService), {
+        storeRenditions,
+        removeRenditions: jest.fn(),
+      });
+      Object.assign(module.get(S3Service), { deleteFile: jest.fn() });
+    });
+
+    const update = () =>
+      send.mock.calls.find(([command]) => command.input.UpdateExpression)[0]
+        .input;
+
+    it('should store the PDF information and a cover from its first page', async () => {
+      send
+        .mockResolvedValueOnce({ Item: { id: 'b1' } })
+        .mockResolvedValueOnce({ Attributes: { id: 'b1', pdf: pdfUrl } });
+
+      await service.attachPdf('b1', pdfUrl, pdf);
+
+      expect(renderFirstPage).toHaveBeenCalledWith(pdf);
+      expect(update().ExpressionAttributeValues).toEqual(
+        expect.objectContaining({
+          ':pdfInfo': pdfInfo,
+          ':covers': covers,
+          ':coverFromPdf': true,
+        }),
+      );
+    });
+
+    it('should keep a cover that was uploaded', async () => {
+      send
+        .mockResolvedValueOnce({
+          Item: { id: 'b1', cover: covers.original, covers },
+        })
+        .mockResolvedValueOnce({ Attributes: { id: 'b1', pdf: pdfUrl } });
+
+      await service.attachPdf('b1', pdfUrl, pdf);
+
+      expect(renderFirstPage).not.toHaveBeenCalled();
+      expect(update().UpdateExpression).not.toContain('#covers');
+    });
+
+    it('should drop the information of a PDF it did not inspect', async () => {
+      send
+        .mockResolvedValueOnce({ Item: { id: 'b1', pdfInfo } })
+        .mockResolvedValueOnce({ Attributes: { id: 'b1', pdf: pdfUrl } });
+
+      await service.attachPdf('b1', pdfUrl);
+
+      expect(update().UpdateExpression).toMatch(/ REMOVE #pdfInfo$/);
+    });
+  });
+
+  describe('update files', () => {
+    const oldCovers = {
+      thumbnail:
+        'https://bucket.s3.amazonaws.com/books/covers/old/thumbnail.webp',
+      medium: 'https://bucket.s3.amazonaws.com/books/covers/old/medium.webp',
+      original: 'https://bucket.s3.amazonaws.com/books/covers/old/original.jpg',
+    };
+    const newCovers = {
+      thumbnail:
+        'https://bucket.s3.amazonaws.com/books/covers/new/thumbnail.webp',
+      medium: 'https://bucket.s3.amazonaws.com/books/covers/new/medium.webp',
+      original: 'https://bucket.s3.amazonaws.com/books/covers/new/original.jpg',
+    };
+    const book = {
+      id: 'b1',
+      title: 'Earthsea',
+      isbn: '9780547773742',
+      authorId: 'a1',
+      categoryId: 'fantasy',
+      quantity: 0,
+      cover: oldCovers.original,
+      covers: oldCovers,
+    };
+    const files = {
+      cover: [{ buffer: Buffer.from('png') } as Express.Multer.File],
+    };
+    let removeRenditions: jest.Mock;
+
+    beforeEach(() => {
+      removeRenditions = jest.fn();
+      Object.assign(module.get(ImagesService), {
+        storeRenditions: jest.fn().mockResolvedValue(newCovers),
+        removeRenditions,
+      });
+    });
+
+    it('should delete the old cover once the book points at the new one', async () => {
+      send.mockResolvedValueOnce({ Item: book }).mockResolvedValueOnce({
+        Attributes: { ...book, cover: newCovers.original, covers: newCovers },
+      });
+
+      await service.update('b1', {}, files);
+
+      expect(removeRenditions.mock.calls).toEqual([[oldCovers]]);
+    });
+
+    it('should delete the new cover and keep the old one when the write fails', async () => {
+      send
+        .mockResolvedValueOnce({ Item: book })
+        .mockRejectedValueOnce(new Error('throttled'));
+
+      await expect(service.update('b1', {}, files)).rejects.toThrow(
+        'throttled',
+      );
+      expect(removeRenditions.mock.calls).toEqual([[newCovers]]);
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete the reviews of the deleted book', async () => {
+      send.mockImplementation(async (command) => {
+        const { TableName, ExclusiveStartKey } = command.input;
+        if (command.constructor.name === 'GetCommand') {
+          return TableName === 'Books'
+            ? { Item: { id: 'b1', isbn: '9780547773742', categoryId: 'c1' } }
+            : {};
+        }
+        if (command.constructor.name === 'QueryCommand') {
+          return ExclusiveStartKey
+            ? { Items: [{ bookId: 'b1', userId: 'u2' }] }
+            : {
+                Items: [{ bookId: 'b1', userId: 'u1' }],
+                LastEvaluatedKey: { bookId: 'b1', userId: 'u1' },
+              };
+        }
+        return {};
+      });
+
+      await service.remove('b1');
+
+      const deleted = send.mock.calls
+        .map(([command]) => command)
+        .filter((command) => command.constructor.name === 'DeleteCommand')
+        .map((command) => [command.input.TableName, command.input.Key]);
+      expect(deleted).toEqual([
+        ['Reviews', { bookId: 'b1', userId: 'u1' }],
+        ['Reviews', { bookId: 'b1', userId: 'u2' }],
+      ]);
+    });
+  });
 });
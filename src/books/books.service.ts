@@ -2,31 +2,93 @@ import {
   Injectable,
   Logger,
   NotFoundException,
+  ForbiddenException,
   BadRequestException,
   InternalServerErrorException,
+  HttpException,
 } from '@nestjs/common';
-import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
 import { S3Service } from '../s3/s3.service';
 import { CreateBookDto } from './dto/create-book.dto';
 import { UpdateBookDto } from './dto/update-book.dto';
-import { Book, BookStatus } from './interfaces/book.interface';
+import {
+  Book,
+  BookFacets,
+  BookStatus,
+  Contributor,
+  ContributorRole,
+} from './interfaces/book.interface';
 import { v4 as uuidv4 } from 'uuid';
 import {
-  PutCommand,
   GetCommand,
   ScanCommand,
   UpdateCommand,
-  DeleteCommand,
   QueryCommand,
+  BatchGetCommand,
+  DeleteCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { CategoriesService } from '../categories/categories.service';
 import { AuthorsService } from '../authors/authors.service';
-import { BorrowBookDto } from './dto/borrow-book.dto';
-import { BookNotFoundException } from './exceptions/book.exceptions';
+import { FindBooksQueryDto } from './dto/find-books-query.dto';
+import {
+  BookAlreadyExistsException,
+  BookConflictException,
+} from './exceptions/book.exceptions';
+import { CategoryNotFoundException } from '../categories/exceptions/category.exceptions';
+import { AuthorNotFoundException } from '../authors/exceptions/author.exceptions';
+import { LoansService } from '../loans/loans.service';
+import {
+  Loan,
+  LoanStatus,
+  RenewalRefusalReason,
+} from '../loans/interfaces/loan.interface';
+import { LoanRenewalRefusedException } from '../loans/exceptions/loan.exceptions';
+import { HoldsService } from '../holds/holds.service';
+import { FinesService } from '../fines/fines.service';
+import { PoliciesService } from '../policies/policies.service';
+import { HistoryService } from '../history/history.service';
+import { LoanEventType } from '../history/interfaces/loan-event.interface';
+import { SearchService, branchFacet } from '../search/search.service';
+import {
+  BrowseFilter,
+  SearchDocumentType,
+} from '../search/interfaces/search-engine.interface';
+import { CopiesService } from '../copies/copies.service';
+import { Copy, CopyStatus } from '../copies/interfaces/copy.interface';
+import { CopyNotFoundException } from '../copies/exceptions/copy.exceptions';
+import { CheckoutCopyDto } from './dto/checkout-copy.dto';
+import { normalizeIsbn } from './utils/isbn.util';
+import { SeriesService } from '../series/series.service';
+import { SeriesPlacement } from '../series/interfaces/series.interface';
+import {
+  SeriesNotFoundException,
+  SeriesVolumeTakenException,
+} from '../series/exceptions/series.exceptions';
+import { TagsService } from '../tags/tags.service';
+import { TagNotFoundException } from '../tags/exceptions/tag.exceptions';
+import { WorkNotFoundException } from '../works/exceptions/work.exceptions';
+import { TransfersService } from '../transfers/transfers.service';
+import { Transfer } from '../transfers/interfaces/transfer.interface';
+import { BranchNotFoundException } from '../branches/exceptions/branch.exceptions';
+import { UserRole } from '../auth/decorators/roles.decorator';
+import { ImagesService } from '../images/images.service';
+import { ImageRenditions } from '../images/interfaces/image-renditions.interface';
+import { PdfsService } from '../pdfs/pdfs.service';
 
 @Injectable()
 export class BooksService {
   private readonly tableName = 'Books';
+  private readonly isbnsTableName = 'BookIsbns';
+  private readonly contributorsTableName = 'BookContributors';
+  private readonly worksTableName = 'Works';
+  private readonly workEditionsTableName = 'WorkEditions';
+  private readonly reviewsTableName = 'Reviews';
+  // How long a link to a book's PDF stays usable
+  private readonly readUrlTtlSeconds = 5 * 60;
   private readonly logger = new Logger(BooksService.name);
 
   constructor(
@@ -34,89 +96,239 @@ export class BooksService {
     private readonly s3Service: S3Service,
     private readonly categoriesService: CategoriesService,
     private readonly authorsService: AuthorsService,
+    private readonly loansService: LoansService,
+    private readonly holdsService: HoldsService,
+    private readonly finesService: FinesService,
+    private readonly policiesService: PoliciesService,
+    private readonly historyService: HistoryService,
+    private readonly searchService: SearchService,
+    private readonly copiesService: CopiesService,
+    private readonly seriesService: SeriesService,
+    private readonly tagsService: TagsService,
+    private readonly transfersService: TransfersService,
+    private readonly imagesService: ImagesService,
+    private readonly pdfsService: PdfsService,
   ) {}
 
+  // Files are optional so imported records can be catalogued before their
+  // cover and PDF are uploaded
   async create(
     createBookDto: CreateBookDto,
-    files: { cover?: Express.Multer.File[]; pdf?: Express.Multer.File[] },
+    files: { cover?: Express.Multer.File[]; pdf?: Express.Multer.File[] } = {},
   ): Promise<Book> {
+    const isbn = this.toIsbn13(createBookDto.isbn);
+    const { authorId, contributors } = this.resolveContributors(
+      createBookDto.authorId,
+      createBookDto.contributors,
+    );
+    const series = this.resolveSeries(
+      undefined,
+      createBookDto.seriesId,
+      createBookDto.seriesVolume,
+    );
+    const tags = this.uniqueTags(createBookDto.tags);
+    const workId = createBookDto.workId ?? undefined;
+    let addedAuthorIds: string[] = [];
+    let seriesOffset = 0;
+    let tagsOffset = 0;
+    let workOffset = 0;
+    let covers: ImageRenditions | undefined;
+    let pdfUrl: string | undefined;
+
     try {
-      if (!files.cover?.[0] || !files.pdf?.[0]) {
-        throw new Error('Both cover and PDF files are required');
+      // Checked before the uploads so a duplicate leaves no orphaned files;
+      // the claim in the transaction below is what guarantees uniqueness
+      if (await this.findIsbnOwner(isbn)) {
+        throw new BookAlreadyExistsException(isbn);
       }
 
-      // Upload files to S3
-      const coverUrl = await this.s3Service.uploadFile(
-        files.cover[0],
-        'books/covers',
-      );
-      const pdfUrl = await this.s3Service.uploadFile(
-        files.pdf[0],
-        'books/pdfs',
-      );
+      // A PDF that does not open is refused before anything is stored
+      const pdfInfo = files.pdf?.[0]
+        ? await this.pdfsService.inspect(files.pdf[0].buffer)
+        : undefined;
+
+      // Upload files to S3. Without a cover, the PDF's first page stands in
+      covers = files.cover?.[0]
+        ? await this.imagesService.storeRenditions(
+            files.cover[0].buffer,
+            'books/covers',
+          )
+        : files.pdf?.[0]
+          ? await this.previewCovers(files.pdf[0].buffer)
+          : undefined;
+      pdfUrl = files.pdf?.[0]
+        ? await this.s3Service.uploadFile(files.pdf[0], 'books/pdfs')
+        : undefined;
 
       const book: Book = {
         id: uuidv4(),
         ...createBookDto,
-        status: BookStatus.AVAILABLE,
-        cover: coverUrl,
+        isbn,
+        authorId,
+        contributors,
+        seriesId: series?.seriesId,
+        seriesVolume: series?.volume,
+        tags,
+        workId,
+        // Copies are added one by one with their barcodes
+        quantity: 0,
+        totalCopies: 0,
+        ratingSum: 0,
+        reviewsCount: 0,
+        status: BookStatus.UNAVAILABLE,
+        cover: covers?.original,
+        covers,
+        coverFromPdf: covers && !files.cover?.[0] ? true : undefined,
         pdf: pdfUrl,
+        pdfInfo,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
 
+      // The book, the category/author/series/tag/work counters, the
+      // contributor, tag and edition links and the series volume are written
+      // together so the counters cannot drift when one write fails
+      const contributorItems = this.contributorTransactItems(
+        book.id,
+        [],
+        contributors,
+      );
+      addedAuthorIds = contributorItems.addedAuthorIds;
+      const seriesItems = this.seriesService.volumeTransactItems(
+        book.id,
+        undefined,
+        series,
+      );
+      const tagItems = this.tagsService.tagTransactItems(
+        book.id,
+        [],
+        tags ?? [],
+      );
+      seriesOffset = 3 + contributorItems.items.length;
+      tagsOffset = seriesOffset + seriesItems.length;
+      workOffset = tagsOffset + tagItems.items.length;
       await this.dynamoDBService.documentClient.send(
-        new PutCommand({
-          TableName: this.tableName,
-          Item: book,
-          ConditionExpression: 'attribute_not_exists(id)',
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: book,
+                ConditionExpression: 'attribute_not_exists(id)',
+              },
+            },
+            this.categoriesService.booksCountTransactItem(
+              createBookDto.categoryId,
+              1,
+            ),
+            this.claimIsbnTransactItem(isbn, book.id),
+            ...contributorItems.items,
+            ...seriesItems,
+            ...tagItems.items,
+            ...this.workEditionTransactItems(book.id, undefined, workId),
+          ],
         }),
       );
 
-      // Increment books count for category and author
-      await this.categoriesService.addBookToCategory(createBookDto.categoryId);
-      await this.authorsService.addBookToAuthor(createBookDto.authorId);
-
-      return book;
+      await this.searchService.indexBook(book);
+      return { ...book, hasPdf: Boolean(book.pdf) };
     } catch (error) {
       this.logger.error(`Failed to create book: ${error.message}`, error.stack);
+      await this.discardFiles({ cover: covers?.original, covers, pdf: pdfUrl });
+      const failed = this.dynamoDBService.failedTransactionConditions(error);
+      if (failed.includes(1)) {
+        throw new CategoryNotFoundException(createBookDto.categoryId);
+      }
+      if (failed.includes(2)) {
+        throw new BookAlreadyExistsException(isbn);
+      }
+      const missingAuthorId = this.missingReference(failed, 3, addedAuthorIds);
+      if (missingAuthorId) {
+        throw new AuthorNotFoundException(missingAuthorId);
+      }
+      this.throwIfSeriesFailed(failed, seriesOffset, undefined, series);
+      const missingTag = this.missingReference(failed, tagsOffset, tags ?? []);
+      if (missingTag) {
+        throw new TagNotFoundException(missingTag);
+      }
+      if (workId && failed.includes(workOffset)) {
+        throw new WorkNotFoundException(workId);
+      }
+      if (failed.length > 0) {
+        throw new BookConflictException(
+          'Book was created by another request, please retry',
+        );
+      }
       throw error;
     }
   }
 
-  async findAll(
-    limit: number,
-    lastEvaluatedKey?: string,
-  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
-    try {
-      const params: any = {
-        TableName: this.tableName,
-        Limit: limit,
-      };
-
-      if (lastEvaluatedKey) {
-        params.ExclusiveStartKey = { id: lastEvaluatedKey };
-      }
+  // Filters, sorts and counts on the search index, which keeps every
+  // book's facets current as books, copies and reviews change, so only the
+  // page itself is read from the table
+  async findAll(query: FindBooksQueryDto): Promise<{
+    message: string;
+    books: Book[];
+    total: number;
+    facets: BookFacets;
+    lastEvaluatedKey?: string;
+  }> {
+    const offset = this.decodeOffset(query.lastEvaluatedKey);
+    const limit = query.limit ?? 10;
+    const sortBy = query.sortBy ?? 'createdAt';
+    // Within a branch a book's status is its availability there
+    const statusFacet = query.branchId ? branchFacet(query.branchId) : 'status';
 
-      const command = new ScanCommand(params);
-      const response = await this.dynamoDBService.documentClient.send(command);
-      const books = response.Items as Book[];
+    try {
+      const { ids, total, facets } = await this.searchService.browse({
+        type: SearchDocumentType.BOOK,
+        filters: this.bookFilters(query, statusFacet),
+        facets: {
+          categoryId: 'categoryId',
+          authorId: 'authorId',
+          status: statusFacet,
+          publishedYear: 'publishedYear',
+          rating: 'rating',
+          tags: 'tags',
+        },
+        sortBy,
+        // Titles read best A to Z, everything else newest or best first
+        sortOrder: query.sortOrder ?? (sortBy === 'title' ? 'asc' : 'desc'),
+        limit,
+        offset,
+      });
 
-      // Update status based on quantity
+      // The page is in index order, the batch read is not
+      const booksById = await this.findManyByIds(ids);
+      let books = ids
+        .map((id) => booksById.get(id))
+        .filter((book) => book !== undefined);
       books.forEach((book) => {
-        if (book.quantity > 0) {
-          book.status = BookStatus.AVAILABLE;
-        } else {
-          book.status = BookStatus.UNAVAILABLE;
-        }
+        book.status =
+          book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE;
       });
 
+      if (query.branchId) {
+        const holdings = await Promise.all(
+          books.map((book) =>
+            this.copiesService.findByBook(book.id, query.branchId),
+          ),
+        );
+        books = this.atBranch(
+          books,
+          holdings.flatMap(({ copies }) => copies),
+        );
+      }
+
       return {
-        message: 'Books retrieved successfully',
+        message: total > 0 ? 'Books retrieved successfully' : 'No books found',
         books,
-        lastEvaluatedKey: response.LastEvaluatedKey
-          ? response.LastEvaluatedKey.id
-          : undefined,
+        total,
+        facets: this.bookFacets(facets),
+        lastEvaluatedKey:
+          offset + limit < total
+            ? Buffer.from(String(offset + limit)).toString('base64url')
+            : undefined,
       };
     } catch (error) {
       this.logger.error(`Failed to fetch books: ${error.message}`, error.stack);
@@ -145,65 +357,217 @@ export class BooksService {
       } else {
         book.status = BookStatus.UNAVAILABLE;
       }
+      book.hasPdf = Boolean(book.pdf);
 
       return book;
     } catch (error) {
       this.logger.error(`Failed to fetch book: ${error.message}`, error.stack);
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
       throw new InternalServerErrorException('Failed to fetch book');
     }
   }
 
+  // The single-book view, with the book's place in its series
+  async findOneWithSeries(id: string): Promise<Book> {
+    const book = await this.findOne(id);
+    const placement = this.seriesPlacementOf(book);
+    if (placement) {
+      book.series = await this.seriesService.findBookSeries(placement);
+    }
+    return book;
+  }
+
+  // A short-lived link to the book's PDF, handed to staff or to a reader
+  // with the book on a current loan. A reader's link never outlives the loan
+  async getReadUrl(
+    id: string,
+    userId: string,
+    groups: string[] = [],
+  ): Promise<{ url: string; expiresAt: string }> {
+    const book = await this.findOne(id);
+    if (!book.pdf) {
+      throw new NotFoundException(`Book with ID "${id}" has no PDF to read`);
+    }
+
+    let expiresIn = this.readUrlTtlSeconds;
+    if (!groups.includes(UserRole.ADMIN)) {
+      const loan = await this.loansService.findActiveLoan(id, userId);
+      const secondsLeft = loan
+        ? Math.floor((new Date(loan.returnDate).getTime() - Date.now()) / 1000)
+        : 0;
+      if (secondsLeft <= 0) {
+        throw new ForbiddenException(
+          `Book with ID "${id}" can only be read while on a current loan`,
+        );
+      }
+      expiresIn = Math.min(expiresIn, secondsLeft);
+    }
+
+    const url = await this.s3Service.getPresignedUrl(book.pdf, expiresIn);
+    return {
+      url,
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    };
+  }
+
   async update(
     id: string,
     updateBookDto: UpdateBookDto,
     files: { cover?: Express.Multer.File[]; pdf?: Express.Multer.File[] },
   ): Promise<Book> {
+    let isbnItems: TransactWriteItem[] = [];
+    let addedAuthorIds: string[] = [];
+    let currentSeries: SeriesPlacement | undefined;
+    let series: SeriesPlacement | undefined;
+    let seriesOffset = 0;
+    let addedTags: string[] = [];
+    let tagsOffset = 0;
+    let currentWorkId: string | undefined;
+    let workId: string | undefined;
+    let workOffset = 0;
+    let categoryChanged = false;
+    let categoryOffset = 0;
+    let newCovers: ImageRenditions | undefined;
+    let newPdfUrl: string | undefined;
+
     try {
       const existingBookResponse = await this.findOne(id);
       const existingBook = existingBookResponse;
 
+      const isbn =
+        updateBookDto.isbn !== undefined
+          ? this.toIsbn13(updateBookDto.isbn)
+          : existingBook.isbn;
+      const isbnChanged = isbn !== existingBook.isbn;
+      if (isbnChanged && (await this.findIsbnOwner(isbn))) {
+        throw new BookAlreadyExistsException(isbn);
+      }
+
+      // A contributors list replaces the current one, while an authorId on
+      // its own replaces the primary author and keeps everyone else
+      const currentContributors = this.contributorsOf(existingBook);
+      let { authorId } = existingBook;
+      let contributors = currentContributors;
+      if (updateBookDto.contributors !== undefined) {
+        ({ authorId, contributors } = this.resolveContributors(
+          updateBookDto.authorId,
+          updateBookDto.contributors,
+        ));
+      } else if (
+        updateBookDto.authorId !== undefined &&
+        updateBookDto.authorId !== existingBook.authorId
+      ) {
+        ({ authorId, contributors } = this.resolveContributors(
+          updateBookDto.authorId,
+          currentContributors.filter(
+            (contributor) =>
+              contributor.authorId !== existingBook.authorId ||
+              contributor.role !== ContributorRole.AUTHOR,
+          ),
+        ));
+      }
+      const contributorsChanged =
+        JSON.stringify(contributors) !== JSON.stringify(currentContributors);
+
+      currentSeries = this.seriesPlacementOf(existingBook);
+      series = this.resolveSeries(
+        currentSeries,
+        updateBookDto.seriesId,
+        updateBookDto.seriesVolume,
+      );
+      // A tags list replaces the current one
+      const currentTags = existingBook.tags ?? [];
+      const tags = this.uniqueTags(updateBookDto.tags) ?? currentTags;
+      const tagsChanged = JSON.stringify(tags) !== JSON.stringify(currentTags);
+      // A null workId detaches the book from its work
+      currentWorkId = existingBook.workId;
+      workId =
+        updateBookDto.workId === undefined
+          ? currentWorkId
+          : (updateBookDto.workId ?? undefined);
+      updateBookDto = {
+        ...updateBookDto,
+        isbn,
+        authorId,
+        contributors: contributorsChanged ? contributors : undefined,
+        tags: tagsChanged ? tags : undefined,
+      };
+
       let updateExpression = 'SET updatedAt = :updatedAt';
+      const removedAttributes: string[] = [];
       const expressionAttributeValues: any = {
         ':updatedAt': new Date().toISOString(),
       };
       const expressionAttributeNames: any = {};
 
-      // Handle file updates
+      // Handle file updates. A PDF that does not open is refused before
+      // anything is stored
+      const pdfInfo = files.pdf?.[0]
+        ? await this.pdfsService.inspect(files.pdf[0].buffer)
+        : undefined;
+
+      // The files replaced are deleted once the book points at the new ones
       if (files.cover?.[0]) {
-        const coverUrl = await this.s3Service.uploadFile(
-          files.cover[0],
+        newCovers = await this.imagesService.storeRenditions(
+          files.cover[0].buffer,
           'books/covers',
         );
-        updateExpression += ', #cover = :cover';
-        expressionAttributeValues[':cover'] = coverUrl;
+        updateExpression += ', #cover = :cover, #covers = :covers';
+        expressionAttributeValues[':cover'] = newCovers.original;
+        expressionAttributeValues[':covers'] = newCovers;
         expressionAttributeNames['#cover'] = 'cover';
-
-        // Delete old cover if exists
-        if (existingBook.cover) {
-          await this.s3Service.deleteFile(existingBook.cover);
-        }
+        expressionAttributeNames['#covers'] = 'covers';
+        removedAttributes.push('coverFromPdf');
       }
 
       if (files.pdf?.[0]) {
-        const pdfUrl = await this.s3Service.uploadFile(
-          files.pdf[0],
-          'books/pdfs',
-        );
-        updateExpression += ', #pdf = :pdf';
-        expressionAttributeValues[':pdf'] = pdfUrl;
+        newPdfUrl = await this.s3Service.uploadFile(files.pdf[0], 'books/pdfs');
+        updateExpression += ', #pdf = :pdf, pdfInfo = :pdfInfo';
+        expressionAttributeValues[':pdf'] = newPdfUrl;
+        expressionAttributeValues[':pdfInfo'] = pdfInfo;
         expressionAttributeNames['#pdf'] = 'pdf';
 
-        // Delete old PDF if exists
-        if (existingBook.pdf) {
-          await this.s3Service.deleteFile(existingBook.pdf);
+        if (!files.cover?.[0] && this.wantsPdfCover(existingBook)) {
+          newCovers = await this.previewCovers(files.pdf[0].buffer);
+          updateExpression +=
+            ', #cover = :cover, #covers = :covers, coverFromPdf = :coverFromPdf';
+          expressionAttributeValues[':cover'] = newCovers.original;
+          expressionAttributeValues[':covers'] = newCovers;
+          expressionAttributeValues[':coverFromPdf'] = true;
+          expressionAttributeNames['#cover'] = 'cover';
+          expressionAttributeNames['#covers'] = 'covers';
         }
       }
 
-      // Handle other fields
+      // Handle other fields. The copy counters are derived from the Copies
+      // table, the rating from the reviews and the status from the copies,
+      // and files are only set from uploads above, so none can be set
+      // directly. The category, series and work are set below
       Object.entries(updateBookDto).forEach(([key, value]) => {
         if (
           value !== undefined &&
-          !['id', 'createdAt', 'updatedAt'].includes(key)
+          ![
+            'id',
+            'createdAt',
+            'updatedAt',
+            'quantity',
+            'totalCopies',
+            'rating',
+            'ratingSum',
+            'reviewsCount',
+            'status',
+            'cover',
+            'covers',
+            'coverFromPdf',
+            'pdf',
+            'pdfInfo',
+            'categoryId',
+            'seriesId',
+            'seriesVolume',
+            'workId',
+          ].includes(key)
         ) {
           updateExpression += `, #${key} = :${key}`;
           expressionAttributeValues[`:${key}`] = value;
@@ -211,93 +575,456 @@ export class BooksService {
         }
       });
 
-      const result = await this.dynamoDBService.documentClient.send(
-        new UpdateCommand({
-          TableName: this.tableName,
-          Key: { id },
-          UpdateExpression: updateExpression,
-          ExpressionAttributeValues: expressionAttributeValues,
-          ExpressionAttributeNames: expressionAttributeNames,
-          ReturnValues: 'ALL_NEW',
-          ConditionExpression: 'attribute_exists(id)',
-        }),
+      // The new ISBN is claimed and the old one released with the book, the
+      // contributor links and author counters move with it, and conditions
+      // on the current values keep a concurrent change from slipping in
+      const conditions = ['attribute_exists(id)'];
+      if (isbnChanged) {
+        isbnItems = [
+          this.claimIsbnTransactItem(isbn, id),
+          ...(await this.releaseIsbnTransactItems(existingBook.isbn, id)),
+        ];
+        conditions.push('isbn = :currentIsbn');
+        expressionAttributeValues[':currentIsbn'] = existingBook.isbn;
+      }
+      const contributorItems = this.contributorTransactItems(
+        id,
+        currentContributors,
+        contributors,
+      );
+      addedAuthorIds = contributorItems.addedAuthorIds;
+      if (contributorItems.items.length > 0) {
+        conditions.push(
+          'authorId = :currentAuthorId',
+          existingBook.contributors
+            ? 'contributors = :currentContributors'
+            : 'attribute_not_exists(contributors)',
+        );
+        expressionAttributeValues[':currentAuthorId'] = existingBook.authorId;
+        if (existingBook.contributors) {
+          expressionAttributeValues[':currentContributors'] =
+            existingBook.contributors;
+        }
+      }
+      const seriesItems = this.seriesService.volumeTransactItems(
+        id,
+        currentSeries,
+        series,
+      );
+      seriesOffset = 1 + isbnItems.length + contributorItems.items.length;
+      const tagItems = this.tagsService.tagTransactItems(id, currentTags, tags);
+      addedTags = tagItems.addedSlugs;
+      tagsOffset = seriesOffset + seriesItems.length;
+      if (tagItems.items.length > 0) {
+        conditions.push(
+          existingBook.tags
+            ? 'tags = :currentTags'
+            : 'attribute_not_exists(tags)',
+        );
+        if (existingBook.tags) {
+          expressionAttributeValues[':currentTags'] = existingBook.tags;
+        }
+      }
+      if (seriesItems.length > 0) {
+        if (series) {
+          updateExpression +=
+            ', seriesId = :seriesId, seriesVolume = :seriesVolume';
+          expressionAttributeValues[':seriesId'] = series.seriesId;
+          expressionAttributeValues[':seriesVolume'] = series.volume;
+        } else {
+          removedAttributes.push('seriesId', 'seriesVolume');
+        }
+        if (currentSeries) {
+          conditions.push(
+            'seriesId = :currentSeriesId',
+            'seriesVolume = :currentSeriesVolume',
+          );
+          expressionAttributeValues[':currentSeriesId'] =
+            currentSeries.seriesId;
+          expressionAttributeValues[':currentSeriesVolume'] =
+            currentSeries.volume;
+        } else {
+          conditions.push('attribute_not_exists(seriesId)');
+        }
+      }
+      const workItems = this.workEditionTransactItems(
+        id,
+        currentWorkId,
+        workId,
       );
+      workOffset = tagsOffset + tagItems.items.length;
+      if (workItems.length > 0) {
+        if (workId) {
+          updateExpression += ', workId = :workId';
+          expressionAttributeValues[':workId'] = workId;
+        } else {
+          removedAttributes.push('workId');
+        }
+        if (currentWorkId) {
+          conditions.push('workId = :currentWorkId');
+          expressionAttributeValues[':currentWorkId'] = currentWorkId;
+        } else {
+          conditions.push('attribute_not_exists(workId)');
+        }
+      }
+      // The book moves from one category counter to the other
+      categoryChanged =
+        updateBookDto.categoryId !== undefined &&
+        updateBookDto.categoryId !== existingBook.categoryId;
+      const categoryItems = categoryChanged
+        ? [
+            this.categoriesService.booksCountTransactItem(
+              existingBook.categoryId,
+              -1,
+            ),
+            this.categoriesService.booksCountTransactItem(
+              updateBookDto.categoryId,
+              1,
+            ),
+          ]
+        : [];
+      categoryOffset = workOffset + workItems.length;
+      if (categoryChanged) {
+        updateExpression += ', categoryId = :categoryId';
+        expressionAttributeValues[':categoryId'] = updateBookDto.categoryId;
+        conditions.push('categoryId = :currentCategoryId');
+        expressionAttributeValues[':currentCategoryId'] =
+          existingBook.categoryId;
+      }
+      if (removedAttributes.length > 0) {
+        updateExpression += ` REMOVE ${removedAttributes.join(', ')}`;
+      }
+
+      let updatedBook: Book;
+      if (
+        isbnItems.length > 0 ||
+        contributorItems.items.length > 0 ||
+        seriesItems.length > 0 ||
+        tagItems.items.length > 0 ||
+        workItems.length > 0 ||
+        categoryItems.length > 0
+      ) {
+        await this.dynamoDBService.documentClient.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                Update: {
+                  TableName: this.tableName,
+                  Key: { id },
+                  UpdateExpression: updateExpression,
+                  ExpressionAttributeValues: expressionAttributeValues,
+                  ExpressionAttributeNames: expressionAttributeNames,
+                  ConditionExpression: conditions.join(' AND '),
+                },
+              },
+              ...isbnItems,
+              ...contributorItems.items,
+              ...seriesItems,
+              ...tagItems.items,
+              ...workItems,
+              ...categoryItems,
+            ],
+          }),
+        );
+        updatedBook = await this.findOne(id);
+      } else {
+        const result = await this.dynamoDBService.documentClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { id },
+            UpdateExpression: updateExpression,
+            ExpressionAttributeValues: expressionAttributeValues,
+            ExpressionAttributeNames: expressionAttributeNames,
+            ReturnValues: 'ALL_NEW',
+            ConditionExpression: 'attribute_exists(id)',
+          }),
+        );
+        updatedBook = result.Attributes as Book;
+        updatedBook.hasPdf = Boolean(updatedBook.pdf);
+      }
+
+      await this.discardFiles({
+        ...(newCovers && {
+          cover: existingBook.cover,
+          covers: existingBook.covers,
+        }),
+        ...(newPdfUrl && { pdf: existingBook.pdf }),
+      });
 
-      return result.Attributes as Book;
+      await this.searchService.indexBook(updatedBook);
+
+      return updatedBook;
     } catch (error) {
       this.logger.error(`Failed to update book: ${error.message}`, error.stack);
+      await this.discardFiles({
+        cover: newCovers?.original,
+        covers: newCovers,
+        pdf: newPdfUrl,
+      });
+      const failed = this.dynamoDBService.failedTransactionConditions(error);
+      if (isbnItems.length > 0 && failed.includes(1)) {
+        throw new BookAlreadyExistsException(updateBookDto.isbn);
+      }
+      const missingAuthorId = this.missingReference(
+        failed,
+        1 + isbnItems.length,
+        addedAuthorIds,
+      );
+      if (missingAuthorId) {
+        throw new AuthorNotFoundException(missingAuthorId);
+      }
+      this.throwIfSeriesFailed(failed, seriesOffset, currentSeries, series);
+      const missingTag = this.missingReference(failed, tagsOffset, addedTags);
+      if (missingTag) {
+        throw new TagNotFoundException(missingTag);
+      }
+      if (workId && workId !== currentWorkId && failed.includes(workOffset)) {
+        throw new WorkNotFoundException(workId);
+      }
+      if (categoryChanged && failed.includes(categoryOffset + 1)) {
+        throw new CategoryNotFoundException(updateBookDto.categoryId);
+      }
+      if (failed.length > 0) {
+        throw new BookConflictException(
+          `Book with ID "${id}" was changed by another request, please retry`,
+        );
+      }
       throw error;
     }
   }
 
-  async remove(id: string): Promise<{ message: string }> {
+  // Points the book at a PDF uploaded directly to S3 and removes the one it
+  // replaces. The content, when given, is inspected like an upload through
+  // the API; without it the PDF is attached as is
+  async attachPdf(id: string, pdfUrl: string, pdf?: Buffer): Promise<Book> {
     try {
-      const book = await this.findOne(id);
+      const existingBook = await this.findOne(id);
+      const pdfInfo = pdf ? await this.pdfsService.inspect(pdf) : undefined;
+      const covers =
+        pdf && this.wantsPdfCover(existingBook)
+          ? await this.previewCovers(pdf)
+          : undefined;
+
+      const book = await this.setFiles(id, {
+        pdf: pdfUrl,
+        pdfInfo,
+        ...(covers && { cover: covers.original, covers, coverFromPdf: true }),
+      });
 
-      // Delete files from S3
-      if (book.cover) {
-        await this.s3Service.deleteFile(book.cover);
+      if (covers) {
+        await this.removeCover(existingBook);
       }
-      if (book.pdf) {
-        await this.s3Service.deleteFile(book.pdf);
+      if (existingBook.pdf && existingBook.pdf !== pdfUrl) {
+        await this.s3Service.deleteFile(existingBook.pdf);
+      }
+
+      this.logger.log(`Attached PDF to book with ID: ${id}`);
+      return book;
+    } catch (error) {
+      this.logger.error(
+        `Failed to attach PDF to book ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to attach PDF to book');
+    }
+  }
+
+  // Stores the renditions of a cover uploaded directly to S3 and removes the
+  // ones they replace
+  async attachCover(id: string, image: Buffer): Promise<Book> {
+    try {
+      const existingBook = await this.findOne(id);
+      const covers = await this.imagesService.storeRenditions(
+        image,
+        'books/covers',
+      );
+      const book = await this.setFiles(id, {
+        cover: covers.original,
+        covers,
+        coverFromPdf: undefined,
+      });
+
+      await this.removeCover(existingBook);
+
+      this.logger.log(`Attached cover to book with ID: ${id}`);
+      return book;
+    } catch (error) {
+      this.logger.error(
+        `Failed to attach cover to book ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
       }
+      throw new InternalServerErrorException('Failed to attach cover to book');
+    }
+  }
+
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      const book = await this.findOne(id);
 
+      // Refuse to delete while the book still has copies, so none is left
+      // pointing at a missing title, and release the category, author,
+      // series, tag and work counters in the same transaction
       await this.dynamoDBService.documentClient.send(
-        new DeleteCommand({
-          TableName: this.tableName,
-          Key: { id },
-          ConditionExpression: 'attribute_exists(id)',
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: { id },
+                ConditionExpression:
+                  'attribute_exists(id) AND (attribute_not_exists(totalCopies) OR totalCopies = :zero)',
+                ExpressionAttributeValues: {
+                  ':zero': 0,
+                },
+              },
+            },
+            this.categoriesService.booksCountTransactItem(book.categoryId, -1),
+            ...(await this.releaseIsbnTransactItems(book.isbn, id)),
+            ...this.contributorTransactItems(id, this.contributorsOf(book), [])
+              .items,
+            ...this.seriesService.volumeTransactItems(
+              id,
+              this.seriesPlacementOf(book),
+              undefined,
+            ),
+            ...this.tagsService.tagTransactItems(id, book.tags ?? [], []).items,
+            ...this.workEditionTransactItems(id, book.workId, undefined),
+          ],
         }),
       );
 
+      await this.searchService.removeBook(id);
+      await this.removeReviews(id);
+
+      // Delete files from S3 once the book record is gone
+      await this.removeCover(book);
+      if (book.pdf) {
+        await this.s3Service.deleteFile(book.pdf);
+      }
+
       return { message: `Book with ID "${id}" has been successfully deleted` };
     } catch (error) {
       this.logger.error(`Failed to delete book: ${error.message}`, error.stack);
+      const failed = this.dynamoDBService.failedTransactionConditions(error);
+      if (failed.includes(0)) {
+        throw new BookConflictException(
+          `Book with ID "${id}" still has copies or was already deleted, delete its copies first`,
+        );
+      }
+      if (failed.length > 0) {
+        throw new BookConflictException(
+          `Books count of the category, an author, the series, a tag or the work of book "${id}" is out of sync`,
+        );
+      }
       throw error;
     }
   }
 
+  // Without a barcode any copy on the shelf is lent out. Loans opened at the
+  // desk start now and, without a return date, run for the policy's maximum
   async borrow(
     id: string,
-    borrowData: { borrowerId: string; startDate: string; returnDate: string },
+    borrowData: {
+      borrowerId: string;
+      startDate?: string;
+      returnDate?: string;
+      pickupBranchId?: string;
+    },
+    groups: string[] = [],
+    barcode?: string,
   ): Promise<Book> {
     try {
       const book = await this.findOne(id);
+      const policy = await this.policiesService.resolve({
+        categoryId: book.categoryId,
+        groups,
+      });
+
+      if (!policy.loanable) {
+        throw new BadRequestException(
+          `Book with ID "${id}" is for reference only and cannot be borrowed`,
+        );
+      }
 
       // Check if the book is already borrowed by this user
-      const userBorrowedBooks = await this.findBorrowedBooksByUser(
+      const activeLoans = await this.loansService.findActiveByBorrower(
         borrowData.borrowerId,
       );
-      const alreadyBorrowed = userBorrowedBooks.books.some(
-        (borrowedBook) => borrowedBook.id === id,
-      );
+      const alreadyBorrowed = activeLoans.some((loan) => loan.bookId === id);
 
       if (alreadyBorrowed) {
         throw new BadRequestException(`You have already borrowed this book`);
       }
 
       // Get total number of books currently borrowed by the user
-      const totalBorrowedBooks = userBorrowedBooks.books.length;
-      const MAX_BORROWED_BOOKS = 3; // You can adjust this limit
+      const totalBorrowedBooks = activeLoans.length;
+
+      if (totalBorrowedBooks >= policy.maxLoans) {
+        throw new BadRequestException(
+          `You cannot borrow more than ${policy.maxLoans} books at a time. Please return some books first.`,
+        );
+      }
+
+      // Readers with too much in unpaid fines are blocked until they settle
+      const fineBalance = await this.finesService.getOutstandingBalance(
+        borrowData.borrowerId,
+      );
+      if (fineBalance > this.finesService.borrowingBlockThreshold) {
+        throw new BadRequestException(
+          `You have ${(fineBalance / 100).toFixed(2)} in unpaid fines. Please settle them before borrowing`,
+        );
+      }
+
+      // A reader collecting a copy set aside for them skips the shelf
+      const readyHold = await this.holdsService.findReadyHold(
+        id,
+        borrowData.borrowerId,
+      );
 
-      if (totalBorrowedBooks >= MAX_BORROWED_BOOKS) {
+      if (!readyHold && book.quantity <= 0) {
         throw new BadRequestException(
-          `You cannot borrow more than ${MAX_BORROWED_BOOKS} books at a time. Please return some books first.`,
+          `Book with ID "${id}" is not available for borrowing. Place a hold to join the waiting list`,
         );
       }
 
-      if (book.quantity <= 0) {
+      const copy = barcode
+        ? await this.copiesService.findOneOfBook(id, barcode)
+        : await this.copiesService.findAvailable(id, borrowData.pickupBranchId);
+
+      if (!copy || copy.status !== CopyStatus.AVAILABLE) {
         throw new BadRequestException(
-          `Book with ID "${id}" is not available for borrowing`,
+          barcode
+            ? `Copy "${barcode}" is ${copy.status} and cannot be borrowed`
+            : borrowData.pickupBranchId
+              ? `No copy of book with ID "${id}" is on the shelf at branch "${borrowData.pickupBranchId}"`
+              : `No copy of book with ID "${id}" is on the shelf`,
         );
       }
 
       // Validate dates
       const currentDate = new Date();
-      const startDate = new Date(borrowData.startDate);
-      const returnDate = new Date(borrowData.returnDate);
-
-      if (startDate < currentDate) {
+      const startDate = borrowData.startDate
+        ? new Date(borrowData.startDate)
+        : currentDate;
+      const returnDate = borrowData.returnDate
+        ? new Date(borrowData.returnDate)
+        : new Date(
+            startDate.getTime() + policy.maxLoanDays * 24 * 60 * 60 * 1000,
+          );
+
+      if (borrowData.startDate && startDate < currentDate) {
         throw new BadRequestException('Start date cannot be in the past');
       }
 
@@ -305,60 +1032,82 @@ export class BooksService {
         throw new BadRequestException('Return date must be after start date');
       }
 
-      // Maximum borrow duration (e.g., 30 days)
-      const MAX_BORROW_DAYS = 30;
       const daysDifference = Math.ceil(
         (returnDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24),
       );
 
-      if (daysDifference > MAX_BORROW_DAYS) {
+      if (daysDifference > policy.maxLoanDays) {
         throw new BadRequestException(
-          `Maximum borrow duration is ${MAX_BORROW_DAYS} days`,
+          `Maximum borrow duration is ${policy.maxLoanDays} days`,
         );
       }
 
-      const newQuantity = book.quantity - 1;
-
-      const updateExpression =
-        'SET #borrowerId = :borrowerId, #quantity = :quantity, #startDate = :startDate, #returnDate = :returnDate, #status = :status, updatedAt = :updatedAt';
-
-      const expressionAttributeValues = {
-        ':borrowerId': borrowData.borrowerId,
-        ':quantity': newQuantity,
-        ':startDate': borrowData.startDate,
-        ':returnDate': borrowData.returnDate,
-        ':status': BookStatus.BORROWED,
-        ':updatedAt': new Date().toISOString(),
-      };
-
-      const expressionAttributeNames = {
-        '#borrowerId': 'borrowerId',
-        '#quantity': 'quantity',
-        '#startDate': 'startDate',
-        '#returnDate': 'returnDate',
-        '#status': 'status',
-      };
+      const loan = this.loansService.buildLoan({
+        bookId: id,
+        borrowerId: borrowData.borrowerId,
+        barcode: copy.barcode,
+        startDate: borrowData.startDate ?? startDate.toISOString(),
+        returnDate: borrowData.returnDate ?? returnDate.toISOString(),
+      });
+      const updatedAt = new Date().toISOString();
+
+      // Taking a copy and opening the loan succeed or fail together; the
+      // quantity condition makes concurrent borrows of the last copy safe,
+      // the copy condition two checkouts of the same barcode
+      const takeCopyTransactItem: TransactWriteItem = readyHold
+        ? this.holdsService.fulfilTransactItem(readyHold)
+        : {
+            Update: {
+              TableName: this.tableName,
+              Key: { id },
+              UpdateExpression:
+                'SET #quantity = #quantity - :one, updatedAt = :updatedAt',
+              ConditionExpression: 'attribute_exists(id) AND #quantity > :zero',
+              ExpressionAttributeNames: {
+                '#quantity': 'quantity',
+              },
+              ExpressionAttributeValues: {
+                ':one': 1,
+                ':zero': 0,
+                ':updatedAt': updatedAt,
+              },
+            },
+          };
 
-      const result = await this.dynamoDBService.documentClient.send(
-        new UpdateCommand({
-          TableName: this.tableName,
-          Key: { id },
-          UpdateExpression: updateExpression,
-          ExpressionAttributeValues: expressionAttributeValues,
-          ExpressionAttributeNames: expressionAttributeNames,
-          ReturnValues: 'ALL_NEW',
-          ConditionExpression: 'attribute_exists(id)',
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            takeCopyTransactItem,
+            this.loansService.createTransactItem(loan),
+            this.historyService.eventTransactItem(
+              this.historyService.buildEvent(
+                LoanEventType.BORROWED,
+                loan,
+                book,
+              ),
+            ),
+            this.copiesService.checkoutTransactItem(copy, loan.id),
+          ],
         }),
       );
+      await this.searchService.refreshBook(id);
 
-      const updatedBook = result.Attributes as Book;
+      const updatedBook = this.withLoan(
+        {
+          ...book,
+          quantity: readyHold ? book.quantity : book.quantity - 1,
+          updatedAt,
+        },
+        loan,
+      );
 
       // Log the successful borrow operation
       this.logger.log(`Book ${id} borrowed by user ${borrowData.borrowerId}`, {
         bookId: id,
         borrowerId: borrowData.borrowerId,
-        startDate: borrowData.startDate,
-        returnDate: borrowData.returnDate,
+        barcode: loan.barcode,
+        startDate: loan.startDate,
+        returnDate: loan.returnDate,
       });
 
       return updatedBook;
@@ -369,6 +1118,23 @@ export class BooksService {
       } else if (error instanceof BadRequestException) {
         this.logger.error(`Book not available: ${error.message}`, error.stack);
         throw error;
+      } else if (error instanceof CopyNotFoundException) {
+        this.logger.error(`Copy not found: ${error.message}`, error.stack);
+        throw error;
+      } else if (
+        this.dynamoDBService.failedTransactionConditions(error).includes(3)
+      ) {
+        this.logger.error(`Borrow race lost: ${error.message}`, error.stack);
+        throw new BookConflictException(
+          `The copy of book "${id}" was just checked out by someone else, please retry`,
+        );
+      } else if (
+        this.dynamoDBService.failedTransactionConditions(error).length > 0
+      ) {
+        this.logger.error(`Borrow race lost: ${error.message}`, error.stack);
+        throw new BookConflictException(
+          `The last available copy of book "${id}" was just borrowed by someone else`,
+        );
       } else {
         this.logger.error(
           `Failed to borrow book: ${error.message}`,
@@ -379,37 +1145,112 @@ export class BooksService {
     }
   }
 
-  async findByCategory(
-    categoryId: string,
-    limit: number,
-    lastEvaluatedKey?: string,
-  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
+  async renew(
+    id: string,
+    userId: string,
+    groups: string[] = [],
+  ): Promise<Book> {
     try {
-      const params: any = {
-        TableName: this.tableName,
-        IndexName: 'CategoryIndex',
-        KeyConditionExpression: 'categoryId = :categoryId',
-        ExpressionAttributeValues: {
-          ':categoryId': categoryId,
-        },
-        Limit: limit,
-      };
+      const book = await this.findOne(id);
+      const policy = await this.policiesService.resolve({
+        categoryId: book.categoryId,
+        groups,
+      });
 
-      if (lastEvaluatedKey) {
-        params.ExclusiveStartKey = { id: lastEvaluatedKey };
+      const loan = await this.loansService.findActiveLoan(id, userId);
+      if (!loan) {
+        throw new LoanRenewalRefusedException(
+          RenewalRefusalReason.NOT_BORROWED,
+          `Book with ID "${id}" is not currently borrowed by you`,
+        );
       }
 
-      const command = new QueryCommand(params);
-      const response = await this.dynamoDBService.documentClient.send(command);
-      const books = response.Items as Book[];
+      if ((loan.renewals ?? 0) >= policy.maxRenewals) {
+        throw new LoanRenewalRefusedException(
+          RenewalRefusalReason.RENEWAL_LIMIT_REACHED,
+          `This loan has already been renewed the maximum of ${policy.maxRenewals} times`,
+        );
+      }
 
-      // Update status based on quantity
-      books.forEach((book) => {
-        if (book.quantity > 0) {
-          book.status = BookStatus.AVAILABLE;
+      if (
+        loan.status === LoanStatus.OVERDUE ||
+        new Date(loan.returnDate) < new Date()
+      ) {
+        throw new LoanRenewalRefusedException(
+          RenewalRefusalReason.LOAN_OVERDUE,
+          `This loan was due on ${loan.returnDate}, please return the book`,
+        );
+      }
+
+      const waitingHolds = await this.holdsService.findWaitingQueue(id);
+      if (waitingHolds.length > 0) {
+        throw new LoanRenewalRefusedException(
+          RenewalRefusalReason.HOLDS_PENDING,
+          `${waitingHolds.length} other reader(s) are waiting for this book, please return it by ${loan.returnDate}`,
+        );
+      }
+
+      // Each renewal pushes the return date out by the policy's period
+      const returnDate = new Date(loan.returnDate);
+      returnDate.setDate(returnDate.getDate() + policy.renewalDays);
+
+      const renewedLoan = await this.loansService.renew(
+        loan,
+        returnDate.toISOString(),
+        policy.maxRenewals,
+      );
+
+      this.logger.log(`Book ${id} renewed by user ${userId}`, {
+        bookId: id,
+        borrowerId: userId,
+        returnDate: renewedLoan.returnDate,
+        renewals: renewedLoan.renewals,
+      });
+
+      return this.withLoan(book, renewedLoan);
+    } catch (error) {
+      this.logger.error(`Failed to renew book: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException(
+        `Failed to renew book: ${error.message}`,
+      );
+    }
+  }
+
+  async findByCategory(
+    categoryId: string,
+    limit: number,
+    lastEvaluatedKey?: string,
+  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
+    try {
+      const params: any = {
+        TableName: this.tableName,
+        IndexName: 'CategoryIndex',
+        KeyConditionExpression: 'categoryId = :categoryId',
+        ExpressionAttributeValues: {
+          ':categoryId': categoryId,
+        },
+        Limit: limit,
+      };
+
+      if (lastEvaluatedKey) {
+        params.ExclusiveStartKey = { id: lastEvaluatedKey };
+      }
+
+      const command = new QueryCommand(params);
+      const response = await this.dynamoDBService.documentClient.send(command);
+      const books = response.Items as Book[];
+
+      // Update status based on quantity
+      books.forEach((book) => {
+        if (book.quantity > 0) {
+          book.status = BookStatus.AVAILABLE;
         } else {
           book.status = BookStatus.UNAVAILABLE;
         }
+        book.hasPdf = Boolean(book.pdf);
       });
 
       return {
@@ -430,36 +1271,12 @@ export class BooksService {
     }
   }
 
+  // Every book the author contributed to, in any role
   async findByAuthor(
     authorId: string,
   ): Promise<{ message: string; books: Book[] }> {
     try {
-      const result = await this.dynamoDBService.documentClient.send(
-        new QueryCommand({
-          TableName: this.tableName,
-          IndexName: 'AuthorIndex',
-          KeyConditionExpression: 'authorId = :authorId',
-          ExpressionAttributeValues: {
-            ':authorId': authorId,
-          },
-        }),
-      );
-
-      const books = result.Items as Book[];
-
-      // Update status based on quantity
-      books.forEach((book) => {
-        if (book.quantity > 0) {
-          book.status = BookStatus.AVAILABLE;
-        } else {
-          book.status = BookStatus.UNAVAILABLE;
-        }
-      });
-
-      return {
-        message: 'Books retrieved successfully',
-        books,
-      };
+      return await this.authorsService.findBooksByAuthor(authorId);
     } catch (error) {
       this.logger.error(
         `Failed to fetch books by author: ${error.message}`,
@@ -473,45 +1290,27 @@ export class BooksService {
     userId: string,
   ): Promise<{ message: string; books: Book[] }> {
     try {
-      console.log('Searching for books borrowed by user:', userId);
-
-      const params = {
-        TableName: this.tableName,
-        FilterExpression: '#borrowerId = :borrowerId AND #status = :status',
-        ExpressionAttributeNames: {
-          '#borrowerId': 'borrowerId',
-          '#status': 'status',
-        },
-        ExpressionAttributeValues: {
-          ':borrowerId': userId,
-          ':status': BookStatus.BORROWED,
-        },
-      };
-
-      console.log('Scan params:', JSON.stringify(params, null, 2));
-
-      const result = await this.dynamoDBService.documentClient.send(
-        new ScanCommand(params),
-      );
-
-      console.log('Scan result:', JSON.stringify(result, null, 2));
+      const loans = await this.loansService.findActiveByBorrower(userId);
 
-      const books = result.Items as Book[];
-
-      if (!books || books.length === 0) {
+      if (loans.length === 0) {
         return {
           message: 'No borrowed books found',
           books: [],
         };
       }
 
+      const booksById = await this.findManyByIds(
+        loans.map((loan) => loan.bookId),
+      );
+      const books = loans
+        .filter((loan) => booksById.has(loan.bookId))
+        .map((loan) => this.withLoan(booksById.get(loan.bookId), loan));
+
       return {
         message: `Found ${books.length} borrowed book(s)`,
-        books: books,
+        books,
       };
     } catch (error) {
-      console.error('Full error details:', error);
-
       this.logger.error('Failed to fetch borrowed books:', {
         userId,
         error: error.message,
@@ -525,150 +1324,772 @@ export class BooksService {
     }
   }
 
-  async findByRating(
-    rating: number,
-  ): Promise<{ message: string; books: Book[] }> {
+  // Fields given as undefined are removed
+  private async setFiles(
+    id: string,
+    files: Partial<
+      Pick<Book, 'pdf' | 'pdfInfo' | 'cover' | 'covers' | 'coverFromPdf'>
+    >,
+  ): Promise<Book> {
+    const names = Object.keys(files);
+    const setNames = names.filter((name) => files[name] !== undefined);
+    const removedNames = names.filter((name) => files[name] === undefined);
     try {
-      const params: any = {
-        TableName: this.tableName,
-        IndexName: 'RatingIndex',
-        KeyConditionExpression: 'rating = :rating',
-        ExpressionAttributeValues: {
-          ':rating': rating,
-        },
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: [
+            `SET ${setNames
+              .map((name) => `#${name} = :${name}`)
+              .concat('updatedAt = :updatedAt')
+              .join(', ')}`,
+            ...(removedNames.length > 0
+              ? [`REMOVE ${removedNames.map((name) => `#${name}`).join(', ')}`]
+              : []),
+          ].join(' '),
+          ExpressionAttributeNames: Object.fromEntries(
+            names.map((name) => [`#${name}`, name]),
+          ),
+          ExpressionAttributeValues: {
+            ...Object.fromEntries(
+              setNames.map((name) => [`:${name}`, files[name]]),
+            ),
+            ':updatedAt': new Date().toISOString(),
+          },
+          ConditionExpression: 'attribute_exists(id)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      const book = response.Attributes as Book;
+      book.hasPdf = Boolean(book.pdf);
+      await this.searchService.indexBook(book);
+      return book;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new NotFoundException(`Book with ID "${id}" not found`);
+      }
+      throw error;
+    }
+  }
+
+  // Removes the files a write replaced, or stored for a write that did not
+  // go through. Either way the write has settled, so a failure is only
+  // logged and what is left is found by the storage reconciliation
+  private async discardFiles(
+    files: Pick<Book, 'cover' | 'covers' | 'pdf'>,
+  ): Promise<void> {
+    try {
+      await this.removeCover(files);
+      if (files.pdf) {
+        await this.s3Service.deleteFile(files.pdf);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete files: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Reviews of a deleted book. No review can be written once the book is
+  // gone, and the rating they made up went with it, so they are deleted
+  // one by one; whatever fails is left for moderation, which can delete
+  // reviews of missing books
+  private async removeReviews(bookId: string): Promise<void> {
+    try {
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.reviewsTableName,
+            KeyConditionExpression: 'bookId = :bookId',
+            ExpressionAttributeValues: {
+              ':bookId': bookId,
+            },
+            ProjectionExpression: 'bookId, userId',
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        for (const key of response.Items || []) {
+          await this.dynamoDBService.documentClient.send(
+            new DeleteCommand({
+              TableName: this.reviewsTableName,
+              Key: { bookId: key.bookId, userId: key.userId },
+            }),
+          );
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete reviews of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // A cover rendered from the PDF stands in until one is uploaded
+  private wantsPdfCover(book: Book): boolean {
+    return !book.cover || book.coverFromPdf === true;
+  }
+
+  private async previewCovers(pdf: Buffer): Promise<ImageRenditions> {
+    return this.imagesService.storeRenditions(
+      await this.pdfsService.renderFirstPage(pdf),
+      'books/covers',
+    );
+  }
+
+  // Covers uploaded before renditions were generated are a single file
+  private async removeCover(
+    book: Pick<Book, 'cover' | 'covers'>,
+  ): Promise<void> {
+    if (book.covers) {
+      await this.imagesService.removeRenditions(book.covers);
+    } else if (book.cover) {
+      await this.s3Service.deleteFile(book.cover);
+    }
+  }
+
+  // The books with copies at the branch, with their copies and
+  // availability counted there. Copies set aside for a ready hold still
+  // count as on the shelf
+  private atBranch(books: Book[], copies: Copy[]): Book[] {
+    const holdings = new Map<string, Copy[]>();
+    for (const copy of copies) {
+      holdings.set(copy.bookId, [...(holdings.get(copy.bookId) ?? []), copy]);
+    }
+
+    return books
+      .filter((book) => holdings.has(book.id))
+      .map((book) => {
+        const bookCopies = holdings.get(book.id);
+        const quantity = bookCopies.filter(
+          (copy) => copy.status === CopyStatus.AVAILABLE,
+        ).length;
+        return {
+          ...book,
+          quantity,
+          totalCopies: bookCopies.length,
+          status: quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE,
+        };
+      });
+  }
+
+  // The transfer home of a copy handed in at another branch, if it was
+  private async returnTransfer(
+    copy: Copy | undefined,
+    branchId: string | undefined,
+  ): Promise<Transfer | undefined> {
+    if (!copy?.branchId || !branchId || branchId === copy.branchId) {
+      return undefined;
+    }
+    return this.transfersService.buildReturnTransfer(copy, branchId);
+  }
+
+  // Named after the facets, each counted without its own filter. A book
+  // has to be held at the branch asked for, and any status filter is applied
+  // to its availability there
+  private bookFilters(
+    query: FindBooksQueryDto,
+    statusFacet: string,
+  ): Record<string, BrowseFilter> {
+    const filters: Record<string, BrowseFilter> = {};
+    const statuses = [BookStatus.AVAILABLE, BookStatus.UNAVAILABLE];
+
+    if (query.branchId) {
+      filters.branchId = { facet: statusFacet, values: statuses };
+    }
+    if (query.categoryId) {
+      filters.categoryId = { facet: 'categoryId', values: [query.categoryId] };
+    }
+    // Matches every book the author contributed to, in any role
+    if (query.authorId) {
+      filters.authorId = { facet: 'authorId', values: [query.authorId] };
+    }
+    if (query.status || query.available !== undefined) {
+      filters.status = {
+        facet: statusFacet,
+        values: statuses.filter(
+          (status) =>
+            (!query.status || status === query.status) &&
+            (query.available === undefined ||
+              (status === BookStatus.AVAILABLE) === query.available),
+        ),
       };
+    }
+    if (query.yearFrom !== undefined || query.yearTo !== undefined) {
+      filters.publishedYear = {
+        value: 'publishedYear',
+        min: query.yearFrom,
+        max: query.yearTo,
+      };
+    }
+    if (query.minRating !== undefined) {
+      filters.rating = { value: 'rating', min: query.minRating };
+    }
+    if (query.tag) {
+      filters.tags = { facet: 'tags', values: [query.tag] };
+    }
+    return filters;
+  }
 
-      const command = new QueryCommand(params);
-      const response = await this.dynamoDBService.documentClient.send(command);
-      const books = response.Items as Book[];
+  private bookFacets(
+    counts: Record<keyof BookFacets, Record<string, number>>,
+  ): BookFacets {
+    const toFacet = (
+      name: keyof BookFacets,
+      compare?: (a: string, b: string) => number,
+    ) =>
+      Object.entries(counts[name])
+        .map(([value, count]) => ({ value, count }))
+        .sort((a, b) =>
+          compare
+            ? compare(a.value, b.value)
+            : b.count - a.count || a.value.localeCompare(b.value),
+        );
 
-      return {
-        message: 'Books retrieved successfully',
-        books,
+    return {
+      categoryId: toFacet('categoryId'),
+      authorId: toFacet('authorId'),
+      status: toFacet('status'),
+      publishedYear: toFacet('publishedYear', (a, b) => Number(b) - Number(a)),
+      rating: toFacet('rating', (a, b) => Number(b) - Number(a)),
+      tags: toFacet('tags'),
+    };
+  }
+
+  private decodeOffset(lastEvaluatedKey?: string): number {
+    if (!lastEvaluatedKey) {
+      return 0;
+    }
+
+    const offset = Number(
+      Buffer.from(lastEvaluatedKey, 'base64url').toString('utf8'),
+    );
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new BadRequestException('Invalid lastEvaluatedKey');
+    }
+    return offset;
+  }
+
+  private async findManyByIds(ids: string[]): Promise<Map<string, Book>> {
+    const booksById = new Map<string, Book>();
+    const uniqueIds = [...new Set(ids)];
+
+    // BatchGetItem accepts at most 100 keys per request
+    for (let i = 0; i < uniqueIds.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        [this.tableName]: {
+          Keys: uniqueIds.slice(i, i + 100).map((id) => ({ id })),
+        },
       };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        ((response.Responses?.[this.tableName] || []) as Book[]).forEach(
+          (book) => {
+            book.hasPdf = Boolean(book.pdf);
+            booksById.set(book.id, book);
+          },
+        );
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return booksById;
+  }
+
+  private toIsbn13(isbn: string): string {
+    const isbn13 = normalizeIsbn(isbn);
+    if (!isbn13) {
+      throw new BadRequestException(`"${isbn}" is not a valid ISBN`);
+    }
+    return isbn13;
+  }
+
+  private async findIsbnOwner(isbn: string): Promise<string | undefined> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.isbnsTableName,
+          Key: { isbn },
+          ConsistentRead: true,
+        }),
+      );
+      return response.Item?.bookId;
     } catch (error) {
       this.logger.error(
-        `Failed to fetch books by rating: ${error.message}`,
+        `Failed to look up ISBN ${isbn}: ${error.message}`,
         error.stack,
       );
-      throw new InternalServerErrorException('Failed to fetch books by rating');
+      throw new InternalServerErrorException('Failed to look up ISBN');
     }
   }
 
-  async search(query: string): Promise<{ message: string; books: Book[] }> {
-    try {
-      const lowercaseQuery = query.toLowerCase().trim();
-      const queryWords = lowercaseQuery
-        .split(' ')
-        .filter((word) => word.length > 0);
+  private claimIsbnTransactItem(
+    isbn: string,
+    bookId: string,
+  ): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.isbnsTableName,
+        Item: { isbn, bookId },
+        ConditionExpression: 'attribute_not_exists(isbn)',
+      },
+    };
+  }
 
-      const params = {
-        TableName: this.tableName,
-        FilterExpression: queryWords
-          .map(
-            (_, index) =>
-              `contains(#title, :query${index}) OR contains(#author, :query${index})`,
-          )
-          .join(' OR '),
-        ExpressionAttributeNames: {
-          '#title': 'title',
-          '#author': 'author',
+  // Books catalogued before ISBNs were claimed have no row to release
+  private async releaseIsbnTransactItems(
+    isbn: string,
+    bookId: string,
+  ): Promise<TransactWriteItem[]> {
+    if ((await this.findIsbnOwner(isbn)) !== bookId) {
+      return [];
+    }
+    return [
+      {
+        Delete: {
+          TableName: this.isbnsTableName,
+          Key: { isbn },
+          ConditionExpression: 'bookId = :bookId',
+          ExpressionAttributeValues: { ':bookId': bookId },
         },
-        ExpressionAttributeValues: queryWords.reduce(
-          (acc, word, index) => ({
-            ...acc,
-            [`:query${index}`]: word,
+      },
+    ];
+  }
+
+  // Lists the primary author first and drops repeated entries. Without an
+  // explicit primary author, the first contributor with the AUTHOR role is
+  private resolveContributors(
+    authorId: string | undefined,
+    contributors: Contributor[] = [],
+  ): { authorId: string; contributors: Contributor[] } {
+    const resolved: Contributor[] = [];
+    const add = ({ authorId, role }: Contributor) => {
+      if (
+        !resolved.some(
+          (contributor) =>
+            contributor.authorId === authorId && contributor.role === role,
+        )
+      ) {
+        resolved.push({ authorId, role });
+      }
+    };
+
+    if (authorId) {
+      add({ authorId, role: ContributorRole.AUTHOR });
+    }
+    contributors.forEach(add);
+
+    const primary = resolved.find(
+      (contributor) => contributor.role === ContributorRole.AUTHOR,
+    );
+    if (!primary) {
+      throw new BadRequestException(
+        'A book needs at least one contributor with the AUTHOR role',
+      );
+    }
+    return { authorId: primary.authorId, contributors: resolved };
+  }
+
+  private contributorsOf(book: Book): Contributor[] {
+    return (
+      book.contributors ?? [
+        { authorId: book.authorId, role: ContributorRole.AUTHOR },
+      ]
+    );
+  }
+
+  // Links the authors a change adds to the book and unlinks the ones it
+  // drops, moving their booksCount with them. An author counts the book
+  // once however many roles they hold on it, so a change of roles alone
+  // writes nothing. The counters of added authors come first
+  private contributorTransactItems(
+    bookId: string,
+    before: Contributor[],
+    after: Contributor[],
+  ): { addedAuthorIds: string[]; items: TransactWriteItem[] } {
+    const beforeIds = new Set(
+      before.map((contributor) => contributor.authorId),
+    );
+    const afterIds = new Set(after.map((contributor) => contributor.authorId));
+    const addedAuthorIds = [...afterIds].filter((id) => !beforeIds.has(id));
+    const removedAuthorIds = [...beforeIds].filter((id) => !afterIds.has(id));
+
+    return {
+      addedAuthorIds,
+      items: [
+        ...addedAuthorIds.map((authorId) =>
+          this.authorsService.booksCountTransactItem(authorId, 1),
+        ),
+        ...removedAuthorIds.map((authorId) =>
+          this.authorsService.booksCountTransactItem(authorId, -1),
+        ),
+        ...addedAuthorIds.map(
+          (authorId): TransactWriteItem => ({
+            Put: {
+              TableName: this.contributorsTableName,
+              Item: { authorId, bookId },
+            },
           }),
-          {},
         ),
-      };
+        ...removedAuthorIds.map(
+          (authorId): TransactWriteItem => ({
+            Delete: {
+              TableName: this.contributorsTableName,
+              Key: { authorId, bookId },
+            },
+          }),
+        ),
+      ],
+    };
+  }
 
-      this.logger.debug('Search params:', JSON.stringify(params, null, 2));
+  // The added author or tag whose counter update failed the transaction,
+  // the counters of the added ones starting at the given position
+  private missingReference(
+    failed: number[],
+    offset: number,
+    added: string[],
+  ): string | undefined {
+    const index = failed.find(
+      (position) => position >= offset && position < offset + added.length,
+    );
+    return index === undefined ? undefined : added[index - offset];
+  }
 
-      const command = new ScanCommand(params);
-      const response = await this.dynamoDBService.documentClient.send(command);
+  // Moves a book from one work to another, either side being empty when it
+  // is attached or detached. The new work's counter comes first, so a failed
+  // condition there is a missing work
+  private workEditionTransactItems(
+    bookId: string,
+    before: string | undefined,
+    after: string | undefined,
+  ): TransactWriteItem[] {
+    if (before === after) {
+      return [];
+    }
 
-      const books = (response.Items || []) as Book[];
+    const counter = (workId: string, delta: 1 | -1): TransactWriteItem => ({
+      Update: {
+        TableName: this.worksTableName,
+        Key: { id: workId },
+        UpdateExpression: 'SET editionsCount = editionsCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND editionsCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    });
+
+    const items: TransactWriteItem[] = [];
+    if (after) {
+      items.push(counter(after, 1), {
+        Put: {
+          TableName: this.workEditionsTableName,
+          Item: { workId: after, bookId },
+        },
+      });
+    }
+    if (before) {
+      items.push(counter(before, -1), {
+        Delete: {
+          TableName: this.workEditionsTableName,
+          Key: { workId: before, bookId },
+        },
+      });
+    }
+    return items;
+  }
 
-      // Sort results by relevance
-      const sortedBooks = books.sort((a, b) => {
-        const aMatches = queryWords.filter(
-          (word) =>
-            a.title.toLowerCase().includes(word) ||
-            (a.author && a.author.toLowerCase().includes(word)),
-        ).length;
-        const bMatches = queryWords.filter(
-          (word) =>
-            b.title.toLowerCase().includes(word) ||
-            (b.author && b.author.toLowerCase().includes(word)),
-        ).length;
-        return bMatches - aMatches;
+  // Keeps the first of repeated slugs, so the links of a book stay unique
+  private uniqueTags(tags?: string[]): string[] | undefined {
+    return tags && [...new Set(tags)];
+  }
+
+  private seriesPlacementOf(book: Book): SeriesPlacement | undefined {
+    return book.seriesId
+      ? { seriesId: book.seriesId, volume: book.seriesVolume }
+      : undefined;
+  }
+
+  // A series id needs a volume, a volume on its own renumbers the book within
+  // its current series and a null series id takes the book out of it
+  private resolveSeries(
+    current: SeriesPlacement | undefined,
+    seriesId: string | null | undefined,
+    volume: number | undefined,
+  ): SeriesPlacement | undefined {
+    if (seriesId === undefined && volume === undefined) {
+      return current;
+    }
+    if (seriesId === null) {
+      if (volume !== undefined) {
+        throw new BadRequestException(
+          'A volume number cannot be set while leaving a series',
+        );
+      }
+      return undefined;
+    }
+
+    const placement = {
+      seriesId: seriesId ?? current?.seriesId,
+      volume: volume ?? current?.volume,
+    };
+    if (!placement.seriesId) {
+      throw new BadRequestException('A volume number needs a seriesId');
+    }
+    if (placement.volume === undefined) {
+      throw new BadRequestException('A book in a series needs a volume number');
+    }
+    return placement;
+  }
+
+  // Maps the failed conditions of SeriesService.volumeTransactItems, placed
+  // at offset in the transaction
+  private throwIfSeriesFailed(
+    failed: number[],
+    offset: number,
+    before: SeriesPlacement | undefined,
+    after: SeriesPlacement | undefined,
+  ): void {
+    const changed =
+      before?.seriesId !== after?.seriesId || before?.volume !== after?.volume;
+    if (!after || !changed) {
+      return;
+    }
+    if (failed.includes(offset)) {
+      throw new SeriesVolumeTakenException(after.seriesId, after.volume);
+    }
+    if (before?.seriesId !== after.seriesId && failed.includes(offset + 1)) {
+      throw new SeriesNotFoundException(after.seriesId);
+    }
+  }
+
+  private withLoan(book: Book, loan: Loan): Book {
+    return {
+      ...book,
+      status:
+        loan.status === LoanStatus.OVERDUE
+          ? BookStatus.OVERDUE
+          : BookStatus.BORROWED,
+      loanId: loan.id,
+      borrowerId: loan.borrowerId,
+      barcode: loan.barcode,
+      startDate: loan.startDate,
+      returnDate: loan.returnDate,
+      renewals: loan.renewals ?? 0,
+    };
+  }
+
+  // Moves the book's review totals by the given deltas. The condition on the
+  // current totals rejects a concurrent review change, which would otherwise
+  // leave the average out of step
+  ratingTransactItem(
+    book: Book,
+    scoreDelta: number,
+    countDelta: number,
+  ): TransactWriteItem {
+    const ratingSum = (book.ratingSum ?? 0) + scoreDelta;
+    const reviewsCount = (book.reviewsCount ?? 0) + countDelta;
+    const expressionAttributeValues: Record<string, any> = {
+      ':ratingSum': ratingSum,
+      ':reviewsCount': reviewsCount,
+      ':updatedAt': new Date().toISOString(),
+    };
+
+    let updateExpression =
+      'SET ratingSum = :ratingSum, reviewsCount = :reviewsCount, updatedAt = :updatedAt';
+    if (reviewsCount > 0) {
+      updateExpression += ', rating = :rating';
+      expressionAttributeValues[':rating'] =
+        Math.round((ratingSum / reviewsCount) * 100) / 100;
+    } else {
+      updateExpression += ' REMOVE rating';
+    }
+
+    let conditionExpression = 'attribute_exists(id)';
+    if (book.reviewsCount) {
+      conditionExpression +=
+        ' AND reviewsCount = :currentReviewsCount AND ratingSum = :currentRatingSum';
+      expressionAttributeValues[':currentReviewsCount'] = book.reviewsCount;
+      expressionAttributeValues[':currentRatingSum'] = book.ratingSum;
+    } else {
+      conditionExpression +=
+        ' AND (attribute_not_exists(reviewsCount) OR reviewsCount = :zero)';
+      expressionAttributeValues[':zero'] = 0;
+    }
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id: book.id },
+        UpdateExpression: updateExpression,
+        ConditionExpression: conditionExpression,
+        ExpressionAttributeValues: expressionAttributeValues,
+      },
+    };
+  }
+
+  // Books whose average review score is at least minRating, best rated first
+  async findByRating(
+    minRating: number,
+  ): Promise<{ message: string; books: Book[] }> {
+    try {
+      const books: Book[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            FilterExpression: 'rating >= :minRating',
+            ExpressionAttributeValues: {
+              ':minRating': minRating,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        books.push(...((response.Items || []) as Book[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      books.forEach((book) => {
+        book.hasPdf = Boolean(book.pdf);
       });
+      books.sort(
+        (a, b) =>
+          b.rating - a.rating || (b.reviewsCount ?? 0) - (a.reviewsCount ?? 0),
+      );
 
       return {
         message:
-          sortedBooks.length > 0
-            ? `Found ${sortedBooks.length} books matching "${query}"`
+          books.length > 0
+            ? 'Books retrieved successfully'
+            : `No books rated ${minRating} or higher`,
+        books,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch books by rating: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch books by rating');
+    }
+  }
+
+  async search(
+    query: string,
+    limit = 10,
+    offset = 0,
+  ): Promise<{ message: string; books: Book[]; total: number }> {
+    try {
+      const { hits, total } = await this.searchService.search(query, {
+        types: [SearchDocumentType.BOOK],
+        limit,
+        offset,
+      });
+
+      // Hits are in relevance order, the batch read is not
+      const booksById = await this.findManyByIds(hits.map((hit) => hit.id));
+      const books = hits
+        .map((hit) => booksById.get(hit.id))
+        .filter((book) => book !== undefined);
+
+      return {
+        message:
+          total > 0
+            ? `Found ${total} books matching "${query}"`
             : `No books found matching "${query}"`,
-        books: sortedBooks,
+        books,
+        total,
       };
     } catch (error) {
-      this.logger.error('Search error:', error);
+      this.logger.error(`Search error: ${error.message}`, error.stack);
       throw new InternalServerErrorException(
         `Failed to search books: ${error.message}`,
       );
     }
   }
 
-  async returnBook(id: string, userId: string): Promise<Book> {
+  // A copy handed in away from its home branch is checked in as in transit
+  // and only counts as available once it is received back home
+  async returnBook(
+    id: string,
+    userId: string,
+    branchId?: string,
+  ): Promise<Book> {
+    let settleFineIndex: number | undefined;
+
     try {
       const book = await this.findOne(id);
 
-      // Check if the book exists and is borrowed by this user
-      if (book.status !== BookStatus.BORROWED) {
-        throw new BadRequestException(
-          `Book with ID "${id}" is not currently borrowed`,
-        );
-      }
+      // Check if the book is borrowed by this user
+      const loan = await this.loansService.findActiveLoan(book.id, userId);
 
-      if (book.borrowerId !== userId) {
+      if (!loan) {
         throw new BadRequestException(
           `Book with ID "${id}" was not borrowed by you`,
         );
       }
 
-      const newQuantity = book.quantity + 1;
-
-      const updateExpression =
-        'SET #borrowerId = :borrowerId, #quantity = :quantity, #status = :status, updatedAt = :updatedAt';
-
-      const expressionAttributeValues = {
-        ':borrowerId': null,
-        ':quantity': newQuantity,
-        ':status': BookStatus.AVAILABLE,
-        ':updatedAt': new Date().toISOString(),
-      };
-
-      const expressionAttributeNames = {
-        '#borrowerId': 'borrowerId',
-        '#quantity': 'quantity',
-        '#status': 'status',
-      };
+      const copy = loan.barcode
+        ? await this.copiesService.findOne(loan.barcode)
+        : undefined;
+      const transfer = await this.returnTransfer(copy, branchId);
+
+      // Closing the loan and releasing the copy happen atomically, so a
+      // double return cannot inflate the available quantity. The copy goes
+      // to the next hold in line before general availability, and a late
+      // return settles its fine in the same transaction. The copy itself
+      // goes back on the shelf with the loan
+      const transactItems: TransactWriteItem[] = [
+        this.loansService.closeTransactItem(loan.id, userId),
+        transfer
+          ? this.transfersService.createTransactItem(transfer)
+          : await this.holdsService.releaseCopyTransactItem(id),
+        this.historyService.eventTransactItem(
+          this.historyService.buildEvent(LoanEventType.RETURNED, loan, book),
+        ),
+      ];
+      const settleFineTransactItem =
+        await this.finesService.settleTransactItem(loan);
+      if (settleFineTransactItem) {
+        settleFineIndex = transactItems.push(settleFineTransactItem) - 1;
+      }
+      if (loan.barcode) {
+        transactItems.push(
+          this.copiesService.checkinTransactItem(
+            loan.barcode,
+            loan.id,
+            transfer?.id,
+          ),
+        );
+      }
 
-      const result = await this.dynamoDBService.documentClient.send(
-        new UpdateCommand({
-          TableName: this.tableName,
-          Key: { id },
-          UpdateExpression: updateExpression,
-          ExpressionAttributeValues: expressionAttributeValues,
-          ExpressionAttributeNames: expressionAttributeNames,
-          ReturnValues: 'ALL_NEW',
-          ConditionExpression: 'attribute_exists(id)',
-        }),
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({ TransactItems: transactItems }),
       );
+      await this.searchService.refreshBook(id);
 
-      const updatedBook = result.Attributes as Book;
-      this.logger.log(`Book ${id} returned successfully`);
+      const updatedBook = await this.findOne(id);
+      this.logger.log(
+        transfer
+          ? `Book ${id} returned at branch ${branchId}, copy ${copy.barcode} sent back to branch ${copy.branchId}`
+          : `Book ${id} returned successfully`,
+      );
 
       return updatedBook;
     } catch (error) {
@@ -678,6 +2099,32 @@ export class BooksService {
       } else if (error instanceof BadRequestException) {
         this.logger.error(`Book not available: ${error.message}`, error.stack);
         throw error;
+      } else if (error instanceof BranchNotFoundException) {
+        this.logger.error(`Branch not found: ${error.message}`, error.stack);
+        throw error;
+      } else if (
+        this.dynamoDBService.failedTransactionConditions(error).includes(0)
+      ) {
+        this.logger.error(`Return race lost: ${error.message}`, error.stack);
+        throw new BookConflictException(
+          `Book with ID "${id}" has already been returned`,
+        );
+      } else if (
+        this.dynamoDBService
+          .failedTransactionConditions(error)
+          .includes(settleFineIndex)
+      ) {
+        this.logger.error(`Return race lost: ${error.message}`, error.stack);
+        throw new BookConflictException(
+          `The fine of this loan changed during the return, please retry`,
+        );
+      } else if (
+        this.dynamoDBService.failedTransactionConditions(error).length > 0
+      ) {
+        this.logger.error(`Return race lost: ${error.message}`, error.stack);
+        throw new BookConflictException(
+          `The hold queue or copies of book "${id}" changed during the return, please retry`,
+        );
       } else {
         this.logger.error(
           `Failed to return book: ${error.message}`,
@@ -690,6 +2137,45 @@ export class BooksService {
     }
   }
 
+  // Desk checkout of a scanned copy on behalf of a reader. Their user groups
+  // are not known here, so only the default and category policies apply
+  async checkout(checkoutCopyDto: CheckoutCopyDto): Promise<Book> {
+    const copy = await this.copiesService.findOne(checkoutCopyDto.barcode);
+
+    return this.borrow(
+      copy.bookId,
+      {
+        borrowerId: checkoutCopyDto.borrowerId,
+        returnDate: checkoutCopyDto.returnDate,
+      },
+      [],
+      copy.barcode,
+    );
+  }
+
+  // Desk checkin of a scanned copy, closing whichever loan it is out on
+  async checkin(barcode: string, branchId?: string): Promise<Book> {
+    const copy = await this.copiesService.findOne(barcode);
+
+    if (copy.status !== CopyStatus.ON_LOAN || !copy.loanId) {
+      throw new BadRequestException(`Copy "${barcode}" is not checked out`);
+    }
+
+    const loan = await this.loansService.findOne(copy.loanId);
+    return this.returnBook(copy.bookId, loan.borrowerId, branchId);
+  }
+
+  // Accepts ISBN-10 and ISBN-13, with or without hyphens
+  async findByIsbn(isbn: string): Promise<Book> {
+    const isbn13 = this.toIsbn13(isbn);
+    const bookId = await this.findIsbnOwner(isbn13);
+
+    if (!bookId) {
+      throw new NotFoundException(`Book with ISBN "${isbn13}" not found`);
+    }
+    return this.findOne(bookId);
+  }
+
   async findByTitle(
     title: string,
   ): Promise<{ message: string; books: Book[] }> {
@@ -715,6 +2201,9 @@ export class BooksService {
       const command = new QueryCommand(params);
       const response = await this.dynamoDBService.documentClient.send(command);
       const books = response.Items as Book[];
+      books?.forEach((book) => {
+        book.hasPdf = Boolean(book.pdf);
+      });
 
       if (!books || books.length === 0) {
         this.logger.warn(`No books found with title: "${normalizedTitle}"`);
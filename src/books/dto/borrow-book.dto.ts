@@ -1,4 +1,4 @@
-import { IsDateString, IsNotEmpty } from 'class-validator';
+import { IsDateString, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
 
 export class BorrowBookDto {
   @IsDateString()
@@ -8,4 +8,9 @@ export class BorrowBookDto {
   @IsDateString()
   @IsNotEmpty()
   returnDate: string;
+
+  // Lends a copy on the shelf at this branch
+  @IsUUID()
+  @IsOptional()
+  pickupBranchId?: string;
 }
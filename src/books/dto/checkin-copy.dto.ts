@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class CheckinCopyDto {
+  @IsString()
+  @IsNotEmpty()
+  barcode: string;
+
+  // The branch of the desk; a copy from another branch is sent back home
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+}
@@ -0,0 +1,21 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+
+export class CheckoutCopyDto {
+  @IsString()
+  @IsNotEmpty()
+  barcode: string;
+
+  @IsString()
+  @IsNotEmpty()
+  borrowerId: string;
+
+  // Defaults to the longest loan the circulation policy allows
+  @IsDateString()
+  @IsOptional()
+  returnDate?: string;
+}
@@ -0,0 +1,10 @@
+import { IsEnum, IsUUID } from 'class-validator';
+import { ContributorRole } from '../interfaces/book.interface';
+
+export class ContributorDto {
+  @IsUUID()
+  authorId: string;
+
+  @IsEnum(ContributorRole)
+  role: ContributorRole;
+}
@@ -1,5 +1,5 @@
 // src/books/dto/create-book.dto.ts
-import { Transform } from 'class-transformer';
+import { plainToInstance, Transform } from 'class-transformer';
 import {
   IsString,
   IsNotEmpty,
@@ -7,22 +7,87 @@ import {
   IsUUID,
   IsISBN,
   IsInt,
-  Min,
+  IsEnum,
+  IsNumber,
+  IsPositive,
+  IsArray,
+  ArrayMaxSize,
+  ArrayMinSize,
+  Matches,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
 } from 'class-validator';
+import { ContributorDto } from './contributor.dto';
+import { SLUG_PATTERN } from '../../tags/utils/slug.util';
+import { BookFormat } from '../interfaces/book.interface';
+
+// Multipart forms carry the list as a JSON string. A string that does not
+// parse is left for the array validation to reject
+function toContributors({ value }: { value: unknown }): unknown {
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return Array.isArray(value) ? plainToInstance(ContributorDto, value) : value;
+}
+
+// Multipart forms carry tags as a JSON array or a comma-separated list
+function toTags({ value }: { value: unknown }): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (value.trim().startsWith('[')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+  return value
+    .split(',')
+    .map((slug) => slug.trim())
+    .filter(Boolean);
+}
 
 export class CreateBookDto {
   @IsString()
   @IsNotEmpty()
   title: string;
 
+  // The primary author. Optional when contributors are given, the first
+  // of them with the AUTHOR role being the primary author then
   @IsUUID()
   @IsNotEmpty()
+  @ValidateIf((dto: CreateBookDto) => !dto.contributors || !!dto.authorId)
   authorId: string;
 
+  // Bounded so the book and the links of every contributor fit in one
+  // transaction
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Transform(toContributors)
+  @IsOptional()
+  contributors?: ContributorDto[];
+
   @IsUUID()
   @IsNotEmpty()
   categoryId: string;
 
+  // Slugs of existing tags. Bounded so the book and the links of every tag
+  // fit in one transaction
+  @IsArray()
+  @ArrayMaxSize(10)
+  @Matches(SLUG_PATTERN, { each: true, message: 'each tag must be a tag slug' })
+  @Transform(toTags)
+  @IsOptional()
+  tags?: string[];
+
   @IsISBN()
   @IsNotEmpty()
   isbn: string;
@@ -36,22 +101,44 @@ export class CreateBookDto {
   @Transform(({ value }) => parseInt(value, 10))
   publishedYear: number;
 
-  @IsInt()
-  @Min(0)
-  @IsNotEmpty()
-  @Transform(({ value }) => parseInt(value, 10))
-  quantity: number;
+  // The work this book is an edition of. Null detaches it on update
+  @IsUUID()
+  @IsOptional()
+  workId?: string | null;
 
-  @IsString()
+  @Matches(/^[a-z]{2}$/, {
+    message: 'language must be an ISO 639-1 code such as "en"',
+  })
+  @IsOptional()
+  language?: string;
+
+  @IsEnum(BookFormat)
   @IsOptional()
-  cover?: string;
+  format?: BookFormat;
 
   @IsString()
   @IsOptional()
-  pdf?: string;
+  @MaxLength(200)
+  publisher?: string;
 
   @IsInt()
+  @IsPositive()
   @IsOptional()
-  @Transform(({ value }) => parseInt(value, 10))
-  rating?: number;
+  @Transform(({ value }) => (typeof value === 'string' ? Number(value) : value))
+  pageCount?: number;
+
+  // Null takes the book out of its series on update
+  @IsUUID()
+  @IsOptional()
+  seriesId?: string | null;
+
+  // Required with a series. On its own it renumbers the book within its
+  // current series. Fractions allow for novellas between volumes
+  @IsNumber({ allowNaN: false, allowInfinity: false, maxDecimalPlaces: 2 })
+  @IsPositive()
+  @ValidateIf(
+    (dto: CreateBookDto) => dto.seriesId != null || dto.seriesVolume != null,
+  )
+  @Transform(({ value }) => (typeof value === 'string' ? Number(value) : value))
+  seriesVolume?: number;
 }
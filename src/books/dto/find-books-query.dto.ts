@@ -0,0 +1,90 @@
+import { Transform } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { BookStatus } from '../interfaces/book.interface';
+import { SLUG_PATTERN } from '../../tags/utils/slug.util';
+
+export const BOOK_SORT_FIELDS = [
+  'title',
+  'publishedYear',
+  'createdAt',
+  'rating',
+] as const;
+export type BookSortField = (typeof BOOK_SORT_FIELDS)[number];
+
+export class FindBooksQueryDto {
+  @IsUUID()
+  @IsOptional()
+  categoryId?: string;
+
+  @IsUUID()
+  @IsOptional()
+  authorId?: string;
+
+  // Narrows the catalogue to the branch's holdings and its availability to
+  // the branch's shelf
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+
+  @Matches(SLUG_PATTERN, { message: 'tag must be a tag slug' })
+  @IsOptional()
+  tag?: string;
+
+  // A book in the catalogue is only ever available or not; borrowed and
+  // overdue describe loans
+  @IsIn([BookStatus.AVAILABLE, BookStatus.UNAVAILABLE])
+  @IsOptional()
+  status?: BookStatus.AVAILABLE | BookStatus.UNAVAILABLE;
+
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  available?: boolean;
+
+  @IsInt()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  yearFrom?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Transform(({ value }) => parseInt(value, 10))
+  yearTo?: number;
+
+  @IsNumber()
+  @IsOptional()
+  @Min(1)
+  @Max(5)
+  @Transform(({ value }) => parseFloat(value))
+  minRating?: number;
+
+  @IsIn(BOOK_SORT_FIELDS)
+  @IsOptional()
+  sortBy?: BookSortField;
+
+  @IsIn(['asc', 'desc'])
+  @IsOptional()
+  sortOrder?: 'asc' | 'desc';
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number;
+
+  @IsString()
+  @IsOptional()
+  lastEvaluatedKey?: string;
+}
@@ -0,0 +1,9 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class ReturnBookDto {
+  // The branch the book is handed in at; a copy from another branch is
+  // sent back home from there
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+}
@@ -0,0 +1,30 @@
+import { Transform } from 'class-transformer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SearchBooksQueryDto {
+  @IsString()
+  @IsNotEmpty({ message: 'Search query is required' })
+  @MaxLength(200)
+  query: string;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10))
+  offset?: number;
+}
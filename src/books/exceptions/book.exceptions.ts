@@ -30,3 +30,9 @@ export class BookDeleteException extends HttpException {
     super(`Failed to delete book: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
   }
 }
+
+export class BookConflictException extends HttpException {
+  constructor(message: string) {
+    super(message, HttpStatus.CONFLICT);
+  }
+}
@@ -0,0 +1,40 @@
+import { hidePdf } from './hide-pdf.interceptor';
+
+describe('hidePdf', () => {
+  const pdf = 'https://bucket.s3.amazonaws.com/books/pdfs/b1.pdf';
+
+  it('should remove the PDF location of a book and keep hasPdf', () => {
+    expect(hidePdf({ id: 'b1', pdf, hasPdf: true })).toEqual({
+      id: 'b1',
+      hasPdf: true,
+    });
+  });
+
+  it('should not add hasPdf to values that lack it', () => {
+    expect(hidePdf({ id: 'b1', isbn: '9780805209990' })).toEqual({
+      id: 'b1',
+      isbn: '9780805209990',
+    });
+  });
+
+  it('should reach books nested in lists and wrappers', () => {
+    expect(
+      hidePdf({
+        message: 'Books retrieved successfully',
+        books: [{ id: 'b1', pdf, hasPdf: true }],
+      }),
+    ).toEqual({
+      message: 'Books retrieved successfully',
+      books: [{ id: 'b1', hasPdf: true }],
+    });
+  });
+
+  it('should leave other values alone', () => {
+    const date = new Date();
+    expect(hidePdf({ message: 'Deleted' })).toEqual({ message: 'Deleted' });
+    expect(hidePdf({ createdAt: date })).toEqual({ createdAt: date });
+    expect(hidePdf('text')).toBe('text');
+    expect(hidePdf(null)).toBeNull();
+    expect(hidePdf(undefined)).toBeUndefined();
+  });
+});
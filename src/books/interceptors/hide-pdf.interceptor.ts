@@ -0,0 +1,39 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { Observable, map } from 'rxjs';
+
+// Takes the stored PDF location out of every book in a response, wherever it
+// is nested. The services set hasPdf on the books they return so clients
+// know GET /books/:id/read has a file
+export function hidePdf(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(hidePdf);
+  }
+  if (
+    value === null ||
+    typeof value !== 'object' ||
+    value.constructor !== Object
+  ) {
+    return value;
+  }
+
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== 'pdf')
+      .map(([key, nested]) => [key, hidePdf(nested)]),
+  );
+}
+
+@Injectable()
+export class HidePdfInterceptor implements NestInterceptor {
+  intercept(
+    _context: ExecutionContext,
+    next: CallHandler,
+  ): Observable<unknown> {
+    return next.handle().pipe(map(hidePdf));
+  }
+}
@@ -1,25 +1,114 @@
+import { BookSeries } from '../../series/interfaces/series.interface';
+import { ImageRenditions } from '../../images/interfaces/image-renditions.interface';
+import { PdfInfo } from '../../pdfs/interfaces/pdf-info.interface';
+
 export interface Book {
   id: string;
   title: string;
+  // The primary author, also listed in contributors
   authorId: string;
+  // Everyone credited on the book. Missing on books catalogued before
+  // contributors, whose only contributor is authorId as AUTHOR
+  contributors?: Contributor[];
   categoryId: string;
+  // Slugs of the curated tags on the book, missing on untagged books
+  tags?: string[];
   isbn: string;
   status: BookStatus;
   description?: string;
   publishedYear: number;
-  borrowerId?: string;
+  // Edition details. A book catalogued as an edition of a work carries the
+  // work's id
+  workId?: string;
+  // ISO 639-1 code, such as "en"
+  language?: string;
+  format?: BookFormat;
+  publisher?: string;
+  pageCount?: number;
+  // Set together, the volume number being unique within the series
+  seriesId?: string;
+  seriesVolume?: number;
+  // Copies on the shelf and not set aside for a hold, and copies owned in
+  // any status. Both are derived from the Copies table and only change in
+  // the transaction of the copy that moves them
   quantity: number;
-  cover: string;
-  pdf: string;
+  totalCopies: number;
+  // Missing on books imported from catalogue records until uploaded. The
+  // cover is the original rendition, list views should use the thumbnail
+  cover?: string;
+  covers?: ImageRenditions;
+  // The covers were rendered from the PDF's first page for want of an
+  // uploaded one, and are rendered again when the PDF is replaced
+  coverFromPdf?: boolean;
+  // The stored file, never sent to clients; readers get an expiring link
+  // from GET /books/:id/read and see hasPdf instead
+  pdf?: string;
+  hasPdf?: boolean;
+  // Read from the PDF when it was uploaded; missing on PDFs too large to
+  // inspect
+  pdfInfo?: PdfInfo;
   createdAt: string;
   updatedAt: string;
+  // Populated from the active loan in borrower-facing responses only
+  loanId?: string;
+  borrowerId?: string;
+  barcode?: string;
   startDate?: string;
   returnDate?: string;
+  renewals?: number;
+  // Average review score, maintained with the review that changes it
   rating?: number;
+  ratingSum?: number;
+  reviewsCount?: number;
+  // Populated in an author's bibliography only, their roles on the book
+  roles?: ContributorRole[];
+  // Populated when fetching a single book, its place in its series
+  series?: BookSeries;
+}
+
+export enum ContributorRole {
+  AUTHOR = 'AUTHOR',
+  EDITOR = 'EDITOR',
+  TRANSLATOR = 'TRANSLATOR',
+  ILLUSTRATOR = 'ILLUSTRATOR',
+}
+
+// An author may appear more than once with different roles, such as the
+// author who also illustrated the book
+export interface Contributor {
+  authorId: string;
+  role: ContributorRole;
+}
+
+export enum BookFormat {
+  HARDCOVER = 'HARDCOVER',
+  PAPERBACK = 'PAPERBACK',
+  EBOOK = 'EBOOK',
+  AUDIOBOOK = 'AUDIOBOOK',
 }
 
 export enum BookStatus {
   AVAILABLE = 'AVAILABLE',
   BORROWED = 'BORROWED',
+  OVERDUE = 'OVERDUE',
   UNAVAILABLE = 'UNAVAILABLE',
-}
\ No newline at end of file
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+// Each facet counts the books matching every filter except its own, so a
+// sidebar can show the alternatives to the current selection
+export interface BookFacets {
+  categoryId: FacetCount[];
+  authorId: FacetCount[];
+  status: FacetCount[];
+  // Decades, "1990" covering 1990 to 1999
+  publishedYear: FacetCount[];
+  // Thresholds, "4" counting books rated 4 and up
+  rating: FacetCount[];
+  // Tag slugs, a book counting once for each of its tags
+  tags: FacetCount[];
+}
@@ -0,0 +1,26 @@
+import { normalizeIsbn } from './isbn.util';
+
+describe('normalizeIsbn', () => {
+  it('should strip hyphens and spaces from an ISBN-13', () => {
+    expect(normalizeIsbn('978-0-14-044913-6')).toBe('9780140449136');
+    expect(normalizeIsbn('978 0 14 044913 6')).toBe('9780140449136');
+  });
+
+  it('should convert an ISBN-10 to ISBN-13', () => {
+    expect(normalizeIsbn('0-14-044913-2')).toBe('9780140449136');
+  });
+
+  it('should accept an X check digit', () => {
+    expect(normalizeIsbn('0-8044-2957-x')).toBe('9780804429573');
+  });
+
+  it('should reject a wrong check digit', () => {
+    expect(normalizeIsbn('978-0-14-044913-7')).toBeUndefined();
+    expect(normalizeIsbn('0-14-044913-9')).toBeUndefined();
+  });
+
+  it('should reject values that are not ISBNs', () => {
+    expect(normalizeIsbn('12345')).toBeUndefined();
+    expect(normalizeIsbn('1234567890123')).toBeUndefined();
+  });
+});
@@ -0,0 +1,42 @@
+// ISBNs are stored as 13 bare digits so hyphenated, spaced and ISBN-10
+// forms of the same book compare equal
+
+const ISBN_10 = /^\d{9}[\dX]$/;
+const ISBN_13 = /^97[89]\d{10}$/;
+
+function isbn10CheckDigitIsValid(isbn: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === 'X' ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+function isbn13CheckDigit(first12: string): string {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(first12[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+}
+
+// Returns the ISBN-13 form, or undefined when the value is not a valid
+// ISBN-10 or ISBN-13
+export function normalizeIsbn(value: string): string | undefined {
+  const isbn = value.replace(/[\s-]/g, '').toUpperCase();
+
+  if (ISBN_10.test(isbn)) {
+    if (!isbn10CheckDigitIsValid(isbn)) {
+      return undefined;
+    }
+    const first12 = `978${isbn.slice(0, 9)}`;
+    return first12 + isbn13CheckDigit(first12);
+  }
+
+  if (ISBN_13.test(isbn)) {
+    return isbn13CheckDigit(isbn.slice(0, 12)) === isbn[12] ? isbn : undefined;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { BranchesService } from './branches.service';
+import { CreateBranchDto } from './dto/create-branch.dto';
+import { UpdateBranchDto } from './dto/update-branch.dto';
+import { Branch } from './interfaces/branch.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('branches')
+export class BranchesController {
+  constructor(private readonly branchesService: BranchesService) {}
+
+  @Post()
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a branch' })
+  @ApiResponse({ status: 201, description: 'Branch created successfully' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createBranchDto: CreateBranchDto,
+  ): Promise<Branch> {
+    return this.branchesService.create(createBranchDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all branches' })
+  @ApiResponse({ status: 200, description: 'Returns every branch by name' })
+  async findAll(): Promise<{ message: string; branches: Branch[] }> {
+    return this.branchesService.findAll();
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a branch' })
+  @ApiResponse({ status: 200, description: 'Returns the branch' })
+  @ApiResponse({ status: 404, description: 'Branch not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Branch> {
+    return this.branchesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename or move a branch' })
+  @ApiResponse({ status: 200, description: 'Branch updated successfully' })
+  @ApiResponse({ status: 404, description: 'Branch not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateBranchDto: UpdateBranchDto,
+  ): Promise<Branch> {
+    return this.branchesService.update(id, updateBranchDto);
+  }
+
+  @Delete(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a branch without copies' })
+  @ApiResponse({ status: 200, description: 'Branch deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Branch not found' })
+  @ApiResponse({ status: 409, description: 'The branch still holds copies' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    return this.branchesService.remove(id);
+  }
+}
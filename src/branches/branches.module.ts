@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BranchesService } from './branches.service';
+import { BranchesController } from './branches.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule],
+  controllers: [BranchesController],
+  providers: [BranchesService],
+  exports: [BranchesService],
+})
+export class BranchesModule {}
@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { BranchesService } from './branches.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+
+describe('BranchesService', () => {
+  let service: BranchesService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BranchesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+      ],
+    }).compile();
+
+    service = module.get<BranchesService>(BranchesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should list the branches by name', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        { id: 'b', name: 'Northside' },
+        { id: 'a', name: 'Central' },
+      ],
+    });
+
+    const { branches } = await service.findAll();
+
+    expect(branches.map((branch) => branch.name)).toEqual([
+      'Central',
+      'Northside',
+    ]);
+  });
+
+  it('should refuse to delete a branch that holds copies', async () => {
+    send
+      .mockResolvedValueOnce({ Item: { id: 'a', copiesCount: 4 } })
+      .mockRejectedValueOnce(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        }),
+      );
+
+    await expect(service.remove('a')).rejects.toThrow('still holds copies');
+  });
+});
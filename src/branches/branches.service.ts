@@ -0,0 +1,231 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import {
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { CreateBranchDto } from './dto/create-branch.dto';
+import { UpdateBranchDto } from './dto/update-branch.dto';
+import { Branch } from './interfaces/branch.interface';
+import {
+  BranchHasCopiesException,
+  BranchNotFoundException,
+  BranchUpdateException,
+} from './exceptions/branch.exceptions';
+
+@Injectable()
+export class BranchesService {
+  private readonly tableName = 'Branches';
+  private readonly logger = new Logger(BranchesService.name);
+
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  async create(createBranchDto: CreateBranchDto): Promise<Branch> {
+    try {
+      const now = new Date().toISOString();
+      const branch: Branch = {
+        id: uuidv4(),
+        ...createBranchDto,
+        copiesCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: branch,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+
+      this.logger.log(`Created branch with ID: ${branch.id}`);
+      return branch;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create branch: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to create branch');
+    }
+  }
+
+  // Libraries run a handful of branches, so they are listed in one page
+  async findAll(): Promise<{ message: string; branches: Branch[] }> {
+    try {
+      const branches: Branch[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        branches.push(...((response.Items || []) as Branch[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      branches.sort((a, b) => a.name.localeCompare(b.name));
+      return {
+        message:
+          branches.length > 0
+            ? 'Branches retrieved successfully'
+            : 'No branches found',
+        branches,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch branches: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch branches');
+    }
+  }
+
+  async findOne(id: string): Promise<Branch> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new BranchNotFoundException(id);
+      }
+      return response.Item as Branch;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch branch ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof BranchNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch branch');
+    }
+  }
+
+  async update(id: string, updateBranchDto: UpdateBranchDto): Promise<Branch> {
+    try {
+      const updateExpression = ['#updatedAt = :updatedAt'];
+      const expressionAttributeNames: Record<string, string> = {
+        '#updatedAt': 'updatedAt',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':updatedAt': new Date().toISOString(),
+      };
+
+      for (const key of ['name', 'address'] as const) {
+        if (updateBranchDto[key] !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = updateBranchDto[key];
+        }
+      }
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ConditionExpression: 'attribute_exists(id)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Updated branch with ID: ${id}`);
+      return response.Attributes as Branch;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update branch ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new BranchNotFoundException(id);
+      }
+      throw new BranchUpdateException(error.message);
+    }
+  }
+
+  // Refused while copies still call the branch home, so none is left
+  // pointing at a missing branch
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      await this.findOne(id);
+
+      await this.dynamoDBService.documentClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { id },
+          ConditionExpression: 'attribute_exists(id) AND copiesCount = :zero',
+          ExpressionAttributeValues: { ':zero': 0 },
+        }),
+      );
+
+      this.logger.log(`Deleted branch with ID: ${id}`);
+      return {
+        message: `Branch with ID "${id}" has been successfully deleted`,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete branch ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof BranchNotFoundException) {
+        throw error;
+      }
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new BranchHasCopiesException(id);
+      }
+      throw new InternalServerErrorException('Failed to delete branch');
+    }
+  }
+
+  // Moves the branch's copy count along with the copy; the condition fails
+  // when the branch does not exist
+  copiesCountTransactItem(id: string, delta: 1 | -1): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression: 'SET copiesCount = copiesCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND copiesCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
+  // Fails the transaction when the branch does not exist, without touching it
+  existsTransactItem(id: string): TransactWriteItem {
+    return {
+      ConditionCheck: {
+        TableName: this.tableName,
+        Key: { id },
+        ConditionExpression: 'attribute_exists(id)',
+      },
+    };
+  }
+}
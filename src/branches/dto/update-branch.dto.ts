@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateBranchDto } from './create-branch.dto';
+
+export class UpdateBranchDto extends PartialType(CreateBranchDto) {}
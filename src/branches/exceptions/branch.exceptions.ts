@@ -0,0 +1,25 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class BranchNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Branch with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class BranchHasCopiesException extends HttpException {
+  constructor(id: string) {
+    super(
+      `Branch with ID "${id}" still holds copies, move or delete them first`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class BranchUpdateException extends HttpException {
+  constructor(error: string) {
+    super(
+      `Failed to update branch: ${error}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
@@ -0,0 +1,17 @@
+// A library location that holds copies and where readers pick books up
+export interface Branch {
+  id: string;
+  name: string;
+  address?: string;
+  // Copies whose home is the branch, maintained with the copy that moves it
+  copiesCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// The copies of one book at one branch
+export interface BranchHolding {
+  branchId: string;
+  totalCopies: number;
+  availableCopies: number;
+}
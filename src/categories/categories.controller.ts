@@ -13,18 +13,23 @@ import {
   HttpCode,
   ValidationPipe,
   ParseUUIDPipe,
+  ParseBoolPipe,
+  UseInterceptors,
 } from '@nestjs/common';
 import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
+import { MoveCategoryDto } from './dto/move-category.dto';
 import { CognitoAuthGuard } from '../auth/cognito.guard';
-import { Category } from './interfaces/category.interface';
+import { Category, CategoryTreeNode } from './interfaces/category.interface';
 import { Book } from 'src/books/interfaces/book.interface';
+import { HidePdfInterceptor } from 'src/books/interceptors/hide-pdf.interceptor';
 import { ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { Roles, UserRole } from 'src/auth/decorators/roles.decorator';
 import { RolesGuard } from 'src/auth/roles.guard';
 
 @Controller('categories')
+@UseInterceptors(HidePdfInterceptor)
 export class CategoriesController {
   private readonly logger = new Logger(CategoriesController.name);
 
@@ -96,6 +101,16 @@ export class CategoriesController {
     }
   }
 
+  @Get('tree')
+  @ApiOperation({ summary: 'Get every category nested under its parent' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the top-level categories with their subcategories',
+  })
+  async findTree(): Promise<CategoryTreeNode[]> {
+    return this.categoriesService.findTree();
+  }
+
   @Get(':id')
   @HttpCode(HttpStatus.OK)
   async findOne(@Param('id') id: string): Promise<Category> {
@@ -115,10 +130,18 @@ export class CategoriesController {
 
   @Get(':id/books')
   @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the books of a category, optionally with its subcategories',
+  })
   async findBooksByCategory(
     @Param('id', ParseUUIDPipe) categoryId: string,
+    @Query('includeDescendants', new ParseBoolPipe({ optional: true }))
+    includeDescendants = false,
   ): Promise<Book[]> {
-    return this.categoriesService.findBooksByCategory(categoryId);
+    return this.categoriesService.findBooksByCategory(
+      categoryId,
+      includeDescendants,
+    );
   }
 
   @Patch(':id')
@@ -147,14 +170,46 @@ export class CategoriesController {
     }
   }
 
+  @Patch(':id/move')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move a category and its subcategories under another parent',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the moved category' })
+  @ApiResponse({
+    status: 400,
+    description: 'The new parent is the category or one of its descendants',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The category tree changed during the move',
+  })
+  async move(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ transform: true }))
+    moveCategoryDto: MoveCategoryDto,
+  ): Promise<Category> {
+    return this.categoriesService.move(id, moveCategoryDto);
+  }
+
   @Delete(':id')
   @UseGuards(CognitoAuthGuard, RolesGuard)
   @Roles(UserRole.ADMIN)
   @HttpCode(HttpStatus.OK)
-  async remove(@Param('id') id: string): Promise<{ message: string }> {
+  @ApiResponse({
+    status: 409,
+    description:
+      'The category has subcategories and cascade is not set, or books',
+  })
+  async remove(
+    @Param('id') id: string,
+    @Query('cascade', new ParseBoolPipe({ optional: true })) cascade = false,
+  ): Promise<{ message: string }> {
     this.logger.log(`Deleting category with ID: ${id}`);
     try {
-      const result = await this.categoriesService.remove(id);
+      const result = await this.categoriesService.remove(id, cascade);
       this.logger.log(`Category ${id} deleted successfully`);
       return result;
     } catch (error) {
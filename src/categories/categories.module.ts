@@ -3,9 +3,10 @@ import { CategoriesService } from './categories.service';
 import { CategoriesController } from './categories.controller';
 import { DynamoDBModule } from '../dynamodb/dynamodb.module';
 import { AuthModule } from '../auth/auth.module';
+import { SearchModule } from '../search/search.module';
 
 @Module({
-  imports: [DynamoDBModule, AuthModule],
+  imports: [DynamoDBModule, AuthModule, SearchModule],
   controllers: [CategoriesController],
   providers: [CategoriesService],
   exports: [CategoriesService],
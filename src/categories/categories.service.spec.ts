@@ -1,12 +1,37 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { CategoriesService } from './categories.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { SearchService } from '../search/search.service';
+
+const category = (id: string, parentId?: string, extra = {}) => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  parentId,
+  booksCount: 0,
+  ...extra,
+});
 
 describe('CategoriesService', () => {
   let service: CategoriesService;
+  let send: jest.Mock;
+  let failedTransactionConditions: jest.Mock;
 
   beforeEach(async () => {
+    send = jest.fn();
+    failedTransactionConditions = jest.fn().mockReturnValue([]);
+
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CategoriesService],
+      providers: [
+        CategoriesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send }, failedTransactionConditions },
+        },
+        {
+          provide: SearchService,
+          useValue: { indexCategory: jest.fn(), removeCategory: jest.fn() },
+        },
+      ],
     }).compile();
 
     service = module.get<CategoriesService>(CategoriesService);
@@ -15,4 +40,176 @@ describe('CategoriesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  it('should fill in the breadcrumb of a category', async () => {
+    send
+      .mockResolvedValueOnce({ Item: category('cyberpunk', 'scifi') })
+      .mockResolvedValueOnce({
+        Responses: { Categories: [category('scifi', 'fiction')] },
+      })
+      .mockResolvedValueOnce({
+        Responses: { Categories: [category('fiction')] },
+      });
+
+    const found = await service.findOne('cyberpunk');
+
+    expect(found.path).toEqual([
+      { id: 'fiction', name: 'Fiction' },
+      { id: 'scifi', name: 'Scifi' },
+      { id: 'cyberpunk', name: 'Cyberpunk' },
+    ]);
+  });
+
+  it('should nest the tree and sort siblings by name', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        category('scifi', 'fiction'),
+        category('poetry'),
+        category('fiction'),
+        category('fantasy', 'fiction'),
+      ],
+    });
+
+    const tree = await service.findTree();
+
+    expect(tree.map((node) => node.id)).toEqual(['fiction', 'poetry']);
+    expect(tree[0].children.map((node) => node.id)).toEqual([
+      'fantasy',
+      'scifi',
+    ]);
+  });
+
+  describe('move', () => {
+    it('should refuse to move a category under its own descendant', async () => {
+      send
+        .mockResolvedValueOnce({ Item: category('fiction') })
+        .mockResolvedValueOnce({ Item: category('cyberpunk', 'scifi') })
+        .mockResolvedValueOnce({ Item: category('scifi', 'fiction') })
+        .mockResolvedValueOnce({ Item: category('fiction') });
+
+      await expect(
+        service.move('fiction', { parentId: 'cyberpunk' }),
+      ).rejects.toThrow(
+        'which is the category itself or one of its descendants',
+      );
+      expect(send).toHaveBeenCalledTimes(4);
+    });
+
+    it('should re-parent and check the chain of the new parent', async () => {
+      send
+        .mockResolvedValueOnce({ Item: category('cyberpunk', 'scifi') })
+        .mockResolvedValueOnce({
+          Responses: { Categories: [category('scifi')] },
+        })
+        .mockResolvedValueOnce({ Item: category('dystopia', 'fiction') })
+        .mockResolvedValueOnce({ Item: category('fiction') })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({ Item: category('cyberpunk', 'dystopia') })
+        .mockResolvedValueOnce({ Responses: { Categories: [] } });
+
+      await service.move('cyberpunk', { parentId: 'dystopia' });
+
+      const [moved, newParent, grandparent, oldParent] =
+        send.mock.calls[4][0].input.TransactItems;
+      expect(moved.Update).toMatchObject({
+        Key: { id: 'cyberpunk' },
+        ConditionExpression: 'parentId = :currentParentId',
+      });
+      expect(moved.Update.ExpressionAttributeValues).toMatchObject({
+        ':parentId': 'dystopia',
+        ':currentParentId': 'scifi',
+      });
+      expect(newParent.Update).toMatchObject({
+        Key: { id: 'dystopia' },
+        ConditionExpression: 'attribute_exists(id) AND parentId = :parentId',
+      });
+      expect(newParent.Update.ExpressionAttributeValues).toMatchObject({
+        ':delta': 1,
+        ':parentId': 'fiction',
+      });
+      expect(grandparent.ConditionCheck).toMatchObject({
+        Key: { id: 'fiction' },
+        ConditionExpression:
+          'attribute_exists(id) AND attribute_not_exists(parentId)',
+      });
+      expect(oldParent.Update).toMatchObject({
+        Key: { id: 'scifi' },
+        ExpressionAttributeValues: { ':delta': -1, ':zero': 0 },
+      });
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse a category with subcategories without cascade', async () => {
+      send.mockResolvedValueOnce({
+        Item: category('fiction', undefined, { childrenCount: 1 }),
+      });
+
+      await expect(service.remove('fiction')).rejects.toThrow(
+        'has subcategories',
+      );
+    });
+
+    it('should delete the subtree deepest first with cascade', async () => {
+      send
+        .mockResolvedValueOnce({
+          Item: category('scifi', 'fiction', { childrenCount: 1 }),
+        })
+        .mockResolvedValueOnce({
+          Responses: { Categories: [category('fiction')] },
+        })
+        .mockResolvedValueOnce({
+          Items: [
+            category('fiction', undefined, { childrenCount: 1 }),
+            category('scifi', 'fiction', { childrenCount: 1 }),
+            category('cyberpunk', 'scifi'),
+          ],
+        })
+        .mockResolvedValueOnce({});
+
+      await service.remove('scifi', true);
+
+      const items = send.mock.calls[3][0].input.TransactItems;
+      expect(items.map((item) => item.Delete?.Key.id)).toEqual([
+        'cyberpunk',
+        'scifi',
+        undefined,
+      ]);
+      expect(items[2].Update).toMatchObject({
+        Key: { id: 'fiction' },
+        ExpressionAttributeValues: { ':delta': -1 },
+      });
+    });
+
+    it('should refuse a cascade over a subcategory with books', async () => {
+      send
+        .mockResolvedValueOnce({ Item: category('fiction') })
+        .mockResolvedValueOnce({
+          Items: [
+            category('fiction', undefined, { childrenCount: 1 }),
+            category('scifi', 'fiction', { booksCount: 2 }),
+          ],
+        });
+
+      await expect(service.remove('fiction', true)).rejects.toThrow(
+        'existing books in subcategory "Scifi"',
+      );
+    });
+  });
+
+  it('should include the books of subcategories when asked', async () => {
+    send
+      .mockResolvedValueOnce({
+        Items: [category('fiction'), category('scifi', 'fiction')],
+      })
+      .mockResolvedValueOnce({ Items: [{ id: 'b1', quantity: 1 }] })
+      .mockResolvedValueOnce({ Items: [{ id: 'b2', quantity: 0 }] });
+
+    const books = await service.findBooksByCategory('fiction', true);
+
+    expect(books.map((book) => book.id)).toEqual(['b1', 'b2']);
+    expect(send.mock.calls[2][0].input.ExpressionAttributeValues).toEqual({
+      ':categoryId': 'scifi',
+    });
+  });
 });
@@ -1,16 +1,25 @@
 // src/categories/categories.service.ts
 import { HttpException, HttpStatus, Injectable, Logger } from '@nestjs/common';
-import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
-import { Category } from './interfaces/category.interface';
+import { MoveCategoryDto } from './dto/move-category.dto';
+import {
+  Category,
+  CategoryPathEntry,
+  CategoryTreeNode,
+} from './interfaces/category.interface';
 import {
   PutCommand,
   GetCommand,
   ScanCommand,
   UpdateCommand,
-  DeleteCommand,
   QueryCommand,
+  BatchGetCommand,
+  TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { v4 as uuidv4 } from 'uuid';
 import {
@@ -20,16 +29,22 @@ import {
   CategoryUpdateException,
   CategoryDeleteException,
   CategoryNotFoundByNameException,
+  CategoryHasChildrenException,
+  InvalidCategoryParentException,
 } from './exceptions/category.exceptions';
 import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
 import { Book, BookStatus } from 'src/books/interfaces/book.interface';
+import { SearchService } from '../search/search.service';
 
 @Injectable()
 export class CategoriesService {
   private readonly tableName = 'Categories';
   private readonly logger = new Logger(CategoriesService.name);
 
-  constructor(private readonly dynamoDBService: DynamoDBService) {}
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly searchService: SearchService,
+  ) {}
 
   async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
     try {
@@ -49,31 +64,59 @@ export class CategoriesService {
         throw new CategoryAlreadyExistsException(createCategoryDto.name);
       }
 
+      if (createCategoryDto.parentId) {
+        await this.findOne(createCategoryDto.parentId);
+      }
+
       const category: Category = {
         id: uuidv4(),
         ...createCategoryDto,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
         booksCount: 0,
+        childrenCount: 0,
       };
 
-      const command = new PutCommand({
-        TableName: this.tableName,
-        Item: category,
-        ConditionExpression: 'attribute_not_exists(id)',
-      });
+      const put: TransactWriteItem = {
+        Put: {
+          TableName: this.tableName,
+          Item: category,
+          ConditionExpression: 'attribute_not_exists(id)',
+        },
+      };
 
-      await this.dynamoDBService.documentClient.send(command);
+      if (category.parentId) {
+        // The parent counts the new child in the same write, which also
+        // fails if the parent was deleted in the meantime
+        await this.dynamoDBService.documentClient.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              put,
+              this.childrenCountTransactItem(category.parentId, 1),
+            ],
+          }),
+        );
+      } else {
+        await this.dynamoDBService.documentClient.send(new PutCommand(put.Put));
+      }
+
+      await this.searchService.indexCategory(category);
       this.logger.log(`Created category with ID: ${category.id}`);
-      return category;
+      return (await this.withPaths([category]))[0];
     } catch (error) {
       this.logger.error(
         `Failed to create category: ${error.message}`,
         error.stack,
       );
-      if (error instanceof CategoryAlreadyExistsException) {
+      if (
+        error instanceof CategoryAlreadyExistsException ||
+        error instanceof CategoryNotFoundException
+      ) {
         throw error;
       }
+      if (this.dynamoDBService.failedTransactionConditions(error).includes(1)) {
+        throw new CategoryNotFoundException(createCategoryDto.parentId);
+      }
       throw new CategoryCreateException(error.message);
     }
   }
@@ -109,7 +152,7 @@ export class CategoriesService {
 
       return {
         message: 'Categories retrieved successfully',
-        categories,
+        categories: await this.withPaths(categories),
         lastEvaluatedKey: response.LastEvaluatedKey
           ? response.LastEvaluatedKey.id
           : undefined,
@@ -139,7 +182,7 @@ export class CategoriesService {
         throw new CategoryNotFoundException(id);
       }
 
-      return response.Item as Category;
+      return (await this.withPaths([response.Item as Category]))[0];
     } catch (error) {
       this.logger.error(
         `Failed to fetch category ${id}: ${error.message}`,
@@ -187,7 +230,7 @@ export class CategoriesService {
       }
 
       return {
-        categories,
+        categories: await this.withPaths(categories),
         lastEvaluatedKey: response.LastEvaluatedKey
           ? response.LastEvaluatedKey.id
           : undefined,
@@ -207,6 +250,47 @@ export class CategoriesService {
     }
   }
 
+  // Matches imported records to an existing category, creating one without
+  // a description when none matches
+  async findOrCreateByName(name: string): Promise<Category> {
+    try {
+      const existing = await this.findByName(name, 1).catch((error) => {
+        if (error instanceof CategoryNotFoundByNameException) {
+          return { categories: [] as Category[] };
+        }
+        throw error;
+      });
+      if (existing.categories.length > 0) {
+        return existing.categories[0];
+      }
+
+      const category: Category = {
+        id: uuidv4(),
+        name,
+        booksCount: 0,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: category,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+      await this.searchService.indexCategory(category);
+      this.logger.log(`Created category ${category.id} for name "${name}"`);
+      return category;
+    } catch (error) {
+      this.logger.error(
+        `Failed to find or create category "${name}": ${error.message}`,
+        error.stack,
+      );
+      throw new CategoryCreateException(error.message);
+    }
+  }
+
   async update(
     id: string,
     updateCategoryDto: UpdateCategoryDto,
@@ -268,8 +352,10 @@ export class CategoriesService {
       });
 
       const response = await this.dynamoDBService.documentClient.send(command);
+      const category = response.Attributes as Category;
+      await this.searchService.indexCategory(category);
       this.logger.log(`Updated category with ID: ${id}`);
-      return response.Attributes as Category;
+      return (await this.withPaths([category]))[0];
     } catch (error) {
       this.logger.error(
         `Failed to update category ${id}: ${error.message}`,
@@ -285,27 +371,67 @@ export class CategoriesService {
     }
   }
 
-  async remove(id: string): Promise<{ message: string }> {
+  // A category with subcategories is only deleted with cascade, which
+  // deletes the whole subtree. Either way, no deleted category may hold books
+  async remove(id: string, cascade = false): Promise<{ message: string }> {
     try {
-      // checking if category exists
-      await this.findOne(id);
-
-      // Checking if category has any books
       const category = await this.findOne(id);
-      if (category.booksCount > 0) {
+      const subtree = cascade
+        ? this.subtreeOf(id, await this.scanAll())
+        : [category];
+
+      if (!cascade && category.childrenCount > 0) {
+        throw new CategoryHasChildrenException(id);
+      }
+      const withBooks = subtree.find((node) => node.booksCount > 0);
+      if (withBooks) {
         throw new HttpException(
-          'Cannot delete category with existing books',
+          withBooks.id === id
+            ? 'Cannot delete category with existing books'
+            : `Cannot delete category with existing books in subcategory "${withBooks.name}"`,
           HttpStatus.CONFLICT,
         );
       }
 
-      const command = new DeleteCommand({
-        TableName: this.tableName,
-        Key: { id },
-      });
+      // Deepest first, so a failed batch never leaves a subcategory without
+      // its parent. Each delete expects the counts it was checked with, so a
+      // book or subcategory added meanwhile cancels its batch
+      const deletes: TransactWriteItem[] = [...subtree]
+        .reverse()
+        .map((node) => ({
+          Delete: {
+            TableName: this.tableName,
+            Key: { id: node.id },
+            ConditionExpression:
+              'attribute_exists(id) AND booksCount = :zero AND (attribute_not_exists(childrenCount) OR childrenCount = :childrenCount)',
+            ExpressionAttributeValues: {
+              ':zero': 0,
+              ':childrenCount': node.childrenCount ?? 0,
+            },
+          },
+        }));
+      const transactItems = [
+        ...deletes,
+        ...(category.parentId
+          ? [this.childrenCountTransactItem(category.parentId, -1)]
+          : []),
+      ];
+
+      // A transaction holds at most 100 items
+      for (let i = 0; i < transactItems.length; i += 100) {
+        await this.dynamoDBService.documentClient.send(
+          new TransactWriteCommand({
+            TransactItems: transactItems.slice(i, i + 100),
+          }),
+        );
+      }
 
-      await this.dynamoDBService.documentClient.send(command);
-      this.logger.log(`Deleted category with ID: ${id}`);
+      for (const node of subtree) {
+        await this.searchService.removeCategory(node.id);
+      }
+      this.logger.log(
+        `Deleted category with ID: ${id} and ${subtree.length - 1} subcategories`,
+      );
 
       return {
         message: `Category with ID "${id}" has been successfully deleted`,
@@ -315,13 +441,148 @@ export class CategoriesService {
         `Failed to delete category ${id}: ${error.message}`,
         error.stack,
       );
-      if (error instanceof CategoryNotFoundException) {
+      if (
+        error instanceof CategoryNotFoundException ||
+        error instanceof CategoryHasChildrenException
+      ) {
         throw error;
       }
+      if (this.dynamoDBService.failedTransactionConditions(error).length > 0) {
+        throw new HttpException(
+          `Category "${id}" or its subcategories changed while being deleted, please retry`,
+          HttpStatus.CONFLICT,
+        );
+      }
       throw new CategoryDeleteException(error.message);
     }
   }
-  
+
+  // Re-parents the category with its whole subtree, which follows without
+  // being rewritten since only the parentId of the moved category changes
+  async move(id: string, moveCategoryDto: MoveCategoryDto): Promise<Category> {
+    const parentId = moveCategoryDto.parentId ?? undefined;
+
+    try {
+      const category = await this.findOne(id);
+      if (category.parentId === parentId) {
+        return category;
+      }
+
+      // The new parent and its ancestors, nearest first
+      const ancestors = parentId ? await this.ancestorsOf(parentId) : [];
+      if (ancestors.some((ancestor) => ancestor.id === id)) {
+        throw new InvalidCategoryParentException(id, parentId);
+      }
+
+      // Every category on the new parent's chain must keep its own parent
+      // until the move commits, so two concurrent moves cannot close a cycle.
+      // The old parent may be on the chain too, when moving down a branch
+      const chainItems: TransactWriteItem[] = ancestors.map((ancestor) =>
+        this.parentCheckTransactItem(
+          ancestor,
+          ancestor.id === parentId
+            ? 1
+            : ancestor.id === category.parentId
+              ? -1
+              : 0,
+        ),
+      );
+      if (
+        category.parentId &&
+        !ancestors.some((ancestor) => ancestor.id === category.parentId)
+      ) {
+        chainItems.push(this.childrenCountTransactItem(category.parentId, -1));
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Update: {
+                TableName: this.tableName,
+                Key: { id },
+                UpdateExpression: parentId
+                  ? 'SET parentId = :parentId, updatedAt = :updatedAt'
+                  : 'SET updatedAt = :updatedAt REMOVE parentId',
+                ConditionExpression: category.parentId
+                  ? 'parentId = :currentParentId'
+                  : 'attribute_exists(id) AND attribute_not_exists(parentId)',
+                ExpressionAttributeValues: {
+                  ':updatedAt': new Date().toISOString(),
+                  ...(parentId && { ':parentId': parentId }),
+                  ...(category.parentId && {
+                    ':currentParentId': category.parentId,
+                  }),
+                },
+              },
+            },
+            ...chainItems,
+          ],
+        }),
+      );
+
+      this.logger.log(
+        `Moved category ${id} under ${parentId ?? 'the top level'}`,
+      );
+      return this.findOne(id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to move category ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (
+        error instanceof CategoryNotFoundException ||
+        error instanceof InvalidCategoryParentException
+      ) {
+        throw error;
+      }
+      if (this.dynamoDBService.failedTransactionConditions(error).length > 0) {
+        throw new HttpException(
+          `The category tree changed while moving category "${id}", please retry`,
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw new CategoryUpdateException(error.message);
+    }
+  }
+
+  // Every category, nested under its parent and sorted by name. Categories
+  // whose parent is missing are listed at the top level
+  async findTree(): Promise<CategoryTreeNode[]> {
+    try {
+      const categories = await this.scanAll();
+      const nodes = new Map<string, CategoryTreeNode>(
+        categories.map((category) => [
+          category.id,
+          { ...category, children: [] },
+        ]),
+      );
+
+      const roots: CategoryTreeNode[] = [];
+      for (const node of nodes.values()) {
+        const parent = node.parentId && nodes.get(node.parentId);
+        (parent ? parent.children : roots).push(node);
+      }
+
+      const sortByName = (siblings: CategoryTreeNode[]) => {
+        siblings.sort((a, b) => a.name.localeCompare(b.name));
+        siblings.forEach((node) => sortByName(node.children));
+      };
+      sortByName(roots);
+
+      return roots;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch category tree: ${error.message}`,
+        error.stack,
+      );
+      throw new HttpException(
+        'Failed to fetch category tree',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   async removeBookFromCategory(categoryId: string): Promise<void> {
     try {
       const command = new UpdateCommand({
@@ -349,6 +610,24 @@ export class CategoriesService {
     }
   }
 
+  // Counter update to run inside a book transaction; a missing category or a
+  // count that would go negative cancels the whole transaction
+  booksCountTransactItem(id: string, delta: 1 | -1): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression: 'SET booksCount = booksCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND booksCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
   async incrementBooksCount(id: string): Promise<void> {
     try {
       const command = new UpdateCommand({
@@ -401,20 +680,37 @@ export class CategoriesService {
     }
   }
 
-  async findBooksByCategory(categoryId: string): Promise<Book[]> {
+  async findBooksByCategory(
+    categoryId: string,
+    includeDescendants = false,
+  ): Promise<Book[]> {
     try {
-      const result = await this.dynamoDBService.documentClient.send(
-        new QueryCommand({
-          TableName: 'Books',
-          IndexName: 'CategoryIndex',
-          KeyConditionExpression: 'categoryId = :categoryId',
-          ExpressionAttributeValues: {
-            ':categoryId': categoryId,
-          },
-        }),
-      );
-
-      const books = result.Items as Book[];
+      const categoryIds = includeDescendants
+        ? this.subtreeOf(categoryId, await this.scanAll()).map(
+            (category) => category.id,
+          )
+        : [categoryId];
+
+      const books: Book[] = [];
+      for (const id of categoryIds) {
+        let exclusiveStartKey: Record<string, any> | undefined;
+        do {
+          const result = await this.dynamoDBService.documentClient.send(
+            new QueryCommand({
+              TableName: 'Books',
+              IndexName: 'CategoryIndex',
+              KeyConditionExpression: 'categoryId = :categoryId',
+              ExpressionAttributeValues: {
+                ':categoryId': id,
+              },
+              ExclusiveStartKey: exclusiveStartKey,
+            }),
+          );
+
+          books.push(...((result.Items || []) as Book[]));
+          exclusiveStartKey = result.LastEvaluatedKey;
+        } while (exclusiveStartKey);
+      }
 
       // Update status based on quantity
       books.forEach((book) => {
@@ -423,6 +719,7 @@ export class CategoriesService {
         } else {
           book.status = BookStatus.UNAVAILABLE;
         }
+        book.hasPdf = Boolean(book.pdf);
       });
 
       return books;
@@ -447,4 +744,192 @@ export class CategoriesService {
       throw new CategoryUpdateException(error.message);
     }
   }
+
+  // Counter update to run inside a category transaction. Categories that
+  // never had children have no counter and start from zero
+  private childrenCountTransactItem(
+    id: string,
+    delta: 1 | -1,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression:
+          'SET childrenCount = if_not_exists(childrenCount, :zero) + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND childrenCount > :zero',
+        ExpressionAttributeValues: { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
+  // Expects the category to still have the parent it was read with, and
+  // moves its childrenCount when it gains or loses the moved category
+  private parentCheckTransactItem(
+    category: Category,
+    delta: 1 | 0 | -1,
+  ): TransactWriteItem {
+    const parentCondition = category.parentId
+      ? 'parentId = :parentId'
+      : 'attribute_not_exists(parentId)';
+    const parentValues = category.parentId
+      ? { ':parentId': category.parentId }
+      : undefined;
+
+    if (delta === 0) {
+      return {
+        ConditionCheck: {
+          TableName: this.tableName,
+          Key: { id: category.id },
+          ConditionExpression: `attribute_exists(id) AND ${parentCondition}`,
+          ExpressionAttributeValues: parentValues,
+        },
+      };
+    }
+
+    const counter = this.childrenCountTransactItem(category.id, delta).Update;
+    return {
+      Update: {
+        ...counter,
+        ConditionExpression: `${counter.ConditionExpression} AND ${parentCondition}`,
+        ExpressionAttributeValues: {
+          ...counter.ExpressionAttributeValues,
+          ...parentValues,
+        },
+      },
+    };
+  }
+
+  // The category and its ancestors, nearest first, read consistently since
+  // a move is decided on them
+  private async ancestorsOf(id: string): Promise<Category[]> {
+    const ancestors: Category[] = [];
+    let nextId: string | undefined = id;
+
+    // Stops on a repeated category, should the stored tree hold a cycle
+    while (nextId && !ancestors.some((ancestor) => ancestor.id === nextId)) {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id: nextId },
+          ConsistentRead: true,
+        }),
+      );
+      if (!response.Item) {
+        throw new CategoryNotFoundException(nextId);
+      }
+
+      const category = response.Item as Category;
+      ancestors.push(category);
+      nextId = category.parentId;
+    }
+
+    return ancestors;
+  }
+
+  // The category followed by its descendants, parents before their children
+  private subtreeOf(id: string, categories: Category[]): Category[] {
+    const childrenOf = new Map<string, Category[]>();
+    for (const category of categories) {
+      if (category.parentId) {
+        childrenOf.set(category.parentId, [
+          ...(childrenOf.get(category.parentId) ?? []),
+          category,
+        ]);
+      }
+    }
+
+    const root = categories.find((category) => category.id === id);
+    const subtree: Category[] = root ? [root] : [];
+    for (let i = 0; i < subtree.length; i++) {
+      for (const child of childrenOf.get(subtree[i].id) ?? []) {
+        if (!subtree.includes(child)) {
+          subtree.push(child);
+        }
+      }
+    }
+    return subtree;
+  }
+
+  // Fills in the breadcrumb of each category, fetching the ancestors that are
+  // not among the categories themselves a level at a time
+  private async withPaths(categories: Category[]): Promise<Category[]> {
+    const known = new Map(
+      categories.map((category) => [category.id, category]),
+    );
+
+    let missingIds = this.missingParentIds([...known.values()], known);
+    while (missingIds.length > 0) {
+      for (let i = 0; i < missingIds.length; i += 100) {
+        let requestItems: Record<string, any> = {
+          [this.tableName]: {
+            Keys: missingIds.slice(i, i + 100).map((id) => ({ id })),
+          },
+        };
+        while (requestItems && Object.keys(requestItems).length > 0) {
+          const response = await this.dynamoDBService.documentClient.send(
+            new BatchGetCommand({ RequestItems: requestItems }),
+          );
+          ((response.Responses?.[this.tableName] || []) as Category[]).forEach(
+            (category) => known.set(category.id, category),
+          );
+          requestItems = response.UnprocessedKeys;
+        }
+      }
+
+      // Parents that do not exist are left out of the breadcrumb
+      const fetched = missingIds.filter((id) => known.has(id));
+      missingIds = this.missingParentIds(
+        fetched.map((id) => known.get(id)),
+        known,
+      );
+    }
+
+    return categories.map((category) => {
+      const path: CategoryPathEntry[] = [];
+      for (
+        let node = category;
+        node && !path.some((entry) => entry.id === node.id);
+        node = node.parentId ? known.get(node.parentId) : undefined
+      ) {
+        path.unshift({ id: node.id, name: node.name });
+      }
+      return { ...category, path };
+    });
+  }
+
+  private missingParentIds(
+    categories: Category[],
+    known: Map<string, Category>,
+  ): string[] {
+    return [
+      ...new Set(
+        categories
+          .map((category) => category.parentId)
+          .filter((parentId) => parentId && !known.has(parentId)),
+      ),
+    ];
+  }
+
+  private async scanAll(): Promise<Category[]> {
+    const categories: Category[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.dynamoDBService.documentClient.send(
+        new ScanCommand({
+          TableName: this.tableName,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      categories.push(...((response.Items || []) as Category[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return categories;
+  }
 }
@@ -1,4 +1,11 @@
-import { IsString, IsNotEmpty, MinLength, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  MinLength,
+  MaxLength,
+  IsUUID,
+  IsOptional,
+} from 'class-validator';
 
 export class CreateCategoryDto {
   @IsString()
@@ -12,4 +19,9 @@ export class CreateCategoryDto {
   @MinLength(10)
   @MaxLength(500)
   description: string;
-}
\ No newline at end of file
+
+  // Created at the top level when omitted
+  @IsUUID()
+  @IsOptional()
+  parentId?: string;
+}
@@ -0,0 +1,8 @@
+import { IsOptional, IsUUID } from 'class-validator';
+
+export class MoveCategoryDto {
+  // Null or omitted moves the category to the top level
+  @IsUUID()
+  @IsOptional()
+  parentId?: string | null;
+}
@@ -1,4 +1,7 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { CreateCategoryDto } from './create-category.dto';
 
-export class UpdateCategoryDto extends PartialType(CreateCategoryDto) {}
\ No newline at end of file
+// Categories change parent through a move, which checks for cycles
+export class UpdateCategoryDto extends PartialType(
+  OmitType(CreateCategoryDto, ['parentId'] as const),
+) {}
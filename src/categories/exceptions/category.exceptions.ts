@@ -44,3 +44,21 @@ export class CategoryNotFoundByNameException extends HttpException {
     super(`Category with name "${name}" not found`, HttpStatus.NOT_FOUND);
   }
 }
+
+export class CategoryHasChildrenException extends HttpException {
+  constructor(id: string) {
+    super(
+      `Category with ID "${id}" has subcategories, delete them first or delete with cascade`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class InvalidCategoryParentException extends HttpException {
+  constructor(id: string, parentId: string) {
+    super(
+      `Category "${id}" cannot be moved under "${parentId}", which is the category itself or one of its descendants`,
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -1,8 +1,26 @@
 export interface Category {
   id: string;
   name: string;
-  description: string;
+  // Missing on categories created from imported catalogue records
+  description?: string;
+  // Missing on top-level categories
+  parentId?: string;
   booksCount: number;
+  // Subcategories directly below, moved in the transaction that adds,
+  // moves or deletes one. Missing on categories that never had any
+  childrenCount?: number;
   createdAt: string;
   updatedAt: string;
-}
\ No newline at end of file
+  // Breadcrumb from the top-level category down to this one, filled in on
+  // reads so renames need not rewrite the descendants
+  path?: CategoryPathEntry[];
+}
+
+export interface CategoryPathEntry {
+  id: string;
+  name: string;
+}
+
+export interface CategoryTreeNode extends Category {
+  children: CategoryTreeNode[];
+}
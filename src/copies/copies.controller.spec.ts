@@ -0,0 +1,47 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CopiesController } from './copies.controller';
+import { CopiesService } from './copies.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('CopiesController', () => {
+  let controller: CopiesController;
+  let copiesService: { findByBook: jest.Mock };
+
+  beforeEach(async () => {
+    copiesService = {
+      findByBook: jest.fn().mockResolvedValue({
+        message: 'No copies found for this book',
+        copies: [],
+        counts: {},
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [CopiesController],
+      providers: [{ provide: CopiesService, useValue: copiesService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<CopiesController>(CopiesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the copies of a book', async () => {
+    const result = await controller.findByBook('book-1');
+    expect(copiesService.findByBook).toHaveBeenCalledWith('book-1', undefined);
+    expect(result.copies).toEqual([]);
+  });
+
+  it('should narrow the copies to a branch', async () => {
+    await controller.findByBook('book-1', 'branch-1');
+    expect(copiesService.findByBook).toHaveBeenCalledWith('book-1', 'branch-1');
+  });
+});
@@ -0,0 +1,111 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { CopiesService } from './copies.service';
+import { CreateCopyDto } from './dto/create-copy.dto';
+import { UpdateCopyDto } from './dto/update-copy.dto';
+import { Copy, CopyStatus } from './interfaces/copy.interface';
+import { BranchHolding } from '../branches/interfaces/branch.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('books/:id/copies')
+export class CopiesController {
+  constructor(private readonly copiesService: CopiesService) {}
+
+  @Post()
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a physical copy of a book' })
+  @ApiResponse({ status: 201, description: 'Copy added successfully' })
+  @ApiResponse({ status: 404, description: 'Book not found' })
+  @ApiResponse({ status: 409, description: 'Barcode already in use' })
+  async create(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createCopyDto: CreateCopyDto,
+  ): Promise<Copy> {
+    return this.copiesService.create(bookId, createCopyDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get the copies of a book' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the copies, at one branch when asked, the number of copies in each status and the holdings of every branch',
+  })
+  async findByBook(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Query('branchId', new ParseUUIDPipe({ optional: true }))
+    branchId?: string,
+  ): Promise<{
+    message: string;
+    copies: Copy[];
+    counts: Record<CopyStatus, number>;
+    branches: BranchHolding[];
+  }> {
+    return this.copiesService.findByBook(bookId, branchId);
+  }
+
+  @Get(':barcode')
+  @ApiOperation({ summary: 'Get a copy by its barcode' })
+  @ApiResponse({ status: 200, description: 'Returns the copy' })
+  @ApiResponse({ status: 404, description: 'Copy not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Param('barcode') barcode: string,
+  ): Promise<Copy> {
+    return this.copiesService.findOneOfBook(bookId, barcode);
+  }
+
+  @Patch(':barcode')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Update the condition, branch, shelf location or status of a copy',
+  })
+  @ApiResponse({ status: 200, description: 'Copy updated successfully' })
+  @ApiResponse({ status: 400, description: 'The copy is on loan' })
+  @ApiResponse({ status: 404, description: 'Copy not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Param('barcode') barcode: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateCopyDto: UpdateCopyDto,
+  ): Promise<Copy> {
+    return this.copiesService.update(bookId, barcode, updateCopyDto);
+  }
+
+  @Delete(':barcode')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a copy' })
+  @ApiResponse({ status: 200, description: 'Copy deleted successfully' })
+  @ApiResponse({ status: 400, description: 'The copy is on loan' })
+  @ApiResponse({ status: 404, description: 'Copy not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Param('barcode') barcode: string,
+  ): Promise<{ message: string }> {
+    return this.copiesService.remove(bookId, barcode);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { CopiesService } from './copies.service';
+import { CopiesController } from './copies.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { HoldsModule } from '../holds/holds.module';
+import { BranchesModule } from '../branches/branches.module';
+import { SearchModule } from '../search/search.module';
+
+@Module({
+  imports: [
+    DynamoDBModule,
+    AuthModule,
+    HoldsModule,
+    BranchesModule,
+    SearchModule,
+  ],
+  controllers: [CopiesController],
+  providers: [CopiesService],
+  exports: [CopiesService],
+})
+export class CopiesModule {}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { CopiesService } from './copies.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { HoldsService } from '../holds/holds.service';
+import { BranchesService } from '../branches/branches.service';
+import { SearchService } from '../search/search.service';
+import { CopyStatus } from './interfaces/copy.interface';
+
+describe('CopiesService', () => {
+  let service: CopiesService;
+  let send: jest.Mock;
+  let readyNextHoldTransactItem: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+    readyNextHoldTransactItem = jest.fn().mockResolvedValue(undefined);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CopiesService,
+        BranchesService,
+        {
+          provide: DynamoDBService,
+          useValue: {
+            documentClient: { send },
+            failedTransactionConditions: jest.fn().mockReturnValue([]),
+          },
+        },
+        {
+          provide: HoldsService,
+          useValue: { readyNextHoldTransactItem },
+        },
+        { provide: SearchService, useValue: { refreshBook: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<CopiesService>(CopiesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should count a new copy as available when nobody waits', async () => {
+    send.mockResolvedValueOnce({});
+
+    const copy = await service.create('book-1', { barcode: 'LIB-0001' });
+
+    expect(copy.status).toBe(CopyStatus.AVAILABLE);
+    const [, bookUpdate] = send.mock.calls[0][0].input.TransactItems;
+    expect(bookUpdate.Update.ExpressionAttributeValues).toMatchObject({
+      ':totalCopiesDelta': 1,
+      ':quantityDelta': 1,
+    });
+  });
+
+  it('should set a new copy aside for the first waiting hold', async () => {
+    const readyHold = { Update: { TableName: 'Holds', Key: { id: 'h-1' } } };
+    readyNextHoldTransactItem.mockResolvedValueOnce(readyHold);
+    send.mockResolvedValueOnce({});
+
+    await service.create('book-1', { barcode: 'LIB-0001' });
+
+    const [, bookUpdate, holdUpdate] =
+      send.mock.calls[0][0].input.TransactItems;
+    expect(bookUpdate.Update.ExpressionAttributeValues[':quantityDelta']).toBe(
+      0,
+    );
+    expect(holdUpdate).toBe(readyHold);
+  });
+
+  it('should take a copy sent for repair off the shelf', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: {
+          barcode: 'LIB-0001',
+          bookId: 'book-1',
+          status: CopyStatus.AVAILABLE,
+        },
+      })
+      .mockResolvedValueOnce({});
+
+    const copy = await service.update('book-1', 'LIB-0001', {
+      status: CopyStatus.IN_REPAIR,
+    });
+
+    expect(copy.status).toBe(CopyStatus.IN_REPAIR);
+    const [, bookUpdate] = send.mock.calls[1][0].input.TransactItems;
+    expect(bookUpdate.Update.ConditionExpression).toContain(
+      '#quantity > :zero',
+    );
+    expect(bookUpdate.Update.ExpressionAttributeValues[':quantityDelta']).toBe(
+      -1,
+    );
+  });
+
+  it('should refuse to delete a copy on loan', async () => {
+    send.mockResolvedValueOnce({
+      Item: {
+        barcode: 'LIB-0001',
+        bookId: 'book-1',
+        status: CopyStatus.ON_LOAN,
+      },
+    });
+
+    await expect(service.remove('book-1', 'LIB-0001')).rejects.toThrow(
+      'check it in first',
+    );
+  });
+
+  it('should not find a copy under another book', async () => {
+    send.mockResolvedValueOnce({
+      Item: { barcode: 'LIB-0001', bookId: 'book-2' },
+    });
+
+    await expect(service.findOneOfBook('book-1', 'LIB-0001')).rejects.toThrow(
+      'not found',
+    );
+  });
+
+  it('should count a new copy at its home branch', async () => {
+    send.mockResolvedValueOnce({});
+
+    await service.create('book-1', {
+      barcode: 'LIB-0001',
+      branchId: 'branch-1',
+    });
+
+    const [copyPut, , branchUpdate] = send.mock.calls[0][0].input.TransactItems;
+    expect(copyPut.Put.Item.branchId).toBe('branch-1');
+    expect(branchUpdate.Update).toMatchObject({
+      TableName: 'Branches',
+      Key: { id: 'branch-1' },
+      ExpressionAttributeValues: { ':delta': 1 },
+    });
+  });
+
+  it('should list the holdings of every branch', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        { barcode: 'A1', branchId: 'a', status: CopyStatus.AVAILABLE },
+        { barcode: 'A2', branchId: 'a', status: CopyStatus.ON_LOAN },
+        { barcode: 'B1', branchId: 'b', status: CopyStatus.AVAILABLE },
+      ],
+    });
+
+    const { copies, branches } = await service.findByBook('book-1', 'b');
+
+    expect(copies.map((copy) => copy.barcode)).toEqual(['B1']);
+    expect(branches).toEqual([
+      { branchId: 'a', totalCopies: 2, availableCopies: 1 },
+      { branchId: 'b', totalCopies: 1, availableCopies: 1 },
+    ]);
+  });
+
+  it('should refuse to edit a copy in transit', async () => {
+    send.mockResolvedValueOnce({
+      Item: {
+        barcode: 'LIB-0001',
+        bookId: 'book-1',
+        branchId: 'a',
+        status: CopyStatus.IN_TRANSIT,
+      },
+    });
+
+    await expect(
+      service.update('book-1', 'LIB-0001', { branchId: 'b' }),
+    ).rejects.toThrow('receive it first');
+  });
+});
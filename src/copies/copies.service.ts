@@ -0,0 +1,596 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { HoldsService } from '../holds/holds.service';
+import { BranchesService } from '../branches/branches.service';
+import { SearchService } from '../search/search.service';
+import { BranchHolding } from '../branches/interfaces/branch.interface';
+import { BranchNotFoundException } from '../branches/exceptions/branch.exceptions';
+import { Copy, CopyCondition, CopyStatus } from './interfaces/copy.interface';
+import { CreateCopyDto } from './dto/create-copy.dto';
+import { UpdateCopyDto } from './dto/update-copy.dto';
+import {
+  CopyAlreadyExistsException,
+  CopyNotFoundException,
+  CopyUpdateException,
+} from './exceptions/copy.exceptions';
+
+@Injectable()
+export class CopiesService {
+  private readonly tableName = 'Copies';
+  private readonly booksTableName = 'Books';
+  private readonly logger = new Logger(CopiesService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly holdsService: HoldsService,
+    private readonly branchesService: BranchesService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  async create(bookId: string, createCopyDto: CreateCopyDto): Promise<Copy> {
+    let branchIndex: number | undefined;
+
+    try {
+      const now = new Date().toISOString();
+      const copy: Copy = {
+        barcode: createCopyDto.barcode,
+        bookId,
+        status: CopyStatus.AVAILABLE,
+        condition: createCopyDto.condition ?? CopyCondition.GOOD,
+        branchId: createCopyDto.branchId,
+        shelfLocation: createCopyDto.shelfLocation,
+        acquiredAt: createCopyDto.acquiredAt ?? now,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const transactItems: TransactWriteItem[] = [
+        {
+          Put: {
+            TableName: this.tableName,
+            Item: copy,
+            ConditionExpression: 'attribute_not_exists(barcode)',
+          },
+        },
+        ...(await this.shelveTransactItems(bookId, 1)),
+      ];
+      if (copy.branchId) {
+        branchIndex =
+          transactItems.push(
+            this.branchesService.copiesCountTransactItem(copy.branchId, 1),
+          ) - 1;
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({ TransactItems: transactItems }),
+      );
+      await this.searchService.refreshBook(bookId);
+
+      this.logger.log(`Copy ${copy.barcode} of book ${bookId} added`);
+      return copy;
+    } catch (error) {
+      this.logger.error(
+        `Failed to add copy ${createCopyDto.barcode}: ${error.message}`,
+        error.stack,
+      );
+      const failed = this.dynamoDBService.failedTransactionConditions(error);
+      if (failed.includes(0)) {
+        throw new CopyAlreadyExistsException(createCopyDto.barcode);
+      }
+      if (failed.includes(1)) {
+        throw new NotFoundException(`Book with ID "${bookId}" not found`);
+      }
+      if (failed.includes(branchIndex)) {
+        throw new BranchNotFoundException(createCopyDto.branchId);
+      }
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  // Narrowed to one branch when asked; the holdings always cover every
+  // branch, so a reader can see where else the book is on the shelf
+  async findByBook(
+    bookId: string,
+    branchId?: string,
+  ): Promise<{
+    message: string;
+    copies: Copy[];
+    counts: Record<CopyStatus, number>;
+    branches: BranchHolding[];
+  }> {
+    const allCopies = await this.queryByBook(bookId);
+    const copies = branchId
+      ? allCopies.filter((copy) => copy.branchId === branchId)
+      : allCopies;
+
+    const counts = Object.fromEntries(
+      Object.values(CopyStatus).map((status) => [status, 0]),
+    ) as Record<CopyStatus, number>;
+    copies.forEach((copy) => counts[copy.status]++);
+
+    return {
+      message:
+        copies.length > 0
+          ? `Found ${copies.length} copies`
+          : 'No copies found for this book',
+      copies,
+      counts,
+      branches: this.branchHoldings(allCopies),
+    };
+  }
+
+  async findOne(barcode: string): Promise<Copy> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { barcode },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new CopyNotFoundException(barcode);
+      }
+
+      return response.Item as Copy;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch copy ${barcode}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof CopyNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch copy');
+    }
+  }
+
+  // Copies are addressed under their book, so a barcode of another title
+  // is reported as missing
+  async findOneOfBook(bookId: string, barcode: string): Promise<Copy> {
+    const copy = await this.findOne(barcode);
+    if (copy.bookId !== bookId) {
+      throw new CopyNotFoundException(barcode);
+    }
+    return copy;
+  }
+
+  // Any copy on the shelf, for a borrow where no barcode was scanned, at
+  // the pickup branch when the reader chose one
+  async findAvailable(
+    bookId: string,
+    branchId?: string,
+  ): Promise<Copy | undefined> {
+    const copies = await this.queryByBook(bookId);
+    return copies.find(
+      (copy) =>
+        copy.status === CopyStatus.AVAILABLE &&
+        (!branchId || copy.branchId === branchId),
+    );
+  }
+
+  async update(
+    bookId: string,
+    barcode: string,
+    updateCopyDto: UpdateCopyDto,
+  ): Promise<Copy> {
+    let branchIndex: number | undefined;
+
+    try {
+      const fields = Object.entries(updateCopyDto).filter(
+        ([, value]) => value !== undefined,
+      );
+      if (fields.length === 0) {
+        throw new BadRequestException('Nothing to update');
+      }
+
+      const copy = await this.findOneOfBook(bookId, barcode);
+      const status = updateCopyDto.status ?? copy.status;
+      const branchId = updateCopyDto.branchId ?? copy.branchId;
+
+      if (status !== copy.status && copy.status === CopyStatus.ON_LOAN) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is on loan, check it in first`,
+        );
+      }
+      if (
+        (status !== copy.status || branchId !== copy.branchId) &&
+        copy.status === CopyStatus.IN_TRANSIT
+      ) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is in transit, receive it first`,
+        );
+      }
+
+      const now = new Date().toISOString();
+      let updateExpression = 'SET updatedAt = :now';
+      const expressionAttributeNames: Record<string, string> = {
+        '#status': 'status',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':now': now,
+        ':currentStatus': copy.status,
+      };
+      for (const [key, value] of fields) {
+        updateExpression += `, #${key} = :${key}`;
+        expressionAttributeNames[`#${key}`] = key;
+        expressionAttributeValues[`:${key}`] = value;
+      }
+
+      // The status condition rejects a concurrent checkout or edit
+      const transactItems: TransactWriteItem[] = [
+        {
+          Update: {
+            TableName: this.tableName,
+            Key: { barcode },
+            UpdateExpression: updateExpression,
+            ConditionExpression: '#status = :currentStatus',
+            ExpressionAttributeNames: expressionAttributeNames,
+            ExpressionAttributeValues: expressionAttributeValues,
+          },
+        },
+      ];
+
+      // Only copies on the shelf count towards the book's availability
+      if (
+        copy.status === CopyStatus.AVAILABLE &&
+        status !== CopyStatus.AVAILABLE
+      ) {
+        transactItems.push(this.bookCountersTransactItem(bookId, 0, -1));
+      } else if (
+        copy.status !== CopyStatus.AVAILABLE &&
+        status === CopyStatus.AVAILABLE
+      ) {
+        transactItems.push(...(await this.shelveTransactItems(bookId, 0)));
+      }
+      // A copy moved to another branch directly, without a transfer
+      if (branchId !== copy.branchId) {
+        branchIndex = transactItems.length;
+        transactItems.push(
+          ...this.rehomeTransactItems(copy.branchId, branchId),
+        );
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({ TransactItems: transactItems }),
+      );
+      await this.searchService.refreshBook(bookId);
+
+      this.logger.log(`Copy ${barcode} of book ${bookId} updated`);
+      return {
+        ...copy,
+        ...Object.fromEntries(fields),
+        updatedAt: now,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to update copy ${barcode}: ${error.message}`,
+        error.stack,
+      );
+      if (
+        this.dynamoDBService
+          .failedTransactionConditions(error)
+          .includes(branchIndex)
+      ) {
+        throw new BranchNotFoundException(updateCopyDto.branchId);
+      }
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  async remove(bookId: string, barcode: string): Promise<{ message: string }> {
+    try {
+      const copy = await this.findOneOfBook(bookId, barcode);
+
+      if (copy.status === CopyStatus.ON_LOAN) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is on loan, check it in first`,
+        );
+      }
+      if (copy.status === CopyStatus.IN_TRANSIT) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is in transit, receive it first`,
+        );
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Delete: {
+                TableName: this.tableName,
+                Key: { barcode },
+                ConditionExpression: '#status = :currentStatus',
+                ExpressionAttributeNames: { '#status': 'status' },
+                ExpressionAttributeValues: { ':currentStatus': copy.status },
+              },
+            },
+            this.bookCountersTransactItem(
+              bookId,
+              -1,
+              copy.status === CopyStatus.AVAILABLE ? -1 : 0,
+            ),
+            ...this.rehomeTransactItems(copy.branchId, undefined),
+          ],
+        }),
+      );
+      await this.searchService.refreshBook(bookId);
+
+      this.logger.log(`Copy ${barcode} of book ${bookId} deleted`);
+      return {
+        message: `Copy with barcode "${barcode}" has been successfully deleted`,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete copy ${barcode}: ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  // Puts a copy on the given loan; fails when someone else took it first
+  checkoutTransactItem(copy: Copy, loanId: string): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { barcode: copy.barcode },
+        UpdateExpression:
+          'SET #status = :onLoan, loanId = :loanId, updatedAt = :now',
+        ConditionExpression: '#status = :available AND bookId = :bookId',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':onLoan': CopyStatus.ON_LOAN,
+          ':available': CopyStatus.AVAILABLE,
+          ':loanId': loanId,
+          ':bookId': copy.bookId,
+          ':now': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  // Puts a copy back on the shelf; the book's counters are released by the
+  // caller together with the hold queue. A copy returned away from its home
+  // branch goes in transit on the given transfer instead
+  checkinTransactItem(
+    barcode: string,
+    loanId: string,
+    transferId?: string,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { barcode },
+        UpdateExpression: transferId
+          ? 'SET #status = :inTransit, transferId = :transferId, updatedAt = :now REMOVE loanId'
+          : 'SET #status = :available, updatedAt = :now REMOVE loanId',
+        ConditionExpression: '#status = :onLoan AND loanId = :loanId',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ...(transferId
+            ? { ':inTransit': CopyStatus.IN_TRANSIT, ':transferId': transferId }
+            : { ':available': CopyStatus.AVAILABLE }),
+          ':onLoan': CopyStatus.ON_LOAN,
+          ':loanId': loanId,
+          ':now': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  // Takes a copy off the shelf to send it to another branch; fails when it
+  // was taken first or every copy on the shelf is set aside for a hold
+  dispatchTransactItems(copy: Copy, transferId: string): TransactWriteItem[] {
+    return [
+      {
+        Update: {
+          TableName: this.tableName,
+          Key: { barcode: copy.barcode },
+          UpdateExpression:
+            'SET #status = :inTransit, transferId = :transferId, updatedAt = :now',
+          ConditionExpression: '#status = :available AND bookId = :bookId',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':inTransit': CopyStatus.IN_TRANSIT,
+            ':available': CopyStatus.AVAILABLE,
+            ':transferId': transferId,
+            ':bookId': copy.bookId,
+            ':now': new Date().toISOString(),
+          },
+        },
+      },
+      this.bookCountersTransactItem(copy.bookId, 0, -1),
+    ];
+  }
+
+  // Shelves a copy at the end of its transfer, the same way a returned copy
+  // is, and makes the destination its home
+  async receiveTransactItems(
+    copy: Copy,
+    transferId: string,
+    branchId: string,
+  ): Promise<TransactWriteItem[]> {
+    return [
+      {
+        Update: {
+          TableName: this.tableName,
+          Key: { barcode: copy.barcode },
+          UpdateExpression:
+            'SET #status = :available, branchId = :branchId, updatedAt = :now REMOVE transferId',
+          ConditionExpression:
+            '#status = :inTransit AND transferId = :transferId',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':available': CopyStatus.AVAILABLE,
+            ':inTransit': CopyStatus.IN_TRANSIT,
+            ':transferId': transferId,
+            ':branchId': branchId,
+            ':now': new Date().toISOString(),
+          },
+        },
+      },
+      ...(await this.shelveTransactItems(copy.bookId, 0)),
+      ...this.rehomeTransactItems(copy.branchId, branchId),
+    ];
+  }
+
+  // A copy joining the shelf is set aside for the next hold in line before
+  // it counts as available, the same way a returned copy is
+  private async shelveTransactItems(
+    bookId: string,
+    totalCopiesDelta: number,
+  ): Promise<TransactWriteItem[]> {
+    const readyHoldTransactItem =
+      await this.holdsService.readyNextHoldTransactItem(bookId);
+
+    return readyHoldTransactItem
+      ? [
+          this.bookCountersTransactItem(bookId, totalCopiesDelta, 0),
+          readyHoldTransactItem,
+        ]
+      : [this.bookCountersTransactItem(bookId, totalCopiesDelta, 1)];
+  }
+
+  // Moves the copy between the branches' copy counts, the new branch first
+  private rehomeTransactItems(
+    before: string | undefined,
+    after: string | undefined,
+  ): TransactWriteItem[] {
+    if (before === after) {
+      return [];
+    }
+
+    const items: TransactWriteItem[] = [];
+    if (after) {
+      items.push(this.branchesService.copiesCountTransactItem(after, 1));
+    }
+    if (before) {
+      items.push(this.branchesService.copiesCountTransactItem(before, -1));
+    }
+    return items;
+  }
+
+  private branchHoldings(copies: Copy[]): BranchHolding[] {
+    const holdings = new Map<string, BranchHolding>();
+    for (const copy of copies.filter((copy) => copy.branchId)) {
+      const holding = holdings.get(copy.branchId) ?? {
+        branchId: copy.branchId,
+        totalCopies: 0,
+        availableCopies: 0,
+      };
+      holding.totalCopies++;
+      if (copy.status === CopyStatus.AVAILABLE) {
+        holding.availableCopies++;
+      }
+      holdings.set(copy.branchId, holding);
+    }
+    return [...holdings.values()];
+  }
+
+  // The book's quantity and totalCopies are derived from its copies and
+  // only ever change together with the copy that moves them
+  private bookCountersTransactItem(
+    bookId: string,
+    totalCopiesDelta: number,
+    quantityDelta: number,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.booksTableName,
+        Key: { id: bookId },
+        UpdateExpression:
+          'SET totalCopies = if_not_exists(totalCopies, :zero) + :totalCopiesDelta, #quantity = if_not_exists(#quantity, :zero) + :quantityDelta, updatedAt = :now',
+        ConditionExpression:
+          quantityDelta < 0
+            ? 'attribute_exists(id) AND #quantity > :zero'
+            : 'attribute_exists(id)',
+        ExpressionAttributeNames: {
+          '#quantity': 'quantity',
+        },
+        ExpressionAttributeValues: {
+          ':totalCopiesDelta': totalCopiesDelta,
+          ':quantityDelta': quantityDelta,
+          ':zero': 0,
+          ':now': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  private async queryByBook(bookId: string): Promise<Copy[]> {
+    try {
+      const copies: Copy[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'BookIndex',
+            KeyConditionExpression: 'bookId = :bookId',
+            ExpressionAttributeValues: {
+              ':bookId': bookId,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        copies.push(...((response.Items || []) as Copy[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return copies;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch copies of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch copies');
+    }
+  }
+
+  private toHttpException(error: any, bookId: string): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    const failed = this.dynamoDBService.failedTransactionConditions(error);
+    if (failed.includes(0)) {
+      return new HttpException(
+        'The copy changed concurrently, please retry',
+        HttpStatus.CONFLICT,
+      );
+    }
+    if (failed.length > 0) {
+      return new HttpException(
+        `Every copy of book "${bookId}" on the shelf is set aside for a hold, or its hold queue changed concurrently`,
+        HttpStatus.CONFLICT,
+      );
+    }
+    return new CopyUpdateException(error.message);
+  }
+}
@@ -0,0 +1,38 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { CopyCondition } from '../interfaces/copy.interface';
+
+export class CreateCopyDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  @Matches(/^[A-Za-z0-9-]+$/, {
+    message: 'barcode may only contain letters, digits and hyphens',
+  })
+  barcode: string;
+
+  @IsEnum(CopyCondition)
+  @IsOptional()
+  condition?: CopyCondition;
+
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  shelfLocation?: string;
+
+  @IsDateString()
+  @IsOptional()
+  acquiredAt?: string;
+}
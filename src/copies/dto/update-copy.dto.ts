@@ -0,0 +1,21 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { IsIn, IsOptional } from 'class-validator';
+import { CreateCopyDto } from './create-copy.dto';
+import { CopyStatus } from '../interfaces/copy.interface';
+
+// Loans are opened and closed by checkout and checkin, and transfers by
+// their dispatch and receipt, never by an edit
+export const EDITABLE_COPY_STATUSES = [
+  CopyStatus.AVAILABLE,
+  CopyStatus.IN_REPAIR,
+  CopyStatus.LOST,
+  CopyStatus.WITHDRAWN,
+];
+
+export class UpdateCopyDto extends PartialType(
+  OmitType(CreateCopyDto, ['barcode'] as const),
+) {
+  @IsIn(EDITABLE_COPY_STATUSES)
+  @IsOptional()
+  status?: CopyStatus;
+}
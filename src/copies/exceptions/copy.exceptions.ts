@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class CopyNotFoundException extends HttpException {
+  constructor(barcode: string) {
+    super(`Copy with barcode "${barcode}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class CopyAlreadyExistsException extends HttpException {
+  constructor(barcode: string) {
+    super(`Copy with barcode "${barcode}" already exists`, HttpStatus.CONFLICT);
+  }
+}
+
+export class CopyUpdateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to update copy: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
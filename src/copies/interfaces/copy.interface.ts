@@ -0,0 +1,34 @@
+// A physical copy of a book, identified by the barcode on its label
+export interface Copy {
+  barcode: string;
+  bookId: string;
+  status: CopyStatus;
+  condition: CopyCondition;
+  // The branch the copy belongs to and is routed back to after a loan
+  branchId?: string;
+  shelfLocation?: string;
+  acquiredAt: string;
+  // The loan the copy is out on, while it is ON_LOAN
+  loanId?: string;
+  // The transfer moving the copy, while it is IN_TRANSIT
+  transferId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum CopyStatus {
+  AVAILABLE = 'AVAILABLE',
+  ON_LOAN = 'ON_LOAN',
+  IN_TRANSIT = 'IN_TRANSIT',
+  IN_REPAIR = 'IN_REPAIR',
+  LOST = 'LOST',
+  WITHDRAWN = 'WITHDRAWN',
+}
+
+export enum CopyCondition {
+  NEW = 'NEW',
+  GOOD = 'GOOD',
+  FAIR = 'FAIR',
+  POOR = 'POOR',
+  DAMAGED = 'DAMAGED',
+}
@@ -1,6 +1,12 @@
 import { Injectable } from '@nestjs/common';
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  TransactWriteCommandInput,
+} from '@aws-sdk/lib-dynamodb';
+
+export type TransactWriteItem =
+  TransactWriteCommandInput['TransactItems'][number];
 
 @Injectable()
 export class DynamoDBService {
@@ -27,4 +33,18 @@ export class DynamoDBService {
       },
     });
   }
+
+  // Indexes of the TransactItems whose condition failed when a transaction
+  // was cancelled, empty for any other kind of error
+  failedTransactionConditions(error: any): number[] {
+    if (error?.name !== 'TransactionCanceledException') {
+      return [];
+    }
+
+    return (error.CancellationReasons || [])
+      .map((reason, index) =>
+        reason.Code === 'ConditionalCheckFailed' ? index : -1,
+      )
+      .filter((index) => index >= 0);
+  }
 }
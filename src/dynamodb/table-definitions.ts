@@ -66,22 +66,8 @@ export const BooksTableDefinition: CreateTableCommandInput = {
     { AttributeName: 'title', AttributeType: 'S' },
     { AttributeName: 'cover', AttributeType: 'S' },
     { AttributeName: 'pdf', AttributeType: 'S' },
-    { AttributeName: 'borrowerId', AttributeType: 'S' },
-    { AttributeName: 'rating', AttributeType: 'N' },
   ],
   GlobalSecondaryIndexes: [
-    {
-      IndexName: 'BorrowerStatusIndex',
-      KeySchema: [
-        { AttributeName: 'borrowerId', KeyType: 'HASH' },
-        { AttributeName: 'status', KeyType: 'RANGE' },
-      ],
-      Projection: { ProjectionType: 'ALL' },
-      ProvisionedThroughput: {
-        ReadCapacityUnits: 5,
-        WriteCapacityUnits: 5,
-      },
-    },
     {
       IndexName: 'AuthorIndex',
       KeySchema: [{ AttributeName: 'authorId', KeyType: 'HASH' }],
@@ -145,15 +131,6 @@ export const BooksTableDefinition: CreateTableCommandInput = {
         WriteCapacityUnits: 5,
       },
     },
-    {
-      IndexName: 'RatingIndex',
-      KeySchema: [{ AttributeName: 'rating', KeyType: 'HASH' }],
-      Projection: { ProjectionType: 'ALL' },
-      ProvisionedThroughput: {
-        ReadCapacityUnits: 5,
-        WriteCapacityUnits: 5,
-      },
-    },
   ],
   ProvisionedThroughput: {
     ReadCapacityUnits: 5,
@@ -194,3 +171,384 @@ export const CategoriesTableDefinition: CreateTableCommandInput = {
     WriteCapacityUnits: 5,
   },
 };
+
+export const LoansTableDefinition: CreateTableCommandInput = {
+  TableName: 'Loans',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [
+    { AttributeName: 'id', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+    { AttributeName: 'borrowerId', AttributeType: 'S' },
+    { AttributeName: 'status', AttributeType: 'S' },
+    { AttributeName: 'returnDate', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'StatusReturnDateIndex',
+      KeySchema: [
+        { AttributeName: 'status', KeyType: 'HASH' },
+        { AttributeName: 'returnDate', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+    {
+      IndexName: 'BorrowerStatusIndex',
+      KeySchema: [
+        { AttributeName: 'borrowerId', KeyType: 'HASH' },
+        { AttributeName: 'status', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+    {
+      IndexName: 'BookStatusIndex',
+      KeySchema: [
+        { AttributeName: 'bookId', KeyType: 'HASH' },
+        { AttributeName: 'status', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const HoldsTableDefinition: CreateTableCommandInput = {
+  TableName: 'Holds',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [
+    { AttributeName: 'id', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+    { AttributeName: 'userId', AttributeType: 'S' },
+    { AttributeName: 'status', AttributeType: 'S' },
+    { AttributeName: 'createdAt', AttributeType: 'S' },
+    { AttributeName: 'expiresAt', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'BookQueueIndex',
+      KeySchema: [
+        { AttributeName: 'bookId', KeyType: 'HASH' },
+        { AttributeName: 'createdAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+    {
+      IndexName: 'UserIndex',
+      KeySchema: [
+        { AttributeName: 'userId', KeyType: 'HASH' },
+        { AttributeName: 'createdAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+    {
+      IndexName: 'StatusExpiresIndex',
+      KeySchema: [
+        { AttributeName: 'status', KeyType: 'HASH' },
+        { AttributeName: 'expiresAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const FinesTableDefinition: CreateTableCommandInput = {
+  TableName: 'Fines',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [
+    { AttributeName: 'id', AttributeType: 'S' },
+    { AttributeName: 'userId', AttributeType: 'S' },
+    { AttributeName: 'createdAt', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'UserIndex',
+      KeySchema: [
+        { AttributeName: 'userId', KeyType: 'HASH' },
+        { AttributeName: 'createdAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const CirculationPoliciesTableDefinition: CreateTableCommandInput = {
+  TableName: 'CirculationPolicies',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const LoanHistoryTableDefinition: CreateTableCommandInput = {
+  TableName: 'LoanHistory',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [
+    { AttributeName: 'id', AttributeType: 'S' },
+    { AttributeName: 'userId', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+    { AttributeName: 'occurredAt', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'UserHistoryIndex',
+      KeySchema: [
+        { AttributeName: 'userId', KeyType: 'HASH' },
+        { AttributeName: 'occurredAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+    {
+      IndexName: 'BookHistoryIndex',
+      KeySchema: [
+        { AttributeName: 'bookId', KeyType: 'HASH' },
+        { AttributeName: 'occurredAt', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const ReviewsTableDefinition: CreateTableCommandInput = {
+  TableName: 'Reviews',
+  KeySchema: [
+    { AttributeName: 'bookId', KeyType: 'HASH' },
+    { AttributeName: 'userId', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'bookId', AttributeType: 'S' },
+    { AttributeName: 'userId', AttributeType: 'S' },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const CopiesTableDefinition: CreateTableCommandInput = {
+  TableName: 'Copies',
+  KeySchema: [{ AttributeName: 'barcode', KeyType: 'HASH' }],
+  AttributeDefinitions: [
+    { AttributeName: 'barcode', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+  ],
+  GlobalSecondaryIndexes: [
+    {
+      IndexName: 'BookIndex',
+      KeySchema: [
+        { AttributeName: 'bookId', KeyType: 'HASH' },
+        { AttributeName: 'barcode', KeyType: 'RANGE' },
+      ],
+      Projection: { ProjectionType: 'ALL' },
+      ProvisionedThroughput: {
+        ReadCapacityUnits: 5,
+        WriteCapacityUnits: 5,
+      },
+    },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// One row per catalogued ISBN; written in the same transaction as the book
+// so two books can never claim the same ISBN
+export const BookIsbnsTableDefinition: CreateTableCommandInput = {
+  TableName: 'BookIsbns',
+  KeySchema: [{ AttributeName: 'isbn', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'isbn', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// One row per author and book they contributed to, in any role; written in
+// the same transaction as the book so an author's bibliography and
+// booksCount follow its contributors
+export const BookContributorsTableDefinition: CreateTableCommandInput = {
+  TableName: 'BookContributors',
+  KeySchema: [
+    { AttributeName: 'authorId', KeyType: 'HASH' },
+    { AttributeName: 'bookId', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'authorId', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const SeriesTableDefinition: CreateTableCommandInput = {
+  TableName: 'Series',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// One row per volume of a series, ordered by volume number; written in the
+// same transaction as the book so two books can never hold the same volume
+export const SeriesVolumesTableDefinition: CreateTableCommandInput = {
+  TableName: 'SeriesVolumes',
+  KeySchema: [
+    { AttributeName: 'seriesId', KeyType: 'HASH' },
+    { AttributeName: 'volume', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'seriesId', AttributeType: 'S' },
+    { AttributeName: 'volume', AttributeType: 'N' },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const TagsTableDefinition: CreateTableCommandInput = {
+  TableName: 'Tags',
+  KeySchema: [{ AttributeName: 'slug', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'slug', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// One row per tag and book carrying it, queried by tag the way books are by
+// CategoryIndex; written in the same transaction as the book so the tag's
+// booksCount follows its books
+export const BookTagsTableDefinition: CreateTableCommandInput = {
+  TableName: 'BookTags',
+  KeySchema: [
+    { AttributeName: 'slug', KeyType: 'HASH' },
+    { AttributeName: 'bookId', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'slug', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const WorksTableDefinition: CreateTableCommandInput = {
+  TableName: 'Works',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// One row per work and edition of it; written in the same transaction as
+// the book so the work's editionsCount follows its editions
+export const WorkEditionsTableDefinition: CreateTableCommandInput = {
+  TableName: 'WorkEditions',
+  KeySchema: [
+    { AttributeName: 'workId', KeyType: 'HASH' },
+    { AttributeName: 'bookId', KeyType: 'RANGE' },
+  ],
+  AttributeDefinitions: [
+    { AttributeName: 'workId', AttributeType: 'S' },
+    { AttributeName: 'bookId', AttributeType: 'S' },
+  ],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+export const BranchesTableDefinition: CreateTableCommandInput = {
+  TableName: 'Branches',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// Copies moving between branches; a copy points at its open transfer while
+// it is IN_TRANSIT
+export const TransfersTableDefinition: CreateTableCommandInput = {
+  TableName: 'Transfers',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
+
+// Browser uploads straight to S3, from the first part to the file being
+// attached to its book or author
+export const UploadsTableDefinition: CreateTableCommandInput = {
+  TableName: 'Uploads',
+  KeySchema: [{ AttributeName: 'id', KeyType: 'HASH' }],
+  AttributeDefinitions: [{ AttributeName: 'id', AttributeType: 'S' }],
+  ProvisionedThroughput: {
+    ReadCapacityUnits: 5,
+    WriteCapacityUnits: 5,
+  },
+};
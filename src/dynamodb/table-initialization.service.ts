@@ -5,6 +5,24 @@ import {
   AuthorsTableDefinition,
   BooksTableDefinition,
   CategoriesTableDefinition,
+  LoansTableDefinition,
+  HoldsTableDefinition,
+  FinesTableDefinition,
+  CirculationPoliciesTableDefinition,
+  LoanHistoryTableDefinition,
+  ReviewsTableDefinition,
+  CopiesTableDefinition,
+  BookIsbnsTableDefinition,
+  BookContributorsTableDefinition,
+  SeriesTableDefinition,
+  SeriesVolumesTableDefinition,
+  TagsTableDefinition,
+  BookTagsTableDefinition,
+  WorksTableDefinition,
+  WorkEditionsTableDefinition,
+  BranchesTableDefinition,
+  TransfersTableDefinition,
+  UploadsTableDefinition,
 } from './table-definitions';
 
 @Injectable()
@@ -20,6 +38,24 @@ export class TableInitializationService implements OnModuleInit {
       await this.createTableIfNotExists(AuthorsTableDefinition);
       await this.createTableIfNotExists(BooksTableDefinition);
       await this.createTableIfNotExists(CategoriesTableDefinition);
+      await this.createTableIfNotExists(LoansTableDefinition);
+      await this.createTableIfNotExists(HoldsTableDefinition);
+      await this.createTableIfNotExists(FinesTableDefinition);
+      await this.createTableIfNotExists(CirculationPoliciesTableDefinition);
+      await this.createTableIfNotExists(LoanHistoryTableDefinition);
+      await this.createTableIfNotExists(ReviewsTableDefinition);
+      await this.createTableIfNotExists(CopiesTableDefinition);
+      await this.createTableIfNotExists(BookIsbnsTableDefinition);
+      await this.createTableIfNotExists(BookContributorsTableDefinition);
+      await this.createTableIfNotExists(SeriesTableDefinition);
+      await this.createTableIfNotExists(SeriesVolumesTableDefinition);
+      await this.createTableIfNotExists(TagsTableDefinition);
+      await this.createTableIfNotExists(BookTagsTableDefinition);
+      await this.createTableIfNotExists(WorksTableDefinition);
+      await this.createTableIfNotExists(WorkEditionsTableDefinition);
+      await this.createTableIfNotExists(BranchesTableDefinition);
+      await this.createTableIfNotExists(TransfersTableDefinition);
+      await this.createTableIfNotExists(UploadsTableDefinition);
       console.log('All tables initialized successfully');
     } catch (error) {
       console.error('Error initializing tables:', error);
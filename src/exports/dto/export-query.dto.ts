@@ -0,0 +1,9 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ExportFormat } from '../interfaces/export.interface';
+
+export class ExportQueryDto {
+  // Defaults to CSV
+  @IsEnum(ExportFormat)
+  @IsOptional()
+  format?: ExportFormat;
+}
@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StreamableFile } from '@nestjs/common';
+import { Readable } from 'stream';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { CatalogueEntity } from '../imports/interfaces/import.interface';
+import { ExportFormat } from './interfaces/export.interface';
+
+describe('ExportsController', () => {
+  let controller: ExportsController;
+  let exportsService: { export: jest.Mock };
+
+  beforeEach(async () => {
+    exportsService = {
+      export: jest.fn().mockReturnValue(Readable.from([])),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ExportsController],
+      providers: [{ provide: ExportsService, useValue: exportsService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ExportsController>(ExportsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should export as CSV by default', () => {
+    const file = controller.exportBooks({});
+
+    expect(file).toBeInstanceOf(StreamableFile);
+    expect(file.getHeaders()).toMatchObject({
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="books.csv"',
+    });
+    expect(exportsService.export).toHaveBeenCalledWith(
+      CatalogueEntity.BOOKS,
+      ExportFormat.CSV,
+    );
+  });
+
+  it('should export as NDJSON when asked', () => {
+    const file = controller.exportAuthors({ format: ExportFormat.NDJSON });
+
+    expect(file.getHeaders().disposition).toBe(
+      'attachment; filename="authors.ndjson"',
+    );
+    expect(exportsService.export).toHaveBeenCalledWith(
+      CatalogueEntity.AUTHORS,
+      ExportFormat.NDJSON,
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Query,
+  StreamableFile,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ExportsService } from './exports.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { ExportFormat } from './interfaces/export.interface';
+import { CatalogueEntity } from '../imports/interfaces/import.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.NDJSON]: 'application/x-ndjson',
+};
+
+@Controller('admin/export')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('books')
+  @ApiOperation({ summary: 'Download every book as CSV or NDJSON' })
+  @ApiResponse({ status: 200, description: 'Streams the file' })
+  exportBooks(
+    @Query(new ValidationPipe({ transform: true })) query: ExportQueryDto,
+  ): StreamableFile {
+    return this.export(CatalogueEntity.BOOKS, query);
+  }
+
+  @Get('authors')
+  @ApiOperation({ summary: 'Download every author as CSV or NDJSON' })
+  @ApiResponse({ status: 200, description: 'Streams the file' })
+  exportAuthors(
+    @Query(new ValidationPipe({ transform: true })) query: ExportQueryDto,
+  ): StreamableFile {
+    return this.export(CatalogueEntity.AUTHORS, query);
+  }
+
+  @Get('categories')
+  @ApiOperation({ summary: 'Download every category as CSV or NDJSON' })
+  @ApiResponse({ status: 200, description: 'Streams the file' })
+  exportCategories(
+    @Query(new ValidationPipe({ transform: true })) query: ExportQueryDto,
+  ): StreamableFile {
+    return this.export(CatalogueEntity.CATEGORIES, query);
+  }
+
+  private export(
+    entity: CatalogueEntity,
+    query: ExportQueryDto,
+  ): StreamableFile {
+    const format = query.format ?? ExportFormat.CSV;
+    return new StreamableFile(this.exportsService.export(entity, format), {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="${entity}.${format}"`,
+    });
+  }
+}
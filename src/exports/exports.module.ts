@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { ExportsService } from './exports.service';
+import { ExportsController } from './exports.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+})
+export class ExportsModule {}
@@ -0,0 +1,96 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { Readable } from 'stream';
+import { ExportsService } from './exports.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { CatalogueEntity } from '../imports/interfaces/import.interface';
+import { ExportFormat } from './interfaces/export.interface';
+
+async function read(stream: Readable): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) {
+    text += chunk;
+  }
+  return text;
+}
+
+describe('ExportsService', () => {
+  let service: ExportsService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ExportsService,
+        { provide: DynamoDBService, useValue: { documentClient: { send } } },
+      ],
+    }).compile();
+
+    service = module.get<ExportsService>(ExportsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should stream every page of the table as CSV', async () => {
+    send
+      .mockResolvedValueOnce({
+        Items: [{ id: 'c1', name: 'Poetry', description: 'Verse, mostly' }],
+        LastEvaluatedKey: { id: 'c1' },
+      })
+      .mockResolvedValueOnce({
+        Items: [{ id: 'c2', name: 'Drama', booksCount: 3 }],
+      });
+
+    const text = await read(
+      service.export(CatalogueEntity.CATEGORIES, ExportFormat.CSV),
+    );
+
+    expect(text).toBe(
+      'id,name,description,parentId,booksCount,childrenCount,createdAt,updatedAt\r\n' +
+        'c1,Poetry,"Verse, mostly",,,,,\r\n' +
+        'c2,Drama,,,3,,,\r\n',
+    );
+    expect(send).toHaveBeenCalledTimes(2);
+    expect((send.mock.calls[1][0] as ScanCommand).input).toMatchObject({
+      TableName: 'Categories',
+      ExclusiveStartKey: { id: 'c1' },
+    });
+  });
+
+  it('should flatten the genres and social media of authors', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        {
+          id: 'a1',
+          name: 'Virgil',
+          genres: ['Epic', 'Pastoral'],
+          socialMedia: { website: 'https://example.com' },
+        },
+      ],
+    });
+
+    const [, row] = (
+      await read(service.export(CatalogueEntity.AUTHORS, ExportFormat.CSV))
+    ).split('\r\n');
+
+    expect(row).toBe('a1,Virgil,,,,,Epic;Pastoral,,,https://example.com,,,');
+  });
+
+  it('should stream one JSON object per line as NDJSON', async () => {
+    const book = { id: 'b1', title: 'The Odyssey', ratingSum: 9 };
+    send.mockResolvedValueOnce({ Items: [book] });
+
+    const text = await read(
+      service.export(CatalogueEntity.BOOKS, ExportFormat.NDJSON),
+    );
+
+    expect(text).toBe(`${JSON.stringify(book)}\n`);
+    expect((send.mock.calls[0][0] as ScanCommand).input.TableName).toBe(
+      'Books',
+    );
+  });
+});
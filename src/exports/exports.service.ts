@@ -0,0 +1,145 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ScanCommand } from '@aws-sdk/lib-dynamodb';
+import { Readable } from 'stream';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { CatalogueEntity } from '../imports/interfaces/import.interface';
+import { toCsvLine } from '../imports/utils/csv.util';
+import { ExportFormat } from './interfaces/export.interface';
+
+const TABLE_NAMES: Record<CatalogueEntity, string> = {
+  [CatalogueEntity.BOOKS]: 'Books',
+  [CatalogueEntity.AUTHORS]: 'Authors',
+  [CatalogueEntity.CATEGORIES]: 'Categories',
+};
+
+// The CSV columns are the ones the CSV import reads, plus ids, counters and
+// timestamps the import ignores
+const CSV_COLUMNS: Record<CatalogueEntity, string[]> = {
+  [CatalogueEntity.BOOKS]: [
+    'id',
+    'title',
+    'isbn',
+    'authorId',
+    'categoryId',
+    'tags',
+    'description',
+    'publishedYear',
+    'seriesId',
+    'seriesVolume',
+    'workId',
+    'language',
+    'format',
+    'publisher',
+    'pageCount',
+    'status',
+    'quantity',
+    'totalCopies',
+    'rating',
+    'reviewsCount',
+    'createdAt',
+    'updatedAt',
+  ],
+  [CatalogueEntity.AUTHORS]: [
+    'id',
+    'name',
+    'biography',
+    'birthDate',
+    'nationality',
+    'email',
+    'genres',
+    'facebook',
+    'twitter',
+    'website',
+    'booksCount',
+    'createdAt',
+    'updatedAt',
+  ],
+  [CatalogueEntity.CATEGORIES]: [
+    'id',
+    'name',
+    'description',
+    'parentId',
+    'booksCount',
+    'childrenCount',
+    'createdAt',
+    'updatedAt',
+  ],
+};
+
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  // The table is scanned a page at a time as the client reads, so an export
+  // never holds more than one page in memory
+  export(entity: CatalogueEntity, format: ExportFormat): Readable {
+    return Readable.from(this.lines(entity, format));
+  }
+
+  private async *lines(
+    entity: CatalogueEntity,
+    format: ExportFormat,
+  ): AsyncGenerator<string> {
+    const columns = CSV_COLUMNS[entity];
+    let exported = 0;
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    try {
+      if (format === ExportFormat.CSV) {
+        yield toCsvLine(columns);
+      }
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: TABLE_NAMES[entity],
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        for (const item of response.Items || []) {
+          if (format === ExportFormat.CSV) {
+            const values = this.csvValues(entity, item);
+            yield toCsvLine(columns.map((column) => values[column]));
+          } else {
+            yield `${JSON.stringify(item)}\n`;
+          }
+          exported++;
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      this.logger.log(`Exported ${exported} ${entity} as ${format}`);
+    } catch (error) {
+      // The response has started by now, the client sees a truncated file
+      this.logger.error(
+        `Failed to export ${entity} after ${exported} items: ${error.message}`,
+        error.stack,
+      );
+      throw error;
+    }
+  }
+
+  // Books keep their tags, and authors their genres and social media links,
+  // in nested attributes, flattened into the columns the import reads them
+  // back from
+  private csvValues(
+    entity: CatalogueEntity,
+    item: Record<string, any>,
+  ): Record<string, any> {
+    switch (entity) {
+      case CatalogueEntity.BOOKS:
+        return { ...item, tags: item.tags?.join(';') };
+      case CatalogueEntity.AUTHORS:
+        return {
+          ...item,
+          ...item.socialMedia,
+          genres: item.genres?.join(';'),
+        };
+      default:
+        return item;
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export enum ExportFormat {
+  CSV = 'csv',
+  // One JSON object per line, carrying every attribute of the item
+  NDJSON = 'ndjson',
+}
@@ -0,0 +1,13 @@
+import { IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class RecordPaymentDto {
+  // Amount received, in cents
+  @IsInt()
+  @Min(1)
+  amount: number;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
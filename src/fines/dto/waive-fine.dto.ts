@@ -0,0 +1,8 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class WaiveFineDto {
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
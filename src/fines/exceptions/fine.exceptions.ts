@@ -0,0 +1,13 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class FineNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Fine with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class FineUpdateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to update fine: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FinesController } from './fines.controller';
+import { FinesService } from './fines.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('FinesController', () => {
+  let controller: FinesController;
+  let finesService: { findUserLedger: jest.Mock; waive: jest.Mock };
+
+  beforeEach(async () => {
+    finesService = {
+      findUserLedger: jest.fn().mockResolvedValue({
+        message: 'No fines found',
+        fines: [],
+        balance: 0,
+      }),
+      waive: jest.fn().mockResolvedValue({ id: 'loan-1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [FinesController],
+      providers: [{ provide: FinesService, useValue: finesService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<FinesController>(FinesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the fines of the user', async () => {
+    const result = await controller.findMine({ user: { sub: '1' } });
+    expect(result).toEqual({
+      message: 'No fines found',
+      fines: [],
+      balance: 0,
+    });
+  });
+
+  it('should waive a fine on behalf of the admin', async () => {
+    await controller.waive(
+      'loan-1',
+      { reason: 'Lost in the post' },
+      { user: { sub: 'admin-1' } },
+    );
+    expect(finesService.waive).toHaveBeenCalledWith(
+      'loan-1',
+      'admin-1',
+      'Lost in the post',
+    );
+  });
+});
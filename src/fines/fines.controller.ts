@@ -0,0 +1,88 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { FinesService } from './fines.service';
+import { Fine } from './interfaces/fine.interface';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+import { WaiveFineDto } from './dto/waive-fine.dto';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('fines')
+@UseGuards(CognitoAuthGuard)
+@ApiBearerAuth()
+export class FinesController {
+  constructor(private readonly finesService: FinesService) {}
+
+  @Get('me')
+  @ApiOperation({ summary: 'Get the fines and balance of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the fines and the outstanding balance in cents',
+  })
+  async findMine(
+    @Request() req,
+  ): Promise<{ message: string; fines: Fine[]; balance: number }> {
+    return this.finesService.findUserLedger(req.user.sub);
+  }
+
+  @Get('users/:userId')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get the fines and balance of a user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the fines and the outstanding balance in cents',
+  })
+  async findByUser(
+    @Param('userId') userId: string,
+  ): Promise<{ message: string; fines: Fine[]; balance: number }> {
+    return this.finesService.findUserLedger(userId);
+  }
+
+  @Post(':id/waive')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Waive a fine' })
+  @ApiResponse({ status: 200, description: 'Fine waived successfully' })
+  @ApiResponse({ status: 400, description: 'Fine already paid or waived' })
+  @ApiResponse({ status: 404, description: 'Fine not found' })
+  async waive(
+    @Param('id') id: string,
+    @Body() waiveFineDto: WaiveFineDto,
+    @Request() req,
+  ): Promise<Fine> {
+    return this.finesService.waive(id, req.user.sub, waiveFineDto.reason);
+  }
+
+  @Post(':id/payments')
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Record a payment against a fine' })
+  @ApiResponse({ status: 201, description: 'Payment recorded successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Fine already settled or payment exceeds the balance',
+  })
+  @ApiResponse({ status: 404, description: 'Fine not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - Concurrent payment' })
+  async recordPayment(
+    @Param('id') id: string,
+    @Body() recordPaymentDto: RecordPaymentDto,
+    @Request() req,
+  ): Promise<Fine> {
+    return this.finesService.recordPayment(id, recordPaymentDto, req.user.sub);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { FinesService } from './fines.service';
+import { FinesController } from './fines.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { LoansModule } from '../loans/loans.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, LoansModule],
+  controllers: [FinesController],
+  providers: [FinesService],
+  exports: [FinesService],
+})
+export class FinesModule {}
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { FinesService } from './fines.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { LoansService } from '../loans/loans.service';
+import { FineStatus } from './interfaces/fine.interface';
+import { Loan, LoanStatus } from '../loans/interfaces/loan.interface';
+
+describe('FinesService', () => {
+  let service: FinesService;
+  let send: jest.Mock;
+
+  const loan: Loan = {
+    id: 'loan-1',
+    bookId: 'book-1',
+    borrowerId: 'user-1',
+    status: LoanStatus.OVERDUE,
+    startDate: '2030-01-01T00:00:00.000Z',
+    returnDate: '2030-01-15T00:00:00.000Z',
+    renewals: 0,
+    createdAt: '2030-01-01T00:00:00.000Z',
+    updatedAt: '2030-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        FinesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        { provide: LoansService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<FinesService>(FinesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should charge per day overdue up to the cap', () => {
+    expect(
+      service.calculateFine(loan.returnDate, new Date('2030-01-18T00:00:00Z')),
+    ).toEqual({ daysOverdue: 3, amount: 75 });
+    expect(
+      service.calculateFine(loan.returnDate, new Date('2030-06-01T00:00:00Z'))
+        .amount,
+    ).toBe(1000);
+  });
+
+  it('should only charge whole days overdue', async () => {
+    expect(
+      service.calculateFine(loan.returnDate, new Date('2030-01-15T00:05:00Z')),
+    ).toEqual({ daysOverdue: 0, amount: 0 });
+    expect(
+      service.calculateFine(loan.returnDate, new Date('2030-01-16T01:00:00Z')),
+    ).toEqual({ daysOverdue: 1, amount: 25 });
+    await expect(
+      service.settleTransactItem(loan, new Date('2030-01-15T00:05:00Z')),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should not settle a fine for a loan returned in time', async () => {
+    const item = await service.settleTransactItem(
+      loan,
+      new Date('2030-01-10T00:00:00Z'),
+    );
+
+    expect(item).toBeUndefined();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should leave a waived fine alone on return', async () => {
+    send.mockResolvedValueOnce({
+      Item: { id: 'loan-1', status: FineStatus.WAIVED },
+    });
+
+    const item = await service.settleTransactItem(
+      loan,
+      new Date('2030-01-18T00:00:00Z'),
+    );
+
+    expect(item).toBeUndefined();
+  });
+
+  it('should only count unpaid fines in the balance', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        { status: FineStatus.OUTSTANDING, amount: 300, paidAmount: 100 },
+        { status: FineStatus.ACCRUING, amount: 50, paidAmount: 0 },
+        { status: FineStatus.WAIVED, amount: 500, paidAmount: 0 },
+      ],
+    });
+
+    expect(await service.getOutstandingBalance('user-1')).toBe(250);
+  });
+
+  it('should refuse a payment larger than the balance', async () => {
+    send.mockResolvedValueOnce({
+      Item: {
+        id: 'loan-1',
+        status: FineStatus.OUTSTANDING,
+        amount: 300,
+        paidAmount: 200,
+      },
+    });
+
+    await expect(
+      service.recordPayment('loan-1', { amount: 150 }, 'admin-1'),
+    ).rejects.toThrow('exceeds the balance');
+  });
+});
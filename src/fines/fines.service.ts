@@ -0,0 +1,382 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { LoansService } from '../loans/loans.service';
+import { Loan } from '../loans/interfaces/loan.interface';
+import { Fine, FinePayment, FineStatus } from './interfaces/fine.interface';
+import {
+  FineNotFoundException,
+  FineUpdateException,
+} from './exceptions/fine.exceptions';
+import { RecordPaymentDto } from './dto/record-payment.dto';
+
+const UNPAID_FINE_STATUSES = [FineStatus.ACCRUING, FineStatus.OUTSTANDING];
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class FinesService {
+  private readonly tableName = 'Fines';
+  private readonly logger = new Logger(FinesService.name);
+  // All amounts are in cents
+  private readonly dailyRate: number;
+  private readonly maxAmount: number;
+  readonly borrowingBlockThreshold: number;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly loansService: LoansService,
+    private readonly configService: ConfigService,
+  ) {
+    this.dailyRate = Number(
+      this.configService.get<string>('FINE_DAILY_RATE_CENTS') ?? 25,
+    );
+    this.maxAmount = Number(
+      this.configService.get<string>('FINE_MAX_AMOUNT_CENTS') ?? 1000,
+    );
+    this.borrowingBlockThreshold = Number(
+      this.configService.get<string>('FINE_BLOCK_THRESHOLD_CENTS') ?? 500,
+    );
+  }
+
+  // Only whole days past the due date are charged, so a book back minutes
+  // late costs nothing and one back a day and an hour late costs a day
+  calculateFine(
+    returnDate: string,
+    asOf: Date = new Date(),
+  ): { daysOverdue: number; amount: number } {
+    const daysOverdue = Math.max(
+      0,
+      Math.floor((asOf.getTime() - new Date(returnDate).getTime()) / DAY_IN_MS),
+    );
+
+    return {
+      daysOverdue,
+      amount: Math.min(daysOverdue * this.dailyRate, this.maxAmount),
+    };
+  }
+
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async sweepOverdueLoans(): Promise<void> {
+    try {
+      const asOf = new Date();
+      await this.loansService.markOverdueLoans(asOf);
+
+      const overdueLoans = await this.loansService.findOverdue();
+      for (const loan of overdueLoans) {
+        try {
+          await this.accrue(loan, asOf);
+        } catch (error) {
+          this.logger.error(
+            `Failed to accrue fine for loan ${loan.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+
+      this.logger.log(`Accrued fines for ${overdueLoans.length} overdue loans`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to sweep overdue loans: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async accrue(loan: Loan, asOf: Date = new Date()): Promise<void> {
+    const { daysOverdue, amount } = this.calculateFine(loan.returnDate, asOf);
+
+    try {
+      await this.dynamoDBService.documentClient.send(
+        new UpdateCommand(
+          this.fineUpdate(loan, FineStatus.ACCRUING, daysOverdue, amount),
+        ),
+      );
+    } catch (error) {
+      // Waived or settled fines no longer accrue
+      if (error.name !== 'ConditionalCheckFailedException') {
+        throw error;
+      }
+    }
+  }
+
+  // Fixes the final amount of a late loan as part of the return transaction,
+  // undefined when the book is back in time or the fine was already closed
+  async settleTransactItem(
+    loan: Loan,
+    returnedAt: Date = new Date(),
+  ): Promise<TransactWriteItem | undefined> {
+    const { daysOverdue, amount } = this.calculateFine(
+      loan.returnDate,
+      returnedAt,
+    );
+
+    if (amount === 0) {
+      return undefined;
+    }
+
+    const existingFine = await this.findById(loan.id);
+    if (existingFine && existingFine.status !== FineStatus.ACCRUING) {
+      return undefined;
+    }
+
+    const status =
+      (existingFine?.paidAmount ?? 0) >= amount
+        ? FineStatus.PAID
+        : FineStatus.OUTSTANDING;
+
+    return { Update: this.fineUpdate(loan, status, daysOverdue, amount) };
+  }
+
+  async findByUser(userId: string): Promise<Fine[]> {
+    try {
+      const fines: Fine[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'UserIndex',
+            KeyConditionExpression: 'userId = :userId',
+            ExpressionAttributeValues: {
+              ':userId': userId,
+            },
+            ScanIndexForward: false,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        fines.push(...((response.Items || []) as Fine[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return fines;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch fines of user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch fines');
+    }
+  }
+
+  async findUserLedger(
+    userId: string,
+  ): Promise<{ message: string; fines: Fine[]; balance: number }> {
+    const fines = await this.findByUser(userId);
+
+    return {
+      message:
+        fines.length > 0 ? `Found ${fines.length} fine(s)` : 'No fines found',
+      fines,
+      balance: this.outstandingBalance(fines),
+    };
+  }
+
+  async getOutstandingBalance(userId: string): Promise<number> {
+    return this.outstandingBalance(await this.findByUser(userId));
+  }
+
+  async findOne(id: string): Promise<Fine> {
+    const fine = await this.findById(id);
+
+    if (!fine) {
+      throw new FineNotFoundException(id);
+    }
+
+    return fine;
+  }
+
+  async waive(id: string, adminId: string, reason?: string): Promise<Fine> {
+    try {
+      const now = new Date().toISOString();
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression:
+            'SET #status = :waived, waivedBy = :adminId, waivedAt = :now, waiverReason = :reason, updatedAt = :now',
+          ConditionExpression: '#status IN (:accruing, :outstanding)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':waived': FineStatus.WAIVED,
+            ':accruing': FineStatus.ACCRUING,
+            ':outstanding': FineStatus.OUTSTANDING,
+            ':adminId': adminId,
+            ':reason': reason,
+            ':now': now,
+          },
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Fine ${id} waived by ${adminId}`);
+      return response.Attributes as Fine;
+    } catch (error) {
+      this.logger.error(
+        `Failed to waive fine ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error.name === 'ConditionalCheckFailedException') {
+        const fine = await this.findOne(id);
+        throw new BadRequestException(
+          `Fine with ID "${id}" is already ${fine.status.toLowerCase()}`,
+        );
+      }
+      throw new FineUpdateException(error.message);
+    }
+  }
+
+  async recordPayment(
+    id: string,
+    recordPaymentDto: RecordPaymentDto,
+    adminId: string,
+  ): Promise<Fine> {
+    try {
+      const fine = await this.findOne(id);
+
+      if (!UNPAID_FINE_STATUSES.includes(fine.status)) {
+        throw new BadRequestException(
+          `Fine with ID "${id}" is already ${fine.status.toLowerCase()}`,
+        );
+      }
+
+      const balance = fine.amount - fine.paidAmount;
+      if (recordPaymentDto.amount > balance) {
+        throw new BadRequestException(
+          `Payment of ${recordPaymentDto.amount} exceeds the balance of ${balance}`,
+        );
+      }
+
+      const paidAmount = fine.paidAmount + recordPaymentDto.amount;
+      const status =
+        fine.status === FineStatus.OUTSTANDING && paidAmount >= fine.amount
+          ? FineStatus.PAID
+          : fine.status;
+      const payment: FinePayment = {
+        amount: recordPaymentDto.amount,
+        recordedBy: adminId,
+        recordedAt: new Date().toISOString(),
+        note: recordPaymentDto.note,
+      };
+
+      // The paidAmount condition rejects a payment recorded concurrently
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression:
+            'SET paidAmount = :paidAmount, payments = list_append(payments, :payment), #status = :status, updatedAt = :now',
+          ConditionExpression:
+            'paidAmount = :currentPaidAmount AND #status = :currentStatus',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':paidAmount': paidAmount,
+            ':payment': [payment],
+            ':status': status,
+            ':currentPaidAmount': fine.paidAmount,
+            ':currentStatus': fine.status,
+            ':now': payment.recordedAt,
+          },
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(
+        `Recorded payment of ${recordPaymentDto.amount} on fine ${id}`,
+      );
+      return response.Attributes as Fine;
+    } catch (error) {
+      this.logger.error(
+        `Failed to record payment on fine ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new HttpException(
+          `Fine with ID "${id}" changed while recording the payment, please retry`,
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw new FineUpdateException(error.message);
+    }
+  }
+
+  private outstandingBalance(fines: Fine[]): number {
+    return fines
+      .filter((fine) => UNPAID_FINE_STATUSES.includes(fine.status))
+      .reduce((total, fine) => total + fine.amount - fine.paidAmount, 0);
+  }
+
+  private async findById(id: string): Promise<Fine | undefined> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      return response.Item as Fine | undefined;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch fine ${id}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch fine');
+    }
+  }
+
+  // Creates the fine of a loan on first use; only accruing fines change
+  private fineUpdate(
+    loan: Loan,
+    status: FineStatus,
+    daysOverdue: number,
+    amount: number,
+  ) {
+    const now = new Date().toISOString();
+
+    return {
+      TableName: this.tableName,
+      Key: { id: loan.id },
+      UpdateExpression:
+        'SET loanId = :loanId, userId = :userId, bookId = :bookId, #status = :status, daysOverdue = :daysOverdue, #amount = :amount, paidAmount = if_not_exists(paidAmount, :zero), payments = if_not_exists(payments, :noPayments), createdAt = if_not_exists(createdAt, :now), updatedAt = :now',
+      ConditionExpression: 'attribute_not_exists(id) OR #status = :accruing',
+      ExpressionAttributeNames: {
+        '#status': 'status',
+        '#amount': 'amount',
+      },
+      ExpressionAttributeValues: {
+        ':loanId': loan.id,
+        ':userId': loan.borrowerId,
+        ':bookId': loan.bookId,
+        ':status': status,
+        ':accruing': FineStatus.ACCRUING,
+        ':daysOverdue': daysOverdue,
+        ':amount': amount,
+        ':zero': 0,
+        ':noPayments': [],
+        ':now': now,
+      },
+    };
+  }
+}
@@ -0,0 +1,33 @@
+// One fine per overdue loan, keyed by the loan ID. Amounts are in cents
+export interface Fine {
+  id: string;
+  loanId: string;
+  userId: string;
+  bookId: string;
+  status: FineStatus;
+  daysOverdue: number;
+  amount: number;
+  paidAmount: number;
+  payments: FinePayment[];
+  waivedBy?: string;
+  waivedAt?: string;
+  waiverReason?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FinePayment {
+  amount: number;
+  recordedBy: string;
+  recordedAt: string;
+  note?: string;
+}
+
+export enum FineStatus {
+  // Still growing daily while the book is out
+  ACCRUING = 'ACCRUING',
+  // Final amount fixed when the book was returned
+  OUTSTANDING = 'OUTSTANDING',
+  PAID = 'PAID',
+  WAIVED = 'WAIVED',
+}
@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HistoryController } from './history.controller';
+import { HistoryService } from './history.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('HistoryController', () => {
+  let controller: HistoryController;
+  let historyService: { findByUser: jest.Mock };
+
+  beforeEach(async () => {
+    historyService = {
+      findByUser: jest
+        .fn()
+        .mockResolvedValue({ message: 'No history found', events: [] }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HistoryController],
+      providers: [{ provide: HistoryService, useValue: historyService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<HistoryController>(HistoryController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the history of the current user', async () => {
+    const result = await controller.findMine({ user: { sub: '1' } }, {});
+    expect(historyService.findByUser).toHaveBeenCalledWith('1', {});
+    expect(result).toEqual({ message: 'No history found', events: [] });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { HistoryService } from './history.service';
+import { HistoryQueryDto } from './dto/history-query.dto';
+import { LoanEvent } from './interfaces/loan-event.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller()
+@UseGuards(CognitoAuthGuard)
+@ApiBearerAuth()
+export class HistoryController {
+  constructor(private readonly historyService: HistoryService) {}
+
+  @Get('users/me/history')
+  @ApiOperation({ summary: 'Get the borrowing history of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns borrow and return events, newest first',
+  })
+  async findMine(
+    @Request() req,
+    @Query(new ValidationPipe({ transform: true })) query: HistoryQueryDto,
+  ): Promise<{
+    message: string;
+    events: LoanEvent[];
+    lastEvaluatedKey?: string;
+  }> {
+    return this.historyService.findByUser(req.user.sub, query);
+  }
+
+  @Get('books/:id/history')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiOperation({ summary: 'Get the borrowing history of a book' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns borrow and return events, newest first',
+  })
+  async findByBook(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ValidationPipe({ transform: true })) query: HistoryQueryDto,
+  ): Promise<{
+    message: string;
+    events: LoanEvent[];
+    lastEvaluatedKey?: string;
+  }> {
+    return this.historyService.findByBook(id, query);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { HistoryService } from './history.service';
+import { HistoryController } from './history.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule],
+  controllers: [HistoryController],
+  providers: [HistoryService],
+  exports: [HistoryService],
+})
+export class HistoryModule {}
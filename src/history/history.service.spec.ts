@@ -0,0 +1,89 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HistoryService } from './history.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { LoanEventType } from './interfaces/loan-event.interface';
+import { LoanStatus } from '../loans/interfaces/loan.interface';
+
+describe('HistoryService', () => {
+  let service: HistoryService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HistoryService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+      ],
+    }).compile();
+
+    service = module.get<HistoryService>(HistoryService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should record the loan and book of an event', () => {
+    const event = service.buildEvent(
+      LoanEventType.BORROWED,
+      {
+        id: 'loan-1',
+        bookId: 'book-1',
+        borrowerId: 'user-1',
+        status: LoanStatus.ACTIVE,
+        startDate: '2030-01-01',
+        returnDate: '2030-01-15',
+        renewals: 0,
+        createdAt: '2030-01-01',
+        updatedAt: '2030-01-01',
+      },
+      { title: 'Dune' },
+    );
+
+    expect(event).toMatchObject({
+      type: LoanEventType.BORROWED,
+      loanId: 'loan-1',
+      userId: 'user-1',
+      bookTitle: 'Dune',
+    });
+    expect(service.eventTransactItem(event).Put.Item).toBe(event);
+  });
+
+  it('should filter by date range and page with an opaque key', async () => {
+    send.mockResolvedValueOnce({
+      Items: [],
+      LastEvaluatedKey: { id: 'event-1', userId: 'user-1' },
+    });
+
+    const result = await service.findByUser('user-1', {
+      from: '2030-01-01',
+      to: '2030-01-31',
+    });
+
+    const { input } = send.mock.calls[0][0];
+    expect(input.KeyConditionExpression).toContain('BETWEEN :from AND :to');
+    expect(input.ExpressionAttributeValues[':to']).toBe(
+      '2030-01-31T23:59:59.999Z',
+    );
+
+    send.mockResolvedValueOnce({ Items: [] });
+    await service.findByUser('user-1', {
+      lastEvaluatedKey: result.lastEvaluatedKey,
+    });
+    expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
+      id: 'event-1',
+      userId: 'user-1',
+    });
+  });
+
+  it('should refuse an inverted date range', async () => {
+    await expect(
+      service.findByBook('book-1', { from: '2030-02-01', to: '2030-01-01' }),
+    ).rejects.toThrow('"from" must be before "to"');
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { Loan } from '../loans/interfaces/loan.interface';
+import { LoanEvent, LoanEventType } from './interfaces/loan-event.interface';
+import { HistoryQueryDto } from './dto/history-query.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+@Injectable()
+export class HistoryService {
+  private readonly tableName = 'LoanHistory';
+  private readonly logger = new Logger(HistoryService.name);
+
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  buildEvent(
+    type: LoanEventType,
+    loan: Loan,
+    book: { title: string },
+  ): LoanEvent {
+    return {
+      id: uuidv4(),
+      type,
+      loanId: loan.id,
+      bookId: loan.bookId,
+      bookTitle: book.title,
+      userId: loan.borrowerId,
+      startDate: loan.startDate,
+      returnDate: loan.returnDate,
+      occurredAt: new Date().toISOString(),
+    };
+  }
+
+  // Written in the same transaction as the loan change it records
+  eventTransactItem(event: LoanEvent): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.tableName,
+        Item: event,
+        ConditionExpression: 'attribute_not_exists(id)',
+      },
+    };
+  }
+
+  async findByUser(
+    userId: string,
+    query: HistoryQueryDto,
+  ): Promise<{
+    message: string;
+    events: LoanEvent[];
+    lastEvaluatedKey?: string;
+  }> {
+    return this.queryHistory('UserHistoryIndex', 'userId', userId, query);
+  }
+
+  async findByBook(
+    bookId: string,
+    query: HistoryQueryDto,
+  ): Promise<{
+    message: string;
+    events: LoanEvent[];
+    lastEvaluatedKey?: string;
+  }> {
+    return this.queryHistory('BookHistoryIndex', 'bookId', bookId, query);
+  }
+
+  private async queryHistory(
+    indexName: string,
+    keyName: 'userId' | 'bookId',
+    keyValue: string,
+    query: HistoryQueryDto,
+  ): Promise<{
+    message: string;
+    events: LoanEvent[];
+    lastEvaluatedKey?: string;
+  }> {
+    const from = query.from ? new Date(query.from).toISOString() : undefined;
+    // A bare date includes the whole day
+    const to = query.to
+      ? /^\d{4}-\d{2}-\d{2}$/.test(query.to)
+        ? `${query.to}T23:59:59.999Z`
+        : new Date(query.to).toISOString()
+      : undefined;
+
+    if (from && to && from > to) {
+      throw new BadRequestException('"from" must be before "to"');
+    }
+
+    let keyConditionExpression = '#key = :key';
+    const expressionAttributeValues: Record<string, any> = {
+      ':key': keyValue,
+    };
+
+    if (from && to) {
+      keyConditionExpression += ' AND occurredAt BETWEEN :from AND :to';
+    } else if (from) {
+      keyConditionExpression += ' AND occurredAt >= :from';
+    } else if (to) {
+      keyConditionExpression += ' AND occurredAt <= :to';
+    }
+    if (from) {
+      expressionAttributeValues[':from'] = from;
+    }
+    if (to) {
+      expressionAttributeValues[':to'] = to;
+    }
+
+    const exclusiveStartKey = this.decodeKey(query.lastEvaluatedKey);
+
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          IndexName: indexName,
+          KeyConditionExpression: keyConditionExpression,
+          ExpressionAttributeNames: { '#key': keyName },
+          ExpressionAttributeValues: expressionAttributeValues,
+          ScanIndexForward: false,
+          Limit: query.limit ?? DEFAULT_PAGE_SIZE,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      const events = (response.Items || []) as LoanEvent[];
+
+      return {
+        message:
+          events.length > 0
+            ? 'History retrieved successfully'
+            : 'No history found',
+        events,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? Buffer.from(JSON.stringify(response.LastEvaluatedKey)).toString(
+              'base64url',
+            )
+          : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch history of ${keyName} ${keyValue}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch history');
+    }
+  }
+
+  private decodeKey(
+    lastEvaluatedKey?: string,
+  ): Record<string, any> | undefined {
+    if (!lastEvaluatedKey) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(
+        Buffer.from(lastEvaluatedKey, 'base64url').toString('utf8'),
+      );
+    } catch {
+      throw new BadRequestException('Invalid lastEvaluatedKey');
+    }
+  }
+}
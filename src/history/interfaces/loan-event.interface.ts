@@ -0,0 +1,18 @@
+export enum LoanEventType {
+  BORROWED = 'BORROWED',
+  RETURNED = 'RETURNED',
+}
+
+// Events are never updated; the book title is kept so the history still
+// reads well once a book is deleted
+export interface LoanEvent {
+  id: string;
+  type: LoanEventType;
+  loanId: string;
+  bookId: string;
+  bookTitle: string;
+  userId: string;
+  startDate: string;
+  returnDate: string;
+  occurredAt: string;
+}
@@ -0,0 +1,28 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class HoldNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Hold with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class HoldAlreadyExistsException extends HttpException {
+  constructor(bookId: string) {
+    super(
+      `You already have an active hold on book "${bookId}"`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class HoldCreateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to place hold: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
+
+export class HoldUpdateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to update hold: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,39 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { HoldsController } from './holds.controller';
+import { HoldsService } from './holds.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+
+describe('HoldsController', () => {
+  let controller: HoldsController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [HoldsController],
+      providers: [
+        {
+          provide: HoldsService,
+          useValue: {
+            findMine: jest.fn().mockResolvedValue({
+              message: 'No holds found',
+              holds: [],
+            }),
+          },
+        },
+      ],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<HoldsController>(HoldsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the holds of the user', async () => {
+    const result = await controller.findMine({ user: { sub: '1' } });
+    expect(result).toEqual({ message: 'No holds found', holds: [] });
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { HoldsService } from './holds.service';
+import { Hold } from './interfaces/hold.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller()
+@UseGuards(CognitoAuthGuard)
+@ApiBearerAuth()
+export class HoldsController {
+  constructor(private readonly holdsService: HoldsService) {}
+
+  @Post('books/:id/holds')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Join the waiting list of an unavailable book' })
+  @ApiResponse({ status: 201, description: 'Hold placed successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - The book has copies available',
+  })
+  @ApiResponse({ status: 409, description: 'Conflict - Hold already exists' })
+  async place(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Request() req,
+  ): Promise<Hold> {
+    return this.holdsService.place(bookId, req.user.sub);
+  }
+
+  @Delete('books/:id/holds/:holdId')
+  @ApiOperation({ summary: 'Cancel a hold' })
+  @ApiResponse({ status: 200, description: 'Hold cancelled successfully' })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  async cancel(
+    @Param('id', ParseUUIDPipe) bookId: string,
+    @Param('holdId', ParseUUIDPipe) holdId: string,
+    @Request() req,
+  ): Promise<{ message: string }> {
+    return this.holdsService.cancel(
+      bookId,
+      holdId,
+      req.user.sub,
+      req.user.groups.includes(UserRole.ADMIN),
+    );
+  }
+
+  @Get('holds/me')
+  @ApiOperation({ summary: 'Get the holds of the authenticated user' })
+  @ApiResponse({ status: 200, description: 'Returns the holds of the user' })
+  async findMine(@Request() req): Promise<{ message: string; holds: Hold[] }> {
+    return this.holdsService.findMine(req.user.sub);
+  }
+}
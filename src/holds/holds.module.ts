@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { HoldsService } from './holds.service';
+import { HoldsController } from './holds.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { LoansModule } from '../loans/loans.module';
+import { SearchModule } from '../search/search.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, LoansModule, SearchModule],
+  controllers: [HoldsController],
+  providers: [HoldsService],
+  exports: [HoldsService],
+})
+export class HoldsModule {}
@@ -0,0 +1,99 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { HoldsService } from './holds.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { LoansService } from '../loans/loans.service';
+import { SearchService } from '../search/search.service';
+import { HoldStatus } from './interfaces/hold.interface';
+
+describe('HoldsService', () => {
+  let service: HoldsService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        HoldsService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        {
+          provide: LoansService,
+          useValue: { findActiveLoan: jest.fn().mockResolvedValue(undefined) },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue('2') },
+        },
+        { provide: SearchService, useValue: { refreshBook: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<HoldsService>(HoldsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should refuse a hold while copies are available', async () => {
+    send.mockResolvedValueOnce({ Item: { id: 'book-1', quantity: 1 } });
+
+    await expect(service.place('book-1', 'user-1')).rejects.toThrow(
+      'borrow it instead',
+    );
+  });
+
+  it('should set a released copy aside for the first waiting hold', async () => {
+    send.mockResolvedValueOnce({
+      Items: [{ id: 'hold-1', bookId: 'book-1', status: HoldStatus.WAITING }],
+    });
+
+    const item = await service.releaseCopyTransactItem('book-1');
+
+    expect(item.Update.TableName).toBe('Holds');
+    expect(item.Update.Key).toEqual({ id: 'hold-1' });
+    expect(item.Update.ExpressionAttributeValues[':ready']).toBe(
+      HoldStatus.READY,
+    );
+  });
+
+  it('should return a released copy to the shelf when nobody waits', async () => {
+    send.mockResolvedValueOnce({ Items: [] });
+
+    const item = await service.releaseCopyTransactItem('book-1');
+
+    expect(item.Update.TableName).toBe('Books');
+    expect(item.Update.Key).toEqual({ id: 'book-1' });
+  });
+
+  it('should expire uncollected holds from every page of the index', async () => {
+    const readyHold = (id: string) => ({
+      id,
+      bookId: 'book-1',
+      userId: 'user-1',
+      status: HoldStatus.READY,
+    });
+    send
+      .mockResolvedValueOnce({
+        Items: [readyHold('hold-1')],
+        LastEvaluatedKey: { id: 'hold-1' },
+      })
+      .mockResolvedValueOnce({ Items: [readyHold('hold-2')] })
+      .mockResolvedValue({ Items: [] });
+
+    await service.expireUncollectedHolds();
+
+    expect(send.mock.calls[1][0].input.ExclusiveStartKey).toEqual({
+      id: 'hold-1',
+    });
+    const expired = send.mock.calls
+      .map(([command]) => command.input.TransactItems)
+      .filter(Boolean)
+      .map(([statusItem]) => statusItem.Update.Key.id);
+    expect(expired).toEqual(['hold-1', 'hold-2']);
+  });
+});
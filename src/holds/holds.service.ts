@@ -0,0 +1,465 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { LoansService } from '../loans/loans.service';
+import { SearchService } from '../search/search.service';
+import { Book } from '../books/interfaces/book.interface';
+import { Hold, HoldStatus } from './interfaces/hold.interface';
+import {
+  HoldAlreadyExistsException,
+  HoldCreateException,
+  HoldNotFoundException,
+  HoldUpdateException,
+} from './exceptions/hold.exceptions';
+
+const ACTIVE_HOLD_STATUSES = [HoldStatus.WAITING, HoldStatus.READY];
+
+@Injectable()
+export class HoldsService {
+  private readonly tableName = 'Holds';
+  private readonly booksTableName = 'Books';
+  private readonly logger = new Logger(HoldsService.name);
+  private readonly pickupWindowDays: number;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly loansService: LoansService,
+    private readonly configService: ConfigService,
+    private readonly searchService: SearchService,
+  ) {
+    this.pickupWindowDays = Number(
+      this.configService.get<string>('HOLD_PICKUP_DAYS') ?? 3,
+    );
+  }
+
+  async place(bookId: string, userId: string): Promise<Hold> {
+    try {
+      const book = await this.findBook(bookId);
+
+      if (book.quantity > 0) {
+        throw new BadRequestException(
+          `Book with ID "${bookId}" has available copies, borrow it instead`,
+        );
+      }
+
+      const loan = await this.loansService.findActiveLoan(bookId, userId);
+      if (loan) {
+        throw new BadRequestException('You have already borrowed this book');
+      }
+
+      const userHolds = await this.findByUser(userId);
+      const existingHold = userHolds.find(
+        (hold) =>
+          hold.bookId === bookId && ACTIVE_HOLD_STATUSES.includes(hold.status),
+      );
+      if (existingHold) {
+        throw new HoldAlreadyExistsException(bookId);
+      }
+
+      const hold: Hold = {
+        id: uuidv4(),
+        bookId,
+        userId,
+        status: HoldStatus.WAITING,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: hold,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+
+      this.logger.log(`User ${userId} placed hold ${hold.id} on ${bookId}`);
+      return hold;
+    } catch (error) {
+      this.logger.error(`Failed to place hold: ${error.message}`, error.stack);
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new HoldCreateException(error.message);
+    }
+  }
+
+  async cancel(
+    bookId: string,
+    holdId: string,
+    userId: string,
+    isAdmin = false,
+  ): Promise<{ message: string }> {
+    try {
+      const hold = await this.findOne(holdId);
+
+      if (hold.bookId !== bookId || (!isAdmin && hold.userId !== userId)) {
+        throw new HoldNotFoundException(holdId);
+      }
+
+      if (!ACTIVE_HOLD_STATUSES.includes(hold.status)) {
+        throw new BadRequestException(
+          `Hold with ID "${holdId}" is already ${hold.status.toLowerCase()}`,
+        );
+      }
+
+      const transactItems = [
+        this.statusTransactItem(hold, HoldStatus.CANCELLED),
+      ];
+
+      // A copy set aside for this reader moves on to the next one
+      if (hold.status === HoldStatus.READY) {
+        transactItems.push(await this.releaseCopyTransactItem(bookId));
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({ TransactItems: transactItems }),
+      );
+      if (hold.status === HoldStatus.READY) {
+        await this.searchService.refreshBook(bookId);
+      }
+
+      this.logger.log(`Cancelled hold ${holdId} on book ${bookId}`);
+      return { message: `Hold with ID "${holdId}" has been cancelled` };
+    } catch (error) {
+      this.logger.error(
+        `Failed to cancel hold ${holdId}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (this.dynamoDBService.failedTransactionConditions(error).length > 0) {
+        throw new HttpException(
+          'The hold queue changed while cancelling, please retry',
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw new HoldUpdateException(error.message);
+    }
+  }
+
+  async findOne(id: string): Promise<Hold> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new HoldNotFoundException(id);
+      }
+
+      return response.Item as Hold;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch hold ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HoldNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch hold');
+    }
+  }
+
+  async findByUser(userId: string): Promise<Hold[]> {
+    try {
+      const holds: Hold[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'UserIndex',
+            KeyConditionExpression: 'userId = :userId',
+            ExpressionAttributeValues: {
+              ':userId': userId,
+            },
+            ScanIndexForward: false,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        holds.push(...((response.Items || []) as Hold[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return holds;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch holds of user ${userId}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch holds');
+    }
+  }
+
+  async findMine(userId: string): Promise<{ message: string; holds: Hold[] }> {
+    const holds = await this.findByUser(userId);
+
+    for (const hold of holds) {
+      if (hold.status === HoldStatus.WAITING) {
+        const queue = await this.findWaitingQueue(hold.bookId);
+        hold.queuePosition =
+          queue.findIndex((queued) => queued.id === hold.id) + 1;
+      }
+    }
+
+    return {
+      message:
+        holds.length > 0 ? `Found ${holds.length} hold(s)` : 'No holds found',
+      holds,
+    };
+  }
+
+  async findReadyHold(
+    bookId: string,
+    userId: string,
+  ): Promise<Hold | undefined> {
+    const holds = await this.findByUser(userId);
+    return holds.find(
+      (hold) => hold.bookId === bookId && hold.status === HoldStatus.READY,
+    );
+  }
+
+  // Waiting holds of a book, oldest first
+  async findWaitingQueue(bookId: string): Promise<Hold[]> {
+    try {
+      const holds: Hold[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'BookQueueIndex',
+            KeyConditionExpression: 'bookId = :bookId',
+            FilterExpression: '#status = :waiting',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':bookId': bookId,
+              ':waiting': HoldStatus.WAITING,
+            },
+            ScanIndexForward: true,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        holds.push(...((response.Items || []) as Hold[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return holds;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch hold queue of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch hold queue');
+    }
+  }
+
+  // A freed copy is set aside for the next reader in line for the pickup
+  // window, and only goes back to general availability when nobody waits
+  async releaseCopyTransactItem(bookId: string): Promise<TransactWriteItem> {
+    const readyHoldTransactItem = await this.readyNextHoldTransactItem(bookId);
+    if (readyHoldTransactItem) {
+      return readyHoldTransactItem;
+    }
+
+    return {
+      Update: {
+        TableName: this.booksTableName,
+        Key: { id: bookId },
+        UpdateExpression:
+          'SET #quantity = #quantity + :one, updatedAt = :updatedAt',
+        ConditionExpression: 'attribute_exists(id)',
+        ExpressionAttributeNames: {
+          '#quantity': 'quantity',
+        },
+        ExpressionAttributeValues: {
+          ':one': 1,
+          ':updatedAt': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  // Marks the first waiting hold ready, or returns undefined when nobody
+  // waits. Used on its own when the caller updates the book itself
+  async readyNextHoldTransactItem(
+    bookId: string,
+  ): Promise<TransactWriteItem | undefined> {
+    const [nextHold] = await this.findWaitingQueue(bookId);
+    if (!nextHold) {
+      return undefined;
+    }
+
+    const readyAt = new Date();
+    const expiresAt = new Date(
+      readyAt.getTime() + this.pickupWindowDays * 24 * 60 * 60 * 1000,
+    );
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id: nextHold.id },
+        UpdateExpression:
+          'SET #status = :ready, readyAt = :readyAt, expiresAt = :expiresAt, updatedAt = :readyAt',
+        ConditionExpression: '#status = :waiting',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':ready': HoldStatus.READY,
+          ':waiting': HoldStatus.WAITING,
+          ':readyAt': readyAt.toISOString(),
+          ':expiresAt': expiresAt.toISOString(),
+        },
+      },
+    };
+  }
+
+  // Consumes a ready hold when its reader borrows the copy set aside
+  fulfilTransactItem(hold: Hold): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id: hold.id },
+        UpdateExpression: 'SET #status = :fulfilled, updatedAt = :now',
+        ConditionExpression:
+          '#status = :ready AND userId = :userId AND expiresAt > :now',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':fulfilled': HoldStatus.FULFILLED,
+          ':ready': HoldStatus.READY,
+          ':userId': hold.userId,
+          ':now': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async expireUncollectedHolds(): Promise<void> {
+    try {
+      // Every page is read before any hold is expired, as expiring one takes
+      // it out of the index being paged through
+      const expiredHolds: Hold[] = [];
+      const now = new Date().toISOString();
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            IndexName: 'StatusExpiresIndex',
+            KeyConditionExpression: '#status = :ready AND expiresAt < :now',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':ready': HoldStatus.READY,
+              ':now': now,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        expiredHolds.push(...((response.Items || []) as Hold[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      // Holds are processed one at a time so each copy is re-allocated
+      // against an up-to-date queue
+      for (const hold of expiredHolds) {
+        try {
+          await this.dynamoDBService.documentClient.send(
+            new TransactWriteCommand({
+              TransactItems: [
+                this.statusTransactItem(hold, HoldStatus.EXPIRED),
+                await this.releaseCopyTransactItem(hold.bookId),
+              ],
+            }),
+          );
+          await this.searchService.refreshBook(hold.bookId);
+          this.logger.log(`Hold ${hold.id} on ${hold.bookId} expired`);
+        } catch (error) {
+          this.logger.error(
+            `Failed to expire hold ${hold.id}: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to expire uncollected holds: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private statusTransactItem(
+    hold: Hold,
+    status: HoldStatus,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id: hold.id },
+        UpdateExpression: 'SET #status = :status, updatedAt = :now',
+        ConditionExpression: '#status = :current',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':status': status,
+          ':current': hold.status,
+          ':now': new Date().toISOString(),
+        },
+      },
+    };
+  }
+
+  private async findBook(bookId: string): Promise<Book> {
+    const response = await this.dynamoDBService.documentClient.send(
+      new GetCommand({
+        TableName: this.booksTableName,
+        Key: { id: bookId },
+      }),
+    );
+
+    if (!response.Item) {
+      throw new NotFoundException(`Book with ID "${bookId}" not found`);
+    }
+
+    return response.Item as Book;
+  }
+}
@@ -0,0 +1,21 @@
+export interface Hold {
+  id: string;
+  bookId: string;
+  userId: string;
+  status: HoldStatus;
+  createdAt: string;
+  updatedAt: string;
+  // Set once a returned copy has been set aside for the reader
+  readyAt?: string;
+  expiresAt?: string;
+  // 1-based place in the queue, only computed for waiting holds
+  queuePosition?: number;
+}
+
+export enum HoldStatus {
+  WAITING = 'WAITING',
+  READY = 'READY',
+  FULFILLED = 'FULFILLED',
+  CANCELLED = 'CANCELLED',
+  EXPIRED = 'EXPIRED',
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { ImagesService } from './images.service';
+import { S3Module } from '../s3/s3.module';
+
+@Module({
+  imports: [S3Module],
+  providers: [ImagesService],
+  exports: [ImagesService],
+})
+export class ImagesModule {}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as sharp from 'sharp';
+import { ImagesService } from './images.service';
+import { S3Service } from '../s3/s3.service';
+
+describe('ImagesService', () => {
+  let service: ImagesService;
+  let uploadBuffer: jest.Mock;
+  let deleteFile: jest.Mock;
+
+  // A 1000x500 JPEG carrying EXIF, as phone cameras produce
+  const photo = () =>
+    sharp({
+      create: {
+        width: 1000,
+        height: 500,
+        channels: 3,
+        background: '#336699',
+      },
+    })
+      .withExif({ IFD0: { Make: 'Camera', Copyright: 'Someone' } })
+      .jpeg()
+      .toBuffer();
+
+  beforeEach(async () => {
+    uploadBuffer = jest
+      .fn()
+      .mockImplementation(
+        async (key) => `https://bucket.s3.amazonaws.com/${key}`,
+      );
+    deleteFile = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImagesService,
+        { provide: S3Service, useValue: { uploadBuffer, deleteFile } },
+      ],
+    }).compile();
+
+    service = module.get<ImagesService>(ImagesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should store a thumbnail, medium size and original', async () => {
+    const renditions = await service.storeRenditions(
+      await photo(),
+      'books/covers',
+    );
+
+    expect(renditions.thumbnail).toMatch(/^https:.*\/thumbnail\.webp$/);
+    expect(renditions.medium).toMatch(/\/medium\.webp$/);
+    expect(renditions.original).toMatch(/\/original\.jpg$/);
+
+    const stored = Object.fromEntries(
+      uploadBuffer.mock.calls.map(([key, body, contentType]) => [
+        key.split('/').pop(),
+        { body, contentType },
+      ]),
+    );
+    expect(stored['thumbnail.webp'].contentType).toBe('image/webp');
+    expect(stored['original.jpg'].contentType).toBe('image/jpeg');
+
+    const thumbnail = await sharp(stored['thumbnail.webp'].body).metadata();
+    expect([thumbnail.format, thumbnail.width]).toEqual(['webp', 200]);
+    const original = await sharp(stored['original.jpg'].body).metadata();
+    expect([original.width, original.exif]).toEqual([1000, undefined]);
+  });
+
+  it('should refuse a file that is not an image', async () => {
+    await expect(
+      service.storeRenditions(Buffer.from('<html></html>'), 'books/covers'),
+    ).rejects.toThrow('not a valid image');
+    expect(uploadBuffer).not.toHaveBeenCalled();
+  });
+
+  it('should delete every rendition', async () => {
+    await service.removeRenditions({
+      thumbnail: 'https://bucket.s3.amazonaws.com/a/thumbnail.webp',
+      medium: 'https://bucket.s3.amazonaws.com/a/medium.webp',
+      original: 'https://bucket.s3.amazonaws.com/a/original.jpg',
+    });
+
+    expect(deleteFile).toHaveBeenCalledTimes(3);
+  });
+});
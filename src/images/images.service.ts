@@ -0,0 +1,91 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import * as sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import { S3Service } from '../s3/s3.service';
+import { ImageRenditions } from './interfaces/image-renditions.interface';
+
+// Widths in pixels; smaller pictures are not enlarged. The original keeps its
+// size and is re-encoded as JPEG so any client can show it
+const RENDITIONS: {
+  name: keyof ImageRenditions;
+  width?: number;
+  format: 'webp' | 'jpeg';
+}[] = [
+  { name: 'thumbnail', width: 200, format: 'webp' },
+  { name: 'medium', width: 600, format: 'webp' },
+  { name: 'original', format: 'jpeg' },
+];
+
+@Injectable()
+export class ImagesService {
+  private readonly logger = new Logger(ImagesService.name);
+
+  constructor(private readonly s3Service: S3Service) {}
+
+  // Decodes the picture, which refuses anything that is not really an image,
+  // and stores every rendition of it under one folder. The orientation is
+  // applied to the pixels first since the EXIF carrying it, and any location
+  // with it, is dropped on re-encoding
+  async storeRenditions(
+    image: Buffer,
+    folder: string,
+  ): Promise<ImageRenditions> {
+    let rendered: Buffer[];
+    try {
+      rendered = await Promise.all(
+        RENDITIONS.map((rendition) => this.render(image, rendition)),
+      );
+    } catch (error) {
+      this.logger.warn(`Refused an undecodable image: ${error.message}`);
+      throw new BadRequestException('The uploaded file is not a valid image');
+    }
+
+    const prefix = `${folder}/${uuidv4()}`;
+    const renditions = {} as ImageRenditions;
+    await Promise.all(
+      RENDITIONS.map(async ({ name, format }, i) => {
+        renditions[name] = await this.s3Service.uploadBuffer(
+          `${prefix}/${name}.${format === 'jpeg' ? 'jpg' : format}`,
+          rendered[i],
+          `image/${format}`,
+        );
+      }),
+    );
+    return renditions;
+  }
+
+  async removeRenditions(renditions: ImageRenditions): Promise<void> {
+    try {
+      await Promise.all(
+        Object.values(renditions).map((url) => this.s3Service.deleteFile(url)),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete image renditions: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to delete image');
+    }
+  }
+
+  private render(
+    image: Buffer,
+    { width, format }: (typeof RENDITIONS)[number],
+  ): Promise<Buffer> {
+    const pipeline = sharp(image).rotate();
+    if (width) {
+      pipeline.resize({ width, withoutEnlargement: true });
+    }
+    return format === 'webp'
+      ? pipeline.webp({ quality: 80 }).toBuffer()
+      : pipeline
+          .flatten({ background: '#ffffff' })
+          .jpeg({ quality: 90 })
+          .toBuffer();
+  }
+}
@@ -0,0 +1,7 @@
+// One uploaded picture re-encoded at the sizes list and detail views need,
+// every rendition stripped of EXIF
+export interface ImageRenditions {
+  thumbnail: string;
+  medium: string;
+  original: string;
+}
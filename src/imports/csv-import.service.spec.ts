@@ -0,0 +1,204 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { CsvImportService } from './csv-import.service';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CategoriesService } from '../categories/categories.service';
+import { AuthorNotFoundException } from '../authors/exceptions/author.exceptions';
+import { CategoryNotFoundByNameException } from '../categories/exceptions/category.exceptions';
+import { CatalogueEntity, ImportOutcome } from './interfaces/import.interface';
+
+// Keeps the books module graph (S3, circulation services) out of these tests
+jest.mock('../books/books.service', () => ({
+  BooksService: class BooksService {},
+}));
+
+const AUTHOR_ID = '8a1c1f0e-6b7a-4c1e-9a53-2d8f0f6c9a01';
+const CATEGORY_ID = '1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b';
+
+describe('CsvImportService', () => {
+  let service: CsvImportService;
+  let booksService: { findByIsbn: jest.Mock; create: jest.Mock };
+  let authorsService: {
+    findOne: jest.Mock;
+    findByName: jest.Mock;
+    create: jest.Mock;
+  };
+  let categoriesService: {
+    findOne: jest.Mock;
+    findByName: jest.Mock;
+    create: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    booksService = {
+      findByIsbn: jest.fn().mockRejectedValue(new NotFoundException()),
+      create: jest.fn().mockResolvedValue({ id: 'new-book' }),
+    };
+    authorsService = {
+      findOne: jest.fn().mockResolvedValue({ author: { id: AUTHOR_ID } }),
+      findByName: jest.fn().mockImplementation(async (name: string) => {
+        if (name === 'Homer') {
+          return { authors: [{ id: AUTHOR_ID, name }] };
+        }
+        throw new AuthorNotFoundException(name);
+      }),
+      create: jest.fn().mockResolvedValue({ id: 'new-author' }),
+    };
+    categoriesService = {
+      findOne: jest.fn().mockResolvedValue({ id: CATEGORY_ID }),
+      findByName: jest.fn().mockImplementation(async (name: string) => {
+        if (name === 'Poetry') {
+          return { categories: [{ id: CATEGORY_ID, name }] };
+        }
+        throw new CategoryNotFoundByNameException(name);
+      }),
+      create: jest.fn().mockResolvedValue({ id: 'new-category' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsvImportService,
+        { provide: BooksService, useValue: booksService },
+        { provide: AuthorsService, useValue: authorsService },
+        { provide: CategoriesService, useValue: categoriesService },
+      ],
+    }).compile();
+
+    service = module.get<CsvImportService>(CsvImportService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should create books with references given by name or id', async () => {
+    const report = await service.importCsv(
+      CatalogueEntity.BOOKS,
+      Buffer.from(
+        'title,isbn,author,categoryId,publishedYear\n' +
+          `The Odyssey,0-14-044913-2,Homer,${CATEGORY_ID},1997\n` +
+          `The Iliad,9780140275360,${AUTHOR_ID},${CATEGORY_ID},1998\n`,
+      ),
+    );
+
+    expect(report).toMatchObject({ total: 2, created: 2, failed: 0 });
+    expect(report.rows[0]).toEqual({
+      row: 2,
+      outcome: ImportOutcome.CREATED,
+      id: 'new-book',
+    });
+    expect(booksService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: 'The Odyssey',
+        authorId: AUTHOR_ID,
+        categoryId: CATEGORY_ID,
+        publishedYear: 1997,
+      }),
+    );
+    expect(authorsService.findOne).toHaveBeenCalledWith(AUTHOR_ID);
+    // The category id is looked up once for both rows
+    expect(categoriesService.findOne).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report row errors without writing in a dry run', async () => {
+    booksService.findByIsbn.mockResolvedValueOnce({ id: 'existing-book' });
+
+    const report = await service.importCsv(
+      CatalogueEntity.BOOKS,
+      Buffer.from(
+        'title,isbn,author,category,publishedYear\n' +
+          'The Odyssey,9780140449136,Homer,Poetry,1997\n' +
+          'Aeneid,9780140449327,Virgil,Poetry,1990\n' +
+          ',9780140449327,Homer,Poetry,soon\n' +
+          'The Iliad,9780140275360,Homer,Poetry,1998\n' +
+          'The Iliad,978-0-14-027536-0,Homer,Poetry,1998\n' +
+          'Too,few\n',
+      ),
+      true,
+    );
+
+    expect(report.rows.map((row) => row.outcome)).toEqual([
+      ImportOutcome.FAILED,
+      ImportOutcome.FAILED,
+      ImportOutcome.FAILED,
+      ImportOutcome.VALID,
+      ImportOutcome.FAILED,
+      ImportOutcome.FAILED,
+    ]);
+    expect(report.rows[0].errors).toEqual([
+      'A book with ISBN 9780140449136 already exists',
+    ]);
+    expect(report.rows[1].errors).toEqual(['Unknown author "Virgil"']);
+    expect(report.rows[2].errors).toEqual(
+      expect.arrayContaining([
+        'title should not be empty',
+        'publishedYear must be an integer number',
+      ]),
+    );
+    expect(report.rows[4].errors).toEqual([
+      'ISBN 9780140275360 is already used by row 5',
+    ]);
+    expect(report.rows[5].errors).toEqual(['Expected 5 fields but found 2']);
+    expect(report).toMatchObject({ dryRun: true, valid: 1, failed: 5 });
+    expect(booksService.create).not.toHaveBeenCalled();
+  });
+
+  it('should import authors with their genres and social media', async () => {
+    const report = await service.importCsv(
+      CatalogueEntity.AUTHORS,
+      Buffer.from(
+        'name,biography,birthDate,nationality,email,genres,website\n' +
+          'Virgil,Roman poet of the Augustan period,70 BC,Roman,virgil@example.com,Epic; Pastoral,https://example.com\n' +
+          'Homer,Ancient Greek epic poet,c. 800 BC,Greek,homer@example.com,Epic,\n',
+      ),
+    );
+
+    expect(report.rows[0].outcome).toBe(ImportOutcome.CREATED);
+    expect(authorsService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Virgil',
+        genres: ['Epic', 'Pastoral'],
+        socialMedia: {
+          facebook: undefined,
+          twitter: undefined,
+          website: 'https://example.com',
+        },
+      }),
+    );
+    expect(report.rows[1].errors).toEqual([
+      'An author named "Homer" already exists',
+    ]);
+  });
+
+  it('should import categories', async () => {
+    const report = await service.importCsv(
+      CatalogueEntity.CATEGORIES,
+      Buffer.from(
+        'name,description\n' +
+          'Drama,"Plays, tragedies and comedies"\n' +
+          'Drama,Duplicate of the row above\n',
+      ),
+    );
+
+    expect(report.rows.map((row) => row.outcome)).toEqual([
+      ImportOutcome.CREATED,
+      ImportOutcome.FAILED,
+    ]);
+    expect(report.rows[1].errors).toEqual([
+      'Category "Drama" is already used by row 2',
+    ]);
+    expect(categoriesService.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Drama',
+        description: 'Plays, tragedies and comedies',
+      }),
+    );
+  });
+
+  it('should refuse a file that is not CSV', async () => {
+    await expect(
+      service.importCsv(CatalogueEntity.BOOKS, Buffer.from('title\n"Dune')),
+    ).rejects.toThrow('Could not read the file as CSV');
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { isUUID, validate, ValidationError } from 'class-validator';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CreateBookDto } from '../books/dto/create-book.dto';
+import { CreateAuthorDto } from '../authors/dto/create-author.dto';
+import { CreateCategoryDto } from '../categories/dto/create-category.dto';
+import { normalizeIsbn } from '../books/utils/isbn.util';
+import {
+  CatalogueEntity,
+  CsvImportReport,
+  CsvImportRowResult,
+  ImportOutcome,
+} from './interfaces/import.interface';
+import { parseCsv } from './utils/csv.util';
+
+type CsvRow = Record<string, string | undefined>;
+
+// A row that passed validation, or the reasons it did not
+interface PreparedRow {
+  errors: string[];
+  create?: () => Promise<{ id: string }>;
+}
+
+// State shared by the rows of one file
+interface ImportContext {
+  dryRun: boolean;
+  // Names or ISBNs already used by an earlier row, with that row
+  seen: Map<string, number>;
+  // Author and category references already resolved, null when unknown
+  authorIds: Map<string, string | null>;
+  categoryIds: Map<string, string | null>;
+}
+
+@Injectable()
+export class CsvImportService {
+  private readonly logger = new Logger(CsvImportService.name);
+
+  constructor(
+    private readonly booksService: BooksService,
+    private readonly authorsService: AuthorsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  // Columns are matched by their header name. Columns the import does not
+  // know, such as the ids and counters of an export, are ignored, so an
+  // exported file can be loaded into another catalogue
+  async importCsv(
+    entity: CatalogueEntity,
+    file: Buffer,
+    dryRun = false,
+  ): Promise<CsvImportReport> {
+    let lines: string[][];
+    try {
+      lines = parseCsv(file.toString('utf8'));
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read the file as CSV: ${error.message}`,
+      );
+    }
+    if (lines.length === 0) {
+      throw new BadRequestException('The file has no header row');
+    }
+
+    const [header, ...cells] = lines;
+    const columns = header.map((column) => column.trim());
+    const context: ImportContext = {
+      dryRun,
+      seen: new Map(),
+      authorIds: new Map(),
+      categoryIds: new Map(),
+    };
+
+    const rows: CsvImportRowResult[] = [];
+    for (const [position, values] of cells.entries()) {
+      const row = position + 2;
+      if (values.length !== columns.length) {
+        rows.push({
+          row,
+          outcome: ImportOutcome.FAILED,
+          errors: [
+            `Expected ${columns.length} fields but found ${values.length}`,
+          ],
+        });
+        continue;
+      }
+
+      const csvRow: CsvRow = Object.fromEntries(
+        columns.map((column, i) => [column, values[i].trim() || undefined]),
+      );
+      rows.push({
+        row,
+        ...(await this.importRow(entity, csvRow, row, context)),
+      });
+    }
+
+    const count = (outcome: ImportOutcome) =>
+      rows.filter((row) => row.outcome === outcome).length;
+    const report: CsvImportReport = {
+      entity,
+      dryRun,
+      total: rows.length,
+      created: count(ImportOutcome.CREATED),
+      valid: count(ImportOutcome.VALID),
+      failed: count(ImportOutcome.FAILED),
+      rows,
+    };
+
+    this.logger.log(
+      `${dryRun ? 'Checked' : 'Imported'} ${report.total} ${entity} rows: ${report.created} created, ${report.valid} valid, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  private async importRow(
+    entity: CatalogueEntity,
+    csvRow: CsvRow,
+    row: number,
+    context: ImportContext,
+  ): Promise<Omit<CsvImportRowResult, 'row'>> {
+    try {
+      let prepared: PreparedRow;
+      switch (entity) {
+        case CatalogueEntity.BOOKS:
+          prepared = await this.prepareBook(csvRow, row, context);
+          break;
+        case CatalogueEntity.AUTHORS:
+          prepared = await this.prepareAuthor(csvRow, row, context);
+          break;
+        case CatalogueEntity.CATEGORIES:
+          prepared = await this.prepareCategory(csvRow, row, context);
+          break;
+      }
+
+      if (prepared.errors.length > 0) {
+        return { outcome: ImportOutcome.FAILED, errors: prepared.errors };
+      }
+      if (context.dryRun) {
+        return { outcome: ImportOutcome.VALID };
+      }
+
+      const { id } = await prepared.create();
+      return { outcome: ImportOutcome.CREATED, id };
+    } catch (error) {
+      this.logger.error(
+        `Failed to import ${entity} row ${row}: ${error.message}`,
+        error.stack,
+      );
+      return { outcome: ImportOutcome.FAILED, errors: [error.message] };
+    }
+  }
+
+  private async prepareBook(
+    csvRow: CsvRow,
+    row: number,
+    context: ImportContext,
+  ): Promise<PreparedRow> {
+    const errors: string[] = [];
+    const authorReference = csvRow.author ?? csvRow.authorId;
+    const categoryReference = csvRow.category ?? csvRow.categoryId;
+    const authorId = await this.resolveReference(
+      authorReference,
+      context.authorIds,
+      (reference) => this.findAuthorId(reference),
+      'author',
+      errors,
+    );
+    const categoryId = await this.resolveReference(
+      categoryReference,
+      context.categoryIds,
+      (reference) => this.findCategoryId(reference),
+      'category',
+      errors,
+    );
+
+    const createBookDto = plainToInstance(CreateBookDto, {
+      title: csvRow.title,
+      isbn: csvRow.isbn,
+      authorId,
+      categoryId,
+      tags: this.splitList(csvRow.tags),
+      description: csvRow.description,
+      publishedYear: csvRow.publishedYear,
+      seriesId: csvRow.seriesId,
+      seriesVolume: csvRow.seriesVolume,
+      workId: csvRow.workId,
+      language: csvRow.language,
+      format: csvRow.format,
+      publisher: csvRow.publisher,
+      pageCount: csvRow.pageCount,
+    });
+    // An unknown reference is reported once, not again as an invalid id
+    const unresolved: string[] = [];
+    if (authorReference && !authorId) {
+      unresolved.push('authorId');
+    }
+    if (categoryReference && !categoryId) {
+      unresolved.push('categoryId');
+    }
+    errors.push(...(await this.validationErrors(createBookDto, unresolved)));
+
+    const isbn = createBookDto.isbn && normalizeIsbn(createBookDto.isbn);
+    if (errors.length === 0 && isbn) {
+      const duplicate = this.claimKey(`isbn:${isbn}`, row, context);
+      if (duplicate) {
+        errors.push(`ISBN ${isbn} is already used by row ${duplicate}`);
+      } else if (await this.exists(() => this.booksService.findByIsbn(isbn))) {
+        errors.push(`A book with ISBN ${isbn} already exists`);
+      }
+    }
+
+    return {
+      errors,
+      create: () => this.booksService.create(createBookDto),
+    };
+  }
+
+  private async prepareAuthor(
+    csvRow: CsvRow,
+    row: number,
+    context: ImportContext,
+  ): Promise<PreparedRow> {
+    const socialMedia = {
+      facebook: csvRow.facebook,
+      twitter: csvRow.twitter,
+      website: csvRow.website,
+    };
+    const createAuthorDto = plainToInstance(CreateAuthorDto, {
+      name: csvRow.name,
+      biography: csvRow.biography,
+      birthDate: csvRow.birthDate,
+      nationality: csvRow.nationality,
+      email: csvRow.email,
+      genres: this.splitList(csvRow.genres),
+      socialMedia: Object.values(socialMedia).some(Boolean)
+        ? socialMedia
+        : undefined,
+    });
+
+    const errors = await this.validationErrors(createAuthorDto);
+    if (errors.length === 0) {
+      const { name } = createAuthorDto;
+      const duplicate = this.claimKey(`author:${name}`, row, context);
+      if (duplicate) {
+        errors.push(`Author "${name}" is already used by row ${duplicate}`);
+      } else if (
+        await this.exists(() => this.authorsService.findByName(name, 1))
+      ) {
+        errors.push(`An author named "${name}" already exists`);
+      }
+    }
+
+    return {
+      errors,
+      create: () => this.authorsService.create(createAuthorDto),
+    };
+  }
+
+  private async prepareCategory(
+    csvRow: CsvRow,
+    row: number,
+    context: ImportContext,
+  ): Promise<PreparedRow> {
+    const createCategoryDto = plainToInstance(CreateCategoryDto, {
+      name: csvRow.name,
+      description: csvRow.description,
+      parentId: csvRow.parentId,
+    });
+
+    const errors = await this.validationErrors(createCategoryDto);
+    if (errors.length === 0) {
+      const { name } = createCategoryDto;
+      const duplicate = this.claimKey(`category:${name}`, row, context);
+      if (duplicate) {
+        errors.push(`Category "${name}" is already used by row ${duplicate}`);
+      } else if (
+        await this.exists(() => this.categoriesService.findByName(name, 1))
+      ) {
+        errors.push(`A category named "${name}" already exists`);
+      }
+    }
+
+    return {
+      errors,
+      create: () => this.categoriesService.create(createCategoryDto),
+    };
+  }
+
+  // References hold either an id or an exact name. A missing reference is
+  // left to the DTO validation
+  private async resolveReference(
+    reference: string | undefined,
+    cache: Map<string, string | null>,
+    find: (reference: string) => Promise<string | undefined>,
+    label: string,
+    errors: string[],
+  ): Promise<string | undefined> {
+    if (!reference) {
+      return undefined;
+    }
+
+    if (!cache.has(reference)) {
+      cache.set(reference, (await find(reference)) ?? null);
+    }
+    const id = cache.get(reference);
+    if (!id) {
+      errors.push(`Unknown ${label} "${reference}"`);
+    }
+    return id ?? undefined;
+  }
+
+  private async findAuthorId(reference: string): Promise<string | undefined> {
+    if (isUUID(reference)) {
+      return (await this.exists(() => this.authorsService.findOne(reference)))
+        ? reference
+        : undefined;
+    }
+
+    try {
+      const { authors } = await this.authorsService.findByName(reference, 1);
+      return authors[0]?.id;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private async findCategoryId(reference: string): Promise<string | undefined> {
+    if (isUUID(reference)) {
+      return (await this.exists(() =>
+        this.categoriesService.findOne(reference),
+      ))
+        ? reference
+        : undefined;
+    }
+
+    try {
+      const { categories } = await this.categoriesService.findByName(
+        reference,
+        1,
+      );
+      return categories[0]?.id;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  // Lists such as genres and tags are separated by semicolons in one cell
+  private splitList(value?: string): string[] | undefined {
+    return value
+      ?.split(';')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+
+  // Returns the row that already claimed the key, or claims it
+  private claimKey(
+    key: string,
+    row: number,
+    context: ImportContext,
+  ): number | undefined {
+    const claimedBy = context.seen.get(key);
+    if (claimedBy === undefined) {
+      context.seen.set(key, row);
+    }
+    return claimedBy;
+  }
+
+  private async exists(find: () => Promise<unknown>): Promise<boolean> {
+    try {
+      await find();
+      return true;
+    } catch (error) {
+      if (this.isNotFound(error)) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private isNotFound(error: any): boolean {
+    return (
+      error instanceof HttpException &&
+      error.getStatus() === HttpStatus.NOT_FOUND
+    );
+  }
+
+  private async validationErrors(
+    dto: object,
+    skippedProperties: string[] = [],
+  ): Promise<string[]> {
+    const flatten = (errors: ValidationError[]): string[] =>
+      errors.flatMap((error) => [
+        ...Object.values(error.constraints ?? {}),
+        ...flatten(error.children ?? []),
+      ]);
+    return flatten(
+      (await validate(dto)).filter(
+        (error) => !skippedProperties.includes(error.property),
+      ),
+    );
+  }
+}
@@ -0,0 +1,16 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+import { ImportFormat } from '../interfaces/import.interface';
+
+export class ImportRecordsQueryDto {
+  // Detected from the file contents when omitted
+  @IsEnum(ImportFormat)
+  @IsOptional()
+  format?: ImportFormat;
+
+  // When false, records whose ISBN is already catalogued are skipped
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  updateExisting?: boolean;
+}
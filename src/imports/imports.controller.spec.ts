@@ -0,0 +1,87 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+import { CsvImportService } from './csv-import.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { CatalogueEntity, ImportFormat } from './interfaces/import.interface';
+
+// Keeps the books module graph (S3, circulation services) out of these tests
+jest.mock('../books/books.service', () => ({
+  BooksService: class BooksService {},
+}));
+
+describe('ImportsController', () => {
+  let controller: ImportsController;
+  let importsService: { importRecords: jest.Mock };
+  let csvImportService: { importCsv: jest.Mock };
+
+  beforeEach(async () => {
+    importsService = {
+      importRecords: jest.fn().mockResolvedValue({ total: 0, records: [] }),
+    };
+    csvImportService = {
+      importCsv: jest.fn().mockResolvedValue({ total: 0, rows: [] }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ImportsController],
+      providers: [
+        { provide: ImportsService, useValue: importsService },
+        { provide: CsvImportService, useValue: csvImportService },
+      ],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ImportsController>(ImportsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass the uploaded file and options to the service', async () => {
+    const buffer = Buffer.from('<collection/>');
+
+    await controller.importRecords({ buffer } as Express.Multer.File, {
+      format: ImportFormat.MARCXML,
+      updateExisting: false,
+    });
+
+    expect(importsService.importRecords).toHaveBeenCalledWith(
+      buffer,
+      ImportFormat.MARCXML,
+      false,
+    );
+  });
+
+  it('should require a file', async () => {
+    await expect(controller.importRecords(undefined, {})).rejects.toThrow(
+      'A file is required',
+    );
+  });
+
+  it('should import a CSV file of authors as a dry run', async () => {
+    const buffer = Buffer.from('name\nHomer\n');
+
+    await controller.importAuthors({ buffer } as Express.Multer.File, {
+      dryRun: true,
+    });
+
+    expect(csvImportService.importCsv).toHaveBeenCalledWith(
+      CatalogueEntity.AUTHORS,
+      buffer,
+      true,
+    );
+  });
+
+  it('should require a CSV file', async () => {
+    await expect(controller.importBooks(undefined, {})).rejects.toThrow(
+      'A file is required',
+    );
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  BadRequestException,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+  ValidationPipe,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ImportsService } from './imports.service';
+import { CsvImportService } from './csv-import.service';
+import { ImportRecordsQueryDto } from './dto/import-records-query.dto';
+import { ImportCsvQueryDto } from './dto/import-csv-query.dto';
+import {
+  CatalogueEntity,
+  CsvImportReport,
+  ImportReport,
+} from './interfaces/import.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+// Every import takes a single file in the "file" field
+const FILE_INTERCEPTOR = FileInterceptor('file', {
+  limits: {
+    fileSize: 20 * 1024 * 1024,
+  },
+});
+
+@Controller('admin/import')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class ImportsController {
+  constructor(
+    private readonly importsService: ImportsService,
+    private readonly csvImportService: CsvImportService,
+  ) {}
+
+  @Post('records')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FILE_INTERCEPTOR)
+  @ApiOperation({
+    summary: 'Import catalogue records from a MARC21, MARCXML or ONIX 3.0 file',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the outcome of each record: created, updated, skipped or failed',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, or a file that could not be read',
+  })
+  async importRecords(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(new ValidationPipe({ transform: true }))
+    query: ImportRecordsQueryDto,
+  ): Promise<ImportReport> {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+    return this.importsService.importRecords(
+      file.buffer,
+      query.format,
+      query.updateExisting,
+    );
+  }
+
+  @Post('books')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FILE_INTERCEPTOR)
+  @ApiOperation({
+    summary:
+      'Import books from CSV, with author and category given by name or id',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the outcome and validation errors of each row',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, or a file that is not CSV',
+  })
+  async importBooks(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(new ValidationPipe({ transform: true })) query: ImportCsvQueryDto,
+  ): Promise<CsvImportReport> {
+    return this.importCsv(CatalogueEntity.BOOKS, file, query);
+  }
+
+  @Post('authors')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FILE_INTERCEPTOR)
+  @ApiOperation({ summary: 'Import authors from CSV' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the outcome and validation errors of each row',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, or a file that is not CSV',
+  })
+  async importAuthors(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(new ValidationPipe({ transform: true })) query: ImportCsvQueryDto,
+  ): Promise<CsvImportReport> {
+    return this.importCsv(CatalogueEntity.AUTHORS, file, query);
+  }
+
+  @Post('categories')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FILE_INTERCEPTOR)
+  @ApiOperation({ summary: 'Import categories from CSV' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the outcome and validation errors of each row',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, or a file that is not CSV',
+  })
+  async importCategories(
+    @UploadedFile() file: Express.Multer.File,
+    @Query(new ValidationPipe({ transform: true })) query: ImportCsvQueryDto,
+  ): Promise<CsvImportReport> {
+    return this.importCsv(CatalogueEntity.CATEGORIES, file, query);
+  }
+
+  private async importCsv(
+    entity: CatalogueEntity,
+    file: Express.Multer.File | undefined,
+    query: ImportCsvQueryDto,
+  ): Promise<CsvImportReport> {
+    if (!file) {
+      throw new BadRequestException('A file is required');
+    }
+    return this.csvImportService.importCsv(
+      entity,
+      file.buffer,
+      query.dryRun ?? false,
+    );
+  }
+}
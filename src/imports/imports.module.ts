@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ImportsService } from './imports.service';
+import { CsvImportService } from './csv-import.service';
+import { ImportsController } from './imports.controller';
+import { AuthModule } from '../auth/auth.module';
+import { BooksModule } from '../books/books.module';
+import { AuthorsModule } from '../authors/authors.module';
+import { CategoriesModule } from '../categories/categories.module';
+
+@Module({
+  imports: [AuthModule, BooksModule, AuthorsModule, CategoriesModule],
+  controllers: [ImportsController],
+  providers: [ImportsService, CsvImportService],
+})
+export class ImportsModule {}
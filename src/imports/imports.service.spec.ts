@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ImportsService } from './imports.service';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CategoriesService } from '../categories/categories.service';
+import { ImportFormat, ImportOutcome } from './interfaces/import.interface';
+
+// Keeps the books module graph (S3, circulation services) out of these tests
+jest.mock('../books/books.service', () => ({
+  BooksService: class BooksService {},
+}));
+
+const onixProduct = (isbn: string, title: string, extra = '') => `
+  <Product>
+    <ProductIdentifier><ProductIDType>15</ProductIDType><IDValue>${isbn}</IDValue></ProductIdentifier>
+    <DescriptiveDetail>
+      <TitleDetail><TitleType>01</TitleType><TitleElement><TitleElementLevel>01</TitleElementLevel><TitleText>${title}</TitleText></TitleElement></TitleDetail>
+      <Contributor><ContributorRole>A01</ContributorRole><PersonName>Homer</PersonName></Contributor>
+      ${extra}
+    </DescriptiveDetail>
+    <PublishingDetail><PublishingDate><PublishingDateRole>01</PublishingDateRole><Date>2017</Date></PublishingDate></PublishingDetail>
+  </Product>`;
+
+const subject =
+  '<Subject><SubjectHeadingText>Poetry</SubjectHeadingText></Subject>';
+
+describe('ImportsService', () => {
+  let service: ImportsService;
+  let booksService: {
+    findByIsbn: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+  };
+
+  beforeEach(async () => {
+    booksService = {
+      findByIsbn: jest.fn(),
+      create: jest.fn().mockResolvedValue({ id: 'new-book' }),
+      update: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImportsService,
+        { provide: BooksService, useValue: booksService },
+        {
+          provide: AuthorsService,
+          useValue: {
+            findOrCreateByName: jest.fn().mockResolvedValue({
+              id: '8a1c1f0e-6b7a-4c1e-9a53-2d8f0f6c9a01',
+            }),
+          },
+        },
+        {
+          provide: CategoriesService,
+          useValue: {
+            findOrCreateByName: jest.fn().mockResolvedValue({
+              id: '1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+            }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImportsService>(ImportsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should report each record of a file', async () => {
+    booksService.findByIsbn
+      .mockRejectedValueOnce(new NotFoundException())
+      .mockResolvedValueOnce({
+        id: 'existing-book',
+        title: 'Old title',
+        publishedYear: 2017,
+        authorId: '8a1c1f0e-6b7a-4c1e-9a53-2d8f0f6c9a01',
+        categoryId: '1f2e3d4c-5b6a-4978-8a9b-0c1d2e3f4a5b',
+      });
+
+    const report = await service.importRecords(
+      Buffer.from(`<ONIXMessage>
+        ${onixProduct('9780140449136', 'The Odyssey', subject)}
+        ${onixProduct('9780140268867', 'The Iliad', subject)}
+        ${onixProduct('9780140449143', 'No subject')}
+        ${onixProduct('9780140449137', 'Bad check digit', subject)}
+      </ONIXMessage>`),
+    );
+
+    expect(report.format).toBe(ImportFormat.ONIX);
+    expect(report.records.map((record) => record.outcome)).toEqual([
+      ImportOutcome.CREATED,
+      ImportOutcome.UPDATED,
+      ImportOutcome.FAILED,
+      ImportOutcome.FAILED,
+    ]);
+    expect(report.records[2].reason).toBe('Missing categoryName');
+    expect(report.records[3].reason).toContain('not a valid ISBN');
+    expect(booksService.update).toHaveBeenCalledWith(
+      'existing-book',
+      { title: 'The Iliad' },
+      {},
+    );
+    expect(report).toMatchObject({ created: 1, updated: 1, failed: 2 });
+  });
+
+  it('should skip catalogued books when updates are off', async () => {
+    booksService.findByIsbn.mockResolvedValueOnce({ id: 'existing-book' });
+
+    const report = await service.importRecords(
+      Buffer.from(
+        `<ONIXMessage>${onixProduct('9780140449136', 'The Odyssey', subject)}</ONIXMessage>`,
+      ),
+      undefined,
+      false,
+    );
+
+    expect(report.records[0]).toMatchObject({
+      outcome: ImportOutcome.SKIPPED,
+      bookId: 'existing-book',
+    });
+    expect(booksService.update).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a file in an unknown format', async () => {
+    await expect(
+      service.importRecords(Buffer.from('title,isbn')),
+    ).rejects.toThrow('Could not detect the file format');
+  });
+});
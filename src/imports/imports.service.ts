@@ -0,0 +1,254 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CategoriesService } from '../categories/categories.service';
+import { CreateBookDto } from '../books/dto/create-book.dto';
+import { UpdateBookDto } from '../books/dto/update-book.dto';
+import { Book } from '../books/interfaces/book.interface';
+import { normalizeIsbn } from '../books/utils/isbn.util';
+import {
+  BibliographicRecord,
+  ImportFormat,
+  ImportOutcome,
+  ImportRecordResult,
+  ImportReport,
+  ParsedRecord,
+} from './interfaces/import.interface';
+import { parseMarc21 } from './parsers/marc21.parser';
+import { parseMarcXml } from './parsers/marcxml.parser';
+import { parseOnix } from './parsers/onix.parser';
+
+const REQUIRED_FIELDS: (keyof BibliographicRecord)[] = [
+  'title',
+  'isbn',
+  'authorName',
+  'categoryName',
+  'publishedYear',
+];
+
+// Fields an import may overwrite on a book that is already catalogued
+const UPDATABLE_FIELDS = [
+  'title',
+  'description',
+  'publishedYear',
+  'authorId',
+  'categoryId',
+] as const;
+
+@Injectable()
+export class ImportsService {
+  private readonly logger = new Logger(ImportsService.name);
+
+  constructor(
+    private readonly booksService: BooksService,
+    private readonly authorsService: AuthorsService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  // Records are imported one at a time, so one bad record is reported
+  // without stopping the rest of the file
+  async importRecords(
+    file: Buffer,
+    format?: ImportFormat,
+    updateExisting = true,
+  ): Promise<ImportReport> {
+    const detectedFormat = format ?? this.detectFormat(file);
+
+    let parsedRecords: ParsedRecord[];
+    try {
+      parsedRecords = this.parse(file, detectedFormat);
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read the file as ${detectedFormat}: ${error.message}`,
+      );
+    }
+
+    const records: ImportRecordResult[] = [];
+    for (const [position, parsed] of parsedRecords.entries()) {
+      records.push({
+        index: position + 1,
+        ...(await this.importRecord(parsed, updateExisting)),
+      });
+    }
+
+    const count = (outcome: ImportOutcome) =>
+      records.filter((record) => record.outcome === outcome).length;
+    const report: ImportReport = {
+      format: detectedFormat,
+      total: records.length,
+      created: count(ImportOutcome.CREATED),
+      updated: count(ImportOutcome.UPDATED),
+      skipped: count(ImportOutcome.SKIPPED),
+      failed: count(ImportOutcome.FAILED),
+      records,
+    };
+
+    this.logger.log(
+      `Imported ${report.total} ${detectedFormat} records: ${report.created} created, ${report.updated} updated, ${report.skipped} skipped, ${report.failed} failed`,
+    );
+    return report;
+  }
+
+  private detectFormat(file: Buffer): ImportFormat {
+    const head = file.subarray(0, 2048).toString('utf8').trimStart();
+
+    if (head.startsWith('<')) {
+      if (/<(\w+:)?ONIXMessage\b/.test(head)) {
+        return ImportFormat.ONIX;
+      }
+      if (/<(\w+:)?(collection|record)\b/.test(head)) {
+        return ImportFormat.MARCXML;
+      }
+    } else if (/^\d{5}/.test(head)) {
+      return ImportFormat.MARC21;
+    }
+
+    throw new BadRequestException(
+      'Could not detect the file format, pass it as the format parameter',
+    );
+  }
+
+  private parse(file: Buffer, format: ImportFormat): ParsedRecord[] {
+    switch (format) {
+      case ImportFormat.MARC21:
+        return parseMarc21(file);
+      case ImportFormat.MARCXML:
+        return parseMarcXml(file);
+      case ImportFormat.ONIX:
+        return parseOnix(file);
+    }
+  }
+
+  private async importRecord(
+    parsed: ParsedRecord,
+    updateExisting: boolean,
+  ): Promise<Omit<ImportRecordResult, 'index'>> {
+    const { record, error } = parsed;
+    if (!record) {
+      return { outcome: ImportOutcome.FAILED, reason: error };
+    }
+
+    const isbn = record.isbn && normalizeIsbn(record.isbn);
+    const summary = { isbn: isbn || record.isbn, title: record.title };
+
+    if (parsed.deleted) {
+      return {
+        ...summary,
+        outcome: ImportOutcome.SKIPPED,
+        reason: 'Deletion notices are not applied, remove the book by hand',
+      };
+    }
+
+    const missing = REQUIRED_FIELDS.filter((field) => !record[field]);
+    if (missing.length > 0) {
+      return {
+        ...summary,
+        outcome: ImportOutcome.FAILED,
+        reason: `Missing ${missing.join(', ')}`,
+      };
+    }
+    if (!isbn) {
+      return {
+        ...summary,
+        outcome: ImportOutcome.FAILED,
+        reason: `"${record.isbn}" is not a valid ISBN`,
+      };
+    }
+
+    try {
+      const existingBook = await this.findBookByIsbn(isbn);
+      if (existingBook && !updateExisting) {
+        return {
+          ...summary,
+          bookId: existingBook.id,
+          outcome: ImportOutcome.SKIPPED,
+          reason: 'Already catalogued',
+        };
+      }
+
+      const author = await this.authorsService.findOrCreateByName(
+        record.authorName,
+      );
+      const category = await this.categoriesService.findOrCreateByName(
+        record.categoryName,
+      );
+      const createBookDto = plainToInstance(CreateBookDto, {
+        title: record.title,
+        isbn,
+        authorId: author.id,
+        categoryId: category.id,
+        description: record.description,
+        publishedYear: record.publishedYear,
+      });
+
+      const errors = await validate(createBookDto);
+      if (errors.length > 0) {
+        return {
+          ...summary,
+          outcome: ImportOutcome.FAILED,
+          reason: errors
+            .flatMap((validationError) =>
+              Object.values(validationError.constraints ?? {}),
+            )
+            .join('; '),
+        };
+      }
+
+      if (!existingBook) {
+        const book = await this.booksService.create(createBookDto);
+        return { ...summary, bookId: book.id, outcome: ImportOutcome.CREATED };
+      }
+
+      const changes: UpdateBookDto = Object.fromEntries(
+        UPDATABLE_FIELDS.filter(
+          (field) =>
+            createBookDto[field] !== undefined &&
+            createBookDto[field] !== existingBook[field],
+        ).map((field) => [field, createBookDto[field]]),
+      );
+      if (Object.keys(changes).length === 0) {
+        return {
+          ...summary,
+          bookId: existingBook.id,
+          outcome: ImportOutcome.SKIPPED,
+          reason: 'No changes',
+        };
+      }
+
+      await this.booksService.update(existingBook.id, changes, {});
+      return {
+        ...summary,
+        bookId: existingBook.id,
+        outcome: ImportOutcome.UPDATED,
+      };
+    } catch (importError) {
+      this.logger.error(
+        `Failed to import record ${isbn}: ${importError.message}`,
+        importError.stack,
+      );
+      return {
+        ...summary,
+        outcome: ImportOutcome.FAILED,
+        reason: importError.message,
+      };
+    }
+  }
+
+  private async findBookByIsbn(isbn: string): Promise<Book | undefined> {
+    try {
+      return await this.booksService.findByIsbn(isbn);
+    } catch (error) {
+      if (error instanceof NotFoundException) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+export enum ImportFormat {
+  MARC21 = 'marc21',
+  MARCXML = 'marcxml',
+  ONIX = 'onix',
+}
+
+// The catalogue fields a record can carry, before authors and categories
+// are resolved to ids
+export interface BibliographicRecord {
+  title?: string;
+  isbn?: string;
+  authorName?: string;
+  categoryName?: string;
+  description?: string;
+  publishedYear?: number;
+}
+
+// A record the parser could read, or the reason it could not
+export interface ParsedRecord {
+  record?: BibliographicRecord;
+  error?: string;
+  // Set on records that ask for removal, such as ONIX deletion notices
+  deleted?: boolean;
+}
+
+export enum ImportOutcome {
+  CREATED = 'CREATED',
+  UPDATED = 'UPDATED',
+  SKIPPED = 'SKIPPED',
+  FAILED = 'FAILED',
+  // Passed every check of a dry run, nothing was written
+  VALID = 'VALID',
+}
+
+export interface ImportRecordResult {
+  // 1-based position of the record in the file
+  index: number;
+  outcome: ImportOutcome;
+  isbn?: string;
+  title?: string;
+  bookId?: string;
+  reason?: string;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  records: ImportRecordResult[];
+}
+
+// The tables a CSV file can be imported into and exported from
+export enum CatalogueEntity {
+  BOOKS = 'books',
+  AUTHORS = 'authors',
+  CATEGORIES = 'categories',
+}
+
+export interface CsvImportRowResult {
+  // 1-based position of the row in the file, the header being row 1
+  row: number;
+  outcome: ImportOutcome;
+  id?: string;
+  errors?: string[];
+}
+
+export interface CsvImportReport {
+  entity: CatalogueEntity;
+  dryRun: boolean;
+  total: number;
+  created: number;
+  valid: number;
+  failed: number;
+  rows: CsvImportRowResult[];
+}
@@ -0,0 +1,97 @@
+import { BibliographicRecord } from '../interfaces/import.interface';
+
+// A MARC field as read from ISO 2709 or MARCXML. Control fields (tags below
+// 010) carry a value, data fields indicators and subfields
+export interface MarcField {
+  tag: string;
+  value?: string;
+  indicators?: string;
+  subfields?: { code: string; value: string }[];
+}
+
+// ISBD punctuation MARC cataloguers leave at the end of a subfield
+function trimIsbd(value: string): string {
+  return value.replace(/[\s/:;,=]+$/, '').replace(/(?<!\b\p{Lu})\.$/u, '');
+}
+
+function subfield(field: MarcField, code: string): string | undefined {
+  const value = field.subfields?.find((sub) => sub.code === code)?.value;
+  return value?.trim() || undefined;
+}
+
+function firstField(
+  fields: MarcField[],
+  tag: string,
+  filter: (field: MarcField) => boolean = () => true,
+): MarcField | undefined {
+  return fields.find((field) => field.tag === tag && filter(field));
+}
+
+// "Tolkien, J. R. R., 1892-1973." is stored as "J. R. R. Tolkien"
+function personalName(field: MarcField): string | undefined {
+  const name = subfield(field, 'a');
+  if (!name) {
+    return undefined;
+  }
+
+  const trimmed = trimIsbd(name);
+  const surnameFirst = field.indicators?.[0] === '1';
+  const [surname, forenames, ...rest] = trimmed.split(/,\s*/);
+  if (surnameFirst && forenames && rest.length === 0) {
+    return `${forenames} ${surname}`;
+  }
+  return trimmed;
+}
+
+function year(value?: string): number | undefined {
+  const match = value?.match(/\b(1[5-9]\d\d|20\d\d)\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function mapMarcRecord(fields: MarcField[]): BibliographicRecord {
+  // 020 $a may carry a qualifier such as "9780140449136 (pbk.)"
+  const isbn = fields
+    .filter((field) => field.tag === '020')
+    .map((field) => subfield(field, 'a')?.match(/^[\dXx-]+/)?.[0])
+    .find(Boolean);
+
+  const titleField = firstField(fields, '245');
+  const mainTitle = titleField && subfield(titleField, 'a');
+  const subtitle = titleField && subfield(titleField, 'b');
+  const title = mainTitle
+    ? subtitle
+      ? `${trimIsbd(mainTitle)}: ${trimIsbd(subtitle)}`
+      : trimIsbd(mainTitle)
+    : undefined;
+
+  const personField =
+    firstField(fields, '100') ??
+    firstField(fields, '700', (field) => !subfield(field, 't'));
+  const corporateField = firstField(fields, '110');
+  const authorName = personField
+    ? personalName(personField)
+    : corporateField && trimIsbd(subfield(corporateField, 'a') ?? '');
+
+  const subjectField = firstField(fields, '650') ?? firstField(fields, '655');
+  const categoryName = subjectField && subfield(subjectField, 'a');
+
+  const summaryField = firstField(fields, '520');
+
+  // Publication statement first, the fixed-length 008 dates as a fallback
+  const publicationField =
+    firstField(fields, '264', (field) => field.indicators?.[1] === '1') ??
+    firstField(fields, '260');
+  const fixedField = firstField(fields, '008');
+  const publishedYear =
+    year(publicationField && subfield(publicationField, 'c')) ??
+    year(fixedField?.value?.slice(7, 11));
+
+  return {
+    title,
+    isbn,
+    authorName: authorName || undefined,
+    categoryName: categoryName ? trimIsbd(categoryName) : undefined,
+    description: summaryField && subfield(summaryField, 'a'),
+    publishedYear,
+  };
+}
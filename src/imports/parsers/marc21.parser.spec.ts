@@ -0,0 +1,76 @@
+import { parseMarc21 } from './marc21.parser';
+
+// Builds an ISO 2709 record from [tag, data] pairs, data fields written as
+// indicators followed by "$a value" subfields
+function marcRecord(fields: [string, string][]): Buffer {
+  const encoded = fields.map(([tag, data]) => ({
+    tag,
+    bytes: Buffer.from(
+      (tag < '010' ? data : data.replace(/\$(\w)/g, '\x1f$1')) + '\x1e',
+      'utf8',
+    ),
+  }));
+
+  let offset = 0;
+  const directory = encoded
+    .map(({ tag, bytes }) => {
+      const entry =
+        tag +
+        String(bytes.length).padStart(4, '0') +
+        String(offset).padStart(5, '0');
+      offset += bytes.length;
+      return entry;
+    })
+    .join('');
+
+  const baseAddress = 24 + directory.length + 1;
+  const length = baseAddress + offset + 1;
+  const leader = `${String(length).padStart(5, '0')}nam a22${String(baseAddress).padStart(5, '0')} i 4500`;
+
+  return Buffer.concat([
+    Buffer.from(leader + directory + '\x1e', 'latin1'),
+    ...encoded.map(({ bytes }) => bytes),
+    Buffer.from('\x1d'),
+  ]);
+}
+
+describe('parseMarc21', () => {
+  it('should map the bibliographic fields of a record', () => {
+    const file = marcRecord([
+      ['001', 'ocm123'],
+      ['008', '850101s1965    nyu           000 1 eng d'],
+      ['020', '  $a0-14-044913-2 (pbk.)'],
+      ['100', '1 $aHerbert, Frank,$d1920-1986.'],
+      ['245', '10$aDune /$cFrank Herbert.'],
+      ['520', '  $aA desert planet épopée.'],
+      ['650', ' 0$aScience fiction.'],
+    ]);
+
+    const [result] = parseMarc21(file);
+
+    expect(result.record).toEqual({
+      title: 'Dune',
+      isbn: '0-14-044913-2',
+      authorName: 'Frank Herbert',
+      categoryName: 'Science fiction',
+      description: 'A desert planet épopée.',
+      publishedYear: 1965,
+    });
+  });
+
+  it('should read every record of a file and report broken ones', () => {
+    const file = Buffer.concat([
+      marcRecord([['245', '00$aFirst']]),
+      Buffer.from('00042nam a22999999 i 4500\x1e\x1d'),
+      marcRecord([['245', '00$aSecond :$bthe sequel']]),
+      Buffer.from('\n'),
+    ]);
+
+    const results = parseMarc21(file);
+
+    expect(results).toHaveLength(3);
+    expect(results[0].record.title).toBe('First');
+    expect(results[1].error).toContain('base address');
+    expect(results[2].record.title).toBe('Second: the sequel');
+  });
+});
@@ -0,0 +1,110 @@
+import { ParsedRecord } from '../interfaces/import.interface';
+import { MarcField, mapMarcRecord } from './marc.mapping';
+
+const RECORD_TERMINATOR = 0x1d;
+const FIELD_TERMINATOR = 0x1e;
+const SUBFIELD_DELIMITER = 0x1f;
+const LEADER_LENGTH = 24;
+const DIRECTORY_ENTRY_LENGTH = 12;
+
+// Reads one ISO 2709 record. Lengths and offsets in the leader and
+// directory count bytes, so the record is sliced as a buffer and each field
+// decoded on its own. Records are expected in UTF-8 (leader/09 = "a");
+// MARC-8 is not supported
+function parseRecord(record: Buffer): MarcField[] {
+  if (record.length < LEADER_LENGTH) {
+    throw new Error('Record is shorter than its leader');
+  }
+
+  const leader = record.toString('latin1', 0, LEADER_LENGTH);
+  const baseAddress = Number(leader.slice(12, 17));
+  if (!/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress > record.length) {
+    throw new Error(`Invalid base address in leader "${leader}"`);
+  }
+
+  const fields: MarcField[] = [];
+  for (
+    let entry = LEADER_LENGTH;
+    entry + DIRECTORY_ENTRY_LENGTH <= baseAddress &&
+    record[entry] !== FIELD_TERMINATOR;
+    entry += DIRECTORY_ENTRY_LENGTH
+  ) {
+    const directoryEntry = record.toString(
+      'latin1',
+      entry,
+      entry + DIRECTORY_ENTRY_LENGTH,
+    );
+    if (!/^\w{3}\d{9}$/.test(directoryEntry)) {
+      throw new Error(`Invalid directory entry "${directoryEntry}"`);
+    }
+
+    const tag = directoryEntry.slice(0, 3);
+    const length = Number(directoryEntry.slice(3, 7));
+    const start = baseAddress + Number(directoryEntry.slice(7, 12));
+    if (start + length > record.length) {
+      throw new Error(`Field ${tag} runs past the end of the record`);
+    }
+
+    // Drop the field terminator that ends every field
+    let data = record.subarray(start, start + length);
+    if (data[data.length - 1] === FIELD_TERMINATOR) {
+      data = data.subarray(0, data.length - 1);
+    }
+
+    if (tag < '010') {
+      fields.push({ tag, value: data.toString('utf8') });
+      continue;
+    }
+
+    const subfields: { code: string; value: string }[] = [];
+    let subfieldStart = data.indexOf(SUBFIELD_DELIMITER);
+    while (subfieldStart >= 0) {
+      const next = data.indexOf(SUBFIELD_DELIMITER, subfieldStart + 1);
+      const subfieldData = data.subarray(
+        subfieldStart + 1,
+        next >= 0 ? next : data.length,
+      );
+      subfields.push({
+        code: subfieldData.toString('utf8', 0, 1),
+        value: subfieldData.toString('utf8', 1),
+      });
+      subfieldStart = next;
+    }
+
+    fields.push({
+      tag,
+      indicators: data.toString('utf8', 0, 2),
+      subfields,
+    });
+  }
+
+  return fields;
+}
+
+export function parseMarc21(file: Buffer): ParsedRecord[] {
+  const results: ParsedRecord[] = [];
+
+  let start = 0;
+  while (start < file.length) {
+    let end = file.indexOf(RECORD_TERMINATOR, start);
+    if (end < 0) {
+      end = file.length;
+    }
+
+    const record = file.subarray(start, end);
+    start = end + 1;
+
+    // Files often end with a newline after the last record
+    if (record.toString('latin1').trim() === '') {
+      continue;
+    }
+
+    try {
+      results.push({ record: mapMarcRecord(parseRecord(record)) });
+    } catch (error) {
+      results.push({ error: error.message });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,47 @@
+import { parseMarcXml } from './marcxml.parser';
+
+describe('parseMarcXml', () => {
+  it('should map the records of a collection', () => {
+    const file = Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<marc:collection xmlns:marc="http://www.loc.gov/MARC21/slim">
+  <marc:record>
+    <marc:leader>00000nam a2200000 i 4500</marc:leader>
+    <marc:controlfield tag="008">850101s1965    nyu           000 1 eng d</marc:controlfield>
+    <marc:datafield tag="020" ind1=" " ind2=" ">
+      <marc:subfield code="a">9780140449136</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="100" ind1="1" ind2=" ">
+      <marc:subfield code="a">Tolkien, J. R. R.,</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="245" ind1="1" ind2="4">
+      <marc:subfield code="a">The hobbit, or, There and back again /</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="264" ind1=" " ind2="1">
+      <marc:subfield code="c">[1937]</marc:subfield>
+    </marc:datafield>
+    <marc:datafield tag="650" ind1=" " ind2="0">
+      <marc:subfield code="a">Fantasy fiction.</marc:subfield>
+    </marc:datafield>
+  </marc:record>
+</marc:collection>`);
+
+    const [result] = parseMarcXml(file);
+
+    expect(result.record).toEqual({
+      title: 'The hobbit, or, There and back again',
+      isbn: '9780140449136',
+      authorName: 'J. R. R. Tolkien',
+      categoryName: 'Fantasy fiction',
+      description: undefined,
+      publishedYear: 1937,
+    });
+  });
+
+  it('should read a file holding a single record', () => {
+    const file = Buffer.from(`<record xmlns="http://www.loc.gov/MARC21/slim">
+  <datafield tag="245" ind1="0" ind2="0"><subfield code="a">Solo</subfield></datafield>
+</record>`);
+
+    expect(parseMarcXml(file)[0].record.title).toBe('Solo');
+  });
+});
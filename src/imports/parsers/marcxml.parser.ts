@@ -0,0 +1,54 @@
+import { XMLParser } from 'fast-xml-parser';
+import { ParsedRecord } from '../interfaces/import.interface';
+import { MarcField, mapMarcRecord } from './marc.mapping';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  removeNSPrefix: true,
+  // ISBNs and control numbers must stay strings
+  parseTagValue: false,
+  parseAttributeValue: false,
+  isArray: (name) =>
+    ['record', 'controlfield', 'datafield', 'subfield'].includes(name),
+});
+
+function text(node: any): string {
+  return typeof node === 'object'
+    ? String(node?.['#text'] ?? '')
+    : String(node);
+}
+
+export function parseMarcXml(file: Buffer): ParsedRecord[] {
+  const document = parser.parse(file.toString('utf8'));
+  // A file holds either a <collection> of records or a single <record>
+  const records: any[] = document.collection?.record ?? document.record ?? [];
+
+  return records.map((record) => {
+    try {
+      const fields: MarcField[] = [
+        ...(record.controlfield ?? []).map((field) => ({
+          tag: field.tag,
+          value: text(field),
+        })),
+        ...(record.datafield ?? []).map((field) => ({
+          tag: field.tag,
+          // Blank indicators come back as empty strings once trimmed
+          indicators: `${field.ind1 || ' '}${field.ind2 || ' '}`,
+          subfields: (field.subfield ?? []).map((sub) => ({
+            code: sub.code,
+            value: text(sub),
+          })),
+        })),
+      ];
+
+      if (fields.some((field) => !/^\w{3}$/.test(field.tag ?? ''))) {
+        throw new Error('Field without a valid tag attribute');
+      }
+
+      return { record: mapMarcRecord(fields) };
+    } catch (error) {
+      return { error: error.message };
+    }
+  });
+}
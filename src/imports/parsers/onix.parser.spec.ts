@@ -0,0 +1,79 @@
+import { parseOnix } from './onix.parser';
+
+describe('parseOnix', () => {
+  it('should map the products of a message', () => {
+    const file = Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>
+<ONIXMessage release="3.0" xmlns="http://ns.editeur.org/onix/3.0/reference">
+  <Header><Sender><SenderName>Publisher</SenderName></Sender></Header>
+  <Product>
+    <RecordReference>pub-1</RecordReference>
+    <NotificationType>03</NotificationType>
+    <ProductIdentifier><ProductIDType>01</ProductIDType><IDValue>X1</IDValue></ProductIdentifier>
+    <ProductIdentifier><ProductIDType>15</ProductIDType><IDValue>9780140449136</IDValue></ProductIdentifier>
+    <DescriptiveDetail>
+      <TitleDetail>
+        <TitleType>01</TitleType>
+        <TitleElement>
+          <TitleElementLevel>01</TitleElementLevel>
+          <TitlePrefix>The</TitlePrefix>
+          <TitleWithoutPrefix>Odyssey</TitleWithoutPrefix>
+          <Subtitle>A new translation</Subtitle>
+        </TitleElement>
+      </TitleDetail>
+      <Contributor>
+        <SequenceNumber>2</SequenceNumber>
+        <ContributorRole>B06</ContributorRole>
+        <PersonName>Emily Wilson</PersonName>
+      </Contributor>
+      <Contributor>
+        <SequenceNumber>1</SequenceNumber>
+        <ContributorRole>A01</ContributorRole>
+        <NamesBeforeKey>Homer</NamesBeforeKey>
+      </Contributor>
+      <Subject>
+        <SubjectSchemeIdentifier>10</SubjectSchemeIdentifier>
+        <SubjectCode>POE008000</SubjectCode>
+      </Subject>
+      <Subject>
+        <MainSubject/>
+        <SubjectSchemeIdentifier>20</SubjectSchemeIdentifier>
+        <SubjectHeadingText>Epic poetry</SubjectHeadingText>
+      </Subject>
+    </DescriptiveDetail>
+    <CollateralDetail>
+      <TextContent>
+        <TextType>03</TextType>
+        <Text textformat="05"><p>The <em>epic</em> of Odysseus &amp; his return.</p></Text>
+      </TextContent>
+    </CollateralDetail>
+    <PublishingDetail>
+      <PublishingDate><PublishingDateRole>01</PublishingDateRole><Date>20171107</Date></PublishingDate>
+    </PublishingDetail>
+  </Product>
+  <Product>
+    <NotificationType>05</NotificationType>
+    <ProductIdentifier><ProductIDType>03</ProductIDType><IDValue>9780140449136</IDValue></ProductIdentifier>
+  </Product>
+</ONIXMessage>`);
+
+    const [first, second] = parseOnix(file);
+
+    expect(first.record).toEqual({
+      title: 'The Odyssey: A new translation',
+      isbn: '9780140449136',
+      authorName: 'Homer',
+      categoryName: 'Epic poetry',
+      description: 'The epic of Odysseus & his return.',
+      publishedYear: 2017,
+    });
+    expect(first.deleted).toBe(false);
+    expect(second.deleted).toBe(true);
+    expect(second.record.isbn).toBe('9780140449136');
+  });
+
+  it('should refuse messages without reference tags', () => {
+    expect(() => parseOnix(Buffer.from('<ONIXmessage></ONIXmessage>'))).toThrow(
+      'short tags are not supported',
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { XMLParser } from 'fast-xml-parser';
+import {
+  BibliographicRecord,
+  ParsedRecord,
+} from '../interfaces/import.interface';
+
+// ONIX code lists used below
+const NOTIFICATION_DELETE = '05';
+const PRODUCT_ID_GTIN13 = '03';
+const PRODUCT_ID_ISBN13 = '15';
+const PRODUCT_ID_ISBN10 = '02';
+const TITLE_DISTINCTIVE = '01';
+const TITLE_LEVEL_PRODUCT = '01';
+const CONTRIBUTOR_AUTHOR = 'A01';
+const TEXT_DESCRIPTION = '03';
+const TEXT_SHORT_DESCRIPTION = '02';
+const PUBLISHING_DATE_PUBLICATION = '01';
+
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  // Descriptions may hold XHTML, which is kept as markup and stripped below
+  stopNodes: ['*.Text'],
+  isArray: (name) =>
+    [
+      'Product',
+      'ProductIdentifier',
+      'TitleDetail',
+      'TitleElement',
+      'Contributor',
+      'ContributorRole',
+      'Subject',
+      'TextContent',
+      'Text',
+      'PublishingDate',
+    ].includes(name),
+});
+
+function text(node: any): string | undefined {
+  const value = typeof node === 'object' ? node?.['#text'] : node;
+  const trimmed = value === undefined ? '' : String(value).trim();
+  return trimmed || undefined;
+}
+
+function stripMarkup(value?: string): string | undefined {
+  const stripped = value
+    ?.replace(/<[^>]*>/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return stripped || undefined;
+}
+
+function mapProduct(product: any): BibliographicRecord {
+  const identifiers: any[] = product.ProductIdentifier ?? [];
+  const identifier = (type: string) =>
+    text(identifiers.find((id) => text(id.ProductIDType) === type)?.IDValue);
+  const gtin = identifier(PRODUCT_ID_GTIN13);
+  const isbn =
+    identifier(PRODUCT_ID_ISBN13) ??
+    (gtin && /^97[89]/.test(gtin) ? gtin : undefined) ??
+    identifier(PRODUCT_ID_ISBN10);
+
+  const detail = product.DescriptiveDetail ?? {};
+
+  const titleDetails: any[] = detail.TitleDetail ?? [];
+  const titleDetail =
+    titleDetails.find((title) => text(title.TitleType) === TITLE_DISTINCTIVE) ??
+    titleDetails[0];
+  const titleElements: any[] = titleDetail?.TitleElement ?? [];
+  const titleElement =
+    titleElements.find(
+      (element) => text(element.TitleElementLevel) === TITLE_LEVEL_PRODUCT,
+    ) ?? titleElements[0];
+  const mainTitle =
+    text(titleElement?.TitleText) ??
+    [text(titleElement?.TitlePrefix), text(titleElement?.TitleWithoutPrefix)]
+      .filter(Boolean)
+      .join(' ');
+  const subtitle = text(titleElement?.Subtitle);
+  const title = mainTitle
+    ? subtitle
+      ? `${mainTitle}: ${subtitle}`
+      : mainTitle
+    : undefined;
+
+  const contributors: any[] = [...(detail.Contributor ?? [])].sort(
+    (a, b) =>
+      Number(text(a.SequenceNumber) ?? 0) - Number(text(b.SequenceNumber) ?? 0),
+  );
+  const author =
+    contributors.find((contributor) =>
+      (contributor.ContributorRole ?? []).some(
+        (role) => text(role) === CONTRIBUTOR_AUTHOR,
+      ),
+    ) ?? contributors[0];
+  const authorName = author
+    ? (text(author.PersonName) ??
+      ([text(author.NamesBeforeKey), text(author.KeyNames)]
+        .filter(Boolean)
+        .join(' ') ||
+        text(author.CorporateName)))
+    : undefined;
+
+  // The main subject first, then any subject given as a heading
+  const subjects: any[] = (detail.Subject ?? []).filter((subject) =>
+    text(subject.SubjectHeadingText),
+  );
+  const subject =
+    subjects.find((candidate) => candidate.MainSubject !== undefined) ??
+    subjects[0];
+
+  const textContents: any[] = product.CollateralDetail?.TextContent ?? [];
+  const description =
+    textContents.find(
+      (content) => text(content.TextType) === TEXT_DESCRIPTION,
+    ) ??
+    textContents.find(
+      (content) => text(content.TextType) === TEXT_SHORT_DESCRIPTION,
+    );
+
+  const publishingDates: any[] = product.PublishingDetail?.PublishingDate ?? [];
+  const publicationDate = publishingDates.find(
+    (date) => text(date.PublishingDateRole) === PUBLISHING_DATE_PUBLICATION,
+  );
+  const publishedYear = text(publicationDate?.Date)?.match(/^\d{4}/)?.[0];
+
+  return {
+    title,
+    isbn,
+    authorName: authorName || undefined,
+    categoryName: text(subject?.SubjectHeadingText),
+    description: stripMarkup(text(description?.Text?.[0])),
+    publishedYear: publishedYear ? Number(publishedYear) : undefined,
+  };
+}
+
+// Reads ONIX 3.0 messages that use reference tag names
+export function parseOnix(file: Buffer): ParsedRecord[] {
+  const document = parser.parse(file.toString('utf8'));
+  if (!document.ONIXMessage) {
+    throw new Error(
+      'Not an ONIX 3.0 message with reference tags, short tags are not supported',
+    );
+  }
+
+  const products: any[] = document.ONIXMessage.Product ?? [];
+  return products.map((product) => {
+    try {
+      return {
+        record: mapProduct(product),
+        deleted: text(product.NotificationType) === NOTIFICATION_DELETE,
+      };
+    } catch (error) {
+      return { error: error.message };
+    }
+  });
+}
@@ -0,0 +1,29 @@
+import { parseCsv, toCsvLine } from './csv.util';
+
+describe('csv util', () => {
+  it('should read quoted fields, doubled quotes and CRLF line ends', () => {
+    expect(
+      parseCsv(
+        '\uFEFFtitle,description\r\n"Dune","A ""desert"" planet,\nspice"\r\n\r\nEmma,\n',
+      ),
+    ).toEqual([
+      ['title', 'description'],
+      ['Dune', 'A "desert" planet,\nspice'],
+      ['Emma', ''],
+    ]);
+  });
+
+  it('should refuse an unterminated quoted field', () => {
+    expect(() => parseCsv('title\n"Dune')).toThrow('Unterminated quoted field');
+  });
+
+  it('should write lines that read back to the same values', () => {
+    const values = ['Dune', 'A "desert" planet,\nspice', undefined, 1965];
+    const line = toCsvLine(values);
+
+    expect(line).toBe('Dune,"A ""desert"" planet,\nspice",,1965\r\n');
+    expect(parseCsv(line)).toEqual([
+      ['Dune', 'A "desert" planet,\nspice', '', '1965'],
+    ]);
+  });
+});
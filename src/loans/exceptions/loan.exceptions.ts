@@ -0,0 +1,17 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { RenewalRefusalReason } from '../interfaces/loan.interface';
+
+export class LoanNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Loan with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class LoanRenewalRefusedException extends HttpException {
+  constructor(reason: RenewalRefusalReason, message: string) {
+    super(
+      { statusCode: HttpStatus.CONFLICT, reason, message },
+      HttpStatus.CONFLICT,
+    );
+  }
+}
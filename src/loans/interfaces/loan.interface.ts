@@ -0,0 +1,27 @@
+export interface Loan {
+  id: string;
+  bookId: string;
+  borrowerId: string;
+  // The copy lent out; missing on loans opened before copies were tracked
+  barcode?: string;
+  status: LoanStatus;
+  startDate: string;
+  returnDate: string;
+  returnedAt?: string;
+  renewals: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export enum LoanStatus {
+  ACTIVE = 'ACTIVE',
+  OVERDUE = 'OVERDUE',
+  RETURNED = 'RETURNED',
+}
+
+export enum RenewalRefusalReason {
+  NOT_BORROWED = 'NOT_BORROWED',
+  RENEWAL_LIMIT_REACHED = 'RENEWAL_LIMIT_REACHED',
+  HOLDS_PENDING = 'HOLDS_PENDING',
+  LOAN_OVERDUE = 'LOAN_OVERDUE',
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LoansService } from './loans.service';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+
+@Module({
+  imports: [DynamoDBModule],
+  providers: [LoansService],
+  exports: [LoansService],
+})
+export class LoansModule {}
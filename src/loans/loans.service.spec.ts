@@ -0,0 +1,78 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoansService } from './loans.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { LoanStatus } from './interfaces/loan.interface';
+
+describe('LoansService', () => {
+  let service: LoansService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoansService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoansService>(LoansService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should build an active loan and its transaction item', () => {
+    const loan = service.buildLoan({
+      bookId: 'book-1',
+      borrowerId: 'user-1',
+      startDate: '2030-01-01',
+      returnDate: '2030-01-15',
+    });
+
+    expect(loan.status).toBe(LoanStatus.ACTIVE);
+    expect(service.createTransactItem(loan).Put.Item).toBe(loan);
+  });
+
+  it('should only close active loans of the same borrower', () => {
+    const item = service.closeTransactItem('loan-1', 'user-1');
+
+    expect(item.Update.ConditionExpression).toContain(':active');
+    expect(item.Update.ExpressionAttributeValues[':borrowerId']).toBe('user-1');
+  });
+
+  it('should find the active loan of a borrower for a book', async () => {
+    send.mockResolvedValue({
+      Items: [
+        { id: 'loan-1', bookId: 'book-1', borrowerId: 'user-1' },
+        { id: 'loan-2', bookId: 'book-2', borrowerId: 'user-1' },
+      ],
+    });
+
+    const loan = await service.findActiveLoan('book-2', 'user-1');
+
+    expect(loan.id).toBe('loan-2');
+  });
+
+  it('should report a concurrent renewal as a conflict', async () => {
+    send.mockRejectedValue({ name: 'ConditionalCheckFailedException' });
+
+    await expect(
+      service.renew(
+        service.buildLoan({
+          bookId: 'book-1',
+          borrowerId: 'user-1',
+          startDate: '2030-01-01',
+          returnDate: '2030-01-15',
+        }),
+        '2030-01-29',
+        2,
+      ),
+    ).rejects.toThrow('changed during renewal');
+  });
+});
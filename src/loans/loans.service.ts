@@ -0,0 +1,308 @@
+import {
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { v4 as uuidv4 } from 'uuid';
+import { GetCommand, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { Loan, LoanStatus } from './interfaces/loan.interface';
+import { LoanNotFoundException } from './exceptions/loan.exceptions';
+
+@Injectable()
+export class LoansService {
+  private readonly tableName = 'Loans';
+  private readonly logger = new Logger(LoansService.name);
+
+  constructor(private readonly dynamoDBService: DynamoDBService) {}
+
+  buildLoan(loanData: {
+    bookId: string;
+    borrowerId: string;
+    barcode?: string;
+    startDate: string;
+    returnDate: string;
+  }): Loan {
+    return {
+      id: uuidv4(),
+      ...loanData,
+      status: LoanStatus.ACTIVE,
+      renewals: 0,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  createTransactItem(loan: Loan): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.tableName,
+        Item: loan,
+        ConditionExpression: 'attribute_not_exists(id)',
+      },
+    };
+  }
+
+  closeTransactItem(id: string, borrowerId: string): TransactWriteItem {
+    const now = new Date().toISOString();
+
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression:
+          'SET #status = :returned, returnedAt = :now, updatedAt = :now',
+        ConditionExpression:
+          '#status IN (:active, :overdue) AND borrowerId = :borrowerId',
+        ExpressionAttributeNames: {
+          '#status': 'status',
+        },
+        ExpressionAttributeValues: {
+          ':returned': LoanStatus.RETURNED,
+          ':active': LoanStatus.ACTIVE,
+          ':overdue': LoanStatus.OVERDUE,
+          ':borrowerId': borrowerId,
+          ':now': now,
+        },
+      },
+    };
+  }
+
+  async renew(
+    loan: Loan,
+    returnDate: string,
+    maxRenewals: number,
+  ): Promise<Loan> {
+    try {
+      // The returnDate condition rejects a concurrent renewal of the same loan
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id: loan.id },
+          UpdateExpression:
+            'SET returnDate = :returnDate, renewals = if_not_exists(renewals, :zero) + :one, updatedAt = :now',
+          ConditionExpression:
+            '#status = :active AND borrowerId = :borrowerId AND returnDate = :currentReturnDate AND (attribute_not_exists(renewals) OR renewals < :maxRenewals)',
+          ExpressionAttributeNames: {
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':returnDate': returnDate,
+            ':currentReturnDate': loan.returnDate,
+            ':borrowerId': loan.borrowerId,
+            ':active': LoanStatus.ACTIVE,
+            ':maxRenewals': maxRenewals,
+            ':zero': 0,
+            ':one': 1,
+            ':now': new Date().toISOString(),
+          },
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Renewed loan ${loan.id} until ${returnDate}`);
+      return response.Attributes as Loan;
+    } catch (error) {
+      this.logger.error(
+        `Failed to renew loan ${loan.id}: ${error.message}`,
+        error.stack,
+      );
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new HttpException(
+          `Loan with ID "${loan.id}" changed during renewal, please retry`,
+          HttpStatus.CONFLICT,
+        );
+      }
+      throw new InternalServerErrorException('Failed to renew loan');
+    }
+  }
+
+  async findOne(id: string): Promise<Loan> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new LoanNotFoundException(id);
+      }
+
+      return response.Item as Loan;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch loan ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof LoanNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch loan');
+    }
+  }
+
+  // "Active" covers every loan not yet returned, overdue ones included
+  async findActiveByBorrower(borrowerId: string): Promise<Loan[]> {
+    return this.queryOpenLoans('BorrowerStatusIndex', 'borrowerId', borrowerId);
+  }
+
+  async findActiveByBook(bookId: string): Promise<Loan[]> {
+    return this.queryOpenLoans('BookStatusIndex', 'bookId', bookId);
+  }
+
+  async findActiveLoan(
+    bookId: string,
+    borrowerId: string,
+  ): Promise<Loan | undefined> {
+    const loans = await this.findActiveByBorrower(borrowerId);
+    return loans.find((loan) => loan.bookId === bookId);
+  }
+
+  // Whether the borrower has ever had the book, returned loans included
+  async hasBorrowed(bookId: string, borrowerId: string): Promise<boolean> {
+    const loansByStatus = await Promise.all(
+      Object.values(LoanStatus).map((status) =>
+        this.queryAll({
+          IndexName: 'BorrowerStatusIndex',
+          KeyConditionExpression:
+            'borrowerId = :borrowerId AND #status = :status',
+          FilterExpression: 'bookId = :bookId',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: {
+            ':borrowerId': borrowerId,
+            ':status': status,
+            ':bookId': bookId,
+          },
+        }),
+      ),
+    );
+
+    return loansByStatus.some((loans) => loans.length > 0);
+  }
+
+  async findOverdue(): Promise<Loan[]> {
+    return this.queryAll({
+      IndexName: 'StatusReturnDateIndex',
+      KeyConditionExpression: '#status = :status',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: { ':status': LoanStatus.OVERDUE },
+    });
+  }
+
+  // Flags every active loan whose return date has passed as overdue and
+  // returns the loans that were flagged
+  async markOverdueLoans(asOf: Date = new Date()): Promise<Loan[]> {
+    const dueLoans = await this.queryAll({
+      IndexName: 'StatusReturnDateIndex',
+      KeyConditionExpression: '#status = :status AND returnDate < :asOf',
+      ExpressionAttributeNames: { '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':status': LoanStatus.ACTIVE,
+        ':asOf': asOf.toISOString(),
+      },
+    });
+    const markedLoans: Loan[] = [];
+
+    for (const loan of dueLoans) {
+      try {
+        const response = await this.dynamoDBService.documentClient.send(
+          new UpdateCommand({
+            TableName: this.tableName,
+            Key: { id: loan.id },
+            UpdateExpression: 'SET #status = :overdue, updatedAt = :now',
+            ConditionExpression:
+              '#status = :active AND returnDate = :returnDate',
+            ExpressionAttributeNames: {
+              '#status': 'status',
+            },
+            ExpressionAttributeValues: {
+              ':overdue': LoanStatus.OVERDUE,
+              ':active': LoanStatus.ACTIVE,
+              ':returnDate': loan.returnDate,
+              ':now': new Date().toISOString(),
+            },
+            ReturnValues: 'ALL_NEW',
+          }),
+        );
+        markedLoans.push(response.Attributes as Loan);
+      } catch (error) {
+        // Returned or renewed since the query, nothing to flag
+        if (error.name !== 'ConditionalCheckFailedException') {
+          this.logger.error(
+            `Failed to mark loan ${loan.id} as overdue: ${error.message}`,
+            error.stack,
+          );
+        }
+      }
+    }
+
+    this.logger.log(`Marked ${markedLoans.length} loan(s) as overdue`);
+    return markedLoans;
+  }
+
+  private async queryOpenLoans(
+    indexName: string,
+    keyName: 'borrowerId' | 'bookId',
+    keyValue: string,
+  ): Promise<Loan[]> {
+    const loansByStatus = await Promise.all(
+      [LoanStatus.ACTIVE, LoanStatus.OVERDUE].map((status) =>
+        this.queryAll({
+          IndexName: indexName,
+          KeyConditionExpression: '#key = :key AND #status = :status',
+          ExpressionAttributeNames: {
+            '#key': keyName,
+            '#status': 'status',
+          },
+          ExpressionAttributeValues: {
+            ':key': keyValue,
+            ':status': status,
+          },
+        }),
+      ),
+    );
+
+    return loansByStatus.flat();
+  }
+
+  private async queryAll(params: {
+    IndexName: string;
+    KeyConditionExpression: string;
+    FilterExpression?: string;
+    ExpressionAttributeNames: Record<string, string>;
+    ExpressionAttributeValues: Record<string, any>;
+  }): Promise<Loan[]> {
+    try {
+      const loans: Loan[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.tableName,
+            ...params,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        loans.push(...((response.Items || []) as Loan[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return loans;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch loans from ${params.IndexName}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch loans');
+    }
+  }
+}
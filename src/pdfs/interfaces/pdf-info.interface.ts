@@ -0,0 +1,9 @@
+// What an uploaded PDF says about itself
+export interface PdfInfo {
+  pageCount: number;
+  // From the document information, when the PDF carries them
+  title?: string;
+  author?: string;
+  // In bytes
+  fileSize: number;
+}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PDFDocument, rgb } from 'pdf-lib';
+import * as sharp from 'sharp';
+import { PdfsService } from './pdfs.service';
+
+describe('PdfsService', () => {
+  let module: TestingModule;
+  let service: PdfsService;
+
+  // A two-page US Letter PDF with document information
+  const book = async () => {
+    const document = await PDFDocument.create();
+    document.setTitle('  The Book  ');
+    document.setAuthor('Someone');
+    document.addPage([612, 792]);
+    document.addPage([612, 792]);
+    return Buffer.from(await document.save());
+  };
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      providers: [PdfsService],
+    }).compile();
+
+    service = module.get<PdfsService>(PdfsService);
+  });
+
+  afterEach(() => module.close());
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should read the page count and document information', async () => {
+    const pdf = await book();
+
+    await expect(service.inspect(pdf)).resolves.toEqual({
+      pageCount: 2,
+      title: 'The Book',
+      author: 'Someone',
+      fileSize: pdf.length,
+    });
+  });
+
+  it('should refuse a file that is not a PDF', async () => {
+    await expect(
+      service.inspect(Buffer.from('%PDF-1.7 <html></html>')),
+    ).rejects.toThrow('not a valid PDF');
+  });
+
+  it('should refuse a truncated PDF', async () => {
+    const pdf = await book();
+
+    await expect(
+      service.inspect(pdf.subarray(0, pdf.length / 2)),
+    ).rejects.toThrow('not a valid PDF');
+  });
+
+  it('should render the first page as a PNG', async () => {
+    const image = await service.renderFirstPage(await book(), 300);
+
+    const metadata = await sharp(image).metadata();
+    expect([metadata.format, metadata.width]).toEqual(['png', 300]);
+    expect(metadata.height).toBeCloseTo(388, -1);
+  });
+
+  it('should keep the colours of the page', async () => {
+    const document = await PDFDocument.create();
+    const page = document.addPage([100, 100]);
+    page.drawRectangle({
+      x: 0,
+      y: 0,
+      width: 100,
+      height: 100,
+      color: rgb(1, 0, 0),
+    });
+
+    const image = await service.renderFirstPage(
+      Buffer.from(await document.save()),
+      100,
+    );
+
+    const pixels = await sharp(image).raw().toBuffer();
+    expect([...pixels.subarray(0, 3)]).toEqual([255, 0, 0]);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { PDFiumDocument, PDFiumLibrary } from '@hyzyla/pdfium';
+import { EncryptedPDFError, PDFDocument } from 'pdf-lib';
+import * as sharp from 'sharp';
+import { PdfInfo } from './interfaces/pdf-info.interface';
+
+// PDFs are read whole into memory; larger ones uploaded straight to S3 are
+// attached without being inspected
+export const MAX_INSPECTED_PDF_SIZE = 100 * 1024 * 1024;
+
+@Injectable()
+export class PdfsService implements OnModuleDestroy {
+  private readonly logger = new Logger(PdfsService.name);
+  // Loaded on first use, the WebAssembly build of PDFium takes a moment
+  private library?: Promise<PDFiumLibrary>;
+
+  async onModuleDestroy(): Promise<void> {
+    (await this.library)?.destroy();
+  }
+
+  // Refuses files that are not PDFs, are damaged or are encrypted, and reads
+  // the page count and document information of the rest
+  async inspect(pdf: Buffer): Promise<PdfInfo> {
+    let document: PDFDocument;
+    try {
+      document = await PDFDocument.load(pdf, {
+        throwOnInvalidObject: true,
+        updateMetadata: false,
+      });
+    } catch (error) {
+      this.logger.warn(`Refused an unreadable PDF: ${error.message}`);
+      if (error instanceof EncryptedPDFError) {
+        throw new BadRequestException('Encrypted PDFs are not accepted');
+      }
+      throw new BadRequestException('The uploaded file is not a valid PDF');
+    }
+
+    // pdf-lib works around damage that PDFium, like most readers, refuses
+    const pageCount = await this.withDocument(pdf, (pdfium) =>
+      pdfium.getPageCount(),
+    );
+    if (pageCount === 0) {
+      throw new BadRequestException('The uploaded PDF has no pages');
+    }
+
+    return {
+      pageCount,
+      title: document.getTitle()?.trim() || undefined,
+      author: document.getAuthor()?.trim() || undefined,
+      fileSize: pdf.length,
+    };
+  }
+
+  // The first page as a PNG of the width given, to stand in for a cover
+  async renderFirstPage(pdf: Buffer, width = 1200): Promise<Buffer> {
+    const bitmap = await this.withDocument(pdf, (pdfium) => {
+      const page = pdfium.getPage(0);
+      return page.render({
+        scale: width / page.getOriginalSize().originalWidth,
+      });
+    });
+
+    return sharp(Buffer.from(bitmap.data), {
+      raw: { width: bitmap.width, height: bitmap.height, channels: 4 },
+    })
+      .flatten({ background: '#ffffff' })
+      .png()
+      .toBuffer();
+  }
+
+  private async withDocument<T>(
+    pdf: Buffer,
+    read: (document: PDFiumDocument) => T | Promise<T>,
+  ): Promise<T> {
+    this.library ??= PDFiumLibrary.init();
+    const library = await this.library;
+
+    let document: PDFiumDocument;
+    try {
+      document = await library.loadDocument(pdf);
+    } catch (error) {
+      this.logger.warn(`Refused an unreadable PDF: ${error.message}`);
+      throw new BadRequestException('The uploaded file is not a valid PDF');
+    }
+
+    try {
+      return await read(document);
+    } finally {
+      document.destroy();
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UpsertCirculationPolicyDto {
+  @IsBoolean()
+  @IsOptional()
+  loanable?: boolean;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(100)
+  maxLoans?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(365)
+  maxLoanDays?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Max(20)
+  maxRenewals?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(365)
+  renewalDays?: number;
+}
@@ -0,0 +1,16 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class PolicyNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Circulation policy "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class PolicyUpdateException extends HttpException {
+  constructor(error: string) {
+    super(
+      `Failed to update circulation policy: ${error}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+export enum PolicyScope {
+  DEFAULT = 'DEFAULT',
+  CATEGORY = 'CATEGORY',
+  GROUP = 'GROUP',
+}
+
+export interface CirculationRules {
+  // Reference-only items cannot leave the library
+  loanable: boolean;
+  maxLoans: number;
+  maxLoanDays: number;
+  maxRenewals: number;
+  renewalDays: number;
+}
+
+// The default policy sets every rule, overrides only the ones they change
+export interface CirculationPolicy extends Partial<CirculationRules> {
+  id: string;
+  scope: PolicyScope;
+  targetId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
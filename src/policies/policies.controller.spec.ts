@@ -0,0 +1,38 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PoliciesController } from './policies.controller';
+import { PoliciesService } from './policies.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('PoliciesController', () => {
+  let controller: PoliciesController;
+  let policiesService: { resolve: jest.Mock };
+
+  beforeEach(async () => {
+    policiesService = { resolve: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PoliciesController],
+      providers: [{ provide: PoliciesService, useValue: policiesService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<PoliciesController>(PoliciesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should split the groups of the effective policy preview', async () => {
+    await controller.resolve('cat-1', 'STAFF, VOLUNTEER');
+    expect(policiesService.resolve).toHaveBeenCalledWith({
+      categoryId: 'cat-1',
+      groups: ['STAFF', 'VOLUNTEER'],
+    });
+  });
+});
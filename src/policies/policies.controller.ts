@@ -0,0 +1,114 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PoliciesService } from './policies.service';
+import { UpsertCirculationPolicyDto } from './dto/upsert-circulation-policy.dto';
+import {
+  CirculationPolicy,
+  CirculationRules,
+  PolicyScope,
+} from './interfaces/circulation-policy.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('admin/policies')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class PoliciesController {
+  constructor(private readonly policiesService: PoliciesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get all circulation policies' })
+  @ApiResponse({ status: 200, description: 'Returns all stored policies' })
+  async findAll(): Promise<{ message: string; policies: CirculationPolicy[] }> {
+    return this.policiesService.findAll();
+  }
+
+  @Get('effective')
+  @ApiOperation({
+    summary: 'Preview the rules applied to a category and user groups',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the effective rules' })
+  async resolve(
+    @Query('categoryId') categoryId?: string,
+    @Query('groups') groups?: string,
+  ): Promise<CirculationRules> {
+    return this.policiesService.resolve({
+      categoryId,
+      groups: groups ? groups.split(',').map((group) => group.trim()) : [],
+    });
+  }
+
+  @Put('default')
+  @ApiOperation({ summary: 'Set the library-wide default policy' })
+  @ApiResponse({ status: 200, description: 'Policy saved successfully' })
+  async upsertDefault(
+    @Body() upsertPolicyDto: UpsertCirculationPolicyDto,
+  ): Promise<CirculationPolicy> {
+    return this.policiesService.upsert(
+      PolicyScope.DEFAULT,
+      undefined,
+      upsertPolicyDto,
+    );
+  }
+
+  @Put('categories/:categoryId')
+  @ApiOperation({ summary: 'Override the policy for a category' })
+  @ApiResponse({ status: 200, description: 'Policy saved successfully' })
+  @ApiResponse({ status: 404, description: 'Category not found' })
+  async upsertCategory(
+    @Param('categoryId', ParseUUIDPipe) categoryId: string,
+    @Body() upsertPolicyDto: UpsertCirculationPolicyDto,
+  ): Promise<CirculationPolicy> {
+    return this.policiesService.upsert(
+      PolicyScope.CATEGORY,
+      categoryId,
+      upsertPolicyDto,
+    );
+  }
+
+  @Delete('categories/:categoryId')
+  @ApiOperation({ summary: 'Remove the policy override of a category' })
+  @ApiResponse({ status: 200, description: 'Policy deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async removeCategory(
+    @Param('categoryId', ParseUUIDPipe) categoryId: string,
+  ): Promise<{ message: string }> {
+    return this.policiesService.remove(PolicyScope.CATEGORY, categoryId);
+  }
+
+  @Put('groups/:group')
+  @ApiOperation({ summary: 'Override the policy for a user group' })
+  @ApiResponse({ status: 200, description: 'Policy saved successfully' })
+  async upsertGroup(
+    @Param('group') group: string,
+    @Body() upsertPolicyDto: UpsertCirculationPolicyDto,
+  ): Promise<CirculationPolicy> {
+    return this.policiesService.upsert(
+      PolicyScope.GROUP,
+      group,
+      upsertPolicyDto,
+    );
+  }
+
+  @Delete('groups/:group')
+  @ApiOperation({ summary: 'Remove the policy override of a user group' })
+  @ApiResponse({ status: 200, description: 'Policy deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Policy not found' })
+  async removeGroup(
+    @Param('group') group: string,
+  ): Promise<{ message: string }> {
+    return this.policiesService.remove(PolicyScope.GROUP, group);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PoliciesService } from './policies.service';
+import { PoliciesController } from './policies.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { CategoriesModule } from '../categories/categories.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, CategoriesModule],
+  controllers: [PoliciesController],
+  providers: [PoliciesService],
+  exports: [PoliciesService],
+})
+export class PoliciesModule {}
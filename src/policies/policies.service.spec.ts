@@ -0,0 +1,90 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PoliciesService } from './policies.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { CategoriesService } from '../categories/categories.service';
+import { PolicyScope } from './interfaces/circulation-policy.interface';
+
+describe('PoliciesService', () => {
+  let service: PoliciesService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PoliciesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        {
+          provide: CategoriesService,
+          useValue: { findOne: jest.fn().mockResolvedValue({ id: 'cat-1' }) },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PoliciesService>(PoliciesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should fall back to the built-in rules', async () => {
+    send.mockResolvedValueOnce({ Responses: { CirculationPolicies: [] } });
+
+    expect(await service.resolve({})).toEqual({
+      loanable: true,
+      maxLoans: 3,
+      maxLoanDays: 30,
+      maxRenewals: 2,
+      renewalDays: 14,
+    });
+  });
+
+  it('should apply group overrides and let the category have the last word', async () => {
+    send.mockResolvedValueOnce({
+      Responses: {
+        CirculationPolicies: [
+          { id: 'DEFAULT', maxLoans: 5, maxLoanDays: 21 },
+          { id: 'GROUP#STAFF', maxLoans: 20 },
+          { id: 'GROUP#VOLUNTEER', maxLoans: 8, maxLoanDays: 60 },
+          { id: 'CATEGORY#cat-1', loanable: false, maxLoanDays: 7 },
+        ],
+      },
+    });
+
+    const rules = await service.resolve({
+      categoryId: 'cat-1',
+      groups: ['STAFF', 'VOLUNTEER'],
+    });
+
+    expect(rules).toEqual({
+      loanable: false,
+      maxLoans: 20,
+      maxLoanDays: 7,
+      maxRenewals: 2,
+      renewalDays: 14,
+    });
+  });
+
+  it('should refuse an override without rules', async () => {
+    await expect(
+      service.upsert(PolicyScope.GROUP, 'STAFF', {}),
+    ).rejects.toThrow('At least one rule');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should only set the rules provided', async () => {
+    send.mockResolvedValueOnce({ Attributes: { id: 'GROUP#STAFF' } });
+
+    await service.upsert(PolicyScope.GROUP, 'STAFF', { maxLoans: 20 });
+
+    const { input } = send.mock.calls[0][0];
+    expect(input.Key).toEqual({ id: 'GROUP#STAFF' });
+    expect(input.UpdateExpression).toContain('#maxLoans = :maxLoans');
+    expect(input.UpdateExpression).not.toContain('maxLoanDays');
+  });
+});
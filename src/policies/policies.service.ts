@@ -0,0 +1,279 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { CategoriesService } from '../categories/categories.service';
+import {
+  CirculationPolicy,
+  CirculationRules,
+  PolicyScope,
+} from './interfaces/circulation-policy.interface';
+import { UpsertCirculationPolicyDto } from './dto/upsert-circulation-policy.dto';
+import {
+  PolicyNotFoundException,
+  PolicyUpdateException,
+} from './exceptions/policy.exceptions';
+
+// Applies until an admin stores a default policy of their own
+export const DEFAULT_CIRCULATION_RULES: CirculationRules = {
+  loanable: true,
+  maxLoans: 3,
+  maxLoanDays: 30,
+  maxRenewals: 2,
+  renewalDays: 14,
+};
+
+const NUMERIC_RULES = [
+  'maxLoans',
+  'maxLoanDays',
+  'maxRenewals',
+  'renewalDays',
+] as const;
+
+@Injectable()
+export class PoliciesService {
+  private readonly tableName = 'CirculationPolicies';
+  private readonly logger = new Logger(PoliciesService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly categoriesService: CategoriesService,
+  ) {}
+
+  async findAll(): Promise<{ message: string; policies: CirculationPolicy[] }> {
+    try {
+      const policies: CirculationPolicy[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        policies.push(...((response.Items || []) as CirculationPolicy[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return {
+        message:
+          policies.length > 0
+            ? `Found ${policies.length} circulation policies`
+            : 'No circulation policies found, the built-in defaults apply',
+        policies,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch circulation policies: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException(
+        'Failed to fetch circulation policies',
+      );
+    }
+  }
+
+  async upsert(
+    scope: PolicyScope,
+    targetId: string | undefined,
+    upsertPolicyDto: UpsertCirculationPolicyDto,
+  ): Promise<CirculationPolicy> {
+    const id = this.policyId(scope, targetId);
+
+    try {
+      const rules = Object.entries(upsertPolicyDto).filter(
+        ([, value]) => value !== undefined,
+      );
+      if (rules.length === 0) {
+        throw new BadRequestException('At least one rule must be provided');
+      }
+
+      if (scope === PolicyScope.CATEGORY) {
+        await this.categoriesService.findOne(targetId);
+      }
+
+      const now = new Date().toISOString();
+      let updateExpression =
+        'SET #scope = :scope, createdAt = if_not_exists(createdAt, :now), updatedAt = :now';
+      const expressionAttributeNames: Record<string, string> = {
+        '#scope': 'scope',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':scope': scope,
+        ':now': now,
+      };
+
+      if (targetId) {
+        updateExpression += ', targetId = :targetId';
+        expressionAttributeValues[':targetId'] = targetId;
+      }
+
+      for (const [key, value] of rules) {
+        updateExpression += `, #${key} = :${key}`;
+        expressionAttributeNames[`#${key}`] = key;
+        expressionAttributeValues[`:${key}`] = value;
+      }
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: updateExpression,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Circulation policy ${id} saved`);
+      return response.Attributes as CirculationPolicy;
+    } catch (error) {
+      this.logger.error(
+        `Failed to save circulation policy ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new PolicyUpdateException(error.message);
+    }
+  }
+
+  async remove(
+    scope: PolicyScope,
+    targetId: string,
+  ): Promise<{ message: string }> {
+    const id = this.policyId(scope, targetId);
+
+    try {
+      await this.dynamoDBService.documentClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { id },
+          ConditionExpression: 'attribute_exists(id)',
+        }),
+      );
+
+      this.logger.log(`Circulation policy ${id} deleted`);
+      return { message: `Circulation policy "${id}" deleted successfully` };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete circulation policy ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error.name === 'ConditionalCheckFailedException') {
+        throw new PolicyNotFoundException(id);
+      }
+      throw new PolicyUpdateException(error.message);
+    }
+  }
+
+  // Effective rules for a borrower and an item: the default policy, then the
+  // most generous of the borrower's group overrides, then the item's category
+  // override, which has the last word
+  async resolve(context: {
+    categoryId?: string;
+    groups?: string[];
+  }): Promise<CirculationRules> {
+    const groups = [...new Set(context.groups ?? [])];
+    const defaultId = this.policyId(PolicyScope.DEFAULT);
+    const groupIds = groups.map((group) =>
+      this.policyId(PolicyScope.GROUP, group),
+    );
+    const categoryId = context.categoryId
+      ? this.policyId(PolicyScope.CATEGORY, context.categoryId)
+      : undefined;
+
+    const policiesById = await this.findManyByIds(
+      [defaultId, ...groupIds, categoryId].filter(Boolean),
+    );
+
+    const groupRules: Partial<CirculationRules> = {};
+    for (const groupId of groupIds) {
+      const policy = policiesById.get(groupId);
+      if (!policy) {
+        continue;
+      }
+
+      for (const rule of NUMERIC_RULES) {
+        if (policy[rule] !== undefined) {
+          groupRules[rule] = Math.max(groupRules[rule] ?? 0, policy[rule]);
+        }
+      }
+      if (policy.loanable !== undefined) {
+        groupRules.loanable = groupRules.loanable || policy.loanable;
+      }
+    }
+
+    return {
+      ...DEFAULT_CIRCULATION_RULES,
+      ...this.rulesOf(policiesById.get(defaultId)),
+      ...groupRules,
+      ...this.rulesOf(categoryId && policiesById.get(categoryId)),
+    };
+  }
+
+  private rulesOf(policy?: CirculationPolicy): Partial<CirculationRules> {
+    if (!policy) {
+      return {};
+    }
+
+    return [...NUMERIC_RULES, 'loanable' as const].reduce<
+      Partial<CirculationRules>
+    >(
+      (rules, rule) =>
+        policy[rule] === undefined ? rules : { ...rules, [rule]: policy[rule] },
+      {},
+    );
+  }
+
+  private async findManyByIds(
+    ids: string[],
+  ): Promise<Map<string, CirculationPolicy>> {
+    try {
+      const policiesById = new Map<string, CirculationPolicy>();
+      let requestItems: Record<string, any> = {
+        [this.tableName]: {
+          Keys: ids.map((id) => ({ id })),
+        },
+      };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        (
+          (response.Responses?.[this.tableName] || []) as CirculationPolicy[]
+        ).forEach((policy) => policiesById.set(policy.id, policy));
+        requestItems = response.UnprocessedKeys;
+      }
+
+      return policiesById;
+    } catch (error) {
+      this.logger.error(
+        `Failed to resolve circulation policy: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException(
+        'Failed to resolve circulation policy',
+      );
+    }
+  }
+
+  private policyId(scope: PolicyScope, targetId?: string): string {
+    return scope === PolicyScope.DEFAULT ? scope : `${scope}#${targetId}`;
+  }
+}
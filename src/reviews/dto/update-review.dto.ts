@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateReviewDto } from './create-review.dto';
+
+export class UpdateReviewDto extends PartialType(CreateReviewDto) {}
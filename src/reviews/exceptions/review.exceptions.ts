@@ -0,0 +1,28 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class ReviewNotFoundException extends HttpException {
+  constructor(bookId: string, userId: string) {
+    super(
+      `Review of book "${bookId}" by user "${userId}" not found`,
+      HttpStatus.NOT_FOUND,
+    );
+  }
+}
+
+export class ReviewAlreadyExistsException extends HttpException {
+  constructor(bookId: string) {
+    super(
+      `You have already reviewed book "${bookId}", edit your review instead`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class ReviewUpdateException extends HttpException {
+  constructor(error: string) {
+    super(
+      `Failed to update review: ${error}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
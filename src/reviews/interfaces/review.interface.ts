@@ -0,0 +1,9 @@
+// Keyed by book and reader, so a reader has at most one review per book
+export interface Review {
+  bookId: string;
+  userId: string;
+  rating: number;
+  text: string;
+  createdAt: string;
+  updatedAt: string;
+}
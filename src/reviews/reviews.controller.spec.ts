@@ -0,0 +1,57 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ReviewsController } from './reviews.controller';
+import { ReviewsService } from './reviews.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+// Keeps the books module graph (S3, circulation services) out of these tests
+jest.mock('../books/books.service', () => ({
+  BooksService: class BooksService {},
+}));
+
+describe('ReviewsController', () => {
+  let controller: ReviewsController;
+  let reviewsService: { findByBook: jest.Mock; remove: jest.Mock };
+
+  beforeEach(async () => {
+    reviewsService = {
+      findByBook: jest
+        .fn()
+        .mockResolvedValue({ message: 'No reviews found', reviews: [] }),
+      remove: jest
+        .fn()
+        .mockResolvedValue({ message: 'Review deleted successfully' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ReviewsController],
+      providers: [{ provide: ReviewsService, useValue: reviewsService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<ReviewsController>(ReviewsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the reviews of a book', async () => {
+    const result = await controller.findByBook('book-1', 10);
+    expect(reviewsService.findByBook).toHaveBeenCalledWith(
+      'book-1',
+      10,
+      undefined,
+    );
+    expect(result).toEqual({ message: 'No reviews found', reviews: [] });
+  });
+
+  it('should let the reader delete their own review', async () => {
+    await controller.removeMine('book-1', { user: { sub: 'user-1' } });
+    expect(reviewsService.remove).toHaveBeenCalledWith('book-1', 'user-1');
+  });
+});
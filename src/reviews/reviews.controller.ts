@@ -0,0 +1,103 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { ReviewsService } from './reviews.service';
+import { Review } from './interfaces/review.interface';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { UpdateReviewDto } from './dto/update-review.dto';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('books/:id/reviews')
+export class ReviewsController {
+  constructor(private readonly reviewsService: ReviewsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the reviews of a book' })
+  @ApiResponse({ status: 200, description: 'Returns the reviews of the book' })
+  async findByBook(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('limit') limit = 10,
+    @Query('lastEvaluatedKey') lastEvaluatedKey?: string,
+  ): Promise<{
+    message: string;
+    reviews: Review[];
+    lastEvaluatedKey?: string;
+  }> {
+    return this.reviewsService.findByBook(id, Number(limit), lastEvaluatedKey);
+  }
+
+  @Post()
+  @UseGuards(CognitoAuthGuard)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Review a book' })
+  @ApiResponse({ status: 201, description: 'Review created successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Only borrowers may review the book',
+  })
+  @ApiResponse({ status: 409, description: 'Conflict - Already reviewed' })
+  async create(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createReviewDto: CreateReviewDto,
+    @Request() req,
+  ): Promise<Review> {
+    return this.reviewsService.create(id, req.user.sub, createReviewDto);
+  }
+
+  @Patch('me')
+  @UseGuards(CognitoAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Edit your review of a book' })
+  @ApiResponse({ status: 200, description: 'Review updated successfully' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateReviewDto: UpdateReviewDto,
+    @Request() req,
+  ): Promise<Review> {
+    return this.reviewsService.update(id, req.user.sub, updateReviewDto);
+  }
+
+  @Delete('me')
+  @UseGuards(CognitoAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete your review of a book' })
+  @ApiResponse({ status: 200, description: 'Review deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async removeMine(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req,
+  ): Promise<{ message: string }> {
+    return this.reviewsService.remove(id, req.user.sub);
+  }
+
+  @Delete(':userId')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Remove a review (moderation)' })
+  @ApiResponse({ status: 200, description: 'Review deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Review not found' })
+  async moderate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId') userId: string,
+  ): Promise<{ message: string }> {
+    return this.reviewsService.remove(id, userId);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { ReviewsService } from './reviews.service';
+import { ReviewsController } from './reviews.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { BooksModule } from '../books/books.module';
+import { LoansModule } from '../loans/loans.module';
+import { SearchModule } from '../search/search.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, BooksModule, LoansModule, SearchModule],
+  controllers: [ReviewsController],
+  providers: [ReviewsService],
+})
+export class ReviewsModule {}
@@ -0,0 +1,111 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ReviewsService } from './reviews.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { BooksService } from '../books/books.service';
+import { LoansService } from '../loans/loans.service';
+import { SearchService } from '../search/search.service';
+
+// Keeps the books module graph (S3, circulation services) out of these tests
+jest.mock('../books/books.service', () => ({
+  BooksService: class BooksService {},
+}));
+
+describe('ReviewsService', () => {
+  let service: ReviewsService;
+  let send: jest.Mock;
+  let booksService: { findOne: jest.Mock; ratingTransactItem: jest.Mock };
+  let loansService: { hasBorrowed: jest.Mock };
+
+  beforeEach(async () => {
+    send = jest.fn();
+    booksService = {
+      findOne: jest.fn().mockResolvedValue({
+        id: 'book-1',
+        ratingSum: 8,
+        reviewsCount: 2,
+      }),
+      ratingTransactItem: jest.fn().mockReturnValue({ Update: {} }),
+    };
+    loansService = { hasBorrowed: jest.fn().mockResolvedValue(true) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReviewsService,
+        {
+          provide: DynamoDBService,
+          useValue: {
+            documentClient: { send },
+            failedTransactionConditions: jest.fn().mockReturnValue([]),
+          },
+        },
+        { provide: BooksService, useValue: booksService },
+        { provide: LoansService, useValue: loansService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(undefined) },
+        },
+        { provide: SearchService, useValue: { refreshBook: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<ReviewsService>(ReviewsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should refuse a review from a reader who never borrowed the book', async () => {
+    loansService.hasBorrowed.mockResolvedValueOnce(false);
+
+    await expect(
+      service.create('book-1', 'user-1', { rating: 5, text: 'Great' }),
+    ).rejects.toThrow('books you have borrowed');
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should add the score to the book totals with the review', async () => {
+    send.mockResolvedValueOnce({});
+
+    await service.create('book-1', 'user-1', { rating: 5, text: 'Great' });
+
+    expect(booksService.ratingTransactItem).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'book-1' }),
+      5,
+      1,
+    );
+  });
+
+  it('should only move the totals by the change of score', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: { bookId: 'book-1', userId: 'user-1', rating: 2, text: 'Meh' },
+      })
+      .mockResolvedValueOnce({});
+
+    await service.update('book-1', 'user-1', { rating: 4 });
+
+    expect(booksService.ratingTransactItem).toHaveBeenCalledWith(
+      expect.anything(),
+      2,
+      0,
+    );
+  });
+
+  it('should take the score out of the totals when a review is removed', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: { bookId: 'book-1', userId: 'user-1', rating: 3, text: 'Ok' },
+      })
+      .mockResolvedValueOnce({});
+
+    await service.remove('book-1', 'user-1');
+
+    expect(booksService.ratingTransactItem).toHaveBeenCalledWith(
+      expect.anything(),
+      -3,
+      -1,
+    );
+  });
+});
@@ -0,0 +1,302 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DeleteCommand,
+  GetCommand,
+  QueryCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { BooksService } from '../books/books.service';
+import { LoansService } from '../loans/loans.service';
+import { SearchService } from '../search/search.service';
+import { Book } from '../books/interfaces/book.interface';
+import { Review } from './interfaces/review.interface';
+import { CreateReviewDto } from './dto/create-review.dto';
+import { UpdateReviewDto } from './dto/update-review.dto';
+import {
+  ReviewAlreadyExistsException,
+  ReviewNotFoundException,
+  ReviewUpdateException,
+} from './exceptions/review.exceptions';
+
+@Injectable()
+export class ReviewsService {
+  private readonly tableName = 'Reviews';
+  private readonly logger = new Logger(ReviewsService.name);
+  private readonly requireLoan: boolean;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly booksService: BooksService,
+    private readonly loansService: LoansService,
+    private readonly configService: ConfigService,
+    private readonly searchService: SearchService,
+  ) {
+    this.requireLoan =
+      this.configService.get<string>('REVIEWS_REQUIRE_LOAN') !== 'false';
+  }
+
+  async create(
+    bookId: string,
+    userId: string,
+    createReviewDto: CreateReviewDto,
+  ): Promise<Review> {
+    try {
+      const book = await this.booksService.findOne(bookId);
+
+      if (
+        this.requireLoan &&
+        !(await this.loansService.hasBorrowed(bookId, userId))
+      ) {
+        throw new ForbiddenException(
+          'You can only review books you have borrowed',
+        );
+      }
+
+      const now = new Date().toISOString();
+      const review: Review = {
+        bookId,
+        userId,
+        rating: createReviewDto.rating,
+        text: createReviewDto.text,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Put: {
+                TableName: this.tableName,
+                Item: review,
+                ConditionExpression: 'attribute_not_exists(userId)',
+              },
+            },
+            this.booksService.ratingTransactItem(book, review.rating, 1),
+          ],
+        }),
+      );
+      await this.searchService.refreshBook(bookId);
+
+      this.logger.log(`Review of book ${bookId} by ${userId} created`);
+      return review;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create review of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      if (this.dynamoDBService.failedTransactionConditions(error).includes(0)) {
+        throw new ReviewAlreadyExistsException(bookId);
+      }
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  async findByBook(
+    bookId: string,
+    limit: number,
+    lastEvaluatedKey?: string,
+  ): Promise<{
+    message: string;
+    reviews: Review[];
+    lastEvaluatedKey?: string;
+  }> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({
+          TableName: this.tableName,
+          KeyConditionExpression: 'bookId = :bookId',
+          ExpressionAttributeValues: {
+            ':bookId': bookId,
+          },
+          Limit: limit,
+          ExclusiveStartKey: lastEvaluatedKey
+            ? { bookId, userId: lastEvaluatedKey }
+            : undefined,
+        }),
+      );
+
+      const reviews = (response.Items || []) as Review[];
+
+      return {
+        message:
+          reviews.length > 0
+            ? 'Reviews retrieved successfully'
+            : 'No reviews found',
+        reviews,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? response.LastEvaluatedKey.userId
+          : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch reviews of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch reviews');
+    }
+  }
+
+  async findOne(bookId: string, userId: string): Promise<Review> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { bookId, userId },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new ReviewNotFoundException(bookId, userId);
+      }
+
+      return response.Item as Review;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch review of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof ReviewNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch review');
+    }
+  }
+
+  async update(
+    bookId: string,
+    userId: string,
+    updateReviewDto: UpdateReviewDto,
+  ): Promise<Review> {
+    try {
+      if (
+        updateReviewDto.rating === undefined &&
+        updateReviewDto.text === undefined
+      ) {
+        throw new BadRequestException('Nothing to update');
+      }
+
+      const review = await this.findOne(bookId, userId);
+      const book = await this.booksService.findOne(bookId);
+      const updatedReview: Review = {
+        ...review,
+        rating: updateReviewDto.rating ?? review.rating,
+        text: updateReviewDto.text ?? review.text,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const transactItems: TransactWriteItem[] = [
+        {
+          Put: {
+            TableName: this.tableName,
+            Item: updatedReview,
+            ConditionExpression: 'rating = :rating',
+            ExpressionAttributeValues: { ':rating': review.rating },
+          },
+        },
+      ];
+      if (updatedReview.rating !== review.rating) {
+        transactItems.push(
+          this.booksService.ratingTransactItem(
+            book,
+            updatedReview.rating - review.rating,
+            0,
+          ),
+        );
+      }
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({ TransactItems: transactItems }),
+      );
+      await this.searchService.refreshBook(bookId);
+
+      this.logger.log(`Review of book ${bookId} by ${userId} updated`);
+      return updatedReview;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update review of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  // Used by readers on their own review and by admins for moderation
+  async remove(bookId: string, userId: string): Promise<{ message: string }> {
+    try {
+      const review = await this.findOne(bookId, userId);
+
+      let book: Book | undefined;
+      try {
+        book = await this.booksService.findOne(bookId);
+      } catch (error) {
+        if (!(error instanceof NotFoundException)) {
+          throw error;
+        }
+      }
+
+      if (book) {
+        await this.dynamoDBService.documentClient.send(
+          new TransactWriteCommand({
+            TransactItems: [
+              {
+                Delete: {
+                  TableName: this.tableName,
+                  Key: { bookId, userId },
+                  ConditionExpression: 'rating = :rating',
+                  ExpressionAttributeValues: { ':rating': review.rating },
+                },
+              },
+              this.booksService.ratingTransactItem(book, -review.rating, -1),
+            ],
+          }),
+        );
+        await this.searchService.refreshBook(bookId);
+      } else {
+        // The book is gone, there is no average left to maintain
+        await this.dynamoDBService.documentClient.send(
+          new DeleteCommand({
+            TableName: this.tableName,
+            Key: { bookId, userId },
+          }),
+        );
+      }
+
+      this.logger.log(`Review of book ${bookId} by ${userId} deleted`);
+      return { message: 'Review deleted successfully' };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete review of book ${bookId}: ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error, bookId);
+    }
+  }
+
+  private toHttpException(error: any, bookId: string): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    if (this.dynamoDBService.failedTransactionConditions(error).length > 0) {
+      return new HttpException(
+        `The reviews of book "${bookId}" changed concurrently, please retry`,
+        HttpStatus.CONFLICT,
+      );
+    }
+    return new ReviewUpdateException(error.message);
+  }
+}
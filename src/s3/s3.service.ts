@@ -1,17 +1,24 @@
 import {
+  AbortMultipartUploadCommand,
   CompleteMultipartUploadCommand,
   CreateMultipartUploadCommand,
   DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
   PutObjectCommand,
   S3Client,
   UploadPartCommand,
 } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import {
+  BadRequestException,
   Injectable,
   InternalServerErrorException,
   Logger,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
+import { createHash } from 'crypto';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 
 @Injectable()
@@ -53,7 +60,7 @@ export class S3Service {
       });
 
       await this.s3Client.send(command);
-      return `https://${this.bucketName}.s3.amazonaws.com/${key}`;
+      return this.urlOf(key);
     } catch (error) {
       this.logger.error(`Failed to upload file: ${error.message}`, error.stack);
       throw new InternalServerErrorException('Failed to upload file');
@@ -108,7 +115,7 @@ export class S3Service {
         }),
       );
 
-      return `https://${this.bucketName}.s3.amazonaws.com/${key}`;
+      return this.urlOf(key);
     } catch (error) {
       this.logger.error(
         `Failed to upload large file: ${error.message}`,
@@ -118,13 +125,54 @@ export class S3Service {
     }
   }
 
+  // Stores content generated by the server, such as image renditions
+  async uploadBuffer(
+    key: string,
+    body: Buffer,
+    contentType: string,
+  ): Promise<string> {
+    try {
+      await this.s3Client.send(
+        new PutObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+      return this.urlOf(key);
+    } catch (error) {
+      this.logger.error(`Failed to upload file: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to upload file');
+    }
+  }
+
+  // Reads a whole stored file into memory; only for files small enough to
+  // process, such as pictures
+  async downloadFile(key: string): Promise<Buffer> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+        }),
+      );
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      this.logger.error(
+        `Failed to download file: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to download file');
+    }
+  }
+
   async deleteFile(fileUrl: string): Promise<void> {
     try {
-      const key = fileUrl.split('.com/')[1];
       await this.s3Client.send(
         new DeleteObjectCommand({
           Bucket: this.bucketName,
-          Key: key,
+          Key: this.keyOf(fileUrl),
         }),
       );
     } catch (error) {
@@ -132,4 +180,208 @@ export class S3Service {
       throw new InternalServerErrorException('Failed to delete file');
     }
   }
+
+  // A link to a stored file that stops working after expiresIn seconds, so
+  // the file itself can stay private
+  async getPresignedUrl(fileUrl: string, expiresIn: number): Promise<string> {
+    try {
+      return await getSignedUrl(
+        this.s3Client,
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: this.keyOf(fileUrl),
+        }),
+        { expiresIn },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to presign file URL: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to presign file URL');
+    }
+  }
+
+  // Starts a multipart upload whose parts the browser sends straight to S3
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+  ): Promise<string> {
+    try {
+      const response = await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          ContentType: contentType,
+        }),
+      );
+      return response.UploadId;
+    } catch (error) {
+      this.logger.error(
+        `Failed to start multipart upload: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to start upload');
+    }
+  }
+
+  // One presigned PUT per part, numbered from 1
+  async getPartUploadUrls(
+    key: string,
+    uploadId: string,
+    partsCount: number,
+    expiresIn: number,
+  ): Promise<string[]> {
+    try {
+      return await Promise.all(
+        Array.from({ length: partsCount }, (_, i) =>
+          getSignedUrl(
+            this.s3Client,
+            new UploadPartCommand({
+              Bucket: this.bucketName,
+              Key: key,
+              UploadId: uploadId,
+              PartNumber: i + 1,
+            }),
+            { expiresIn },
+          ),
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to presign upload parts: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to presign upload parts');
+    }
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[],
+  ): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: parts.map((part) => ({
+              ETag: part.etag,
+              PartNumber: part.partNumber,
+            })),
+          },
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete multipart upload: ${error.message}`,
+        error.stack,
+      );
+      // The parts listed are not the ones S3 received
+      if (
+        ['InvalidPart', 'InvalidPartOrder', 'EntityTooSmall'].includes(
+          error.name,
+        )
+      ) {
+        throw new BadRequestException(
+          `The uploaded parts cannot be assembled: ${error.message}`,
+        );
+      }
+      throw new InternalServerErrorException('Failed to complete upload');
+    }
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+        }),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to abort multipart upload: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to abort upload');
+    }
+  }
+
+  // Streams the stored file once for its size, SHA-256 and leading bytes,
+  // without holding it in memory
+  async inspectFile(
+    key: string,
+  ): Promise<{ size: number; sha256: string; head: Buffer }> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+        }),
+      );
+
+      const hash = createHash('sha256');
+      let size = 0;
+      let head = Buffer.alloc(0);
+      for await (const chunk of response.Body as Readable) {
+        hash.update(chunk);
+        size += chunk.length;
+        if (head.length < 16) {
+          head = Buffer.concat([head, chunk]).subarray(0, 16);
+        }
+      }
+
+      return { size, sha256: hash.digest('hex'), head };
+    } catch (error) {
+      this.logger.error(
+        `Failed to inspect file: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to inspect file');
+    }
+  }
+
+  // Every object stored under the prefix, listed a page at a time
+  async *listFiles(
+    prefix: string,
+  ): AsyncGenerator<{ key: string; size: number; lastModified: Date }> {
+    let continuationToken: string | undefined;
+    try {
+      do {
+        const response = await this.s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucketName,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+
+        for (const object of response.Contents ?? []) {
+          yield {
+            key: object.Key,
+            size: object.Size,
+            lastModified: object.LastModified,
+          };
+        }
+        continuationToken = response.NextContinuationToken;
+      } while (continuationToken);
+    } catch (error) {
+      this.logger.error(`Failed to list files: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to list files');
+    }
+  }
+
+  // Files are stored by their public-style URL; the key is the path
+  urlOf(key: string): string {
+    return `https://${this.bucketName}.s3.amazonaws.com/${key}`;
+  }
+
+  keyOf(fileUrl: string): string {
+    return fileUrl.split('.com/')[1];
+  }
 }
@@ -0,0 +1,36 @@
+import { Transform } from 'class-transformer';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { SearchDocumentType } from '../interfaces/search-engine.interface';
+
+export class SearchQueryDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  q: string;
+
+  @IsEnum(SearchDocumentType)
+  @IsOptional()
+  type?: SearchDocumentType;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10))
+  limit?: number;
+
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10))
+  offset?: number;
+}
@@ -0,0 +1,114 @@
+import { InMemorySearchEngine } from './in-memory-search.engine';
+import { SearchDocumentType } from '../interfaces/search-engine.interface';
+
+describe('InMemorySearchEngine', () => {
+  let engine: InMemorySearchEngine;
+
+  const book = (id: string, title: string, author?: string, isbn?: string) => ({
+    type: SearchDocumentType.BOOK,
+    id,
+    label: title,
+    fields: [
+      { value: title, weight: 3 },
+      { value: isbn, weight: 3 },
+      { value: author, weight: 2 },
+    ],
+  });
+
+  beforeEach(async () => {
+    engine = new InMemorySearchEngine();
+    await engine.upsert(
+      book('1', 'Les Misérables', 'Victor Hugo', '978-0-14-044430-8'),
+    );
+    await engine.upsert(book('2', 'Notre-Dame de Paris', 'Victor Hugo'));
+    await engine.upsert(book('3', 'Germinal', 'Émile Zola'));
+    await engine.upsert({
+      type: SearchDocumentType.AUTHOR,
+      id: 'a1',
+      label: 'Victor Hugo',
+      fields: [{ value: 'Victor Hugo', weight: 3 }],
+    });
+  });
+
+  const search = (query: string, types?: SearchDocumentType[]) =>
+    engine.search(query, { types, limit: 10, offset: 0 });
+
+  it('should fold case and diacritics', async () => {
+    const { hits } = await search('MISERABLES');
+    expect(hits.map((hit) => hit.id)).toEqual(['1']);
+
+    expect((await search('emile')).hits.map((hit) => hit.id)).toEqual(['3']);
+  });
+
+  it('should match prefixes and rank exact matches first', async () => {
+    await engine.upsert(book('4', 'Hugoland', 'Someone Else'));
+
+    const { hits } = await search('hugo', [SearchDocumentType.BOOK]);
+
+    expect(hits.map((hit) => hit.id).slice(-1)).toEqual(['4']);
+    expect(hits).toHaveLength(3);
+  });
+
+  it('should require every query term to match', async () => {
+    const { hits } = await search('victor notre');
+    expect(hits.map((hit) => hit.id)).toEqual(['2']);
+  });
+
+  it('should find a book by its ISBN with or without hyphens', async () => {
+    expect((await search('9780140444308')).hits[0].id).toBe('1');
+    expect((await search('978-0-14-044430-8')).hits[0].id).toBe('1');
+  });
+
+  it('should forget removed and replaced documents', async () => {
+    await engine.remove(SearchDocumentType.BOOK, '3');
+    await engine.upsert(book('2', 'The Hunchback', 'Victor Hugo'));
+
+    expect((await search('germinal')).total).toBe(0);
+    expect((await search('notre')).total).toBe(0);
+    expect((await search('hunchback')).total).toBe(1);
+  });
+
+  it('should page through results', async () => {
+    const page = await engine.search('victor', {
+      limit: 1,
+      offset: 1,
+    });
+
+    expect(page.total).toBe(3);
+    expect(page.hits).toHaveLength(1);
+  });
+
+  it('should keep facet counts in step with upserts and removals', async () => {
+    const tagged = (id: string, tags: string[], year: number) => ({
+      ...book(id, id),
+      facets: { tags },
+      values: { publishedYear: year },
+    });
+    await engine.upsert(tagged('1', ['classics', 'france'], 1862));
+    await engine.upsert(tagged('2', ['france'], 1831));
+    await engine.upsert(tagged('3', ['france'], 1885));
+    await engine.remove(SearchDocumentType.BOOK, '3');
+    await engine.upsert(tagged('2', ['gothic'], 1831));
+
+    const browse = (min?: number) =>
+      engine.browse({
+        type: SearchDocumentType.BOOK,
+        filters: min ? { publishedYear: { value: 'publishedYear', min } } : {},
+        facets: { tags: 'tags' },
+        sortBy: 'publishedYear',
+        sortOrder: 'desc',
+        limit: 10,
+        offset: 0,
+      });
+
+    expect(await browse()).toEqual({
+      ids: ['1', '2'],
+      total: 2,
+      facets: { tags: { classics: 1, france: 1, gothic: 1 } },
+    });
+    expect((await browse(1850)).facets.tags).toEqual({
+      classics: 1,
+      france: 1,
+    });
+  });
+});
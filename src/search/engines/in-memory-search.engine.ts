@@ -0,0 +1,370 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BrowseFilter,
+  BrowseOptions,
+  BrowseResults,
+  SearchDocument,
+  SearchDocumentType,
+  SearchEngine,
+  SearchHit,
+  SearchOptions,
+  SearchResults,
+} from '../interfaces/search-engine.interface';
+
+// A prefix match counts for half of an exact one
+const PREFIX_MATCH_FACTOR = 0.5;
+
+// Lower-cases and strips diacritics, so "Émile" and "emile" are the same term
+export function foldText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+// Words split on punctuation are indexed both apart and joined, so
+// "978-0-14-044913-6" is found by its parts and by "9780140449136"
+export function indexTerms(text?: string): string[] {
+  if (!text) {
+    return [];
+  }
+
+  const terms: string[] = [];
+  for (const chunk of foldText(text).split(/\s+/)) {
+    const parts = chunk.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    terms.push(...parts);
+    if (parts.length > 1) {
+      terms.push(parts.join(''));
+    }
+  }
+  return terms;
+}
+
+// Hyphenated numbers such as ISBNs are looked up joined, anything else by
+// its parts
+export function queryTerms(text: string): string[] {
+  const terms: string[] = [];
+  for (const chunk of foldText(text).split(/\s+/)) {
+    const parts = chunk.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+    if (parts.length > 1 && parts.every((part) => /^\d+$/.test(part))) {
+      terms.push(parts.join(''));
+    } else {
+      terms.push(...parts);
+    }
+  }
+  return [...new Set(terms)];
+}
+
+interface IndexedDocument {
+  document: SearchDocument;
+  // Best field weight each term appears with
+  terms: Map<string, number>;
+}
+
+@Injectable()
+export class InMemorySearchEngine implements SearchEngine {
+  private readonly documents = new Map<string, IndexedDocument>();
+  private readonly postings = new Map<string, Set<string>>();
+  // Sorted copy of the postings keys for prefix lookups, rebuilt on demand
+  private sortedTerms: string[] | undefined;
+  private readonly typeKeys = new Map<SearchDocumentType, Set<string>>();
+  // Documents per facet value, kept per type and facet so counting an
+  // unfiltered facet is reading set sizes
+  private readonly facetPostings = new Map<string, Map<string, Set<string>>>();
+
+  async upsert(document: SearchDocument): Promise<void> {
+    const key = this.documentKey(document.type, document.id);
+    this.removeByKey(key);
+
+    const terms = new Map<string, number>();
+    for (const field of document.fields) {
+      for (const term of indexTerms(field.value)) {
+        terms.set(term, Math.max(terms.get(term) ?? 0, field.weight));
+      }
+    }
+
+    for (const term of terms.keys()) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+        this.sortedTerms = undefined;
+      }
+      this.postings.get(term).add(key);
+    }
+    for (const [facet, values] of Object.entries(document.facets ?? {})) {
+      const postings =
+        this.facetPostings.get(this.facetKey(document.type, facet)) ??
+        new Map<string, Set<string>>();
+      this.facetPostings.set(this.facetKey(document.type, facet), postings);
+      for (const value of values) {
+        if (!postings.has(value)) {
+          postings.set(value, new Set());
+        }
+        postings.get(value).add(key);
+      }
+    }
+    if (!this.typeKeys.has(document.type)) {
+      this.typeKeys.set(document.type, new Set());
+    }
+    this.typeKeys.get(document.type).add(key);
+    this.documents.set(key, { document, terms });
+  }
+
+  async remove(type: SearchDocumentType, id: string): Promise<void> {
+    this.removeByKey(this.documentKey(type, id));
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResults> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) {
+      return { hits: [], total: 0 };
+    }
+
+    // Every query term has to match; a document's score adds up the best
+    // match of each term, weighted by field and by how rare the query term
+    // is across all of its prefix expansions
+    let scores: Map<string, number> | undefined;
+    for (const queryTerm of terms) {
+      const termScores = new Map<string, number>();
+      const expansions = this.termsWithPrefix(queryTerm);
+      const matchingKeys = new Set(
+        expansions.flatMap((term) => [...this.postings.get(term)]),
+      );
+      const idf = Math.log(1 + this.documents.size / (matchingKeys.size || 1));
+
+      for (const term of expansions) {
+        const keys = this.postings.get(term);
+        const exactness = term === queryTerm ? 1 : PREFIX_MATCH_FACTOR;
+
+        for (const key of keys) {
+          if (scores && !scores.has(key)) {
+            continue;
+          }
+          const { document, terms: documentTerms } = this.documents.get(key);
+          if (options.types?.length && !options.types.includes(document.type)) {
+            continue;
+          }
+
+          const score = documentTerms.get(term) * idf * exactness;
+          termScores.set(key, Math.max(termScores.get(key) ?? 0, score));
+        }
+      }
+
+      if (scores) {
+        for (const [key, score] of termScores) {
+          termScores.set(key, score + scores.get(key));
+        }
+      }
+      scores = termScores;
+    }
+
+    const hits: SearchHit[] = [...scores.entries()]
+      .map(([key, score]) => {
+        const { document } = this.documents.get(key);
+        return {
+          type: document.type,
+          id: document.id,
+          label: document.label,
+          score: Math.round(score * 1000) / 1000,
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label));
+
+    return {
+      hits: hits.slice(options.offset, options.offset + options.limit),
+      total: hits.length,
+    };
+  }
+
+  // Filters are answered from the facet postings, or for bounds from the
+  // documents' values. A facet is counted over the documents passing every
+  // other filter; with no other filter applied that is its postings' sizes
+  async browse(options: BrowseOptions): Promise<BrowseResults> {
+    const typeKeys = this.typeKeys.get(options.type) ?? new Set<string>();
+    const filterNames = Object.keys(options.filters);
+    const filtered = new Map(
+      filterNames.map((name) => [
+        name,
+        this.filterKeys(options.type, options.filters[name], typeKeys),
+      ]),
+    );
+    const matchingAllBut = (excluded?: string) =>
+      this.intersect(
+        typeKeys,
+        filterNames
+          .filter((name) => name !== excluded)
+          .map((name) => filtered.get(name)),
+      );
+
+    const direction = options.sortOrder === 'asc' ? 1 : -1;
+    const matches = [...matchingAllBut()]
+      .map((key) => this.documents.get(key).document)
+      .sort(
+        (a, b) =>
+          this.compareValues(
+            a.values?.[options.sortBy],
+            b.values?.[options.sortBy],
+            direction,
+          ) || a.id.localeCompare(b.id),
+      );
+
+    const facets: Record<string, Record<string, number>> = {};
+    for (const [name, facet] of Object.entries(options.facets)) {
+      const pool = matchingAllBut(name);
+      facets[name] = {};
+      for (const [value, keys] of this.facetPostings.get(
+        this.facetKey(options.type, facet),
+      ) ?? []) {
+        const count = pool === typeKeys ? keys.size : this.overlap(keys, pool);
+        if (count > 0) {
+          facets[name][value] = count;
+        }
+      }
+    }
+
+    return {
+      ids: matches
+        .slice(options.offset, options.offset + options.limit)
+        .map((document) => document.id),
+      total: matches.length,
+      facets,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.postings.clear();
+    this.sortedTerms = undefined;
+    this.typeKeys.clear();
+    this.facetPostings.clear();
+  }
+
+  private removeByKey(key: string): void {
+    const indexed = this.documents.get(key);
+    if (!indexed) {
+      return;
+    }
+
+    for (const term of indexed.terms.keys()) {
+      const keys = this.postings.get(term);
+      keys.delete(key);
+      if (keys.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = undefined;
+      }
+    }
+    const { type, facets } = indexed.document;
+    for (const [facet, values] of Object.entries(facets ?? {})) {
+      const postings = this.facetPostings.get(this.facetKey(type, facet));
+      for (const value of values) {
+        postings.get(value)?.delete(key);
+        if (postings.get(value)?.size === 0) {
+          postings.delete(value);
+        }
+      }
+    }
+    this.typeKeys.get(type).delete(key);
+    this.documents.delete(key);
+  }
+
+  private filterKeys(
+    type: SearchDocumentType,
+    filter: BrowseFilter,
+    typeKeys: Set<string>,
+  ): Set<string> {
+    if ('facet' in filter) {
+      const postings = this.facetPostings.get(
+        this.facetKey(type, filter.facet),
+      );
+      return new Set(
+        filter.values.flatMap((value) => [...(postings?.get(value) ?? [])]),
+      );
+    }
+
+    const keys = new Set<string>();
+    for (const key of typeKeys) {
+      const value = this.documents.get(key).document.values?.[filter.value];
+      if (
+        typeof value === 'number' &&
+        (filter.min === undefined || value >= filter.min) &&
+        (filter.max === undefined || value <= filter.max)
+      ) {
+        keys.add(key);
+      }
+    }
+    return keys;
+  }
+
+  // The base itself when nothing narrows it
+  private intersect(base: Set<string>, sets: Set<string>[]): Set<string> {
+    if (sets.length === 0) {
+      return base;
+    }
+
+    const [smallest, ...others] = [...sets].sort((a, b) => a.size - b.size);
+    return new Set(
+      [...smallest].filter((key) => others.every((set) => set.has(key))),
+    );
+  }
+
+  private overlap(a: Set<string>, b: Set<string>): number {
+    const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+    let count = 0;
+    for (const key of smaller) {
+      if (larger.has(key)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Documents without a value, such as unrated books, always come last
+  private compareValues(
+    a: string | number | undefined,
+    b: string | number | undefined,
+    direction: number,
+  ): number {
+    if (a === undefined || b === undefined) {
+      return a === b ? 0 : a === undefined ? 1 : -1;
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+      return direction * a.localeCompare(b);
+    }
+    return direction * (Number(a) - Number(b));
+  }
+
+  private termsWithPrefix(prefix: string): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+
+    // Binary search for the first term not below the prefix
+    let low = 0;
+    let high = this.sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.sortedTerms[middle] < prefix) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    const terms: string[] = [];
+    for (
+      let i = low;
+      i < this.sortedTerms.length && this.sortedTerms[i].startsWith(prefix);
+      i++
+    ) {
+      terms.push(this.sortedTerms[i]);
+    }
+    return terms;
+  }
+
+  private documentKey(type: SearchDocumentType, id: string): string {
+    return `${type}:${id}`;
+  }
+
+  private facetKey(type: SearchDocumentType, facet: string): string {
+    return `${type}:${facet}`;
+  }
+}
@@ -0,0 +1,80 @@
+export const SEARCH_ENGINE = 'SEARCH_ENGINE';
+
+export enum SearchDocumentType {
+  BOOK = 'BOOK',
+  AUTHOR = 'AUTHOR',
+  CATEGORY = 'CATEGORY',
+  SERIES = 'SERIES',
+}
+
+export interface SearchField {
+  value?: string;
+  // Relative importance of a match in this field when scoring
+  weight: number;
+}
+
+export interface SearchDocument {
+  type: SearchDocumentType;
+  id: string;
+  // Shown in results, usually the title or name
+  label: string;
+  fields: SearchField[];
+  // Exact values the document is filtered and counted by, such as its
+  // category or its tags
+  facets?: Record<string, string[]>;
+  // Values the document is filtered by range and sorted by
+  values?: Record<string, string | number>;
+}
+
+export interface SearchHit {
+  type: SearchDocumentType;
+  id: string;
+  label: string;
+  score: number;
+}
+
+export interface SearchOptions {
+  types?: SearchDocumentType[];
+  limit: number;
+  offset: number;
+}
+
+export interface SearchResults {
+  hits: SearchHit[];
+  total: number;
+}
+
+// Matches documents with any of the values in a facet, or with a value
+// within the bounds
+export type BrowseFilter =
+  | { facet: string; values: string[] }
+  | { value: string; min?: number; max?: number };
+
+export interface BrowseOptions {
+  type: SearchDocumentType;
+  filters: Record<string, BrowseFilter>;
+  // Facets to count, each under the name of the filter it is counted
+  // without, so the counts show the alternatives to that filter's selection
+  facets: Record<string, string>;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  limit: number;
+  offset: number;
+}
+
+export interface BrowseResults {
+  ids: string[];
+  total: number;
+  // Matching documents per facet value
+  facets: Record<string, Record<string, number>>;
+}
+
+// Implemented in process by InMemorySearchEngine; an external engine can be
+// bound to the SEARCH_ENGINE token instead
+export interface SearchEngine {
+  upsert(document: SearchDocument): Promise<void>;
+  remove(type: SearchDocumentType, id: string): Promise<void>;
+  search(query: string, options: SearchOptions): Promise<SearchResults>;
+  browse(options: BrowseOptions): Promise<BrowseResults>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchController } from './search.controller';
+import { SearchService } from './search.service';
+import { SearchDocumentType } from './interfaces/search-engine.interface';
+
+describe('SearchController', () => {
+  let controller: SearchController;
+  let searchService: { search: jest.Mock };
+
+  beforeEach(async () => {
+    searchService = {
+      search: jest.fn().mockResolvedValue({ hits: [], total: 0 }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SearchController],
+      providers: [{ provide: SearchService, useValue: searchService }],
+    }).compile();
+
+    controller = module.get<SearchController>(SearchController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should restrict the search to the requested type', async () => {
+    const result = await controller.search({
+      q: 'dune',
+      type: SearchDocumentType.AUTHOR,
+    });
+
+    expect(searchService.search).toHaveBeenCalledWith('dune', {
+      types: [SearchDocumentType.AUTHOR],
+      limit: 10,
+      offset: 0,
+    });
+    expect(result.message).toBe('No results found matching "dune"');
+  });
+});
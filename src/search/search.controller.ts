@@ -0,0 +1,35 @@
+import { Controller, Get, Query, ValidationPipe } from '@nestjs/common';
+import { ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SearchService } from './search.service';
+import { SearchQueryDto } from './dto/search-query.dto';
+import { SearchHit } from './interfaces/search-engine.interface';
+
+@Controller('search')
+export class SearchController {
+  constructor(private readonly searchService: SearchService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Search books, authors, categories and series' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns matches ordered by relevance',
+  })
+  async search(
+    @Query(new ValidationPipe({ transform: true })) query: SearchQueryDto,
+  ): Promise<{ message: string; hits: SearchHit[]; total: number }> {
+    const { hits, total } = await this.searchService.search(query.q, {
+      types: query.type ? [query.type] : undefined,
+      limit: query.limit ?? 10,
+      offset: query.offset ?? 0,
+    });
+
+    return {
+      message:
+        total > 0
+          ? `Found ${total} results matching "${query.q}"`
+          : `No results found matching "${query.q}"`,
+      hits,
+      total,
+    };
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { SearchService } from './search.service';
+import { SearchController } from './search.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { InMemorySearchEngine } from './engines/in-memory-search.engine';
+import { SEARCH_ENGINE } from './interfaces/search-engine.interface';
+
+@Module({
+  imports: [DynamoDBModule],
+  controllers: [SearchController],
+  providers: [
+    SearchService,
+    { provide: SEARCH_ENGINE, useClass: InMemorySearchEngine },
+  ],
+  exports: [SearchService],
+})
+export class SearchModule {}
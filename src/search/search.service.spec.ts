@@ -0,0 +1,342 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SearchService, branchFacet } from './search.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { InMemorySearchEngine } from './engines/in-memory-search.engine';
+import {
+  BrowseFilter,
+  SEARCH_ENGINE,
+  SearchDocumentType,
+} from './interfaces/search-engine.interface';
+import { CopyStatus } from '../copies/interfaces/copy.interface';
+
+describe('SearchService', () => {
+  let service: SearchService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SearchService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        { provide: SEARCH_ENGINE, useClass: InMemorySearchEngine },
+      ],
+    }).compile();
+
+    service = module.get<SearchService>(SearchService);
+  });
+
+  const search = (query: string) =>
+    service.search(query, {
+      types: [SearchDocumentType.BOOK],
+      limit: 10,
+      offset: 0,
+    });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should index books under their author name', async () => {
+    send.mockImplementation(async (command) => {
+      const { TableName } = command.input;
+      if (TableName === 'Authors') {
+        return { Items: [{ id: 'a1', name: 'Ursula K. Le Guin' }] };
+      }
+      if (TableName === 'Books') {
+        return {
+          Items: [{ id: 'b1', title: 'The Dispossessed', authorId: 'a1' }],
+        };
+      }
+      return { Items: [] };
+    });
+
+    await service.rebuild();
+
+    expect((await search('guin')).hits.map((hit) => hit.id)).toEqual(['b1']);
+  });
+
+  it('should index series by name', async () => {
+    send.mockImplementation(async (command) =>
+      command.input.TableName === 'Series'
+        ? { Items: [{ id: 's1', name: 'The Earthsea Cycle' }] }
+        : { Items: [] },
+    );
+
+    await service.rebuild();
+
+    const results = await service.search('earthsea', {
+      types: [SearchDocumentType.SERIES],
+      limit: 10,
+      offset: 0,
+    });
+    expect(results.hits.map((hit) => hit.id)).toEqual(['s1']);
+  });
+
+  // Answers the batch gets of authors and books and the queries for an
+  // author's books from the tables given
+  const mockTables = (tables: Record<string, Record<string, any>[]>) =>
+    send.mockImplementation(async ({ input }) => {
+      if (input.RequestItems) {
+        const [[tableName, { Keys }]] = Object.entries<any>(input.RequestItems);
+        const ids = Keys.map((key) => key.id);
+        return {
+          Responses: {
+            [tableName]: tables[tableName].filter((item) =>
+              ids.includes(item.id),
+            ),
+          },
+        };
+      }
+      if (input.TableName === 'Copies') {
+        return { Items: [] };
+      }
+      const authorId = input.ExpressionAttributeValues[':authorId'];
+      return {
+        Items: input.IndexName
+          ? tables.Books.filter((book) => book.authorId === authorId)
+          : tables.BookContributors.filter(
+              (link) => link.authorId === authorId,
+            ),
+      };
+    });
+
+  it('should re-index the books of a renamed author', async () => {
+    const authors = [{ id: 'a1', name: 'Old Name' }];
+    const books = [{ id: 'b1', title: 'Earthsea', authorId: 'a1' }];
+    mockTables({ Authors: authors, Books: books, BookContributors: [] });
+    await service.indexBook(books[0] as any);
+
+    authors[0].name = 'New Name';
+    await service.indexAuthor(authors[0] as any);
+
+    expect((await search('old')).total).toBe(0);
+    expect((await search('new name')).total).toBe(1);
+  });
+
+  it('should index every contributor, authors first', async () => {
+    mockTables({
+      Authors: [
+        { id: 'a1', name: 'Homer' },
+        { id: 'a2', name: 'Robert Fagles' },
+      ],
+      Books: [],
+      BookContributors: [],
+    });
+    await service.indexBook({
+      id: 'b1',
+      title: 'The Odyssey',
+      authorId: 'a1',
+      contributors: [
+        { authorId: 'a1', role: 'AUTHOR' },
+        { authorId: 'a2', role: 'TRANSLATOR' },
+      ],
+    } as any);
+    await service.indexBook({
+      id: 'b2',
+      title: 'The Aeneid',
+      authorId: 'a2',
+    } as any);
+
+    const hits = (await search('fagles')).hits;
+    expect(hits.map((hit) => hit.id)).toEqual(['b2', 'b1']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should re-index the books a renamed contributor is credited on', async () => {
+    const authors = [
+      { id: 'a1', name: 'Homer' },
+      { id: 'a2', name: 'Robert Fagles' },
+    ];
+    const books = [
+      {
+        id: 'b1',
+        title: 'The Odyssey',
+        authorId: 'a1',
+        contributors: [
+          { authorId: 'a1', role: 'AUTHOR' },
+          { authorId: 'a2', role: 'TRANSLATOR' },
+        ],
+      },
+    ];
+    mockTables({
+      Authors: authors,
+      Books: books,
+      BookContributors: [
+        { authorId: 'a1', bookId: 'b1' },
+        { authorId: 'a2', bookId: 'b1' },
+      ],
+    });
+    await service.indexBook(books[0] as any);
+
+    authors[1].name = 'Emily Wilson';
+    await service.indexAuthor(authors[1] as any);
+
+    expect((await search('fagles')).total).toBe(0);
+    expect((await search('wilson')).hits.map((hit) => hit.id)).toEqual(['b1']);
+  });
+
+  it('should not fail the write when indexing fails', async () => {
+    send.mockRejectedValueOnce(new Error('throttled'));
+
+    await expect(
+      service.indexBook({ id: 'b1', title: 'Earthsea' } as any),
+    ).resolves.toBeUndefined();
+  });
+
+  describe('browse', () => {
+    const books = [
+      {
+        id: 'b1',
+        title: 'Dune',
+        categoryId: 'scifi',
+        authorId: 'herbert',
+        publishedYear: 1965,
+        quantity: 2,
+        rating: 4.5,
+        tags: ['classics', 'desert'],
+      },
+      {
+        id: 'b2',
+        title: 'Children of Dune',
+        categoryId: 'scifi',
+        authorId: 'herbert',
+        publishedYear: 1976,
+        quantity: 0,
+        rating: 3.2,
+        tags: ['desert'],
+      },
+      {
+        id: 'b3',
+        title: 'Emma',
+        categoryId: 'classics',
+        authorId: 'austen',
+        publishedYear: 1815,
+        quantity: 1,
+        contributors: [
+          { authorId: 'austen', role: 'AUTHOR' },
+          { authorId: 'herbert', role: 'EDITOR' },
+          { authorId: 'herbert', role: 'TRANSLATOR' },
+        ],
+      },
+    ];
+    const copies = [
+      { bookId: 'b1', branchId: 'north', status: CopyStatus.ON_LOAN },
+      { bookId: 'b1', branchId: 'north', status: CopyStatus.ON_LOAN },
+      { bookId: 'b1', branchId: 'south', status: CopyStatus.AVAILABLE },
+      { bookId: 'b2', branchId: 'north', status: CopyStatus.AVAILABLE },
+    ];
+
+    beforeEach(async () => {
+      send.mockImplementation(async ({ input }) => ({
+        Items:
+          input.TableName === 'Books'
+            ? books
+            : input.TableName === 'Copies'
+              ? copies
+              : [],
+      }));
+      await service.rebuild();
+    });
+
+    const browse = (
+      filters: Record<string, BrowseFilter>,
+      sortBy = 'title',
+      statusFacet = 'status',
+    ) =>
+      service.browse({
+        type: SearchDocumentType.BOOK,
+        filters,
+        facets: {
+          categoryId: 'categoryId',
+          authorId: 'authorId',
+          status: statusFacet,
+          publishedYear: 'publishedYear',
+          rating: 'rating',
+          tags: 'tags',
+        },
+        sortBy,
+        sortOrder: 'asc',
+        limit: 10,
+        offset: 0,
+      });
+
+    it('should combine filters and sort the matches', async () => {
+      const { ids, total } = await browse(
+        {
+          categoryId: { facet: 'categoryId', values: ['scifi'] },
+          rating: { value: 'rating', min: 3 },
+        },
+        'publishedYear',
+      );
+
+      expect(ids).toEqual(['b1', 'b2']);
+      expect(total).toBe(2);
+    });
+
+    it('should count each facet without its own filter', async () => {
+      const { facets } = await browse({
+        categoryId: { facet: 'categoryId', values: ['scifi'] },
+        status: { facet: 'status', values: ['AVAILABLE'] },
+      });
+
+      expect(facets.categoryId).toEqual({ classics: 1, scifi: 1 });
+      expect(facets.status).toEqual({ AVAILABLE: 1, UNAVAILABLE: 1 });
+      expect(facets.rating).toEqual({ 1: 1, 2: 1, 3: 1, 4: 1 });
+      expect(facets.publishedYear).toEqual({ 1960: 1 });
+    });
+
+    it('should match and count every contributor of a book', async () => {
+      const { ids, facets } = await browse({
+        authorId: { facet: 'authorId', values: ['herbert'] },
+      });
+
+      expect(ids).toEqual(['b2', 'b1', 'b3']);
+      expect(facets.authorId).toEqual({ herbert: 3, austen: 1 });
+    });
+
+    it('should filter by tag and count the tags of the matches', async () => {
+      const { ids, facets } = await browse({
+        tags: { facet: 'tags', values: ['classics'] },
+      });
+
+      expect(ids).toEqual(['b1']);
+      expect(facets.tags).toEqual({ classics: 1, desert: 2 });
+    });
+
+    it('should count availability at a branch', async () => {
+      const { ids, facets } = await browse(
+        {
+          branchId: {
+            facet: branchFacet('north'),
+            values: ['AVAILABLE', 'UNAVAILABLE'],
+          },
+        },
+        'title',
+        branchFacet('north'),
+      );
+
+      expect(ids).toEqual(['b2', 'b1']);
+      expect(facets.status).toEqual({ AVAILABLE: 1, UNAVAILABLE: 1 });
+    });
+
+    it('should pick up a book written outside the books service', async () => {
+      send.mockImplementation(async ({ input }) =>
+        input.TableName === 'Books'
+          ? { Item: { ...books[1], quantity: 1 } }
+          : { Items: [] },
+      );
+
+      await service.refreshBook('b2');
+
+      const { ids } = await browse({
+        status: { facet: 'status', values: ['AVAILABLE'] },
+      });
+      expect(ids).toEqual(['b2', 'b1', 'b3']);
+    });
+  });
+});
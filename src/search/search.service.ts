@@ -0,0 +1,458 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import {
+  BatchGetCommand,
+  GetCommand,
+  QueryCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import {
+  Book,
+  BookStatus,
+  Contributor,
+  ContributorRole,
+} from '../books/interfaces/book.interface';
+import { Copy, CopyStatus } from '../copies/interfaces/copy.interface';
+import { Author } from '../authors/interfaces/author.interface';
+import { Category } from '../categories/interfaces/category.interface';
+import { Series } from '../series/interfaces/series.interface';
+import {
+  BrowseOptions,
+  BrowseResults,
+  SEARCH_ENGINE,
+  SearchDocument,
+  SearchDocumentType,
+  SearchEngine,
+  SearchOptions,
+  SearchResults,
+} from './interfaces/search-engine.interface';
+
+// The facet holding a book's availability at a branch, present only for
+// branches with copies of the book
+export function branchFacet(branchId: string): string {
+  return `branch:${branchId}`;
+}
+
+@Injectable()
+export class SearchService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(SearchService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    @Inject(SEARCH_ENGINE) private readonly searchEngine: SearchEngine,
+  ) {}
+
+  async onApplicationBootstrap() {
+    await this.rebuild();
+  }
+
+  // Loads every book, author, category and series into the engine. The in-process
+  // index starts empty on each boot, so this runs once the tables exist
+  async rebuild(): Promise<void> {
+    try {
+      const [authors, categories, series, books, copies] = await Promise.all([
+        this.scanAll<Author>('Authors'),
+        this.scanAll<Category>('Categories'),
+        this.scanAll<Series>('Series'),
+        this.scanAll<Book>('Books'),
+        this.scanAll<Copy>('Copies'),
+      ]);
+      const authorNames = new Map(
+        authors.map((author) => [author.id, author.name]),
+      );
+      const copiesByBook = new Map<string, Copy[]>();
+      for (const copy of copies) {
+        copiesByBook.set(copy.bookId, [
+          ...(copiesByBook.get(copy.bookId) ?? []),
+          copy,
+        ]);
+      }
+
+      await this.searchEngine.clear();
+      for (const author of authors) {
+        await this.searchEngine.upsert(this.authorDocument(author));
+      }
+      for (const category of categories) {
+        await this.searchEngine.upsert(this.categoryDocument(category));
+      }
+      for (const oneSeries of series) {
+        await this.searchEngine.upsert(this.seriesDocument(oneSeries));
+      }
+      for (const book of books) {
+        await this.searchEngine.upsert(
+          this.bookDocument(book, authorNames, copiesByBook.get(book.id) ?? []),
+        );
+      }
+
+      this.logger.log(
+        `Search index built with ${books.length} books, ${authors.length} authors, ${categories.length} categories and ${series.length} series`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to build search index: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async search(query: string, options: SearchOptions): Promise<SearchResults> {
+    return this.searchEngine.search(query, options);
+  }
+
+  async browse(options: BrowseOptions): Promise<BrowseResults> {
+    return this.searchEngine.browse(options);
+  }
+
+  // Index updates never fail the write that triggered them; a missed update
+  // is repaired by the next rebuild
+  async indexBook(book: Book): Promise<void> {
+    try {
+      const [authors, copies] = await Promise.all([
+        this.batchGet<Pick<Author, 'id' | 'name'>>(
+          'Authors',
+          [
+            ...new Set(
+              this.contributorsOf(book).map(({ authorId }) => authorId),
+            ),
+          ],
+          ['id', 'name'],
+        ),
+        this.queryAll<Copy>({
+          TableName: 'Copies',
+          IndexName: 'BookIndex',
+          KeyConditionExpression: 'bookId = :bookId',
+          ExpressionAttributeValues: { ':bookId': book.id },
+        }),
+      ]);
+
+      await this.searchEngine.upsert(
+        this.bookDocument(
+          book,
+          new Map(authors.map((author) => [author.id, author.name])),
+          copies,
+        ),
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to index book ${book.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Re-reads a book whose quantity, copies, rating or tags were written
+  // outside the books service's create and update
+  async refreshBook(id: string): Promise<void> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({ TableName: 'Books', Key: { id } }),
+      );
+
+      if (response.Item) {
+        await this.indexBook(response.Item as Book);
+      } else {
+        await this.removeBook(id);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to refresh book ${id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async removeBook(id: string): Promise<void> {
+    await this.removeDocument(SearchDocumentType.BOOK, id);
+  }
+
+  // Books carry their contributors' names, so a renamed author is re-indexed
+  // with every book they contributed to. Those are linked in
+  // BookContributors, except books catalogued before contributors, which are
+  // found as the primary author's
+  async indexAuthor(author: Author): Promise<void> {
+    try {
+      await this.searchEngine.upsert(this.authorDocument(author));
+
+      const [links, primaryBooks] = await Promise.all([
+        this.queryAll<{ bookId: string }>({
+          TableName: 'BookContributors',
+          KeyConditionExpression: 'authorId = :authorId',
+          ExpressionAttributeValues: { ':authorId': author.id },
+        }),
+        this.queryAll<Book>({
+          TableName: 'Books',
+          IndexName: 'AuthorIndex',
+          KeyConditionExpression: 'authorId = :authorId',
+          ExpressionAttributeValues: { ':authorId': author.id },
+        }),
+      ]);
+      const primaryBookIds = new Set(primaryBooks.map((book) => book.id));
+      const linkedBooks = await this.batchGet<Book>(
+        'Books',
+        links
+          .map((link) => link.bookId)
+          .filter((bookId) => !primaryBookIds.has(bookId)),
+      );
+
+      for (const book of [...primaryBooks, ...linkedBooks]) {
+        await this.indexBook(book);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to index author ${author.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async removeAuthor(id: string): Promise<void> {
+    await this.removeDocument(SearchDocumentType.AUTHOR, id);
+  }
+
+  async indexCategory(category: Category): Promise<void> {
+    try {
+      await this.searchEngine.upsert(this.categoryDocument(category));
+    } catch (error) {
+      this.logger.error(
+        `Failed to index category ${category.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async removeCategory(id: string): Promise<void> {
+    await this.removeDocument(SearchDocumentType.CATEGORY, id);
+  }
+
+  async indexSeries(series: Series): Promise<void> {
+    try {
+      await this.searchEngine.upsert(this.seriesDocument(series));
+    } catch (error) {
+      this.logger.error(
+        `Failed to index series ${series.id}: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  async removeSeries(id: string): Promise<void> {
+    await this.removeDocument(SearchDocumentType.SERIES, id);
+  }
+
+  // Authors weigh more than editors, translators and illustrators; someone
+  // credited twice counts once, under their heaviest role. The facets and
+  // values back filtering and sorting the catalogue: years count by decade,
+  // ratings under every whole threshold they reach, and a book is available
+  // at a branch while one of the copies it owns there is on the shelf
+  private bookDocument(
+    book: Book,
+    authorNames: Map<string, string>,
+    copies: Copy[],
+  ): SearchDocument {
+    const weights = new Map<string, number>();
+    for (const { authorId, role } of this.contributorsOf(book)) {
+      weights.set(
+        authorId,
+        Math.max(
+          weights.get(authorId) ?? 0,
+          role === ContributorRole.AUTHOR ? 2 : 1,
+        ),
+      );
+    }
+
+    const branchStatuses = new Map<string, BookStatus>();
+    for (const copy of copies.filter(({ branchId }) => branchId)) {
+      if (branchStatuses.get(copy.branchId) !== BookStatus.AVAILABLE) {
+        branchStatuses.set(
+          copy.branchId,
+          copy.status === CopyStatus.AVAILABLE
+            ? BookStatus.AVAILABLE
+            : BookStatus.UNAVAILABLE,
+        );
+      }
+    }
+
+    return {
+      type: SearchDocumentType.BOOK,
+      id: book.id,
+      label: book.title,
+      fields: [
+        { value: book.title, weight: 3 },
+        { value: book.isbn, weight: 3 },
+        ...[...weights].map(([authorId, weight]) => ({
+          value: authorNames.get(authorId),
+          weight,
+        })),
+        { value: book.description, weight: 1 },
+      ],
+      facets: {
+        categoryId: book.categoryId ? [book.categoryId] : [],
+        authorId: [...weights.keys()],
+        status: [
+          book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE,
+        ],
+        publishedYear: book.publishedYear
+          ? [String(Math.floor(book.publishedYear / 10) * 10)]
+          : [],
+        rating: Array.from(
+          { length: Math.floor(book.rating ?? 0) },
+          (_, index) => String(index + 1),
+        ),
+        tags: book.tags ?? [],
+        ...Object.fromEntries(
+          [...branchStatuses].map(([branchId, status]) => [
+            branchFacet(branchId),
+            [status],
+          ]),
+        ),
+      },
+      values: {
+        title: book.title,
+        createdAt: book.createdAt,
+        publishedYear: book.publishedYear,
+        rating: book.rating,
+      },
+    };
+  }
+
+  // Books catalogued before contributors only have their primary author
+  private contributorsOf(book: Book): Contributor[] {
+    return (
+      book.contributors ??
+      (book.authorId
+        ? [{ authorId: book.authorId, role: ContributorRole.AUTHOR }]
+        : [])
+    );
+  }
+
+  private authorDocument(author: Author): SearchDocument {
+    return {
+      type: SearchDocumentType.AUTHOR,
+      id: author.id,
+      label: author.name,
+      fields: [
+        { value: author.name, weight: 3 },
+        { value: author.biography, weight: 1 },
+      ],
+    };
+  }
+
+  private categoryDocument(category: Category): SearchDocument {
+    return {
+      type: SearchDocumentType.CATEGORY,
+      id: category.id,
+      label: category.name,
+      fields: [
+        { value: category.name, weight: 3 },
+        { value: category.description, weight: 1 },
+      ],
+    };
+  }
+
+  private seriesDocument(series: Series): SearchDocument {
+    return {
+      type: SearchDocumentType.SERIES,
+      id: series.id,
+      label: series.name,
+      fields: [
+        { value: series.name, weight: 3 },
+        { value: series.description, weight: 1 },
+      ],
+    };
+  }
+
+  private async removeDocument(
+    type: SearchDocumentType,
+    id: string,
+  ): Promise<void> {
+    try {
+      await this.searchEngine.remove(type, id);
+    } catch (error) {
+      this.logger.error(
+        `Failed to remove ${type.toLowerCase()} ${id} from the search index: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async scanAll<T>(tableName: string): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.dynamoDBService.documentClient.send(
+        new ScanCommand({
+          TableName: tableName,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      items.push(...((response.Items || []) as T[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+
+  private async batchGet<T>(
+    tableName: string,
+    ids: string[],
+    attributes?: string[],
+  ): Promise<T[]> {
+    const items: T[] = [];
+
+    // BatchGet takes at most 100 keys per request
+    for (let i = 0; i < ids.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        [tableName]: {
+          Keys: ids.slice(i, i + 100).map((id) => ({ id })),
+          ...(attributes && {
+            ProjectionExpression: attributes
+              .map((attribute) => `#${attribute}`)
+              .join(', '),
+            ExpressionAttributeNames: Object.fromEntries(
+              attributes.map((attribute) => [`#${attribute}`, attribute]),
+            ),
+          }),
+        },
+      };
+
+      // Retry keys DynamoDB did not get to
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+        items.push(...((response.Responses?.[tableName] || []) as T[]));
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return items;
+  }
+
+  private async queryAll<T>(params: {
+    TableName: string;
+    IndexName?: string;
+    KeyConditionExpression: string;
+    ExpressionAttributeValues: Record<string, any>;
+  }): Promise<T[]> {
+    const items: T[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({ ...params, ExclusiveStartKey: exclusiveStartKey }),
+      );
+
+      items.push(...((response.Items || []) as T[]));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+  }
+}
@@ -0,0 +1,34 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class SeriesNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Series with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class SeriesVolumeTakenException extends HttpException {
+  constructor(id: string, volume: number) {
+    super(
+      `Volume ${volume} of series "${id}" is already taken by another book`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class SeriesHasVolumesException extends HttpException {
+  constructor(id: string) {
+    super(
+      `Series with ID "${id}" still has volumes, remove its books from the series first`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class SeriesUpdateException extends HttpException {
+  constructor(error: string) {
+    super(
+      `Failed to update series: ${error}`,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { BookStatus } from '../../books/interfaces/book.interface';
+
+export interface Series {
+  id: string;
+  name: string;
+  description?: string;
+  // Books placed in the series, maintained with the book that moves it
+  volumesCount: number;
+  createdAt: string;
+  updatedAt: string;
+  // Populated when fetching a single series, in volume order
+  volumes?: SeriesVolume[];
+}
+
+// A book's place in a series, as stored on the book and in SeriesVolumes
+export interface SeriesPlacement {
+  seriesId: string;
+  volume: number;
+}
+
+export interface SeriesVolume {
+  volume: number;
+  bookId: string;
+  title: string;
+  publishedYear: number;
+  status: BookStatus;
+  quantity: number;
+}
+
+// Shown on a single book, with its neighbours so readers can go on to the
+// next volume
+export interface BookSeries {
+  id: string;
+  name: string;
+  volume: number;
+  volumesCount: number;
+  previous?: { volume: number; bookId: string };
+  next?: { volume: number; bookId: string };
+}
@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SeriesController } from './series.controller';
+import { SeriesService } from './series.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('SeriesController', () => {
+  let controller: SeriesController;
+  let seriesService: { findAll: jest.Mock };
+
+  beforeEach(async () => {
+    seriesService = {
+      findAll: jest.fn().mockResolvedValue({
+        message: 'No series found',
+        series: [],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SeriesController],
+      providers: [{ provide: SeriesService, useValue: seriesService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<SeriesController>(SeriesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should page the series with a numeric limit', async () => {
+    await controller.findAll('5' as unknown as number, 'last-id');
+    expect(seriesService.findAll).toHaveBeenCalledWith(5, 'last-id');
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SeriesService } from './series.service';
+import { CreateSeriesDto } from './dto/create-series.dto';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import { Series } from './interfaces/series.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('series')
+export class SeriesController {
+  constructor(private readonly seriesService: SeriesService) {}
+
+  @Post()
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a series' })
+  @ApiResponse({ status: 201, description: 'Series created successfully' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createSeriesDto: CreateSeriesDto,
+  ): Promise<Series> {
+    return this.seriesService.create(createSeriesDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all series' })
+  @ApiResponse({ status: 200, description: 'Returns a page of series' })
+  async findAll(
+    @Query('limit') limit = 10,
+    @Query('lastEvaluatedKey') lastEvaluatedKey?: string,
+  ): Promise<{ message: string; series: Series[]; lastEvaluatedKey?: string }> {
+    return this.seriesService.findAll(Number(limit), lastEvaluatedKey);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a series with its volumes in order' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the series and the availability of each volume',
+  })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Series> {
+    return this.seriesService.findOne(id);
+  }
+
+  @Patch(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename or describe a series' })
+  @ApiResponse({ status: 200, description: 'Series updated successfully' })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateSeriesDto: UpdateSeriesDto,
+  ): Promise<Series> {
+    return this.seriesService.update(id, updateSeriesDto);
+  }
+
+  @Delete(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a series without volumes' })
+  @ApiResponse({ status: 200, description: 'Series deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  @ApiResponse({ status: 409, description: 'The series still has volumes' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    return this.seriesService.remove(id);
+  }
+}
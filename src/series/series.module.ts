@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { SeriesService } from './series.service';
+import { SeriesController } from './series.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { SearchModule } from '../search/search.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, SearchModule],
+  controllers: [SeriesController],
+  providers: [SeriesService],
+  exports: [SeriesService],
+})
+export class SeriesModule {}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { SeriesService } from './series.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { SearchService } from '../search/search.service';
+import { BookStatus } from '../books/interfaces/book.interface';
+
+describe('SeriesService', () => {
+  let service: SeriesService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SeriesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        {
+          provide: SearchService,
+          useValue: { indexSeries: jest.fn(), removeSeries: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SeriesService>(SeriesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should list the volumes in order with their availability', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: { id: 'dune', name: 'Dune', volumesCount: 2 },
+      })
+      .mockResolvedValueOnce({
+        Items: [
+          { seriesId: 'dune', volume: 1, bookId: 'b1' },
+          { seriesId: 'dune', volume: 2, bookId: 'b2' },
+        ],
+      })
+      .mockResolvedValueOnce({
+        Responses: {
+          Books: [
+            {
+              id: 'b2',
+              title: 'Dune Messiah',
+              publishedYear: 1969,
+              quantity: 0,
+            },
+            { id: 'b1', title: 'Dune', publishedYear: 1965, quantity: 2 },
+          ],
+        },
+      });
+
+    const series = await service.findOne('dune');
+
+    expect(series.volumes).toEqual([
+      {
+        volume: 1,
+        bookId: 'b1',
+        title: 'Dune',
+        publishedYear: 1965,
+        status: BookStatus.AVAILABLE,
+        quantity: 2,
+      },
+      {
+        volume: 2,
+        bookId: 'b2',
+        title: 'Dune Messiah',
+        publishedYear: 1969,
+        status: BookStatus.UNAVAILABLE,
+        quantity: 0,
+      },
+    ]);
+  });
+
+  it('should refuse to delete a series that still has volumes', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: { id: 'dune', name: 'Dune', volumesCount: 1 },
+      })
+      .mockRejectedValueOnce(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        }),
+      );
+
+    await expect(service.remove('dune')).rejects.toThrow('still has volumes');
+  });
+
+  describe('volumeTransactItems', () => {
+    it('should move counters only when the series changes', () => {
+      const renumbered = service.volumeTransactItems(
+        'b1',
+        { seriesId: 'dune', volume: 2 },
+        { seriesId: 'dune', volume: 3 },
+      );
+      expect(renumbered.map((item) => Object.keys(item)[0])).toEqual([
+        'Put',
+        'Delete',
+      ]);
+
+      const moved = service.volumeTransactItems(
+        'b1',
+        { seriesId: 'dune', volume: 2 },
+        { seriesId: 'foundation', volume: 1 },
+      );
+      expect(moved.map((item) => Object.keys(item)[0])).toEqual([
+        'Put',
+        'Update',
+        'Delete',
+        'Update',
+      ]);
+      expect(moved[1].Update.Key).toEqual({ id: 'foundation' });
+      expect(moved[3].Update.Key).toEqual({ id: 'dune' });
+    });
+
+    it('should leave an unchanged placement alone', () => {
+      expect(
+        service.volumeTransactItems(
+          'b1',
+          { seriesId: 'dune', volume: 2 },
+          { seriesId: 'dune', volume: 2 },
+        ),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,400 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { SearchService } from '../search/search.service';
+import { Book, BookStatus } from '../books/interfaces/book.interface';
+import { CreateSeriesDto } from './dto/create-series.dto';
+import { UpdateSeriesDto } from './dto/update-series.dto';
+import {
+  BookSeries,
+  Series,
+  SeriesPlacement,
+  SeriesVolume,
+} from './interfaces/series.interface';
+import {
+  SeriesHasVolumesException,
+  SeriesNotFoundException,
+  SeriesUpdateException,
+} from './exceptions/series.exceptions';
+
+@Injectable()
+export class SeriesService {
+  private readonly tableName = 'Series';
+  private readonly volumesTableName = 'SeriesVolumes';
+  private readonly logger = new Logger(SeriesService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  async create(createSeriesDto: CreateSeriesDto): Promise<Series> {
+    try {
+      const now = new Date().toISOString();
+      const series: Series = {
+        id: uuidv4(),
+        ...createSeriesDto,
+        volumesCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: series,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+
+      await this.searchService.indexSeries(series);
+      this.logger.log(`Created series with ID: ${series.id}`);
+      return series;
+    } catch (error) {
+      this.logger.error(
+        `Failed to create series: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to create series');
+    }
+  }
+
+  async findAll(
+    limit: number,
+    lastEvaluatedKey?: string,
+  ): Promise<{
+    message: string;
+    series: Series[];
+    lastEvaluatedKey?: string;
+  }> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new ScanCommand({
+          TableName: this.tableName,
+          Limit: limit,
+          ExclusiveStartKey: lastEvaluatedKey
+            ? { id: lastEvaluatedKey }
+            : undefined,
+        }),
+      );
+
+      const series = (response.Items || []) as Series[];
+
+      return {
+        message:
+          series.length > 0
+            ? 'Series retrieved successfully'
+            : 'No series found',
+        series,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? response.LastEvaluatedKey.id
+          : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch series: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch series');
+    }
+  }
+
+  // The series with its volumes in order, each with the availability of its
+  // book
+  async findOne(id: string): Promise<Series> {
+    try {
+      const series = await this.getSeries(id);
+
+      const links: (SeriesPlacement & { bookId: string })[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.volumesTableName,
+            KeyConditionExpression: 'seriesId = :seriesId',
+            ExpressionAttributeValues: { ':seriesId': id },
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        links.push(...((response.Items || []) as typeof links));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      const books = await this.batchGetBooks(links.map((link) => link.bookId));
+      series.volumes = links
+        .filter((link) => books.has(link.bookId))
+        .map((link): SeriesVolume => {
+          const book = books.get(link.bookId);
+          return {
+            volume: link.volume,
+            bookId: book.id,
+            title: book.title,
+            publishedYear: book.publishedYear,
+            status:
+              book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE,
+            quantity: book.quantity,
+          };
+        });
+
+      return series;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch series ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof SeriesNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch series');
+    }
+  }
+
+  async update(id: string, updateSeriesDto: UpdateSeriesDto): Promise<Series> {
+    try {
+      const updateExpression = ['#updatedAt = :updatedAt'];
+      const expressionAttributeNames: Record<string, string> = {
+        '#updatedAt': 'updatedAt',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':updatedAt': new Date().toISOString(),
+      };
+
+      for (const key of ['name', 'description'] as const) {
+        if (updateSeriesDto[key] !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = updateSeriesDto[key];
+        }
+      }
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ConditionExpression: 'attribute_exists(id)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      const series = response.Attributes as Series;
+      await this.searchService.indexSeries(series);
+      this.logger.log(`Updated series with ID: ${id}`);
+      return series;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update series ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new SeriesNotFoundException(id);
+      }
+      throw new SeriesUpdateException(error.message);
+    }
+  }
+
+  // Refused while books are still placed in the series, so none is left
+  // pointing at a missing series
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      await this.getSeries(id);
+
+      await this.dynamoDBService.documentClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { id },
+          ConditionExpression: 'attribute_exists(id) AND volumesCount = :zero',
+          ExpressionAttributeValues: { ':zero': 0 },
+        }),
+      );
+
+      await this.searchService.removeSeries(id);
+      this.logger.log(`Deleted series with ID: ${id}`);
+      return {
+        message: `Series with ID "${id}" has been successfully deleted`,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete series ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof SeriesNotFoundException) {
+        throw error;
+      }
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new SeriesHasVolumesException(id);
+      }
+      throw new InternalServerErrorException('Failed to delete series');
+    }
+  }
+
+  // A book's series with the volumes either side of it. Missing when the
+  // series cannot be read, so a book is still shown without it
+  async findBookSeries(
+    placement: SeriesPlacement,
+  ): Promise<BookSeries | undefined> {
+    try {
+      const { seriesId, volume } = placement;
+      const neighbour = async (after: boolean) => {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.volumesTableName,
+            KeyConditionExpression: `seriesId = :seriesId AND volume ${after ? '>' : '<'} :volume`,
+            ExpressionAttributeValues: {
+              ':seriesId': seriesId,
+              ':volume': volume,
+            },
+            ScanIndexForward: after,
+            Limit: 1,
+          }),
+        );
+        const link = response.Items?.[0];
+        return link ? { volume: link.volume, bookId: link.bookId } : undefined;
+      };
+
+      const [series, previous, next] = await Promise.all([
+        this.getSeries(seriesId),
+        neighbour(false),
+        neighbour(true),
+      ]);
+
+      return {
+        id: series.id,
+        name: series.name,
+        volume,
+        volumesCount: series.volumesCount,
+        previous,
+        next,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch series ${placement.seriesId} of a book: ${error.message}`,
+        error.stack,
+      );
+      return undefined;
+    }
+  }
+
+  // Moves a book from one place in a series to another, either side being
+  // empty when the book joins or leaves a series. The claim of the new
+  // volume comes first and the new series' counter second, so the caller can
+  // tell a taken volume from a missing series by the failed position
+  volumeTransactItems(
+    bookId: string,
+    before: SeriesPlacement | undefined,
+    after: SeriesPlacement | undefined,
+  ): TransactWriteItem[] {
+    if (
+      before?.seriesId === after?.seriesId &&
+      before?.volume === after?.volume
+    ) {
+      return [];
+    }
+
+    const items: TransactWriteItem[] = [];
+    const seriesChanged = before?.seriesId !== after?.seriesId;
+    if (after) {
+      items.push({
+        Put: {
+          TableName: this.volumesTableName,
+          Item: { ...after, bookId },
+          ConditionExpression: 'attribute_not_exists(seriesId)',
+        },
+      });
+      if (seriesChanged) {
+        items.push(this.volumesCountTransactItem(after.seriesId, 1));
+      }
+    }
+    if (before) {
+      items.push({
+        Delete: {
+          TableName: this.volumesTableName,
+          Key: { seriesId: before.seriesId, volume: before.volume },
+          ConditionExpression: 'bookId = :bookId',
+          ExpressionAttributeValues: { ':bookId': bookId },
+        },
+      });
+      if (seriesChanged) {
+        items.push(this.volumesCountTransactItem(before.seriesId, -1));
+      }
+    }
+    return items;
+  }
+
+  private volumesCountTransactItem(
+    id: string,
+    delta: 1 | -1,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { id },
+        UpdateExpression: 'SET volumesCount = volumesCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(id)'
+            : 'attribute_exists(id) AND volumesCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
+  private async getSeries(id: string): Promise<Series> {
+    const response = await this.dynamoDBService.documentClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { id },
+      }),
+    );
+
+    if (!response.Item) {
+      throw new SeriesNotFoundException(id);
+    }
+    return response.Item as Series;
+  }
+
+  private async batchGetBooks(ids: string[]): Promise<Map<string, Book>> {
+    const books = new Map<string, Book>();
+
+    // BatchGetItem accepts at most 100 keys per request
+    for (let i = 0; i < ids.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        Books: { Keys: ids.slice(i, i + 100).map((id) => ({ id })) },
+      };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        for (const book of (response.Responses?.Books || []) as Book[]) {
+          books.set(book.id, book);
+        }
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return books;
+  }
+}
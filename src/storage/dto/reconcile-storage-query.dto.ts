@@ -0,0 +1,10 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsOptional } from 'class-validator';
+
+export class ReconcileStorageQueryDto {
+  // Reports without deleting or clearing anything; on unless set to false
+  @IsBoolean()
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  dryRun?: boolean;
+}
@@ -0,0 +1,33 @@
+export enum StoredFileKind {
+  BOOK_COVER = 'BOOK_COVER',
+  BOOK_PDF = 'BOOK_PDF',
+  AUTHOR_PROFILE = 'AUTHOR_PROFILE',
+}
+
+// A stored file nothing in DynamoDB points at
+export interface OrphanedFile {
+  key: string;
+  size: number;
+  lastModified: string;
+  deleted: boolean;
+}
+
+// A book or author pointing at files that are no longer stored. A cover or
+// profile picture counts as one reference for all its renditions
+export interface DanglingReference {
+  kind: StoredFileKind;
+  id: string;
+  missingKeys: string[];
+  cleared: boolean;
+}
+
+export interface StorageReconciliationReport {
+  dryRun: boolean;
+  checkedFiles: number;
+  checkedReferences: number;
+  // Files too recent to judge, which a create or upload may be about to
+  // point at
+  skippedRecentFiles: number;
+  orphanedFiles: OrphanedFile[];
+  danglingReferences: DanglingReference[];
+}
@@ -0,0 +1,42 @@
+import {
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { StorageService } from './storage.service';
+import { ReconcileStorageQueryDto } from './dto/reconcile-storage-query.dto';
+import { StorageReconciliationReport } from './interfaces/storage-reconciliation.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('admin/storage')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class StorageController {
+  constructor(private readonly storageService: StorageService) {}
+
+  @Post('reconcile')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary:
+      'Compare stored covers, PDFs and profile pictures with the books and authors pointing at them',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the orphaned files and dangling references, deleted and cleared only when dryRun is false',
+  })
+  async reconcile(
+    @Query(new ValidationPipe({ transform: true }))
+    query: ReconcileStorageQueryDto,
+  ): Promise<StorageReconciliationReport> {
+    return this.storageService.reconcile(query.dryRun ?? true);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { StorageService } from './storage.service';
+import { StorageController } from './storage.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { S3Module } from '../s3/s3.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, S3Module],
+  controllers: [StorageController],
+  providers: [StorageService],
+})
+export class StorageModule {}
@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { StorageService } from './storage.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { S3Service } from '../s3/s3.service';
+import { StoredFileKind } from './interfaces/storage-reconciliation.interface';
+
+describe('StorageService', () => {
+  let service: StorageService;
+  let send: jest.Mock;
+  let deleteFile: jest.Mock;
+
+  const url = (key: string) => `https://bucket.s3.amazonaws.com/${key}`;
+  const old = new Date('2020-01-01T00:00:00.000Z');
+  const files: Record<string, { key: string; lastModified: Date }[]> = {
+    'books/covers/': [
+      { key: 'books/covers/c1/original.jpg', lastModified: old },
+      { key: 'books/covers/c1/thumbnail.webp', lastModified: old },
+      { key: 'books/covers/gone/original.jpg', lastModified: old },
+      { key: 'books/covers/new/original.jpg', lastModified: new Date() },
+    ],
+    'books/pdfs/': [],
+    'authors/profiles/': [],
+  };
+
+  beforeEach(async () => {
+    send = jest.fn().mockImplementation(async ({ input }) =>
+      input.TableName === 'Books' && !input.Key
+        ? {
+            Items: [
+              {
+                id: 'b1',
+                cover: url('books/covers/c1/original.jpg'),
+                covers: {
+                  original: url('books/covers/c1/original.jpg'),
+                  thumbnail: url('books/covers/c1/thumbnail.webp'),
+                },
+              },
+              { id: 'b2', pdf: url('books/pdfs/missing.pdf') },
+            ],
+          }
+        : {},
+    );
+    deleteFile = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StorageService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        {
+          provide: S3Service,
+          useValue: {
+            listFiles: async function* (prefix: string) {
+              for (const file of files[prefix]) {
+                yield { ...file, size: 10 };
+              }
+            },
+            keyOf: (fileUrl: string) => fileUrl.split('.com/')[1],
+            urlOf: url,
+            deleteFile,
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<StorageService>(StorageService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should only report on a dry run', async () => {
+    const report = await service.reconcile(true);
+
+    expect(report.orphanedFiles.map((file) => file.key)).toEqual([
+      'books/covers/gone/original.jpg',
+    ]);
+    expect(report.skippedRecentFiles).toBe(1);
+    expect(report.danglingReferences).toEqual([
+      {
+        kind: StoredFileKind.BOOK_PDF,
+        id: 'b2',
+        missingKeys: ['books/pdfs/missing.pdf'],
+        cleared: false,
+      },
+    ]);
+    expect(deleteFile).not.toHaveBeenCalled();
+    expect(
+      send.mock.calls.some(([command]) => command.input.UpdateExpression),
+    ).toBe(false);
+  });
+
+  it('should delete orphans and clear dangling references', async () => {
+    const report = await service.reconcile(false);
+
+    expect(deleteFile).toHaveBeenCalledWith(
+      url('books/covers/gone/original.jpg'),
+    );
+    expect(report.orphanedFiles[0].deleted).toBe(true);
+
+    const update = send.mock.calls.find(
+      ([command]) => command.input.UpdateExpression,
+    )[0].input;
+    expect(update.Key).toEqual({ id: 'b2' });
+    expect(update.UpdateExpression).toContain('REMOVE #pdf, #pdfInfo');
+    expect(update.ExpressionAttributeValues[':url']).toBe(
+      url('books/pdfs/missing.pdf'),
+    );
+    expect(report.danglingReferences[0].cleared).toBe(true);
+  });
+
+  it('should leave a reference replaced since it was read', async () => {
+    send.mockImplementationOnce(async () => ({
+      Items: [{ id: 'b2', pdf: url('books/pdfs/missing.pdf') }],
+    }));
+    send.mockImplementation(async ({ input }) => {
+      if (input.UpdateExpression) {
+        throw Object.assign(new Error('The conditional request failed'), {
+          name: 'ConditionalCheckFailedException',
+        });
+      }
+      return {};
+    });
+
+    const report = await service.reconcile(false);
+
+    expect(report.danglingReferences[0].cleared).toBe(false);
+  });
+});
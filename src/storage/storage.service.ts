@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { S3Service } from '../s3/s3.service';
+import {
+  DanglingReference,
+  OrphanedFile,
+  StorageReconciliationReport,
+  StoredFileKind,
+} from './interfaces/storage-reconciliation.interface';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Where each kind of file is stored, the attributes pointing at it and the
+// ones describing it, removed along with a dangling reference
+const STORED_FILES: Record<
+  StoredFileKind,
+  {
+    folder: string;
+    tableName: string;
+    urlAttribute: string;
+    renditionsAttribute?: string;
+    clearedAttributes: string[];
+  }
+> = {
+  [StoredFileKind.BOOK_COVER]: {
+    folder: 'books/covers',
+    tableName: 'Books',
+    urlAttribute: 'cover',
+    renditionsAttribute: 'covers',
+    clearedAttributes: ['cover', 'covers', 'coverFromPdf'],
+  },
+  [StoredFileKind.BOOK_PDF]: {
+    folder: 'books/pdfs',
+    tableName: 'Books',
+    urlAttribute: 'pdf',
+    clearedAttributes: ['pdf', 'pdfInfo'],
+  },
+  [StoredFileKind.AUTHOR_PROFILE]: {
+    folder: 'authors/profiles',
+    tableName: 'Authors',
+    urlAttribute: 'profile',
+    renditionsAttribute: 'profilePictures',
+    clearedAttributes: ['profile', 'profilePictures'],
+  },
+};
+
+interface StoredFileReference {
+  kind: StoredFileKind;
+  id: string;
+  url: string;
+  keys: string[];
+}
+
+@Injectable()
+export class StorageService {
+  private readonly logger = new Logger(StorageService.name);
+  // A create or upload stores its files before pointing a book or author at
+  // them, so younger files may not be orphaned at all
+  private readonly minFileAgeMs = DAY_IN_MS;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly s3Service: S3Service,
+  ) {}
+
+  // Files nothing points at are deleted and references to missing files are
+  // removed, unless this is a dry run. The references are read before the
+  // files are listed: a file stored after the scan is too recent to be called
+  // orphaned, and one deleted after it went with a replaced reference, which
+  // clearing checks is still in place
+  async reconcile(dryRun = true): Promise<StorageReconciliationReport> {
+    try {
+      const references = await this.findReferences();
+      const referencedKeys = new Set(references.flatMap(({ keys }) => keys));
+      const storedKeys = new Set<string>();
+      const orphanedFiles: OrphanedFile[] = [];
+      const cutoff = Date.now() - this.minFileAgeMs;
+      let skippedRecentFiles = 0;
+
+      for (const { folder } of Object.values(STORED_FILES)) {
+        for await (const file of this.s3Service.listFiles(`${folder}/`)) {
+          storedKeys.add(file.key);
+          if (referencedKeys.has(file.key)) {
+            continue;
+          }
+          if (file.lastModified.getTime() > cutoff) {
+            skippedRecentFiles++;
+            continue;
+          }
+          orphanedFiles.push({
+            key: file.key,
+            size: file.size,
+            lastModified: file.lastModified.toISOString(),
+            deleted: false,
+          });
+        }
+      }
+
+      // Files kept outside the folders listed cannot be checked
+      const danglingReferences: DanglingReference[] = [];
+      for (const reference of references) {
+        const missingKeys = reference.keys.filter(
+          (key) =>
+            key?.startsWith(`${STORED_FILES[reference.kind].folder}/`) &&
+            !storedKeys.has(key),
+        );
+        if (missingKeys.length > 0) {
+          danglingReferences.push({
+            kind: reference.kind,
+            id: reference.id,
+            missingKeys,
+            cleared: false,
+          });
+        }
+      }
+
+      if (!dryRun) {
+        for (const file of orphanedFiles) {
+          file.deleted = await this.deleteOrphan(file);
+        }
+        for (const dangling of danglingReferences) {
+          dangling.cleared = await this.clearReference(
+            references.find(
+              ({ kind, id }) => kind === dangling.kind && id === dangling.id,
+            ),
+          );
+        }
+      }
+
+      this.logger.log(
+        `Reconciled ${storedKeys.size} files with ${references.length} references${dryRun ? ' (dry run)' : ''}: ${orphanedFiles.length} orphaned, ${danglingReferences.length} dangling`,
+      );
+      return {
+        dryRun,
+        checkedFiles: storedKeys.size,
+        checkedReferences: references.length,
+        skippedRecentFiles,
+        orphanedFiles,
+        danglingReferences,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to reconcile storage: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to reconcile storage');
+    }
+  }
+
+  // Only reports; deleting is left to an administrator reading the report
+  @Cron(CronExpression.EVERY_WEEK)
+  async reportWeekly(): Promise<void> {
+    try {
+      const report = await this.reconcile(true);
+      if (
+        report.orphanedFiles.length > 0 ||
+        report.danglingReferences.length > 0
+      ) {
+        this.logger.warn(
+          `Storage holds ${report.orphanedFiles.length} orphaned files and ${report.danglingReferences.length} dangling references, reconcile it to remove them`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to report on storage: ${error.message}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Each table is scanned once for every kind of file its items point at. A
+  // cover or profile picture is one reference to all its renditions
+  private async findReferences(): Promise<StoredFileReference[]> {
+    const references: StoredFileReference[] = [];
+    const kinds = Object.keys(STORED_FILES) as StoredFileKind[];
+    const tableNames = new Set(
+      kinds.map((kind) => STORED_FILES[kind].tableName),
+    );
+
+    for (const tableName of tableNames) {
+      const tableKinds = kinds.filter(
+        (kind) => STORED_FILES[kind].tableName === tableName,
+      );
+      const attributes = [
+        'id',
+        ...tableKinds.flatMap((kind) => [
+          STORED_FILES[kind].urlAttribute,
+          ...(STORED_FILES[kind].renditionsAttribute
+            ? [STORED_FILES[kind].renditionsAttribute]
+            : []),
+        ]),
+      ];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: tableName,
+            ProjectionExpression: attributes
+              .map((attribute) => `#${attribute}`)
+              .join(', '),
+            ExpressionAttributeNames: Object.fromEntries(
+              attributes.map((attribute) => [`#${attribute}`, attribute]),
+            ),
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        for (const item of response.Items || []) {
+          for (const kind of tableKinds) {
+            const { urlAttribute, renditionsAttribute } = STORED_FILES[kind];
+            const url: string = item[urlAttribute];
+            if (!url) {
+              continue;
+            }
+            const urls = new Set<string>([
+              url,
+              ...Object.values<string>(item[renditionsAttribute] ?? {}),
+            ]);
+            references.push({
+              kind,
+              id: item.id,
+              url,
+              keys: [...urls].map((fileUrl) => this.s3Service.keyOf(fileUrl)),
+            });
+          }
+        }
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+    }
+    return references;
+  }
+
+  private async deleteOrphan(file: OrphanedFile): Promise<boolean> {
+    try {
+      await this.s3Service.deleteFile(this.s3Service.urlOf(file.key));
+      return true;
+    } catch {
+      // Logged by the S3 service; the next run tries again
+      return false;
+    }
+  }
+
+  // Removes the file attributes, unless the reference was replaced since it
+  // was read
+  private async clearReference(
+    reference: StoredFileReference,
+  ): Promise<boolean> {
+    const { tableName, urlAttribute, clearedAttributes } =
+      STORED_FILES[reference.kind];
+    try {
+      await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: tableName,
+          Key: { id: reference.id },
+          UpdateExpression: `SET updatedAt = :updatedAt REMOVE ${clearedAttributes
+            .map((attribute) => `#${attribute}`)
+            .join(', ')}`,
+          ConditionExpression: `#${urlAttribute} = :url`,
+          ExpressionAttributeNames: Object.fromEntries(
+            clearedAttributes.map((attribute) => [`#${attribute}`, attribute]),
+          ),
+          ExpressionAttributeValues: {
+            ':url': reference.url,
+            ':updatedAt': new Date().toISOString(),
+          },
+        }),
+      );
+      return true;
+    } catch (error) {
+      if (error.name === 'ConditionalCheckFailedException') {
+        this.logger.warn(
+          `Left ${reference.kind} of ${reference.id} alone, it was replaced meanwhile`,
+        );
+      } else {
+        this.logger.error(
+          `Failed to clear ${reference.kind} of ${reference.id}: ${error.message}`,
+          error.stack,
+        );
+      }
+      return false;
+    }
+  }
+}
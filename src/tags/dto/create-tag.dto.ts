@@ -0,0 +1,36 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { SLUG_PATTERN } from '../utils/slug.util';
+
+export class CreateTagDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  label: string;
+
+  // Derived from the label when omitted
+  @Matches(SLUG_PATTERN, {
+    message: 'slug must be lower-case words joined by hyphens',
+  })
+  @MaxLength(100)
+  @IsOptional()
+  slug?: string;
+
+  // Tags without a vocabulary are filed under "general"
+  @Matches(SLUG_PATTERN, {
+    message: 'vocabulary must be lower-case words joined by hyphens',
+  })
+  @MaxLength(50)
+  @IsOptional()
+  vocabulary?: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+}
@@ -0,0 +1,10 @@
+import { IsOptional, Matches } from 'class-validator';
+import { SLUG_PATTERN } from '../utils/slug.util';
+
+export class FindTagsQueryDto {
+  @Matches(SLUG_PATTERN, {
+    message: 'vocabulary must be lower-case words joined by hyphens',
+  })
+  @IsOptional()
+  vocabulary?: string;
+}
@@ -0,0 +1,10 @@
+import { Matches } from 'class-validator';
+import { SLUG_PATTERN } from '../utils/slug.util';
+
+export class MergeTagDto {
+  // The tag that takes over the books of the merged one
+  @Matches(SLUG_PATTERN, {
+    message: 'into must be lower-case words joined by hyphens',
+  })
+  into: string;
+}
@@ -0,0 +1,10 @@
+import { Matches, MaxLength } from 'class-validator';
+import { SLUG_PATTERN } from '../utils/slug.util';
+
+export class RenameTagDto {
+  @Matches(SLUG_PATTERN, {
+    message: 'slug must be lower-case words joined by hyphens',
+  })
+  @MaxLength(100)
+  slug: string;
+}
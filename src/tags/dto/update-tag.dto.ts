@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateTagDto } from './create-tag.dto';
+
+// A new slug is given through a rename, which rewrites the tagged books
+export class UpdateTagDto extends PartialType(
+  OmitType(CreateTagDto, ['slug'] as const),
+) {}
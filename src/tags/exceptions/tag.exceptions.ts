@@ -0,0 +1,31 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TagNotFoundException extends HttpException {
+  constructor(slug: string) {
+    super(`Tag "${slug}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class TagAlreadyExistsException extends HttpException {
+  constructor(slug: string) {
+    super(
+      `Tag "${slug}" already exists, merge into it instead`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class TagInUseException extends HttpException {
+  constructor(slug: string) {
+    super(
+      `Tag "${slug}" is still on books, merge it into another tag instead`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class TagUpdateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to update tag: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
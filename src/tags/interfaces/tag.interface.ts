@@ -0,0 +1,12 @@
+export interface Tag {
+  // Stable identifier stored on books, such as "world-war-ii"
+  slug: string;
+  label: string;
+  // The curated list the tag belongs to, such as "subjects" or "genres"
+  vocabulary: string;
+  description?: string;
+  // Books carrying the tag, maintained with the book that moves it
+  booksCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,40 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TagsController } from './tags.controller';
+import { TagsService } from './tags.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('TagsController', () => {
+  let controller: TagsController;
+  let tagsService: { findBooks: jest.Mock };
+
+  beforeEach(async () => {
+    tagsService = {
+      findBooks: jest.fn().mockResolvedValue({
+        message: 'No books found with this tag',
+        books: [],
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TagsController],
+      providers: [{ provide: TagsService, useValue: tagsService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<TagsController>(TagsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should page the books of a tag', async () => {
+    await controller.findBooks('poetry', '5' as unknown as number, 'b1');
+    expect(tagsService.findBooks).toHaveBeenCalledWith('poetry', 5, 'b1');
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { TagsService } from './tags.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { RenameTagDto } from './dto/rename-tag.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { FindTagsQueryDto } from './dto/find-tags-query.dto';
+import { Tag } from './interfaces/tag.interface';
+import { Book } from '../books/interfaces/book.interface';
+import { HidePdfInterceptor } from '../books/interceptors/hide-pdf.interceptor';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('tags')
+@UseInterceptors(HidePdfInterceptor)
+export class TagsController {
+  constructor(private readonly tagsService: TagsService) {}
+
+  @Post()
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a tag to a vocabulary' })
+  @ApiResponse({ status: 201, description: 'Tag created successfully' })
+  @ApiResponse({ status: 409, description: 'The slug is already in use' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createTagDto: CreateTagDto,
+  ): Promise<Tag> {
+    return this.tagsService.create(createTagDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get every tag with the number of books using it' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the tags grouped by vocabulary and sorted by label',
+  })
+  async findAll(
+    @Query(new ValidationPipe()) query: FindTagsQueryDto,
+  ): Promise<{ message: string; tags: Tag[]; total: number }> {
+    return this.tagsService.findAll(query);
+  }
+
+  @Get(':slug')
+  @ApiOperation({ summary: 'Get a tag by its slug' })
+  @ApiResponse({ status: 200, description: 'Returns the tag' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async findOne(@Param('slug') slug: string): Promise<Tag> {
+    return this.tagsService.findOne(slug);
+  }
+
+  @Get(':slug/books')
+  @ApiOperation({ summary: 'Get the books carrying a tag' })
+  @ApiResponse({ status: 200, description: 'Returns a page of books' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async findBooks(
+    @Param('slug') slug: string,
+    @Query('limit') limit = 10,
+    @Query('lastEvaluatedKey') lastEvaluatedKey?: string,
+  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
+    return this.tagsService.findBooks(slug, Number(limit), lastEvaluatedKey);
+  }
+
+  @Patch(':slug')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Change the label, vocabulary or description of a tag',
+  })
+  @ApiResponse({ status: 200, description: 'Tag updated successfully' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  async update(
+    @Param('slug') slug: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateTagDto: UpdateTagDto,
+  ): Promise<Tag> {
+    return this.tagsService.update(slug, updateTagDto);
+  }
+
+  @Post(':slug/rename')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Give a tag a new slug on every tagged book' })
+  @ApiResponse({ status: 200, description: 'Tag renamed successfully' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The new slug is taken or a book changed meanwhile',
+  })
+  async rename(
+    @Param('slug') slug: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    renameTagDto: RenameTagDto,
+  ): Promise<{ message: string; tag: Tag; booksUpdated: number }> {
+    return this.tagsService.rename(slug, renameTagDto);
+  }
+
+  @Post(':slug/merge')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move the books of a tag to another tag and delete it',
+  })
+  @ApiResponse({ status: 200, description: 'Tags merged successfully' })
+  @ApiResponse({ status: 404, description: 'Either tag not found' })
+  @ApiResponse({ status: 409, description: 'A book changed meanwhile' })
+  async merge(
+    @Param('slug') slug: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    mergeTagDto: MergeTagDto,
+  ): Promise<{ message: string; tag: Tag; booksUpdated: number }> {
+    return this.tagsService.merge(slug, mergeTagDto);
+  }
+
+  @Delete(':slug')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a tag no book carries' })
+  @ApiResponse({ status: 200, description: 'Tag deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Tag not found' })
+  @ApiResponse({ status: 409, description: 'The tag is still on books' })
+  async remove(@Param('slug') slug: string): Promise<{ message: string }> {
+    return this.tagsService.remove(slug);
+  }
+}
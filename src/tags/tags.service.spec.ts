@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { TagsService } from './tags.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { SearchService } from '../search/search.service';
+
+const conditionFailed = () =>
+  new ConditionalCheckFailedException({
+    message: 'The conditional request failed',
+    $metadata: {},
+  });
+
+describe('TagsService', () => {
+  let service: TagsService;
+  let send: jest.Mock;
+
+  beforeEach(async () => {
+    send = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TagsService,
+        {
+          provide: DynamoDBService,
+          useValue: {
+            documentClient: { send },
+            failedTransactionConditions: jest.fn().mockReturnValue([]),
+          },
+        },
+        { provide: SearchService, useValue: { refreshBook: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<TagsService>(TagsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should derive the slug from the label', async () => {
+    send.mockResolvedValueOnce({});
+
+    const tag = await service.create({ label: 'World War II' });
+
+    expect(tag).toMatchObject({
+      slug: 'world-war-ii',
+      vocabulary: 'general',
+      booksCount: 0,
+    });
+  });
+
+  it('should refuse a slug already in use', async () => {
+    send.mockRejectedValueOnce(conditionFailed());
+
+    await expect(
+      service.create({ label: 'Poetry', slug: 'poetry' }),
+    ).rejects.toThrow('Tag "poetry" already exists');
+  });
+
+  it('should list a vocabulary sorted by label with usage counts', async () => {
+    send.mockResolvedValueOnce({
+      Items: [
+        { slug: 'war', label: 'War', vocabulary: 'subjects', booksCount: 4 },
+        { slug: 'noir', label: 'Noir', vocabulary: 'genres', booksCount: 1 },
+        { slug: 'art', label: 'Art', vocabulary: 'subjects', booksCount: 0 },
+      ],
+    });
+
+    const { tags, total } = await service.findAll({ vocabulary: 'subjects' });
+
+    expect(tags.map((tag) => [tag.slug, tag.booksCount])).toEqual([
+      ['art', 0],
+      ['war', 4],
+    ]);
+    expect(total).toBe(2);
+  });
+
+  describe('merge', () => {
+    it('should move every book to the target tag and delete the source', async () => {
+      send
+        .mockResolvedValueOnce({ Item: { slug: 'ww2' } })
+        .mockResolvedValueOnce({ Item: { slug: 'world-war-ii' } })
+        .mockResolvedValueOnce({
+          Items: [
+            { slug: 'ww2', bookId: 'b1' },
+            { slug: 'ww2', bookId: 'b2' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          Responses: {
+            Books: [
+              { id: 'b1', tags: ['ww2', 'history'] },
+              { id: 'b2', tags: ['world-war-ii', 'ww2'] },
+            ],
+          },
+        })
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({})
+        .mockResolvedValueOnce({
+          Item: { slug: 'world-war-ii', booksCount: 2 },
+        });
+
+      const result = await service.merge('ww2', { into: 'world-war-ii' });
+
+      expect(result.booksUpdated).toBe(2);
+      const [first, second] = [4, 5].map(
+        (call) => send.mock.calls[call][0].input.TransactItems,
+      );
+      expect(first[0].Update.ExpressionAttributeValues).toMatchObject({
+        ':tags': ['world-war-ii', 'history'],
+        ':currentTags': ['ww2', 'history'],
+      });
+      expect(first).toHaveLength(5);
+      // Already tagged with the target, the book only loses the source
+      expect(second[0].Update.ExpressionAttributeValues[':tags']).toEqual([
+        'world-war-ii',
+      ]);
+      expect(second.slice(1)).toEqual([
+        expect.objectContaining({
+          Update: expect.objectContaining({ Key: { slug: 'ww2' } }),
+        }),
+        {
+          Delete: { TableName: 'BookTags', Key: { slug: 'ww2', bookId: 'b2' } },
+        },
+      ]);
+      expect(send.mock.calls[6][0].input).toMatchObject({
+        TableName: 'Tags',
+        Key: { slug: 'ww2' },
+        ConditionExpression: 'attribute_exists(slug) AND booksCount = :zero',
+      });
+    });
+
+    it('should refuse to merge a tag into itself', async () => {
+      await expect(service.merge('ww2', { into: 'ww2' })).rejects.toThrow(
+        'cannot be merged into itself',
+      );
+      expect(send).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should refuse to rename onto an existing slug', async () => {
+    send
+      .mockResolvedValueOnce({ Item: { slug: 'ww2', booksCount: 3 } })
+      .mockRejectedValueOnce(conditionFailed());
+
+    await expect(
+      service.rename('ww2', { slug: 'world-war-ii' }),
+    ).rejects.toThrow('merge into it instead');
+  });
+
+  it('should refuse to delete a tag still on books', async () => {
+    send
+      .mockResolvedValueOnce({ Item: { slug: 'ww2', booksCount: 3 } })
+      .mockRejectedValueOnce(conditionFailed());
+
+    await expect(service.remove('ww2')).rejects.toThrow('still on books');
+  });
+});
@@ -0,0 +1,551 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  TransactWriteCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { Book, BookStatus } from '../books/interfaces/book.interface';
+import { SearchService } from '../search/search.service';
+import { Tag } from './interfaces/tag.interface';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { RenameTagDto } from './dto/rename-tag.dto';
+import { MergeTagDto } from './dto/merge-tag.dto';
+import { FindTagsQueryDto } from './dto/find-tags-query.dto';
+import {
+  TagAlreadyExistsException,
+  TagInUseException,
+  TagNotFoundException,
+  TagUpdateException,
+} from './exceptions/tag.exceptions';
+import { slugify } from './utils/slug.util';
+
+const DEFAULT_VOCABULARY = 'general';
+
+@Injectable()
+export class TagsService {
+  private readonly tableName = 'Tags';
+  private readonly bookTagsTableName = 'BookTags';
+  private readonly booksTableName = 'Books';
+  private readonly logger = new Logger(TagsService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  async create(createTagDto: CreateTagDto): Promise<Tag> {
+    const slug = createTagDto.slug ?? slugify(createTagDto.label);
+
+    try {
+      if (!slug) {
+        throw new BadRequestException(
+          'The label has no letters or digits to make a slug from',
+        );
+      }
+
+      const now = new Date().toISOString();
+      const tag: Tag = {
+        ...createTagDto,
+        slug,
+        vocabulary: createTagDto.vocabulary ?? DEFAULT_VOCABULARY,
+        booksCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: tag,
+          ConditionExpression: 'attribute_not_exists(slug)',
+        }),
+      );
+
+      this.logger.log(`Created tag "${slug}"`);
+      return tag;
+    } catch (error) {
+      this.logger.error(`Failed to create tag: ${error.message}`, error.stack);
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new TagAlreadyExistsException(slug);
+      }
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Every tag with its usage count, grouped by vocabulary and sorted by
+  // label. Vocabularies are small enough to be read whole
+  async findAll(
+    query: FindTagsQueryDto,
+  ): Promise<{ message: string; tags: Tag[]; total: number }> {
+    try {
+      const tags: Tag[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        tags.push(...((response.Items || []) as Tag[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      const matching = tags
+        .filter(
+          (tag) => !query.vocabulary || tag.vocabulary === query.vocabulary,
+        )
+        .sort(
+          (a, b) =>
+            a.vocabulary.localeCompare(b.vocabulary) ||
+            a.label.localeCompare(b.label),
+        );
+
+      return {
+        message:
+          matching.length > 0 ? 'Tags retrieved successfully' : 'No tags found',
+        tags: matching,
+        total: matching.length,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch tags: ${error.message}`, error.stack);
+      throw new HttpException(
+        'Failed to fetch tags',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async findOne(slug: string): Promise<Tag> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { slug },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new TagNotFoundException(slug);
+      }
+      return response.Item as Tag;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch tag "${slug}": ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof TagNotFoundException) {
+        throw error;
+      }
+      throw new HttpException(
+        'Failed to fetch tag',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async findBooks(
+    slug: string,
+    limit: number,
+    lastEvaluatedKey?: string,
+  ): Promise<{ message: string; books: Book[]; lastEvaluatedKey?: string }> {
+    try {
+      await this.findOne(slug);
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({
+          TableName: this.bookTagsTableName,
+          KeyConditionExpression: 'slug = :slug',
+          ExpressionAttributeValues: { ':slug': slug },
+          Limit: limit,
+          ExclusiveStartKey: lastEvaluatedKey
+            ? { slug, bookId: lastEvaluatedKey }
+            : undefined,
+        }),
+      );
+
+      const bookIds = (response.Items || []).map((link) => link.bookId);
+      const booksById = await this.batchGetBooks(bookIds);
+      const books = bookIds
+        .filter((id) => booksById.has(id))
+        .map((id) => {
+          const book = booksById.get(id);
+          book.status =
+            book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE;
+          book.hasPdf = Boolean(book.pdf);
+          return book;
+        });
+
+      return {
+        message:
+          books.length > 0
+            ? 'Books retrieved successfully'
+            : 'No books found with this tag',
+        books,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? response.LastEvaluatedKey.bookId
+          : undefined,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch books tagged "${slug}": ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Labels, vocabularies and descriptions are not stored on books, so they
+  // change without touching them
+  async update(slug: string, updateTagDto: UpdateTagDto): Promise<Tag> {
+    try {
+      const updateExpression = ['#updatedAt = :updatedAt'];
+      const expressionAttributeNames: Record<string, string> = {
+        '#updatedAt': 'updatedAt',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':updatedAt': new Date().toISOString(),
+      };
+
+      for (const key of ['label', 'vocabulary', 'description'] as const) {
+        if (updateTagDto[key] !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = updateTagDto[key];
+        }
+      }
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { slug },
+          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ConditionExpression: 'attribute_exists(slug)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Updated tag "${slug}"`);
+      return response.Attributes as Tag;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update tag "${slug}": ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new TagNotFoundException(slug);
+      }
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Gives the tag a new slug: the tag is copied under the new slug, every
+  // tagged book is rewritten and the old tag is deleted
+  async rename(
+    slug: string,
+    renameTagDto: RenameTagDto,
+  ): Promise<{ message: string; tag: Tag; booksUpdated: number }> {
+    const newSlug = renameTagDto.slug;
+
+    try {
+      if (newSlug === slug) {
+        throw new BadRequestException(`Tag "${slug}" already has this slug`);
+      }
+
+      const source = await this.findOne(slug);
+      const tag: Tag = {
+        ...source,
+        slug: newSlug,
+        booksCount: 0,
+        updatedAt: new Date().toISOString(),
+      };
+      try {
+        await this.dynamoDBService.documentClient.send(
+          new PutCommand({
+            TableName: this.tableName,
+            Item: tag,
+            ConditionExpression: 'attribute_not_exists(slug)',
+          }),
+        );
+      } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+          throw new TagAlreadyExistsException(newSlug);
+        }
+        throw error;
+      }
+
+      const booksUpdated = await this.moveBooks(slug, newSlug);
+      await this.deleteUnused(slug);
+
+      this.logger.log(
+        `Renamed tag "${slug}" to "${newSlug}" on ${booksUpdated} books`,
+      );
+      return {
+        message: `Tag "${slug}" renamed to "${newSlug}"`,
+        tag: await this.findOne(newSlug),
+        booksUpdated,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to rename tag "${slug}": ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Moves every book of the tag to another existing tag and deletes it. A
+  // merge that fails part way can be retried and picks up the books left
+  async merge(
+    slug: string,
+    mergeTagDto: MergeTagDto,
+  ): Promise<{ message: string; tag: Tag; booksUpdated: number }> {
+    const target = mergeTagDto.into;
+
+    try {
+      if (target === slug) {
+        throw new BadRequestException('A tag cannot be merged into itself');
+      }
+
+      await Promise.all([this.findOne(slug), this.findOne(target)]);
+      const booksUpdated = await this.moveBooks(slug, target);
+      await this.deleteUnused(slug);
+
+      this.logger.log(
+        `Merged tag "${slug}" into "${target}" on ${booksUpdated} books`,
+      );
+      return {
+        message: `Tag "${slug}" merged into "${target}"`,
+        tag: await this.findOne(target),
+        booksUpdated,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to merge tag "${slug}": ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error);
+    }
+  }
+
+  async remove(slug: string): Promise<{ message: string }> {
+    try {
+      await this.findOne(slug);
+      await this.deleteUnused(slug);
+
+      this.logger.log(`Deleted tag "${slug}"`);
+      return { message: `Tag "${slug}" has been successfully deleted` };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete tag "${slug}": ${error.message}`,
+        error.stack,
+      );
+      throw this.toHttpException(error);
+    }
+  }
+
+  // Replaces the tags of a book: the counters of added and removed tags
+  // first, then their links. An added tag that does not exist fails its
+  // counter's condition, at its position among the first addedSlugs items
+  tagTransactItems(
+    bookId: string,
+    before: string[],
+    after: string[],
+  ): { addedSlugs: string[]; items: TransactWriteItem[] } {
+    const addedSlugs = after.filter((slug) => !before.includes(slug));
+    const removedSlugs = before.filter((slug) => !after.includes(slug));
+
+    return {
+      addedSlugs,
+      items: [
+        ...addedSlugs.map((slug) => this.booksCountTransactItem(slug, 1)),
+        ...removedSlugs.map((slug) => this.booksCountTransactItem(slug, -1)),
+        ...addedSlugs.map(
+          (slug): TransactWriteItem => ({
+            Put: {
+              TableName: this.bookTagsTableName,
+              Item: { slug, bookId },
+            },
+          }),
+        ),
+        ...removedSlugs.map(
+          (slug): TransactWriteItem => ({
+            Delete: {
+              TableName: this.bookTagsTableName,
+              Key: { slug, bookId },
+            },
+          }),
+        ),
+      ],
+    };
+  }
+
+  // Rewrites each book carrying the source tag, one transaction per book
+  // guarded by the book's current tags. Returns the number of books moved
+  private async moveBooks(source: string, target: string): Promise<number> {
+    const bookIds = await this.taggedBookIds(source);
+    const books = await this.batchGetBooks(bookIds);
+    let moved = 0;
+
+    for (const bookId of bookIds) {
+      const book = books.get(bookId);
+      const current = book?.tags ?? [];
+
+      let items: TransactWriteItem[];
+      if (!current.includes(source)) {
+        // A link left behind by a book that no longer carries the tag
+        items = this.tagTransactItems(bookId, [source], []).items;
+      } else {
+        const next = [
+          ...new Set(current.map((slug) => (slug === source ? target : slug))),
+        ];
+        items = [
+          {
+            Update: {
+              TableName: this.booksTableName,
+              Key: { id: bookId },
+              UpdateExpression: 'SET tags = :tags, updatedAt = :updatedAt',
+              ConditionExpression: 'tags = :currentTags',
+              ExpressionAttributeValues: {
+                ':tags': next,
+                ':currentTags': current,
+                ':updatedAt': new Date().toISOString(),
+              },
+            },
+          },
+          ...this.tagTransactItems(bookId, current, next).items,
+        ];
+        moved++;
+      }
+
+      try {
+        await this.dynamoDBService.documentClient.send(
+          new TransactWriteCommand({ TransactItems: items }),
+        );
+        if (current.includes(source)) {
+          await this.searchService.refreshBook(bookId);
+        }
+      } catch (error) {
+        if (this.dynamoDBService.failedTransactionConditions(error).length) {
+          throw new HttpException(
+            `Book "${bookId}" or tag "${target}" changed while retagging, please retry`,
+            HttpStatus.CONFLICT,
+          );
+        }
+        throw error;
+      }
+    }
+
+    return moved;
+  }
+
+  private async deleteUnused(slug: string): Promise<void> {
+    try {
+      await this.dynamoDBService.documentClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { slug },
+          ConditionExpression: 'attribute_exists(slug) AND booksCount = :zero',
+          ExpressionAttributeValues: { ':zero': 0 },
+        }),
+      );
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new TagInUseException(slug);
+      }
+      throw error;
+    }
+  }
+
+  private booksCountTransactItem(
+    slug: string,
+    delta: 1 | -1,
+  ): TransactWriteItem {
+    return {
+      Update: {
+        TableName: this.tableName,
+        Key: { slug },
+        UpdateExpression: 'SET booksCount = booksCount + :delta',
+        ConditionExpression:
+          delta > 0
+            ? 'attribute_exists(slug)'
+            : 'attribute_exists(slug) AND booksCount > :zero',
+        ExpressionAttributeValues:
+          delta > 0 ? { ':delta': delta } : { ':delta': delta, ':zero': 0 },
+      },
+    };
+  }
+
+  private async taggedBookIds(slug: string): Promise<string[]> {
+    const bookIds: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+      const response = await this.dynamoDBService.documentClient.send(
+        new QueryCommand({
+          TableName: this.bookTagsTableName,
+          KeyConditionExpression: 'slug = :slug',
+          ExpressionAttributeValues: { ':slug': slug },
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      bookIds.push(...(response.Items || []).map((link) => link.bookId));
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return bookIds;
+  }
+
+  private async batchGetBooks(ids: string[]): Promise<Map<string, Book>> {
+    const books = new Map<string, Book>();
+
+    // BatchGetItem accepts at most 100 keys per request
+    for (let i = 0; i < ids.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        Books: { Keys: ids.slice(i, i + 100).map((id) => ({ id })) },
+      };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        for (const book of (response.Responses?.Books || []) as Book[]) {
+          books.set(book.id, book);
+        }
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return books;
+  }
+
+  private toHttpException(error: any): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+    return new TagUpdateException(error.message);
+  }
+}
@@ -0,0 +1,21 @@
+import { SLUG_PATTERN, slugify } from './slug.util';
+
+describe('slugify', () => {
+  it('should join words with single hyphens', () => {
+    expect(slugify('Science Fiction & Fantasy')).toBe(
+      'science-fiction-fantasy',
+    );
+    expect(slugify('  -- World War II -- ')).toBe('world-war-ii');
+  });
+
+  it('should drop diacritics', () => {
+    expect(slugify('Littérature française')).toBe('litterature-francaise');
+  });
+
+  it('should produce slugs matching the slug pattern', () => {
+    expect(SLUG_PATTERN.test(slugify('History — Europe, 1914–1918'))).toBe(
+      true,
+    );
+    expect(SLUG_PATTERN.test('Not A Slug')).toBe(false);
+  });
+});
@@ -0,0 +1,13 @@
+// Lower-case words of letters and digits joined by single hyphens
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// "Science Fiction & Fantasy" becomes "science-fiction-fantasy"; diacritics
+// are dropped so "Émile" and "Emile" give the same slug
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
@@ -0,0 +1,21 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateTransferDto {
+  @IsString()
+  @IsNotEmpty()
+  barcode: string;
+
+  @IsUUID()
+  toBranchId: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,13 @@
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { TransferStatus } from '../interfaces/transfer.interface';
+
+export class FindTransfersQueryDto {
+  @IsEnum(TransferStatus)
+  @IsOptional()
+  status?: TransferStatus;
+
+  // Transfers leaving or arriving at the branch
+  @IsUUID()
+  @IsOptional()
+  branchId?: string;
+}
@@ -0,0 +1,13 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class TransferNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Transfer with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class TransferConflictException extends HttpException {
+  constructor(message: string) {
+    super(message, HttpStatus.CONFLICT);
+  }
+}
@@ -0,0 +1,26 @@
+// A copy on its way from one branch to another
+export interface Transfer {
+  id: string;
+  barcode: string;
+  bookId: string;
+  fromBranchId: string;
+  toBranchId: string;
+  reason: TransferReason;
+  status: TransferStatus;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  receivedAt?: string;
+}
+
+export enum TransferStatus {
+  IN_TRANSIT = 'IN_TRANSIT',
+  RECEIVED = 'RECEIVED',
+}
+
+export enum TransferReason {
+  // Asked for by staff to move stock between branches
+  REQUESTED = 'REQUESTED',
+  // A copy returned away from its home branch, routed back there
+  RETURN = 'RETURN',
+}
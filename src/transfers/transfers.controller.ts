@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { TransfersService } from './transfers.service';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { FindTransfersQueryDto } from './dto/find-transfers-query.dto';
+import { Transfer } from './interfaces/transfer.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('transfers')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class TransfersController {
+  constructor(private readonly transfersService: TransfersService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Send a copy on the shelf to another branch' })
+  @ApiResponse({ status: 201, description: 'The copy is in transit' })
+  @ApiResponse({ status: 400, description: 'The copy cannot be moved' })
+  @ApiResponse({ status: 404, description: 'Copy or branch not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The copy was taken or set aside concurrently',
+  })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createTransferDto: CreateTransferDto,
+  ): Promise<Transfer> {
+    return this.transfersService.create(createTransferDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get transfers, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Returns the transfers with the status and branch asked for',
+  })
+  async findAll(
+    @Query(new ValidationPipe({ transform: true }))
+    query: FindTransfersQueryDto,
+  ): Promise<{ message: string; transfers: Transfer[] }> {
+    return this.transfersService.findAll(query);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a transfer' })
+  @ApiResponse({ status: 200, description: 'Returns the transfer' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Transfer> {
+    return this.transfersService.findOne(id);
+  }
+
+  @Post(':id/receive')
+  @ApiOperation({ summary: 'Shelve a copy at the end of its transfer' })
+  @ApiResponse({ status: 201, description: 'The copy is on the shelf' })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  @ApiResponse({ status: 409, description: 'Transfer already received' })
+  async receive(@Param('id', ParseUUIDPipe) id: string): Promise<Transfer> {
+    return this.transfersService.receive(id);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { TransfersService } from './transfers.service';
+import { TransfersController } from './transfers.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { CopiesModule } from '../copies/copies.module';
+import { BranchesModule } from '../branches/branches.module';
+import { SearchModule } from '../search/search.module';
+
+@Module({
+  imports: [
+    DynamoDBModule,
+    AuthModule,
+    CopiesModule,
+    BranchesModule,
+    SearchModule,
+  ],
+  controllers: [TransfersController],
+  providers: [TransfersService],
+  exports: [TransfersService],
+})
+export class TransfersModule {}
@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TransfersService } from './transfers.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { CopiesService } from '../copies/copies.service';
+import { BranchesService } from '../branches/branches.service';
+import { HoldsService } from '../holds/holds.service';
+import { SearchService } from '../search/search.service';
+import { CopyStatus } from '../copies/interfaces/copy.interface';
+import {
+  TransferReason,
+  TransferStatus,
+} from './interfaces/transfer.interface';
+
+describe('TransfersService', () => {
+  let service: TransfersService;
+  let send: jest.Mock;
+  let failedTransactionConditions: jest.Mock;
+
+  const copy = {
+    barcode: 'LIB-0001',
+    bookId: 'book-1',
+    branchId: 'north',
+    status: CopyStatus.AVAILABLE,
+  };
+
+  beforeEach(async () => {
+    send = jest.fn();
+    failedTransactionConditions = jest.fn().mockReturnValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TransfersService,
+        CopiesService,
+        BranchesService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send }, failedTransactionConditions },
+        },
+        {
+          provide: HoldsService,
+          useValue: {
+            readyNextHoldTransactItem: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+        { provide: SearchService, useValue: { refreshBook: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<TransfersService>(TransfersService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should take the copy off the shelf while it travels', async () => {
+    send.mockResolvedValueOnce({ Item: copy }).mockResolvedValueOnce({});
+
+    const transfer = await service.create({
+      barcode: 'LIB-0001',
+      toBranchId: 'south',
+    });
+
+    expect(transfer).toMatchObject({
+      fromBranchId: 'north',
+      toBranchId: 'south',
+      reason: TransferReason.REQUESTED,
+      status: TransferStatus.IN_TRANSIT,
+    });
+    const [, branchCheck, copyUpdate, bookUpdate] =
+      send.mock.calls[1][0].input.TransactItems;
+    expect(branchCheck.ConditionCheck.Key).toEqual({ id: 'south' });
+    expect(copyUpdate.Update.ExpressionAttributeValues).toMatchObject({
+      ':inTransit': CopyStatus.IN_TRANSIT,
+      ':transferId': transfer.id,
+    });
+    expect(bookUpdate.Update.ExpressionAttributeValues[':quantityDelta']).toBe(
+      -1,
+    );
+  });
+
+  it('should name the destination that does not exist', async () => {
+    send
+      .mockResolvedValueOnce({ Item: copy })
+      .mockRejectedValueOnce(new Error());
+    failedTransactionConditions.mockReturnValue([1]);
+
+    await expect(
+      service.create({ barcode: 'LIB-0001', toBranchId: 'nowhere' }),
+    ).rejects.toThrow('Branch with ID "nowhere" not found');
+  });
+
+  it('should refuse to move a copy on loan', async () => {
+    send.mockResolvedValueOnce({
+      Item: { ...copy, status: CopyStatus.ON_LOAN },
+    });
+
+    await expect(
+      service.create({ barcode: 'LIB-0001', toBranchId: 'south' }),
+    ).rejects.toThrow('is ON_LOAN and cannot be moved');
+  });
+
+  it('should shelve and rehome the copy when it arrives', async () => {
+    send
+      .mockResolvedValueOnce({
+        Item: {
+          id: 't-1',
+          barcode: 'LIB-0001',
+          fromBranchId: 'north',
+          toBranchId: 'south',
+          status: TransferStatus.IN_TRANSIT,
+        },
+      })
+      .mockResolvedValueOnce({
+        Item: { ...copy, status: CopyStatus.IN_TRANSIT, transferId: 't-1' },
+      })
+      .mockResolvedValueOnce({});
+
+    const transfer = await service.receive('t-1');
+
+    expect(transfer.status).toBe(TransferStatus.RECEIVED);
+    const [, copyUpdate, bookUpdate, southCount, northCount] =
+      send.mock.calls[2][0].input.TransactItems;
+    expect(copyUpdate.Update.ExpressionAttributeValues[':branchId']).toBe(
+      'south',
+    );
+    expect(bookUpdate.Update.ExpressionAttributeValues[':quantityDelta']).toBe(
+      1,
+    );
+    expect(southCount.Update.Key).toEqual({ id: 'south' });
+    expect(northCount.Update.ExpressionAttributeValues[':delta']).toBe(-1);
+  });
+
+  it('should refuse to receive a transfer twice', async () => {
+    send.mockResolvedValueOnce({
+      Item: { id: 't-1', status: TransferStatus.RECEIVED },
+    });
+
+    await expect(service.receive('t-1')).rejects.toThrow('already received');
+  });
+});
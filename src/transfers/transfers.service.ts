@@ -0,0 +1,298 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import {
+  GetCommand,
+  ScanCommand,
+  TransactWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  DynamoDBService,
+  TransactWriteItem,
+} from '../dynamodb/dynamodb.service';
+import { CopiesService } from '../copies/copies.service';
+import { Copy, CopyStatus } from '../copies/interfaces/copy.interface';
+import { BranchesService } from '../branches/branches.service';
+import { BranchNotFoundException } from '../branches/exceptions/branch.exceptions';
+import { SearchService } from '../search/search.service';
+import { CreateTransferDto } from './dto/create-transfer.dto';
+import { FindTransfersQueryDto } from './dto/find-transfers-query.dto';
+import {
+  Transfer,
+  TransferReason,
+  TransferStatus,
+} from './interfaces/transfer.interface';
+import {
+  TransferConflictException,
+  TransferNotFoundException,
+} from './exceptions/transfer.exceptions';
+
+@Injectable()
+export class TransfersService {
+  private readonly tableName = 'Transfers';
+  private readonly logger = new Logger(TransfersService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly copiesService: CopiesService,
+    private readonly branchesService: BranchesService,
+    private readonly searchService: SearchService,
+  ) {}
+
+  // Takes a copy off the shelf at its branch and sends it to another one,
+  // which becomes its home once the copy is received
+  async create(createTransferDto: CreateTransferDto): Promise<Transfer> {
+    const { barcode, toBranchId, note } = createTransferDto;
+
+    try {
+      const copy = await this.copiesService.findOne(barcode);
+      if (!copy.branchId) {
+        throw new BadRequestException(
+          `Copy "${barcode}" has no home branch, set one before moving it`,
+        );
+      }
+      if (copy.branchId === toBranchId) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is already at branch "${toBranchId}"`,
+        );
+      }
+      if (copy.status !== CopyStatus.AVAILABLE) {
+        throw new BadRequestException(
+          `Copy "${barcode}" is ${copy.status} and cannot be moved`,
+        );
+      }
+
+      const transfer = this.buildTransfer(
+        copy,
+        copy.branchId,
+        toBranchId,
+        TransferReason.REQUESTED,
+        note,
+      );
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            this.createTransactItem(transfer),
+            this.branchesService.existsTransactItem(toBranchId),
+            ...this.copiesService.dispatchTransactItems(copy, transfer.id),
+          ],
+        }),
+      );
+      await this.searchService.refreshBook(copy.bookId);
+
+      this.logger.log(
+        `Copy ${barcode} sent from branch ${transfer.fromBranchId} to ${toBranchId}`,
+      );
+      return transfer;
+    } catch (error) {
+      this.logger.error(
+        `Failed to transfer copy ${barcode}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      const failed = this.dynamoDBService.failedTransactionConditions(error);
+      if (failed.includes(1)) {
+        throw new BranchNotFoundException(toBranchId);
+      }
+      if (failed.length > 0) {
+        throw new TransferConflictException(
+          `Copy "${barcode}" was taken or set aside for a hold concurrently, please retry`,
+        );
+      }
+      throw new InternalServerErrorException('Failed to transfer copy');
+    }
+  }
+
+  async findAll(
+    query: FindTransfersQueryDto,
+  ): Promise<{ message: string; transfers: Transfer[] }> {
+    try {
+      const transfers: Transfer[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        transfers.push(...((response.Items || []) as Transfer[]));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      const matches = transfers
+        .filter(
+          (transfer) =>
+            (!query.status || transfer.status === query.status) &&
+            (!query.branchId ||
+              transfer.fromBranchId === query.branchId ||
+              transfer.toBranchId === query.branchId),
+        )
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+      return {
+        message:
+          matches.length > 0
+            ? 'Transfers retrieved successfully'
+            : 'No transfers found',
+        transfers: matches,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch transfers: ${error.message}`,
+        error.stack,
+      );
+      throw new InternalServerErrorException('Failed to fetch transfers');
+    }
+  }
+
+  async findOne(id: string): Promise<Transfer> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new TransferNotFoundException(id);
+      }
+      return response.Item as Transfer;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch transfer ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof TransferNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch transfer');
+    }
+  }
+
+  // Shelves the copy at the destination, where it goes to the next hold in
+  // line before it counts as available
+  async receive(id: string): Promise<Transfer> {
+    try {
+      const transfer = await this.findOne(id);
+      if (transfer.status !== TransferStatus.IN_TRANSIT) {
+        throw new TransferConflictException(
+          `Transfer with ID "${id}" was already received`,
+        );
+      }
+
+      const copy = await this.copiesService.findOne(transfer.barcode);
+      const now = new Date().toISOString();
+
+      await this.dynamoDBService.documentClient.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              Update: {
+                TableName: this.tableName,
+                Key: { id },
+                UpdateExpression:
+                  'SET #status = :received, receivedAt = :now, updatedAt = :now',
+                ConditionExpression: '#status = :inTransit',
+                ExpressionAttributeNames: { '#status': 'status' },
+                ExpressionAttributeValues: {
+                  ':received': TransferStatus.RECEIVED,
+                  ':inTransit': TransferStatus.IN_TRANSIT,
+                  ':now': now,
+                },
+              },
+            },
+            ...(await this.copiesService.receiveTransactItems(
+              copy,
+              id,
+              transfer.toBranchId,
+            )),
+          ],
+        }),
+      );
+      await this.searchService.refreshBook(copy.bookId);
+
+      this.logger.log(
+        `Copy ${transfer.barcode} received at branch ${transfer.toBranchId}`,
+      );
+      return {
+        ...transfer,
+        status: TransferStatus.RECEIVED,
+        receivedAt: now,
+        updatedAt: now,
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to receive transfer ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      if (this.dynamoDBService.failedTransactionConditions(error).length > 0) {
+        throw new TransferConflictException(
+          `Transfer with ID "${id}" or the hold queue of its book changed concurrently, please retry`,
+        );
+      }
+      throw new InternalServerErrorException('Failed to receive transfer');
+    }
+  }
+
+  // The transfer taking a copy returned at another branch back home. The
+  // caller writes it together with the copy's checkin
+  async buildReturnTransfer(
+    copy: Copy,
+    fromBranchId: string,
+  ): Promise<Transfer> {
+    await this.branchesService.findOne(fromBranchId);
+    return this.buildTransfer(
+      copy,
+      fromBranchId,
+      copy.branchId,
+      TransferReason.RETURN,
+    );
+  }
+
+  createTransactItem(transfer: Transfer): TransactWriteItem {
+    return {
+      Put: {
+        TableName: this.tableName,
+        Item: transfer,
+        ConditionExpression: 'attribute_not_exists(id)',
+      },
+    };
+  }
+
+  private buildTransfer(
+    copy: Copy,
+    fromBranchId: string,
+    toBranchId: string,
+    reason: TransferReason,
+    note?: string,
+  ): Transfer {
+    const now = new Date().toISOString();
+    return {
+      id: uuidv4(),
+      barcode: copy.barcode,
+      bookId: copy.bookId,
+      fromBranchId,
+      toBranchId,
+      reason,
+      status: TransferStatus.IN_TRANSIT,
+      note,
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class UploadedPartDto {
+  @IsInt()
+  @Min(1)
+  @Max(10000)
+  partNumber: number;
+
+  // The ETag header S3 answered the part's PUT with
+  @IsString()
+  @IsNotEmpty()
+  etag: string;
+}
+
+export class CompleteUploadDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => UploadedPartDto)
+  parts: UploadedPartDto[];
+}
@@ -0,0 +1,38 @@
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { UploadPurpose } from '../interfaces/upload.interface';
+
+export class CreateUploadDto {
+  @IsEnum(UploadPurpose)
+  purpose: UploadPurpose;
+
+  @IsUUID()
+  targetId: string;
+
+  // A bare file name, it becomes the end of the object key
+  @IsString()
+  @MaxLength(255)
+  @Matches(/^[^/\\]+$/, { message: 'fileName must not contain slashes' })
+  fileName: string;
+
+  @IsString()
+  @IsNotEmpty()
+  contentType: string;
+
+  @IsInt()
+  @Min(1)
+  size: number;
+
+  @Matches(/^[a-f0-9]{64}$/, {
+    message: 'checksum must be the hex SHA-256 of the file',
+  })
+  checksum: string;
+}
@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class UploadNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Upload with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class UploadConflictException extends HttpException {
+  constructor(message: string) {
+    super(message, HttpStatus.CONFLICT);
+  }
+}
+
+export class UploadVerificationException extends HttpException {
+  constructor(id: string, reason: string) {
+    super(
+      `Upload with ID "${id}" was rejected: ${reason}`,
+      HttpStatus.UNPROCESSABLE_ENTITY,
+    );
+  }
+}
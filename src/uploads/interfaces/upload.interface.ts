@@ -0,0 +1,46 @@
+// A file sent by the browser straight to S3 in parts, attached to its book
+// or author once finalised and checked
+export interface UploadSession {
+  id: string;
+  purpose: UploadPurpose;
+  // The book or author the file is for
+  targetId: string;
+  key: string;
+  // The S3 multipart upload the parts belong to
+  uploadId: string;
+  fileName: string;
+  contentType: string;
+  // Declared by the client and checked against the stored file on finalise;
+  // the checksum is the hex SHA-256 of the whole file
+  size: number;
+  checksum: string;
+  partSize: number;
+  partsCount: number;
+  status: UploadStatus;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  // The part URLs stop working then and the session can no longer finalise
+  expiresAt: string;
+  fileUrl?: string;
+  failureReason?: string;
+}
+
+export enum UploadPurpose {
+  BOOK_COVER = 'BOOK_COVER',
+  BOOK_PDF = 'BOOK_PDF',
+  AUTHOR_PROFILE = 'AUTHOR_PROFILE',
+}
+
+export enum UploadStatus {
+  PENDING = 'PENDING',
+  COMPLETED = 'COMPLETED',
+  // The stored file did not match what was declared and was deleted
+  FAILED = 'FAILED',
+  ABORTED = 'ABORTED',
+}
+
+export interface UploadPartUrl {
+  partNumber: number;
+  url: string;
+}
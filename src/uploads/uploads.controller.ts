@@ -0,0 +1,98 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Request,
+  UseGuards,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { UploadsService } from './uploads.service';
+import { CreateUploadDto } from './dto/create-upload.dto';
+import { CompleteUploadDto } from './dto/complete-upload.dto';
+import { UploadPartUrl, UploadSession } from './interfaces/upload.interface';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('uploads')
+@UseGuards(CognitoAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN)
+@ApiBearerAuth()
+export class UploadsController {
+  constructor(private readonly uploadsService: UploadsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Start uploading a book cover, book PDF or author picture',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Returns the session and a presigned URL for each part',
+  })
+  @ApiResponse({ status: 400, description: 'File type or size not accepted' })
+  @ApiResponse({ status: 404, description: 'Book or author not found' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createUploadDto: CreateUploadDto,
+    @Request() req,
+  ): Promise<{ upload: UploadSession; partUrls: UploadPartUrl[] }> {
+    return this.uploadsService.create(createUploadDto, req.user.sub);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an upload session' })
+  @ApiResponse({ status: 200, description: 'Returns the upload session' })
+  @ApiResponse({ status: 404, description: 'Upload not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UploadSession> {
+    return this.uploadsService.findOne(id);
+  }
+
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Finish an upload and attach the file once it checks out',
+  })
+  @ApiResponse({ status: 200, description: 'The file is attached' })
+  @ApiResponse({ status: 400, description: 'The parts do not assemble' })
+  @ApiResponse({ status: 404, description: 'Upload not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'The upload is no longer pending or has expired',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Size, checksum or content type do not match',
+  })
+  async complete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(
+      new ValidationPipe({
+        transform: true,
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      }),
+    )
+    completeUploadDto: CompleteUploadDto,
+  ): Promise<UploadSession> {
+    return this.uploadsService.complete(id, completeUploadDto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Abandon an upload and drop its parts' })
+  @ApiResponse({ status: 200, description: 'Upload aborted' })
+  @ApiResponse({ status: 404, description: 'Upload not found' })
+  @ApiResponse({ status: 409, description: 'The upload is no longer pending' })
+  async abort(@Param('id', ParseUUIDPipe) id: string): Promise<UploadSession> {
+    return this.uploadsService.abort(id);
+  }
+}
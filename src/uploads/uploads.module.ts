@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { UploadsService } from './uploads.service';
+import { UploadsController } from './uploads.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { S3Module } from '../s3/s3.module';
+import { BooksModule } from '../books/books.module';
+import { AuthorsModule } from '../authors/authors.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, S3Module, BooksModule, AuthorsModule],
+  controllers: [UploadsController],
+  providers: [UploadsService],
+})
+export class UploadsModule {}
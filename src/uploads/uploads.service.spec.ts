@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { createHash } from 'crypto';
+import { UploadsService } from './uploads.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { S3Service } from '../s3/s3.service';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { UploadPurpose, UploadStatus } from './interfaces/upload.interface';
+
+describe('UploadsService', () => {
+  let service: UploadsService;
+  let send: jest.Mock;
+  let s3Service: Record<string, jest.Mock>;
+  let booksService: Record<string, jest.Mock>;
+
+  const content = Buffer.from('%PDF-1.7 a very short book');
+  const checksum = createHash('sha256').update(content).digest('hex');
+  const session = {
+    id: 'u1',
+    purpose: UploadPurpose.BOOK_PDF,
+    targetId: 'b1',
+    key: 'books/pdfs/k-book.pdf',
+    uploadId: 'mpu-1',
+    contentType: 'application/pdf',
+    size: content.length,
+    checksum,
+    status: UploadStatus.PENDING,
+    expiresAt: new Date(Date.now() + 60000).toISOString(),
+  };
+  const parts = [
+    { partNumber: 2, etag: '"b"' },
+    { partNumber: 1, etag: '"a"' },
+  ];
+
+  beforeEach(async () => {
+    send = jest.fn();
+    s3Service = {
+      createMultipartUpload: jest.fn().mockResolvedValue('mpu-1'),
+      getPartUploadUrls: jest
+        .fn()
+        .mockImplementation((key, uploadId, partsCount) =>
+          Array.from({ length: partsCount }, (_, i) => `https://part-${i}`),
+        ),
+      completeMultipartUpload: jest.fn(),
+      inspectFile: jest.fn().mockResolvedValue({
+        size: content.length,
+        sha256: checksum,
+        head: content.subarray(0, 16),
+      }),
+      downloadFile: jest.fn().mockResolvedValue(content),
+      urlOf: jest.fn((key) => `https://bucket.s3.amazonaws.com/${key}`),
+      deleteFile: jest.fn(),
+      abortMultipartUpload: jest.fn(),
+    };
+    booksService = {
+      findOne: jest.fn().mockResolvedValue({ id: 'b1' }),
+      attachPdf: jest.fn(),
+      attachCover: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        { provide: S3Service, useValue: s3Service },
+        { provide: BooksService, useValue: booksService },
+        { provide: AuthorsService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<UploadsService>(UploadsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    const createUploadDto = {
+      purpose: UploadPurpose.BOOK_PDF,
+      targetId: 'b1',
+      fileName: 'book.pdf',
+      contentType: 'application/pdf',
+      size: 20 * 1024 * 1024,
+      checksum,
+    };
+
+    it('should presign a URL for every part of the file', async () => {
+      send.mockResolvedValueOnce({});
+
+      const { upload, partUrls } = await service.create(
+        createUploadDto,
+        'librarian',
+      );
+
+      expect(upload.partsCount).toBe(3);
+      expect(upload.key).toMatch(/^books\/pdfs\/.+-book\.pdf$/);
+      expect(partUrls.map((part) => part.partNumber)).toEqual([1, 2, 3]);
+      expect(send.mock.calls[0][0].input.Item.status).toBe(
+        UploadStatus.PENDING,
+      );
+    });
+
+    it('should refuse a content type the purpose does not take', async () => {
+      await expect(
+        service.create(
+          { ...createUploadDto, contentType: 'image/png' },
+          'librarian',
+        ),
+      ).rejects.toThrow('must be one of application/pdf');
+      expect(s3Service.createMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a cover over the size limit', async () => {
+      await expect(
+        service.create(
+          {
+            ...createUploadDto,
+            purpose: UploadPurpose.BOOK_COVER,
+            contentType: 'image/png',
+          },
+          'librarian',
+        ),
+      ).rejects.toThrow('must be at most 10 MB');
+    });
+  });
+
+  describe('complete', () => {
+    it('should attach a file that matches what was declared', async () => {
+      send.mockResolvedValueOnce({ Item: session }).mockResolvedValueOnce({
+        Attributes: { ...session, status: UploadStatus.COMPLETED },
+      });
+
+      const upload = await service.complete('u1', { parts });
+
+      expect(s3Service.completeMultipartUpload).toHaveBeenCalledWith(
+        session.key,
+        'mpu-1',
+        [parts[1], parts[0]],
+      );
+      expect(booksService.attachPdf).toHaveBeenCalledWith(
+        'b1',
+        `https://bucket.s3.amazonaws.com/${session.key}`,
+        content,
+      );
+      expect(upload.status).toBe(UploadStatus.COMPLETED);
+    });
+
+    it('should delete a file whose checksum does not match', async () => {
+      send.mockResolvedValueOnce({ Item: session }).mockResolvedValueOnce({});
+      s3Service.inspectFile.mockResolvedValueOnce({
+        size: content.length,
+        sha256: '0'.repeat(64),
+        head: content.subarray(0, 16),
+      });
+
+      await expect(service.complete('u1', { parts })).rejects.toThrow(
+        'the checksum does not match',
+      );
+      expect(s3Service.deleteFile).toHaveBeenCalled();
+      expect(booksService.attachPdf).not.toHaveBeenCalled();
+      expect(send.mock.calls[1][0].input.ExpressionAttributeValues).toEqual(
+        expect.objectContaining({ ':status': UploadStatus.FAILED }),
+      );
+    });
+
+    it('should reject a file that is not what it claims to be', async () => {
+      const html = Buffer.from('<html>not a pdf</html>');
+      send
+        .mockResolvedValueOnce({
+          Item: {
+            ...session,
+            size: html.length,
+            checksum: createHash('sha256').update(html).digest('hex'),
+          },
+        })
+        .mockResolvedValueOnce({});
+      s3Service.inspectFile.mockResolvedValueOnce({
+        size: html.length,
+        sha256: createHash('sha256').update(html).digest('hex'),
+        head: html.subarray(0, 16),
+      });
+
+      await expect(service.complete('u1', { parts })).rejects.toThrow(
+        'the content is not application/pdf',
+      );
+    });
+
+    it('should refuse an expired session', async () => {
+      send.mockResolvedValueOnce({
+        Item: { ...session, expiresAt: '2020-01-01T00:00:00.000Z' },
+      });
+
+      await expect(service.complete('u1', { parts })).rejects.toThrow(
+        'expired',
+      );
+      expect(s3Service.completeMultipartUpload).not.toHaveBeenCalled();
+    });
+  });
+});
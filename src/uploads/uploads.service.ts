@@ -0,0 +1,377 @@
+import {
+  BadRequestException,
+  HttpException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { S3Service } from '../s3/s3.service';
+import { BooksService } from '../books/books.service';
+import { AuthorsService } from '../authors/authors.service';
+import { CreateUploadDto } from './dto/create-upload.dto';
+import { CompleteUploadDto } from './dto/complete-upload.dto';
+import {
+  UploadPartUrl,
+  UploadPurpose,
+  UploadSession,
+  UploadStatus,
+} from './interfaces/upload.interface';
+import {
+  UploadConflictException,
+  UploadNotFoundException,
+  UploadVerificationException,
+} from './exceptions/upload.exceptions';
+import { sniffContentType } from './utils/content-type.util';
+import { MAX_INSPECTED_PDF_SIZE } from '../pdfs/pdfs.service';
+
+const MB = 1024 * 1024;
+
+// Where each kind of file is stored and what it may be
+const UPLOAD_RULES: Record<
+  UploadPurpose,
+  { folder: string; contentTypes: string[]; maxSize: number }
+> = {
+  [UploadPurpose.BOOK_COVER]: {
+    folder: 'books/covers',
+    contentTypes: ['image/jpeg', 'image/png'],
+    maxSize: 10 * MB,
+  },
+  [UploadPurpose.BOOK_PDF]: {
+    folder: 'books/pdfs',
+    contentTypes: ['application/pdf'],
+    maxSize: 2048 * MB,
+  },
+  [UploadPurpose.AUTHOR_PROFILE]: {
+    folder: 'authors/profiles',
+    contentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    maxSize: 10 * MB,
+  },
+};
+
+@Injectable()
+export class UploadsService {
+  private readonly tableName = 'Uploads';
+  private readonly logger = new Logger(UploadsService.name);
+  // How long the browser has to send every part and finalise
+  private readonly sessionTtlSeconds = 60 * 60;
+  // S3 takes parts of at least 5 MB, and at most 10,000 of them
+  private readonly minPartSize = 8 * MB;
+  private readonly maxParts = 10000;
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly s3Service: S3Service,
+    private readonly booksService: BooksService,
+    private readonly authorsService: AuthorsService,
+  ) {}
+
+  // Opens a multipart upload for the file declared and presigns a URL for
+  // each of its parts
+  async create(
+    createUploadDto: CreateUploadDto,
+    createdBy: string,
+  ): Promise<{ upload: UploadSession; partUrls: UploadPartUrl[] }> {
+    const { purpose, targetId, fileName, contentType, size, checksum } =
+      createUploadDto;
+    const rule = UPLOAD_RULES[purpose];
+    if (!rule.contentTypes.includes(contentType)) {
+      throw new BadRequestException(
+        `A ${purpose} upload must be one of ${rule.contentTypes.join(', ')}`,
+      );
+    }
+    if (size > rule.maxSize) {
+      throw new BadRequestException(
+        `A ${purpose} upload must be at most ${rule.maxSize / MB} MB`,
+      );
+    }
+
+    try {
+      await this.findTarget(purpose, targetId);
+
+      const key = `${rule.folder}/${uuidv4()}-${fileName}`;
+      const partSize = Math.max(
+        this.minPartSize,
+        Math.ceil(size / this.maxParts),
+      );
+      const partsCount = Math.ceil(size / partSize);
+      const uploadId = await this.s3Service.createMultipartUpload(
+        key,
+        contentType,
+      );
+      const urls = await this.s3Service.getPartUploadUrls(
+        key,
+        uploadId,
+        partsCount,
+        this.sessionTtlSeconds,
+      );
+
+      const now = new Date();
+      const upload: UploadSession = {
+        id: uuidv4(),
+        purpose,
+        targetId,
+        key,
+        uploadId,
+        fileName,
+        contentType,
+        size,
+        checksum,
+        partSize,
+        partsCount,
+        status: UploadStatus.PENDING,
+        createdBy,
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        expiresAt: new Date(
+          now.getTime() + this.sessionTtlSeconds * 1000,
+        ).toISOString(),
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: upload,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+
+      this.logger.log(
+        `Opened upload ${upload.id} of ${partsCount} parts for ${purpose} ${targetId}`,
+      );
+      return {
+        upload,
+        partUrls: urls.map((url, i) => ({ partNumber: i + 1, url })),
+      };
+    } catch (error) {
+      this.logger.error(
+        `Failed to open upload for ${purpose} ${targetId}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to open upload');
+    }
+  }
+
+  async findOne(id: string): Promise<UploadSession> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { id },
+        }),
+      );
+
+      if (!response.Item) {
+        throw new UploadNotFoundException(id);
+      }
+      return response.Item as UploadSession;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch upload ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof UploadNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch upload');
+    }
+  }
+
+  // Assembles the parts, then reads the stored file back and attaches it to
+  // its book or author only when its size, checksum and content match what
+  // was declared. A file that does not match is deleted, and so is a picture
+  // once its renditions are stored
+  async complete(
+    id: string,
+    completeUploadDto: CompleteUploadDto,
+  ): Promise<UploadSession> {
+    try {
+      const upload = await this.findPending(id);
+
+      await this.s3Service.completeMultipartUpload(
+        upload.key,
+        upload.uploadId,
+        [...completeUploadDto.parts].sort(
+          (a, b) => a.partNumber - b.partNumber,
+        ),
+      );
+
+      const fileUrl = this.s3Service.urlOf(upload.key);
+      const file = await this.s3Service.inspectFile(upload.key);
+      const problem =
+        file.size !== upload.size
+          ? `expected ${upload.size} bytes, received ${file.size}`
+          : file.sha256 !== upload.checksum
+            ? 'the checksum does not match'
+            : sniffContentType(file.head) !== upload.contentType
+              ? `the content is not ${upload.contentType}`
+              : undefined;
+
+      if (problem) {
+        await this.s3Service.deleteFile(fileUrl);
+        await this.settle(id, UploadStatus.FAILED, { failureReason: problem });
+        throw new UploadVerificationException(id, problem);
+      }
+
+      let storedUrl: string;
+      try {
+        storedUrl = await this.attach(upload, fileUrl);
+      } catch (error) {
+        // A picture or PDF that passed the signature check but does not open
+        if (!(error instanceof BadRequestException)) {
+          throw error;
+        }
+        await this.s3Service.deleteFile(fileUrl);
+        await this.settle(id, UploadStatus.FAILED, {
+          failureReason: error.message,
+        });
+        throw new UploadVerificationException(id, error.message);
+      }
+      const completed = await this.settle(id, UploadStatus.COMPLETED, {
+        fileUrl: storedUrl,
+      });
+
+      this.logger.log(
+        `Attached upload ${id} to ${upload.purpose} ${upload.targetId}`,
+      );
+      return completed;
+    } catch (error) {
+      this.logger.error(
+        `Failed to complete upload ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to complete upload');
+    }
+  }
+
+  // Drops the parts received so far
+  async abort(id: string): Promise<UploadSession> {
+    try {
+      const upload = await this.findOne(id);
+      if (upload.status !== UploadStatus.PENDING) {
+        throw new UploadConflictException(
+          `Upload with ID "${id}" is already ${upload.status.toLowerCase()}`,
+        );
+      }
+
+      await this.s3Service.abortMultipartUpload(upload.key, upload.uploadId);
+      const aborted = await this.settle(id, UploadStatus.ABORTED);
+
+      this.logger.log(`Aborted upload ${id}`);
+      return aborted;
+    } catch (error) {
+      this.logger.error(
+        `Failed to abort upload ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to abort upload');
+    }
+  }
+
+  private async findPending(id: string): Promise<UploadSession> {
+    const upload = await this.findOne(id);
+    if (upload.status !== UploadStatus.PENDING) {
+      throw new UploadConflictException(
+        `Upload with ID "${id}" is already ${upload.status.toLowerCase()}`,
+      );
+    }
+    if (upload.expiresAt <= new Date().toISOString()) {
+      throw new UploadConflictException(
+        `Upload with ID "${id}" expired, abort it and start a new one`,
+      );
+    }
+    return upload;
+  }
+
+  private async findTarget(
+    purpose: UploadPurpose,
+    targetId: string,
+  ): Promise<void> {
+    if (purpose === UploadPurpose.AUTHOR_PROFILE) {
+      await this.authorsService.findOne(targetId);
+    } else {
+      await this.booksService.findOne(targetId);
+    }
+  }
+
+  // The URL the target ends up pointing at. Pictures are replaced by their
+  // renditions, the original one standing for the upload
+  private async attach(
+    upload: UploadSession,
+    fileUrl: string,
+  ): Promise<string> {
+    if (upload.purpose === UploadPurpose.BOOK_PDF) {
+      const pdf =
+        upload.size <= MAX_INSPECTED_PDF_SIZE
+          ? await this.s3Service.downloadFile(upload.key)
+          : undefined;
+      await this.booksService.attachPdf(upload.targetId, fileUrl, pdf);
+      return fileUrl;
+    }
+
+    const image = await this.s3Service.downloadFile(upload.key);
+    await this.s3Service.deleteFile(fileUrl);
+    if (upload.purpose === UploadPurpose.BOOK_COVER) {
+      const book = await this.booksService.attachCover(upload.targetId, image);
+      return book.covers.original;
+    }
+    const author = await this.authorsService.attachProfile(
+      upload.targetId,
+      image,
+    );
+    return author.profilePictures.original;
+  }
+
+  // Moves a pending session to its final status; a session settled by a
+  // concurrent request is left alone
+  private async settle(
+    id: string,
+    status: UploadStatus,
+    fields: Partial<Pick<UploadSession, 'fileUrl' | 'failureReason'>> = {},
+  ): Promise<UploadSession> {
+    const updateExpression = ['#status = :status', 'updatedAt = :updatedAt'];
+    const expressionAttributeValues: Record<string, any> = {
+      ':status': status,
+      ':pending': UploadStatus.PENDING,
+      ':updatedAt': new Date().toISOString(),
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      updateExpression.push(`${key} = :${key}`);
+      expressionAttributeValues[`:${key}`] = value;
+    }
+
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          ConditionExpression: '#status = :pending',
+          ExpressionAttributeNames: { '#status': 'status' },
+          ExpressionAttributeValues: expressionAttributeValues,
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+      return response.Attributes as UploadSession;
+    } catch (error) {
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new UploadConflictException(
+          `Upload with ID "${id}" was settled by another request`,
+        );
+      }
+      throw error;
+    }
+  }
+}
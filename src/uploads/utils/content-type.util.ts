@@ -0,0 +1,20 @@
+const SIGNATURES: { contentType: string; bytes: number[]; offset?: number }[] =
+  [
+    { contentType: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+    {
+      contentType: 'image/png',
+      bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+    },
+    { contentType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+    { contentType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+    // "WEBP" after the RIFF header and its length
+    { contentType: 'image/webp', bytes: [0x57, 0x45, 0x42, 0x50], offset: 8 },
+  ];
+
+// The content type told by a file's leading bytes, for the types uploads
+// accept; undefined when none matches
+export function sniffContentType(head: Buffer): string | undefined {
+  return SIGNATURES.find(({ bytes, offset = 0 }) =>
+    bytes.every((byte, i) => head[offset + i] === byte),
+  )?.contentType;
+}
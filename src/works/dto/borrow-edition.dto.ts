@@ -0,0 +1,8 @@
+import { IntersectionType } from '@nestjs/mapped-types';
+import { BorrowBookDto } from '../../books/dto/borrow-book.dto';
+import { FindEditionsQueryDto } from './find-editions-query.dto';
+
+export class BorrowEditionDto extends IntersectionType(
+  BorrowBookDto,
+  FindEditionsQueryDto,
+) {}
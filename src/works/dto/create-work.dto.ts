@@ -0,0 +1,30 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateWorkDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(300)
+  title: string;
+
+  @IsString()
+  @IsOptional()
+  @MaxLength(2000)
+  description?: string;
+
+  @Matches(/^[a-z]{2}$/, {
+    message: 'originalLanguage must be an ISO 639-1 code such as "en"',
+  })
+  @IsOptional()
+  originalLanguage?: string;
+
+  @IsInt()
+  @IsOptional()
+  firstPublishedYear?: number;
+}
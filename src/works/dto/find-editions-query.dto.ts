@@ -0,0 +1,15 @@
+import { IsEnum, IsOptional, Matches } from 'class-validator';
+import { BookFormat } from '../../books/interfaces/book.interface';
+
+// Narrows the editions of a work to the ones a reader can use
+export class FindEditionsQueryDto {
+  @Matches(/^[a-z]{2}$/, {
+    message: 'language must be an ISO 639-1 code such as "en"',
+  })
+  @IsOptional()
+  language?: string;
+
+  @IsEnum(BookFormat)
+  @IsOptional()
+  format?: BookFormat;
+}
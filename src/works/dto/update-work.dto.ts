@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateWorkDto } from './create-work.dto';
+
+export class UpdateWorkDto extends PartialType(CreateWorkDto) {}
@@ -0,0 +1,22 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export class WorkNotFoundException extends HttpException {
+  constructor(id: string) {
+    super(`Work with ID "${id}" not found`, HttpStatus.NOT_FOUND);
+  }
+}
+
+export class WorkHasEditionsException extends HttpException {
+  constructor(id: string) {
+    super(
+      `Work with ID "${id}" still has editions, detach its books first`,
+      HttpStatus.CONFLICT,
+    );
+  }
+}
+
+export class WorkUpdateException extends HttpException {
+  constructor(error: string) {
+    super(`Failed to update work: ${error}`, HttpStatus.INTERNAL_SERVER_ERROR);
+  }
+}
@@ -0,0 +1,40 @@
+import { BookFormat, BookStatus } from '../../books/interfaces/book.interface';
+
+// The abstract work that editions are printings, translations or formats of
+export interface Work {
+  id: string;
+  title: string;
+  description?: string;
+  // ISO 639-1 code of the language the work was written in
+  originalLanguage?: string;
+  firstPublishedYear?: number;
+  // Books catalogued as editions, maintained with the book that moves it
+  editionsCount: number;
+  createdAt: string;
+  updatedAt: string;
+  // Populated when fetching a single work
+  editions?: Edition[];
+  availability?: WorkAvailability;
+}
+
+export interface Edition {
+  bookId: string;
+  title: string;
+  isbn: string;
+  language?: string;
+  format?: BookFormat;
+  publisher?: string;
+  pageCount?: number;
+  publishedYear: number;
+  status: BookStatus;
+  quantity: number;
+  totalCopies: number;
+}
+
+// Copies on the shelf and owned across every edition of the work
+export interface WorkAvailability {
+  available: boolean;
+  availableCopies: number;
+  totalCopies: number;
+  availableEditions: number;
+}
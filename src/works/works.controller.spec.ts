@@ -0,0 +1,61 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WorksController } from './works.controller';
+import { WorksService } from './works.service';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+
+describe('WorksController', () => {
+  let controller: WorksController;
+  let worksService: { findAll: jest.Mock; borrowAnyEdition: jest.Mock };
+
+  beforeEach(async () => {
+    worksService = {
+      findAll: jest.fn().mockResolvedValue({
+        message: 'No works found',
+        works: [],
+      }),
+      borrowAnyEdition: jest.fn().mockResolvedValue({ id: 'b1' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WorksController],
+      providers: [{ provide: WorksService, useValue: worksService }],
+    })
+      .overrideGuard(CognitoAuthGuard)
+      .useValue({ canActivate: () => true })
+      .overrideGuard(RolesGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+
+    controller = module.get<WorksController>(WorksController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should pass the page size as a number', async () => {
+    await controller.findAll('5' as any);
+
+    expect(worksService.findAll).toHaveBeenCalledWith(5, undefined);
+  });
+
+  it('should borrow on behalf of the signed-in reader', async () => {
+    const borrowEditionDto = {
+      startDate: '2026-10-19',
+      returnDate: '2026-11-02',
+      language: 'en',
+    };
+
+    await controller.borrow('the-trial', borrowEditionDto, {
+      user: { sub: 'reader', groups: ['students'] },
+    });
+
+    expect(worksService.borrowAnyEdition).toHaveBeenCalledWith(
+      'the-trial',
+      borrowEditionDto,
+      'reader',
+      ['students'],
+    );
+  });
+});
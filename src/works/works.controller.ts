@@ -0,0 +1,133 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  Request,
+  UseGuards,
+  UseInterceptors,
+  ValidationPipe,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { WorksService } from './works.service';
+import { CreateWorkDto } from './dto/create-work.dto';
+import { UpdateWorkDto } from './dto/update-work.dto';
+import { FindEditionsQueryDto } from './dto/find-editions-query.dto';
+import { BorrowEditionDto } from './dto/borrow-edition.dto';
+import { Work } from './interfaces/work.interface';
+import { Book } from '../books/interfaces/book.interface';
+import { HidePdfInterceptor } from '../books/interceptors/hide-pdf.interceptor';
+import { CognitoAuthGuard } from '../auth/cognito.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles, UserRole } from '../auth/decorators/roles.decorator';
+
+@Controller('works')
+@UseInterceptors(HidePdfInterceptor)
+export class WorksController {
+  constructor(private readonly worksService: WorksService) {}
+
+  @Post()
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a work to group editions under' })
+  @ApiResponse({ status: 201, description: 'Work created successfully' })
+  async create(
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    createWorkDto: CreateWorkDto,
+  ): Promise<Work> {
+    return this.worksService.create(createWorkDto);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all works' })
+  @ApiResponse({ status: 200, description: 'Returns a page of works' })
+  async findAll(
+    @Query('limit') limit = 10,
+    @Query('lastEvaluatedKey') lastEvaluatedKey?: string,
+  ): Promise<{ message: string; works: Work[]; lastEvaluatedKey?: string }> {
+    return this.worksService.findAll(Number(limit), lastEvaluatedKey);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a work with its editions' })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Returns the work, its editions and their availability added up',
+  })
+  @ApiResponse({ status: 404, description: 'Work not found' })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    query: FindEditionsQueryDto,
+  ): Promise<Work> {
+    return this.worksService.findOne(id, query);
+  }
+
+  @Patch(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update a work' })
+  @ApiResponse({ status: 200, description: 'Work updated successfully' })
+  @ApiResponse({ status: 404, description: 'Work not found' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateWorkDto: UpdateWorkDto,
+  ): Promise<Work> {
+    return this.worksService.update(id, updateWorkDto);
+  }
+
+  @Delete(':id')
+  @UseGuards(CognitoAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete a work without editions' })
+  @ApiResponse({ status: 200, description: 'Work deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Work not found' })
+  @ApiResponse({ status: 409, description: 'The work still has editions' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    return this.worksService.remove(id);
+  }
+
+  @Patch(':id/borrow')
+  @UseGuards(CognitoAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Borrow any available edition of a work',
+    description:
+      'The language and format narrow the editions to choose from; the edition with the most copies on the shelf is lent',
+  })
+  @ApiResponse({ status: 200, description: 'Returns the edition borrowed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - No matching edition is available',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 404, description: 'Work not found' })
+  async borrow(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    borrowEditionDto: BorrowEditionDto,
+    @Request() req,
+  ): Promise<Book> {
+    return this.worksService.borrowAnyEdition(
+      id,
+      borrowEditionDto,
+      req.user.sub,
+      req.user.groups,
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { WorksService } from './works.service';
+import { WorksController } from './works.controller';
+import { DynamoDBModule } from '../dynamodb/dynamodb.module';
+import { AuthModule } from '../auth/auth.module';
+import { BooksModule } from '../books/books.module';
+import { CopiesModule } from '../copies/copies.module';
+
+@Module({
+  imports: [DynamoDBModule, AuthModule, BooksModule, CopiesModule],
+  controllers: [WorksController],
+  providers: [WorksService],
+  exports: [WorksService],
+})
+export class WorksModule {}
@@ -0,0 +1,214 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { WorksService } from './works.service';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { BooksService } from '../books/books.service';
+import { CopiesService } from '../copies/copies.service';
+import { BookConflictException } from '../books/exceptions/book.exceptions';
+import { BookFormat, BookStatus } from '../books/interfaces/book.interface';
+
+describe('WorksService', () => {
+  let service: WorksService;
+  let send: jest.Mock;
+  let borrow: jest.Mock;
+  let findAvailable: jest.Mock;
+
+  const editions = [
+    {
+      id: 'b1',
+      title: 'The Trial',
+      isbn: '9780805209990',
+      language: 'en',
+      format: BookFormat.PAPERBACK,
+      publishedYear: 1998,
+      quantity: 1,
+      totalCopies: 2,
+    },
+    {
+      id: 'b2',
+      title: 'Der Prozess',
+      isbn: '9783596294312',
+      language: 'de',
+      format: BookFormat.HARDCOVER,
+      publishedYear: 1925,
+      quantity: 0,
+      totalCopies: 1,
+    },
+    {
+      id: 'b3',
+      title: 'The Trial',
+      isbn: '9780141182902',
+      language: 'en',
+      format: BookFormat.EBOOK,
+      publishedYear: 2000,
+      quantity: 3,
+      totalCopies: 3,
+    },
+  ];
+
+  // Answers the work, its edition links and the batch get of the books
+  const mockWork = () =>
+    send
+      .mockResolvedValueOnce({
+        Item: { id: 'the-trial', title: 'The Trial', editionsCount: 3 },
+      })
+      .mockResolvedValueOnce({
+        Items: editions.map((book) => ({
+          workId: 'the-trial',
+          bookId: book.id,
+        })),
+      })
+      .mockResolvedValueOnce({ Responses: { Books: editions } });
+
+  beforeEach(async () => {
+    send = jest.fn();
+    borrow = jest.fn();
+    findAvailable = jest.fn();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorksService,
+        {
+          provide: DynamoDBService,
+          useValue: { documentClient: { send } },
+        },
+        {
+          provide: BooksService,
+          useValue: { borrow },
+        },
+        {
+          provide: CopiesService,
+          useValue: { findAvailable },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WorksService>(WorksService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should list the editions and add up their availability', async () => {
+    mockWork();
+
+    const work = await service.findOne('the-trial');
+
+    expect(work.editions.map((edition) => edition.bookId)).toEqual([
+      'b3',
+      'b1',
+      'b2',
+    ]);
+    expect(work.editions[2].status).toBe(BookStatus.UNAVAILABLE);
+    expect(work.availability).toEqual({
+      available: true,
+      availableCopies: 4,
+      totalCopies: 6,
+      availableEditions: 2,
+    });
+  });
+
+  it('should narrow the editions to a language and format', async () => {
+    mockWork();
+
+    const work = await service.findOne('the-trial', {
+      language: 'de',
+      format: BookFormat.HARDCOVER,
+    });
+
+    expect(work.editions.map((edition) => edition.bookId)).toEqual(['b2']);
+    expect(work.availability.available).toBe(false);
+  });
+
+  it('should refuse to delete a work with editions', async () => {
+    send
+      .mockResolvedValueOnce({ Item: { id: 'the-trial', editionsCount: 3 } })
+      .mockRejectedValueOnce(
+        new ConditionalCheckFailedException({
+          message: 'The conditional request failed',
+          $metadata: {},
+        }),
+      );
+
+    await expect(service.remove('the-trial')).rejects.toThrow(
+      'still has editions',
+    );
+  });
+
+  describe('borrowAnyEdition', () => {
+    const borrowEditionDto = {
+      startDate: '2026-10-19',
+      returnDate: '2026-11-02',
+    };
+
+    it('should lend the edition with the most copies on the shelf', async () => {
+      mockWork();
+      borrow.mockResolvedValueOnce({ id: 'b3' });
+
+      await service.borrowAnyEdition(
+        'the-trial',
+        borrowEditionDto,
+        'reader',
+        [],
+      );
+
+      expect(borrow).toHaveBeenCalledWith(
+        'b3',
+        { ...borrowEditionDto, borrowerId: 'reader' },
+        [],
+      );
+    });
+
+    it('should try the next edition when the last copy was taken', async () => {
+      mockWork();
+      borrow
+        .mockRejectedValueOnce(new BookConflictException('Taken'))
+        .mockResolvedValueOnce({ id: 'b1' });
+
+      const book = await service.borrowAnyEdition(
+        'the-trial',
+        borrowEditionDto,
+        'reader',
+      );
+
+      expect(book.id).toBe('b1');
+      expect(borrow).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pass over editions with no copy at the pickup branch', async () => {
+      mockWork();
+      findAvailable
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce({ barcode: 'c1', branchId: 'north' });
+      borrow.mockResolvedValueOnce({ id: 'b1' });
+
+      const book = await service.borrowAnyEdition(
+        'the-trial',
+        { ...borrowEditionDto, pickupBranchId: 'north' },
+        'reader',
+      );
+
+      expect(findAvailable.mock.calls).toEqual([
+        ['b3', 'north'],
+        ['b1', 'north'],
+      ]);
+      expect(book.id).toBe('b1');
+      expect(borrow).toHaveBeenCalledTimes(1);
+      expect(borrow.mock.calls[0][0]).toBe('b1');
+    });
+
+    it('should refuse when no matching edition is available', async () => {
+      mockWork();
+
+      await expect(
+        service.borrowAnyEdition(
+          'the-trial',
+          { ...borrowEditionDto, language: 'de' },
+          'reader',
+        ),
+      ).rejects.toThrow('No edition of work with ID "the-trial" is available');
+      expect(borrow).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import {
+  BatchGetCommand,
+  DeleteCommand,
+  GetCommand,
+  PutCommand,
+  QueryCommand,
+  ScanCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { DynamoDBService } from '../dynamodb/dynamodb.service';
+import { BooksService } from '../books/books.service';
+import { Book, BookStatus } from '../books/interfaces/book.interface';
+import { BookConflictException } from '../books/exceptions/book.exceptions';
+import { CopiesService } from '../copies/copies.service';
+import { CreateWorkDto } from './dto/create-work.dto';
+import { UpdateWorkDto } from './dto/update-work.dto';
+import { FindEditionsQueryDto } from './dto/find-editions-query.dto';
+import { BorrowEditionDto } from './dto/borrow-edition.dto';
+import { Edition, Work, WorkAvailability } from './interfaces/work.interface';
+import {
+  WorkHasEditionsException,
+  WorkNotFoundException,
+  WorkUpdateException,
+} from './exceptions/work.exceptions';
+
+@Injectable()
+export class WorksService {
+  private readonly tableName = 'Works';
+  private readonly editionsTableName = 'WorkEditions';
+  private readonly logger = new Logger(WorksService.name);
+
+  constructor(
+    private readonly dynamoDBService: DynamoDBService,
+    private readonly booksService: BooksService,
+    private readonly copiesService: CopiesService,
+  ) {}
+
+  async create(createWorkDto: CreateWorkDto): Promise<Work> {
+    try {
+      const now = new Date().toISOString();
+      const work: Work = {
+        id: uuidv4(),
+        ...createWorkDto,
+        editionsCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await this.dynamoDBService.documentClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: work,
+          ConditionExpression: 'attribute_not_exists(id)',
+        }),
+      );
+
+      this.logger.log(`Created work with ID: ${work.id}`);
+      return work;
+    } catch (error) {
+      this.logger.error(`Failed to create work: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to create work');
+    }
+  }
+
+  async findAll(
+    limit: number,
+    lastEvaluatedKey?: string,
+  ): Promise<{ message: string; works: Work[]; lastEvaluatedKey?: string }> {
+    try {
+      const response = await this.dynamoDBService.documentClient.send(
+        new ScanCommand({
+          TableName: this.tableName,
+          Limit: limit,
+          ExclusiveStartKey: lastEvaluatedKey
+            ? { id: lastEvaluatedKey }
+            : undefined,
+        }),
+      );
+
+      const works = (response.Items || []) as Work[];
+
+      return {
+        message:
+          works.length > 0 ? 'Works retrieved successfully' : 'No works found',
+        works,
+        lastEvaluatedKey: response.LastEvaluatedKey
+          ? response.LastEvaluatedKey.id
+          : undefined,
+      };
+    } catch (error) {
+      this.logger.error(`Failed to fetch works: ${error.message}`, error.stack);
+      throw new InternalServerErrorException('Failed to fetch works');
+    }
+  }
+
+  // The work with its editions, narrowed to a language or format when asked,
+  // and the availability added up over the editions listed
+  async findOne(id: string, query: FindEditionsQueryDto = {}): Promise<Work> {
+    try {
+      const work = await this.getWork(id);
+
+      const bookIds: string[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+      do {
+        const response = await this.dynamoDBService.documentClient.send(
+          new QueryCommand({
+            TableName: this.editionsTableName,
+            KeyConditionExpression: 'workId = :workId',
+            ExpressionAttributeValues: { ':workId': id },
+            ExclusiveStartKey: exclusiveStartKey,
+          }),
+        );
+
+        bookIds.push(...(response.Items || []).map((link) => link.bookId));
+        exclusiveStartKey = response.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      const books = await this.batchGetBooks(bookIds);
+      work.editions = bookIds
+        .filter((bookId) => books.has(bookId))
+        .map((bookId) => this.toEdition(books.get(bookId)))
+        .filter(
+          (edition) =>
+            (!query.language || edition.language === query.language) &&
+            (!query.format || edition.format === query.format),
+        )
+        .sort(
+          (a, b) =>
+            b.publishedYear - a.publishedYear || a.title.localeCompare(b.title),
+        );
+      work.availability = this.availabilityOf(work.editions);
+
+      return work;
+    } catch (error) {
+      this.logger.error(
+        `Failed to fetch work ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof WorkNotFoundException) {
+        throw error;
+      }
+      throw new InternalServerErrorException('Failed to fetch work');
+    }
+  }
+
+  async update(id: string, updateWorkDto: UpdateWorkDto): Promise<Work> {
+    try {
+      const updateExpression = ['#updatedAt = :updatedAt'];
+      const expressionAttributeNames: Record<string, string> = {
+        '#updatedAt': 'updatedAt',
+      };
+      const expressionAttributeValues: Record<string, any> = {
+        ':updatedAt': new Date().toISOString(),
+      };
+
+      for (const key of [
+        'title',
+        'description',
+        'originalLanguage',
+        'firstPublishedYear',
+      ] as const) {
+        if (updateWorkDto[key] !== undefined) {
+          updateExpression.push(`#${key} = :${key}`);
+          expressionAttributeNames[`#${key}`] = key;
+          expressionAttributeValues[`:${key}`] = updateWorkDto[key];
+        }
+      }
+
+      const response = await this.dynamoDBService.documentClient.send(
+        new UpdateCommand({
+          TableName: this.tableName,
+          Key: { id },
+          UpdateExpression: `SET ${updateExpression.join(', ')}`,
+          ExpressionAttributeNames: expressionAttributeNames,
+          ExpressionAttributeValues: expressionAttributeValues,
+          ConditionExpression: 'attribute_exists(id)',
+          ReturnValues: 'ALL_NEW',
+        }),
+      );
+
+      this.logger.log(`Updated work with ID: ${id}`);
+      return response.Attributes as Work;
+    } catch (error) {
+      this.logger.error(
+        `Failed to update work ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new WorkNotFoundException(id);
+      }
+      throw new WorkUpdateException(error.message);
+    }
+  }
+
+  // Refused while books are still catalogued as editions, so none is left
+  // pointing at a missing work
+  async remove(id: string): Promise<{ message: string }> {
+    try {
+      await this.getWork(id);
+
+      await this.dynamoDBService.documentClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { id },
+          ConditionExpression: 'attribute_exists(id) AND editionsCount = :zero',
+          ExpressionAttributeValues: { ':zero': 0 },
+        }),
+      );
+
+      this.logger.log(`Deleted work with ID: ${id}`);
+      return { message: `Work with ID "${id}" has been successfully deleted` };
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete work ${id}: ${error.message}`,
+        error.stack,
+      );
+      if (error instanceof WorkNotFoundException) {
+        throw error;
+      }
+      if (error instanceof ConditionalCheckFailedException) {
+        throw new WorkHasEditionsException(id);
+      }
+      throw new InternalServerErrorException('Failed to delete work');
+    }
+  }
+
+  // Lends whichever matching edition has the most copies on the shelf, with
+  // one at the pickup branch when the reader chose one. When the last copy of
+  // an edition is taken concurrently, the next edition is tried
+  async borrowAnyEdition(
+    id: string,
+    borrowEditionDto: BorrowEditionDto,
+    borrowerId: string,
+    groups: string[] = [],
+  ): Promise<Book> {
+    const { startDate, returnDate, pickupBranchId, language, format } =
+      borrowEditionDto;
+    const work = await this.findOne(id, { language, format });
+    const candidates = work.editions
+      .filter((edition) => edition.quantity > 0)
+      .sort((a, b) => b.quantity - a.quantity);
+
+    for (const edition of candidates) {
+      if (
+        pickupBranchId &&
+        !(await this.copiesService.findAvailable(
+          edition.bookId,
+          pickupBranchId,
+        ))
+      ) {
+        continue;
+      }
+
+      try {
+        return await this.booksService.borrow(
+          edition.bookId,
+          { startDate, returnDate, pickupBranchId, borrowerId },
+          groups,
+        );
+      } catch (error) {
+        if (!(error instanceof BookConflictException)) {
+          throw error;
+        }
+        this.logger.warn(
+          `Edition ${edition.bookId} of work ${id} was taken concurrently, trying the next one`,
+        );
+      }
+    }
+
+    throw new BadRequestException(
+      `No edition of work with ID "${id}" is available for borrowing${pickupBranchId ? ` at branch "${pickupBranchId}"` : ''}. Place a hold on one of its editions to join the waiting list`,
+    );
+  }
+
+  private toEdition(book: Book): Edition {
+    return {
+      bookId: book.id,
+      title: book.title,
+      isbn: book.isbn,
+      language: book.language,
+      format: book.format,
+      publisher: book.publisher,
+      pageCount: book.pageCount,
+      publishedYear: book.publishedYear,
+      status: book.quantity > 0 ? BookStatus.AVAILABLE : BookStatus.UNAVAILABLE,
+      quantity: book.quantity,
+      totalCopies: book.totalCopies,
+    };
+  }
+
+  private availabilityOf(editions: Edition[]): WorkAvailability {
+    const availableCopies = editions.reduce(
+      (sum, edition) => sum + edition.quantity,
+      0,
+    );
+    return {
+      available: availableCopies > 0,
+      availableCopies,
+      totalCopies: editions.reduce(
+        (sum, edition) => sum + (edition.totalCopies ?? 0),
+        0,
+      ),
+      availableEditions: editions.filter((edition) => edition.quantity > 0)
+        .length,
+    };
+  }
+
+  private async getWork(id: string): Promise<Work> {
+    const response = await this.dynamoDBService.documentClient.send(
+      new GetCommand({
+        TableName: this.tableName,
+        Key: { id },
+      }),
+    );
+
+    if (!response.Item) {
+      throw new WorkNotFoundException(id);
+    }
+    return response.Item as Work;
+  }
+
+  private async batchGetBooks(ids: string[]): Promise<Map<string, Book>> {
+    const books = new Map<string, Book>();
+
+    // BatchGetItem accepts at most 100 keys per request
+    for (let i = 0; i < ids.length; i += 100) {
+      let requestItems: Record<string, any> = {
+        Books: { Keys: ids.slice(i, i + 100).map((id) => ({ id })) },
+      };
+
+      while (requestItems && Object.keys(requestItems).length > 0) {
+        const response = await this.dynamoDBService.documentClient.send(
+          new BatchGetCommand({ RequestItems: requestItems }),
+        );
+
+        for (const book of (response.Responses?.Books || []) as Book[]) {
+          books.set(book.id, book);
+        }
+        requestItems = response.UnprocessedKeys;
+      }
+    }
+
+    return books;
+  }
+}